@@ -3,6 +3,8 @@ import { validateQuery } from "@/lib/validation";
 import { withTimeout, TIMEOUTS } from "@/lib/timeout";
 import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
 import { getModelFallbackClient } from "@/lib/model-fallback";
+import { withWorkspace } from "@/lib/workspace";
+import { beginUsage } from "@/lib/usage";
 
 /**
  * Compare Chat API Route - Generic LLM Response (No RAG)
@@ -28,6 +30,10 @@ import { getModelFallbackClient } from "@/lib/model-fallback";
  */
 
 export async function POST(request: NextRequest) {
+  return withWorkspace(request, () => handlePost(request));
+}
+
+async function handlePost(request: NextRequest) {
   try {
     // ========================================
     // Step 1: Parse and Validate Input
@@ -45,6 +51,10 @@ export async function POST(request: NextRequest) {
     // Use the cleaned, sanitized query
     const cleanedQuery = validation.cleanedQuery!;
 
+    // Counts against the workspace's query quota
+    const meter = await beginUsage("/api/chat/compare", "query", "query");
+    if (meter instanceof NextResponse) return meter;
+
     // ========================================
     // Step 2: Generate Generic LLM Response
     // ========================================
@@ -63,11 +73,21 @@ Provide a helpful answer based on your general training knowledge. You may menti
 
     // Generate response with timeout protection and automatic model fallback
     // Primary: Claude Sonnet 4.5, falls back to Groq/Cerebras/OpenRouter
-    const { text: responseText, modelUsed } = await withTimeout(
-      fallbackClient.generateContent(genericPrompt),
-      TIMEOUTS.LLM_GENERATION,
-      "Generic LLM response generation"
-    );
+    let generated: { text: string; modelUsed: string };
+    try {
+      generated = await meter.run(() => withTimeout(
+        fallbackClient.generateContent(genericPrompt),
+        TIMEOUTS.LLM_GENERATION,
+        "Generic LLM response generation"
+      ));
+    } catch (error) {
+      // No answer: the query doesn't count against the quota
+      await meter.release();
+      throw error;
+    } finally {
+      await meter.finish();
+    }
+    const { text: responseText, modelUsed } = generated;
 
     console.log(`[Compare API] Model used: ${modelUsed}`);
 
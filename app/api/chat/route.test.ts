@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { supabaseAdmin } from '@/lib/supabase';
+import { getModelFallbackClient } from '@/lib/model-fallback';
+import { multiQueryRAG } from '@/lib/multi-query-rag';
+import { tryStructuredLookup } from '@/lib/structured-lookup';
+import { setCachedResponse } from '@/lib/query-cache';
+import { runInWorkspace } from '@/lib/workspace';
+import { QUOTA_ALLOWED, QUOTA_EXHAUSTED, rpcCalls, usageRpc } from '@/tests/helpers/usage-rpc';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {},
+  supabaseAdmin: { rpc: vi.fn() },
+  getSupabase: vi.fn(),
+}));
+
+vi.mock('@/lib/model-fallback', () => ({
+  getModelFallbackClient: vi.fn(),
+}));
+
+vi.mock('@/lib/multi-query-rag', () => ({
+  multiQueryRAG: vi.fn(),
+}));
+
+vi.mock('@/lib/structured-lookup', () => ({
+  tryStructuredLookup: vi.fn(),
+}));
+
+const WORKSPACE = 'default-workspace';
+const QUERY = 'What is the heat treatment for S32205 per A790?';
+
+const rpc = vi.mocked(supabaseAdmin.rpc);
+const generateContent = vi.fn();
+
+function chatRequest(body: Record<string, unknown> = {}): NextRequest {
+  return new NextRequest('http://localhost:3000/api/chat', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ query: QUERY, ...body }),
+  });
+}
+
+/** The data payloads of a streamed chat response, once the stream has closed */
+async function streamedData(response: Response): Promise<Record<string, unknown>[]> {
+  const text = await response.text();
+  return [...text.matchAll(/^data: (.*)$/gm)].map(([, data]) => JSON.parse(data));
+}
+
+describe('POST /api/chat', () => {
+  beforeEach(() => {
+    vi.stubEnv('DEFAULT_WORKSPACE_ID', WORKSPACE);
+    rpc.mockReset().mockImplementation(usageRpc({ query: QUOTA_ALLOWED }) as never);
+    generateContent.mockReset();
+    vi.mocked(getModelFallbackClient).mockReturnValue({ generateContent } as never);
+    vi.mocked(tryStructuredLookup).mockResolvedValue(null);
+    vi.mocked(multiQueryRAG).mockReset().mockResolvedValue({
+      chunks: [],
+      decomposition: { original: QUERY, intent: 'lookup', subqueries: [QUERY], requires_aggregation: false },
+      searchMetadata: { totalCandidates: 0, subqueryResults: [0], reranked: false, documentFilter: null },
+      evaluationConfidence: 0,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('streaming usage metering', () => {
+    it('should give back the query quota when generation fails', async () => {
+      generateContent.mockRejectedValue(new Error('All models failed'));
+
+      const response = await POST(chatRequest({ query: `${QUERY} (failure)` }));
+      const [result] = await streamedData(response);
+
+      expect(response.status).toBe(200);
+      expect(result).toHaveProperty('error');
+      expect(rpcCalls(rpc, 'release_quota')).toEqual([{ p_workspace_id: WORKSPACE, p_quota_type: 'query' }]);
+      expect(rpcCalls(rpc, 'record_usage')).toEqual([expect.objectContaining({ p_metadata: expect.objectContaining({ stream: true }) })]);
+    });
+
+    it('should meter a cached answer', async () => {
+      runInWorkspace({ workspaceId: WORKSPACE, userId: null, authMethod: 'default' }, () =>
+        setCachedResponse(QUERY, 'Solution annealed at 1870–2010 °F [1].', [], {
+          overall: 90,
+          retrieval: 90,
+          grounding: 90,
+          coherence: 90,
+        })
+      );
+
+      const [result] = await streamedData(await POST(chatRequest()));
+
+      expect(result).toMatchObject({ response: 'Solution annealed at 1870–2010 °F [1].' });
+      expect(multiQueryRAG).not.toHaveBeenCalled();
+      expect(rpcCalls(rpc, 'consume_quota')).toEqual([{ p_workspace_id: WORKSPACE, p_quota_type: 'query' }]);
+      expect(rpcCalls(rpc, 'release_quota')).toEqual([]);
+      expect(rpcCalls(rpc, 'record_usage')).toEqual([
+        expect.objectContaining({ p_endpoint: '/api/chat', p_method: 'query', p_tokens_used: 0 }),
+      ]);
+    });
+
+    it('should return 429 before any work runs when the query quota is used up', async () => {
+      rpc.mockImplementation(usageRpc({ query: QUOTA_EXHAUSTED }) as never);
+
+      const response = await POST(chatRequest());
+
+      expect(response.status).toBe(429);
+      expect(await response.json()).toMatchObject({ code: 'QUOTA_EXCEEDED' });
+      expect(tryStructuredLookup).not.toHaveBeenCalled();
+      expect(multiQueryRAG).not.toHaveBeenCalled();
+      expect(generateContent).not.toHaveBeenCalled();
+      expect(rpcCalls(rpc, 'record_usage')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_PDF_SIZE, validatePdfMagicBytes } from "@/lib/validation";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import {
+  checkMtrCompliance,
+  formatComplianceCsv,
+  parseMtrPdf,
+  type MeasuredValue,
+  type MtrResults,
+} from "@/lib/mtr-compliance";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * MTR Compliance API Route
+ *
+ * Checks a Mill Test Report against a specification and grade and returns a
+ * per-element / per-property pass/fail table. Each limit cites the spec
+ * document and page it was read from.
+ *
+ * Accepts either:
+ * - multipart/form-data: `file` (MTR PDF), `spec`, `grade`
+ * - JSON: { spec, grade, heatNumber?, chemistry: { C: 0.018, ... },
+ *           mechanical: { yieldStrength: { value: 74, unit: "ksi" }, ... } }
+ *
+ * Add `?format=csv` to download the report as CSV instead of JSON.
+ */
+
+const MAX_CODE_LENGTH = 50;
+
+const MECHANICAL_KEYS = ["yieldStrength", "tensileStrength", "elongation", "hardness"] as const;
+
+function validationResponse(message: string) {
+  const error = createValidationError(message);
+  return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+}
+
+function isMeasuredValue(value: unknown): value is MeasuredValue {
+  if (typeof value === "number") return Number.isFinite(value);
+  if (!value || typeof value !== "object") return false;
+  const { value: number, unit } = value as { value?: unknown; unit?: unknown };
+  return typeof number === "number" && Number.isFinite(number) && typeof unit === "string";
+}
+
+/**
+ * Validate JSON heat chemistry and mechanical results.
+ * Returns an error message, or the parsed results.
+ */
+function parseJsonResults(body: Record<string, unknown>): MtrResults | string {
+  const chemistry: Record<string, number> = {};
+  if (body.chemistry !== undefined) {
+    if (!body.chemistry || typeof body.chemistry !== "object") return "chemistry must be an object of element → wt %.";
+    for (const [symbol, value] of Object.entries(body.chemistry)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) return `Invalid chemistry value for ${symbol}.`;
+      chemistry[symbol] = value;
+    }
+  }
+
+  const mechanical: MtrResults["mechanical"] = {};
+  if (body.mechanical !== undefined) {
+    if (!body.mechanical || typeof body.mechanical !== "object") return "mechanical must be an object.";
+    const values = body.mechanical as Record<string, unknown>;
+    for (const key of MECHANICAL_KEYS) {
+      if (values[key] === undefined) continue;
+      if (!isMeasuredValue(values[key])) return `Invalid mechanical value for ${key}.`;
+      mechanical[key] = values[key];
+    }
+  }
+
+  if (Object.keys(chemistry).length === 0 && Object.keys(mechanical).length === 0) {
+    return "Provide chemistry and/or mechanical results.";
+  }
+
+  return {
+    heatNumber: typeof body.heatNumber === "string" ? body.heatNumber.slice(0, MAX_CODE_LENGTH) : undefined,
+    chemistry,
+    mechanical,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  return withWorkspace(request, () => handlePost(request));
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    // ========================================
+    // Step 1: Parse MTR (PDF upload or JSON)
+    // ========================================
+    let spec: unknown;
+    let grade: unknown;
+    let results: MtrResults;
+
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      spec = formData.get("spec");
+      grade = formData.get("grade");
+
+      if (!(file instanceof File)) {
+        return validationResponse("Missing MTR file.");
+      }
+      if (file.size > MAX_PDF_SIZE) {
+        return validationResponse(`File too large. Maximum size is ${MAX_PDF_SIZE / 1024 / 1024}MB.`);
+      }
+      const pdfCheck = await validatePdfMagicBytes(file);
+      if (!pdfCheck.isValid) {
+        return validationResponse(pdfCheck.error ?? "Invalid PDF file.");
+      }
+
+      results = await parseMtrPdf(await file.arrayBuffer());
+      if (Object.keys(results.chemistry).length === 0 && Object.keys(results.mechanical).length === 0) {
+        return validationResponse("Could not read chemistry or mechanical results from the MTR. Submit them as JSON instead.");
+      }
+    } else {
+      let body: Record<string, unknown>;
+      try {
+        body = await request.json();
+      } catch {
+        return validationResponse("Invalid request body. Expected JSON or multipart/form-data.");
+      }
+
+      spec = body.spec;
+      grade = body.grade;
+      const parsed = parseJsonResults(body);
+      if (typeof parsed === "string") {
+        return validationResponse(parsed);
+      }
+      results = parsed;
+    }
+
+    if (typeof spec !== "string" || !spec.trim() || spec.length > MAX_CODE_LENGTH) {
+      return validationResponse("Missing or invalid spec (e.g. \"A790\").");
+    }
+    if (typeof grade !== "string" || !grade.trim() || grade.length > MAX_CODE_LENGTH) {
+      return validationResponse("Missing or invalid grade (e.g. \"S32205\").");
+    }
+
+    // ========================================
+    // Step 2: Check Against Spec Limits
+    // ========================================
+    const report = await checkMtrCompliance(results, spec.trim(), grade.trim());
+    if (!report) {
+      return NextResponse.json(
+        { error: `No indexed documents found for ${spec.trim()}.`, code: "NOT_FOUND" },
+        { status: getErrorStatusCode("NOT_FOUND") }
+      );
+    }
+
+    // ========================================
+    // Step 3: Respond (JSON or CSV export)
+    // ========================================
+    if (request.nextUrl.searchParams.get("format") === "csv") {
+      const filename = `mtr-compliance-${report.spec}-${report.grade}${report.heatNumber ? `-${report.heatNumber}` : ""}.csv`
+        .replace(/[^A-Za-z0-9._-]/g, "_");
+      return new NextResponse(formatComplianceCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    const { response, status } = handleApiError(error, "MTR Compliance API");
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import { parseDocumentId } from "@/lib/document-library";
+import { getLatestJob, toProgress } from "@/lib/ingestion-jobs";
+import { getDocumentById } from "@/lib/vectorstore";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * Document Progress Route - Report how far processing has got
+ *
+ * Usage:
+ *   GET /api/documents/<id>/progress
+ *
+ * Returns the document status and its latest ingestion job: current stage,
+ * pages extracted, chunks created and embedded, embedding batches completed,
+ * overall percent and the error of a failed attempt. `progress` is null for
+ * documents processed before ingestion jobs existed (or not processed yet).
+ */
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withWorkspace(request, () => handleGet(id));
+}
+
+async function handleGet(id: string) {
+  const documentId = parseDocumentId(id);
+  if (documentId === null) {
+    const error = createValidationError("Invalid document id.");
+    return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+  }
+
+  try {
+    const doc = await getDocumentById(documentId);
+    if (!doc) {
+      return NextResponse.json(
+        { error: "Document not found.", code: "NOT_FOUND" },
+        { status: getErrorStatusCode("NOT_FOUND") }
+      );
+    }
+
+    const job = await getLatestJob(documentId);
+
+    return NextResponse.json({
+      documentId,
+      status: doc.status,
+      progress: job ? toProgress(job) : null,
+    });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "Document Progress");
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import { parseDocumentId } from "@/lib/document-library";
+import { processDocument, DocumentProcessingError } from "@/lib/document-processing";
+import { getLatestJob } from "@/lib/ingestion-jobs";
+import { getDocumentById } from "@/lib/vectorstore";
+import { withUsage } from "@/lib/usage";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * Document Reprocess Route - Re-index a document with the current settings
+ *
+ * Usage:
+ *   POST /api/documents/<id>/reprocess
+ *
+ * Re-runs extraction, semantic chunking and embedding (current chunk options
+ * and EMBEDDING_PROVIDER), then replaces the document's chunks and structured
+ * tables. The old chunks stay searchable until the new ones are embedded.
+ *
+ * Starts a new ingestion job (discarding an unfinished one). Returns 200 once
+ * the document is re-indexed, or 202 with the job's progress when the time
+ * budget ran out — then POST /api/documents/process resumes it.
+ */
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withWorkspace(request, () =>
+    withUsage("/api/documents/reprocess", "document_upload", null, () => handlePost(id))
+  );
+}
+
+async function handlePost(id: string) {
+  const documentId = parseDocumentId(id);
+  if (documentId === null) {
+    const error = createValidationError("Invalid document id.");
+    return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+  }
+
+  try {
+    const doc = await getDocumentById(documentId);
+    if (!doc) {
+      return NextResponse.json(
+        { error: "Document not found.", code: "NOT_FOUND" },
+        { status: getErrorStatusCode("NOT_FOUND") }
+      );
+    }
+
+    if (doc.status === "uploading") {
+      const error = createValidationError("Document upload has not been confirmed yet.");
+      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+    }
+
+    // A stalled job (its request timed out) may be restarted; a live one may not
+    const job = await getLatestJob(documentId);
+    if (job?.status === "running" && job.locked_until && new Date(job.locked_until) > new Date()) {
+      const error = createValidationError("Document is already being processed.");
+      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+    }
+
+    console.log(`[Reprocess API] Re-indexing document ${documentId} (${doc.filename})`);
+    const { progress, result } = await processDocument(doc, { restart: true });
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: true,
+          status: "processing",
+          progress,
+          message: `Reprocessing paused at stage "${progress.stage}" (${progress.percent}%). POST /api/documents/process to resume.`,
+        },
+        { status: 202 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: "indexed",
+      chunks: result.chunks,
+      tables: result.tables,
+      pages: result.pages,
+      progress,
+      message: `Reprocessed ${result.chunks} chunks across ${result.pages} pages`,
+    });
+  } catch (error) {
+    // A pipeline step failed; the document is already marked as "error"
+    if (error instanceof DocumentProcessingError) {
+      return NextResponse.json(error.response, { status: error.status });
+    }
+
+    const { response, status } = handleApiError(error, "Document Reprocessing");
+    return NextResponse.json(response, { status });
+  }
+}
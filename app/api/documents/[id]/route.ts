@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import {
+  deleteDocument,
+  parseDocumentId,
+  updateDocument,
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  type DocumentUpdate,
+} from "@/lib/document-library";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * Document Route - Rename, tag or delete one document
+ *
+ * Usage:
+ *   PATCH  /api/documents/<id> { displayName?, tags? }   # displayName: null resets to the filename
+ *   DELETE /api/documents/<id>                          # Removes chunks, tables and the stored PDF
+ *
+ * Both invalidate the workspace's document mappings and cached answers.
+ */
+
+function validationResponse(message: string) {
+  const error = createValidationError(message);
+  return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+}
+
+function notFoundResponse() {
+  return NextResponse.json(
+    { error: "Document not found.", code: "NOT_FOUND" },
+    { status: getErrorStatusCode("NOT_FOUND") }
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withWorkspace(request, () => handlePatch(request, id));
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withWorkspace(request, () => handleDelete(id));
+}
+
+async function handlePatch(request: NextRequest, id: string) {
+  const documentId = parseDocumentId(id);
+  if (documentId === null) return validationResponse("Invalid document id.");
+
+  let body: { displayName?: unknown; tags?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return validationResponse("Invalid request body. Expected JSON.");
+  }
+
+  const update: DocumentUpdate = {};
+
+  if (body.displayName !== undefined) {
+    if (body.displayName === null) {
+      update.displayName = null;
+    } else if (typeof body.displayName === "string" && body.displayName.trim() && body.displayName.trim().length <= MAX_DISPLAY_NAME_LENGTH) {
+      update.displayName = body.displayName.trim();
+    } else {
+      return validationResponse(`displayName must be a non-empty string (max ${MAX_DISPLAY_NAME_LENGTH} characters) or null.`);
+    }
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((tag) => typeof tag !== "string")) {
+      return validationResponse("tags must be an array of strings.");
+    }
+    const tags = [...new Set((body.tags as string[]).map((tag) => tag.trim()).filter(Boolean))];
+    if (tags.length > MAX_TAGS || tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      return validationResponse(`At most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters each.`);
+    }
+    update.tags = tags;
+  }
+
+  if (update.displayName === undefined && update.tags === undefined) {
+    return validationResponse("Nothing to update. Provide displayName and/or tags.");
+  }
+
+  try {
+    const document = await updateDocument(documentId, update);
+    if (!document) return notFoundResponse();
+    return NextResponse.json({ document });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "Document Library - Update");
+    return NextResponse.json(response, { status });
+  }
+}
+
+async function handleDelete(id: string) {
+  const documentId = parseDocumentId(id);
+  if (documentId === null) return validationResponse("Invalid document id.");
+
+  try {
+    const document = await deleteDocument(documentId);
+    if (!document) return notFoundResponse();
+    return NextResponse.json({ success: true, document });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "Document Library - Delete");
+    return NextResponse.json(response, { status });
+  }
+}
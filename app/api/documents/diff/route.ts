@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSpecEdition, getSpecEditions } from "@/lib/document-mapper";
+import { diffEditions, formatEditionDiffMarkdown } from "@/lib/edition-diff";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import type { SpecEdition } from "@/lib/spec-editions";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * Edition Diff API Route
+ *
+ * Reports requirement changes between two indexed editions of the same spec:
+ * changed numeric limits, added/removed grades and reworded clauses, with
+ * page citations in both editions.
+ *
+ * Usage:
+ *   GET /api/documents/diff?spec=A789            # latest edition vs the one it supersedes
+ *   GET /api/documents/diff?from=12&to=31        # two specific documents
+ *   ...&format=markdown                          # Markdown report instead of JSON
+ */
+
+function validationResponse(message: string) {
+  const error = createValidationError(message);
+  return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+}
+
+function notFoundResponse(message: string) {
+  return NextResponse.json({ error: message, code: "NOT_FOUND" }, { status: getErrorStatusCode("NOT_FOUND") });
+}
+
+export async function GET(request: NextRequest) {
+  return withWorkspace(request, () => handleGet(request));
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const spec = searchParams.get("spec");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+
+    // ========================================
+    // Step 1: Resolve the two editions
+    // ========================================
+    let older: SpecEdition | null;
+    let newer: SpecEdition | null;
+
+    if (from && to) {
+      const fromId = Number(from);
+      const toId = Number(to);
+      if (!Number.isInteger(fromId) || !Number.isInteger(toId) || fromId === toId) {
+        return validationResponse("from and to must be two different document IDs.");
+      }
+
+      [older, newer] = await Promise.all([getSpecEdition(fromId), getSpecEdition(toId)]);
+      if (!older || !newer) {
+        return notFoundResponse("Document not found or has no recognisable spec designation.");
+      }
+      if (older.designation !== newer.designation) {
+        return validationResponse(`Documents are different specs (${older.designation} vs ${newer.designation}).`);
+      }
+      // Report in chronological order regardless of argument order
+      if ((older.edition ?? 0) > (newer.edition ?? 0)) {
+        [older, newer] = [newer, older];
+      }
+    } else if (spec) {
+      if (spec.length > 50) {
+        return validationResponse("Invalid spec.");
+      }
+      const editions = (await getSpecEditions(spec)).filter((edition) => edition.edition !== null);
+      newer = editions[0] ?? null;
+      older = newer?.supersedes != null
+        ? editions.find((edition) => edition.documentId === newer!.supersedes) ?? null
+        : null;
+
+      if (!newer || !older) {
+        return notFoundResponse(`Fewer than two editions of ${spec} are indexed.`);
+      }
+    } else {
+      return validationResponse("Provide spec, or from and to document IDs.");
+    }
+
+    // ========================================
+    // Step 2: Diff and respond
+    // ========================================
+    const report = await diffEditions(older, newer);
+
+    if (searchParams.get("format") === "markdown") {
+      return new NextResponse(formatEditionDiffMarkdown(report), {
+        headers: { "Content-Type": "text/markdown; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    const { response, status } = handleApiError(error, "Edition Diff API");
+    return NextResponse.json(response, { status });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { withWorkspace } from "@/lib/workspace";
 
 /**
  * PDF Proxy API - Serves PDFs from Supabase storage
@@ -8,8 +9,14 @@ import { supabase } from "@/lib/supabase";
  * when embedding PDFs in iframes.
  *
  * Usage: /api/documents/pdf?path=documents/xxx.pdf
+ *
+ * Only serves PDFs of documents in the caller's workspace.
  */
 export async function GET(request: NextRequest) {
+  return withWorkspace(request, ({ workspaceId }) => handleGet(request, workspaceId));
+}
+
+async function handleGet(request: NextRequest, workspaceId: string) {
   try {
     const { searchParams } = new URL(request.url);
     const storagePath = searchParams.get("path");
@@ -33,6 +40,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // The path must belong to one of the workspace's documents
+    const { data: document } = await supabase
+      .from("documents")
+      .select("id")
+      .eq("storage_path", storagePath)
+      .eq("workspace_id", workspaceId)
+      .maybeSingle();
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
     // Download the PDF from Supabase storage
     const { data, error } = await supabase.storage
       .from("documents")
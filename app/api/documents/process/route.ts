@@ -1,25 +1,47 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-import { generateEmbeddings } from "@/lib/embeddings";
-import { storeChunks } from "@/lib/vectorstore";
-import { extractText } from "unpdf";
-import { handleApiError, createValidationError, createEmbeddingError, getErrorStatusCode } from "@/lib/errors";
-import { extractTextWithOCR, shouldAttemptOCR } from "@/lib/ocr";
-import { semanticChunk, DEFAULT_CHUNK_OPTIONS } from "@/lib/semantic-chunking";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import {
+  processDocument,
+  updateDocumentStatus,
+  DocumentProcessingError,
+  PROCESSING_TIME_BUDGET_MS,
+} from "@/lib/document-processing";
+import type { IngestionProgress } from "@/lib/ingestion-jobs";
+import { withWorkspace } from "@/lib/workspace";
+import { withUsage } from "@/lib/usage";
 
 /**
  * Document Processing API Route
  *
- * This endpoint processes uploaded PDFs:
+ * This endpoint processes uploaded PDFs (pipeline in lib/document-processing.ts):
  * 1. Retrieves document from database
  * 2. Downloads PDF from storage
  * 3. Extracts text from PDF
  * 4. Chunks text with overlap for better context
  * 5. Generates embeddings for each chunk
  * 6. Stores chunks with embeddings in vector database
+ * 7. Parses detected tables into rows/columns/footnotes (spec_tables)
+ *
+ * Processing is resumable. Each call works within a time budget, saving a
+ * checkpoint after every stage and embedding batch:
+ * - 200: the document is indexed
+ * - 202: more work remains — POST again to resume from the last checkpoint
+ *   (also returned while another call holds the job)
+ * Calling again after a failure resumes the failed job. Progress is reported
+ * by GET /api/documents/<id>/progress.
+ *
+ * Batch form: `{ documentIds: [...] }` (up to MAX_PROCESS_BATCH) works through
+ * the documents in order within one time budget and returns per-document
+ * `results` (status "indexed", "processing", "pending" — not reached yet — or
+ * "error"); 202 while any remain. POST the unfinished IDs again to continue.
+ * Lets a multi-file upload make progress on many small documents per request
+ * instead of one request per document.
  *
  * Security features:
  * - Document ID validation
+ * - Only documents in the caller's workspace can be processed; chunks are
+ *   stored in that workspace
  * - Safe error handling (no internal details leaked)
  * - Infinite loop prevention in chunking
  */
@@ -133,7 +155,27 @@ function _chunkText(
 // API Route Handler
 // ============================================
 
+const MAX_PROCESS_BATCH = 50;
+
+interface BatchItemResult {
+  documentId: number;
+  status: "indexed" | "processing" | "pending" | "error";
+  chunks?: number;
+  tables?: number;
+  pages?: number;
+  usedOCR?: boolean;
+  progress?: IngestionProgress;
+  error?: string;
+  code?: string;
+}
+
 export async function POST(request: NextRequest) {
+  return withWorkspace(request, ({ workspaceId }) =>
+    withUsage("/api/documents/process", "document_upload", null, () => handlePost(request, workspaceId))
+  );
+}
+
+async function handlePost(request: NextRequest, workspaceId: string) {
   // Store documentId for status updates in error handlers
   let documentId: number | undefined;
 
@@ -142,6 +184,11 @@ export async function POST(request: NextRequest) {
     // Step 1: Parse and Validate Input
     // ========================================
     const body = await request.json();
+
+    if (body?.documentIds !== undefined) {
+      return await handleBatch(body.documentIds, workspaceId);
+    }
+
     documentId = body.documentId;
 
     if (!documentId || typeof documentId !== "number") {
@@ -156,6 +203,7 @@ export async function POST(request: NextRequest) {
       .from("documents")
       .select("*")
       .eq("id", documentId)
+      .eq("workspace_id", workspaceId)
       .single();
 
     if (docError || !doc) {
@@ -165,185 +213,41 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // Step 3: Update Status to Processing
-    // ========================================
-    await supabase
-      .from("documents")
-      .update({ status: "processing" })
-      .eq("id", documentId);
-
-    // ========================================
-    // Step 4: Download PDF from Storage
-    // ========================================
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from("documents")
-      .download(doc.storage_path);
-
-    if (downloadError || !fileData) {
-      console.error("[Process API] Failed to download document:", downloadError);
-      await updateDocumentStatus(documentId, "error");
-      const { response, status } = handleApiError(downloadError, "Document Download");
-      return NextResponse.json(response, { status });
-    }
-
-    // ========================================
-    // Step 5: Extract Text from PDF (Page by Page)
-    // ========================================
-    const arrayBuffer = await fileData.arrayBuffer();
-
-    // Extract text per page for accurate page numbers
-    let pageTexts: string[] = [];
-    let usedOCR = false;
-
-    try {
-      // Use mergePages: false to get text per page
-      const result = await extractText(arrayBuffer, { mergePages: false });
-      // unpdf returns { text: string[] } when mergePages is false
-      const extractedPages = (result as unknown as { text: string[] }).text;
-
-      if (Array.isArray(extractedPages)) {
-        pageTexts = extractedPages;
-      } else {
-        // Fallback: if text is a string, treat as single page
-        pageTexts = [String(result.text || "")];
-      }
-    } catch (extractError) {
-      console.error("[Process API] PDF extraction failed:", extractError);
-      pageTexts = [];
-    }
-
-    // Check if we got meaningful text
-    const totalTextLength = pageTexts.reduce((sum, p) => sum + (p?.trim().length || 0), 0);
-
-    // If unpdf couldn't extract text, try OCR with Gemini Vision
-    if (shouldAttemptOCR(pageTexts.join("") || "", fileData.size) || totalTextLength < 100) {
-      console.log("[Process API] Insufficient text from unpdf, attempting OCR...");
-      try {
-        const ocrText = await extractTextWithOCR(arrayBuffer);
-        console.log(`[Process API] OCR extracted ${ocrText.length} characters`);
-        // OCR returns text with page breaks marked as "---PAGE BREAK---"
-        pageTexts = ocrText.split(/---PAGE BREAK---/i).filter(p => p.trim().length > 0);
-        if (pageTexts.length === 0) {
-          pageTexts = [ocrText];
-        }
-        usedOCR = true;
-      } catch (ocrError) {
-        console.error("[Process API] OCR failed:", ocrError);
-        await updateDocumentStatus(documentId, "error");
-        const error = createValidationError(
-          "Could not extract text from PDF. The document may be corrupted or in an unsupported format."
-        );
-        return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-      }
-    }
-
-    if (pageTexts.length === 0 || pageTexts.every(p => !p || p.trim().length === 0)) {
-      console.error("[Process API] No text extracted from document:", documentId);
-      await updateDocumentStatus(documentId, "error");
-      const error = createValidationError(
-        "Could not extract text from PDF. The document appears to be empty or corrupted."
-      );
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
-    console.log(`[Process API] Extracted ${pageTexts.length} pages from document ${documentId}${usedOCR ? " (via OCR)" : ""}`);
-
-    // ========================================
-    // Step 6: Semantic Chunking (Preserves Structure)
-    // ========================================
-    console.log(`[Process API] Starting semantic chunking for document ${documentId}...`);
-
-    const allChunks = semanticChunk(pageTexts, DEFAULT_CHUNK_OPTIONS);
-
-    if (allChunks.length === 0) {
-      console.error("[Process API] No valid chunks generated from document:", documentId);
-      await updateDocumentStatus(documentId, "error");
-      const error = createValidationError(
-        "Document has insufficient text content to process."
-      );
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
-    console.log(`[Process API] Generated ${allChunks.length} semantic chunks for document ${documentId}`);
-    console.log(`[Process API] Chunk type breakdown:`, {
-      text: allChunks.filter(c => c.metadata.chunk_type === 'text').length,
-      table: allChunks.filter(c => c.metadata.chunk_type === 'table').length,
-      list: allChunks.filter(c => c.metadata.chunk_type === 'list').length,
-      heading: allChunks.filter(c => c.metadata.chunk_type === 'heading').length,
-      withCodes: allChunks.filter(c => c.metadata.has_codes).length,
-    });
-
-    // ========================================
-    // Step 7: Generate Embeddings
+    // Steps 3-9: Extract, Chunk, Embed, Store (or resume)
     // ========================================
-    const chunkContents = allChunks.map(c => c.content);
-    let embeddings: number[][];
-    try {
-      // Generate embeddings in batches
-      embeddings = await generateEmbeddings(chunkContents);
-    } catch (embeddingError) {
-      console.error("[Process API] Embedding generation failed:", embeddingError);
-      await updateDocumentStatus(documentId, "error");
-      const error = createEmbeddingError(embeddingError);
-      return NextResponse.json(error, { status: getErrorStatusCode(error.code) });
-    }
-
-    // Verify embeddings count matches chunks
-    if (embeddings.length !== allChunks.length) {
-      console.error(
-        `[Process API] Embedding count mismatch: ${embeddings.length} embeddings for ${allChunks.length} chunks`
+    const { progress, result } = await processDocument(doc);
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: true,
+          status: "processing",
+          progress,
+          message: `Processing paused at stage "${progress.stage}" (${progress.percent}%). POST again to resume.`,
+        },
+        { status: 202 }
       );
-      await updateDocumentStatus(documentId, "error");
-      const error = createValidationError("Failed to generate embeddings for all chunks.");
-      return NextResponse.json(error, { status: getErrorStatusCode("INTERNAL_ERROR") });
-    }
-
-    // ========================================
-    // Step 8: Store Chunks with Embeddings and Metadata
-    // ========================================
-    const chunks = allChunks.map((chunk, index) => ({
-      document_id: documentId!,
-      content: chunk.content,
-      page_number: chunk.metadata.page_number,
-      char_offset_start: chunk.char_offset_start,
-      char_offset_end: chunk.char_offset_end,
-      section_title: chunk.metadata.section_title,
-      chunk_type: chunk.metadata.chunk_type,
-      has_codes: chunk.metadata.has_codes,
-      parent_section: chunk.metadata.parent_section,
-      embedding: embeddings[index],
-    }));
-
-    try {
-      await storeChunks(chunks);
-    } catch (storageError) {
-      // Log full error for debugging (server-side only)
-      const errorMessage = storageError instanceof Error ? storageError.message : "Unknown database error";
-      console.error(`[Process API] Chunk storage failed for document ${documentId}:`, errorMessage);
-      await updateDocumentStatus(documentId, "error");
-      // Return safe, user-friendly message (never expose DB internals)
-      const error = createValidationError("Failed to store document chunks. Please try again.");
-      return NextResponse.json(error, { status: getErrorStatusCode("INTERNAL_ERROR") });
     }
 
-    // ========================================
-    // Step 9: Update Status to Indexed
-    // ========================================
-    await updateDocumentStatus(documentId, "indexed");
-
-    console.log(`[Process API] Successfully processed document ${documentId}: ${chunks.length} chunks`);
-
     // ========================================
     // Step 10: Return Success Response
     // ========================================
     return NextResponse.json({
       success: true,
-      chunks: chunks.length,
-      pages: pageTexts.length,
-      message: `Successfully processed ${chunks.length} chunks across ${pageTexts.length} pages`,
+      status: "indexed",
+      chunks: result.chunks,
+      tables: result.tables,
+      pages: result.pages,
+      progress,
+      message: `Successfully processed ${result.chunks} chunks across ${result.pages} pages`,
     });
 
   } catch (error) {
+    // A pipeline step failed; the document is already marked as "error"
+    if (error instanceof DocumentProcessingError) {
+      return NextResponse.json(error.response, { status: error.status });
+    }
+
     console.error("[Process API] Unexpected error:", error);
 
     // Try to update document status to error
@@ -362,15 +266,77 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Helper function to update document status
- * Centralizes status updates for cleaner error handling
+ * Process several documents in order, sharing one time budget.
  */
-async function updateDocumentStatus(
-  documentId: number,
-  status: "pending" | "processing" | "indexed" | "error"
-): Promise<void> {
-  await supabase
+async function handleBatch(documentIds: unknown, workspaceId: string) {
+  if (
+    !Array.isArray(documentIds) ||
+    documentIds.length === 0 ||
+    documentIds.length > MAX_PROCESS_BATCH ||
+    !documentIds.every((id) => Number.isInteger(id) && id > 0)
+  ) {
+    const error = createValidationError(`documentIds must be an array of 1 to ${MAX_PROCESS_BATCH} document IDs.`);
+    return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+  }
+
+  const ids = [...new Set(documentIds as number[])];
+  const deadline = Date.now() + PROCESSING_TIME_BUDGET_MS;
+
+  const { data: docs, error: docsError } = await supabase
     .from("documents")
-    .update({ status })
-    .eq("id", documentId);
+    .select("id, storage_path, format")
+    .in("id", ids)
+    .eq("workspace_id", workspaceId);
+
+  if (docsError) throw docsError;
+  const docsById = new Map((docs ?? []).map((doc) => [doc.id as number, doc]));
+
+  const results: BatchItemResult[] = [];
+  for (const id of ids) {
+    const doc = docsById.get(id);
+    if (!doc) {
+      results.push({ documentId: id, status: "error", error: "Document not found. It may have been deleted.", code: "NOT_FOUND" });
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      results.push({ documentId: id, status: "pending" });
+      continue;
+    }
+
+    try {
+      const { progress, result } = await processDocument(doc, { deadline });
+      results.push(result
+        ? { documentId: id, status: "indexed", ...result, progress }
+        : { documentId: id, status: "processing", progress });
+    } catch (error) {
+      // The rest of the batch goes ahead; the document is marked as "error"
+      if (error instanceof DocumentProcessingError) {
+        results.push({ documentId: id, status: "error", ...error.response });
+        continue;
+      }
+
+      console.error(`[Process API] Unexpected error for document ${id}:`, error);
+      await updateDocumentStatus(id, "error").catch(() => undefined);
+      const { response } = handleApiError(error, "Document Processing");
+      results.push({ documentId: id, status: "error", ...response });
+    }
+  }
+
+  const remaining = results.filter((r) => r.status === "processing" || r.status === "pending").length;
+  console.log(
+    `[Process API] Batch of ${ids.length}: ${results.filter((r) => r.status === "indexed").length} indexed, ${remaining} remaining`
+  );
+
+  return NextResponse.json(
+    {
+      success: true,
+      remaining,
+      results,
+      message: remaining > 0
+        ? `${remaining} of ${ids.length} documents still processing. POST the unfinished documentIds again to resume.`
+        : `Processed ${ids.length} documents`,
+    },
+    { status: remaining > 0 ? 202 : 200 }
+  );
 }
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/errors";
+import { listDocuments } from "@/lib/document-library";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * Document Library Route - List the workspace's documents
+ *
+ * Usage:
+ *   GET /api/documents              # All documents, newest first
+ *   GET /api/documents?tag=piping   # Only documents tagged "piping"
+ *
+ * Each document reports its status, chunk count, detected spec codes and size.
+ * Rename/tag with PATCH /api/documents/<id>, remove with DELETE, and re-index
+ * with POST /api/documents/<id>/reprocess.
+ */
+
+export async function GET(request: NextRequest) {
+  return withWorkspace(request, () => handleGet(request));
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    const tag = request.nextUrl.searchParams.get("tag")?.trim() || undefined;
+    const documents = await listDocuments(tag);
+    return NextResponse.json({ documents });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "Document Library - List");
+    return NextResponse.json(response, { status });
+  }
+}
@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
-import { MAX_PDF_SIZE } from "@/lib/validation";
 import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import { withWorkspace } from "@/lib/workspace";
+import { withUsage } from "@/lib/usage";
+import {
+  confirmUpload,
+  runBatch,
+  UploadError,
+  MAX_CONFIRM_BATCH,
+  type UploadConfirmRequest,
+} from "@/lib/document-uploads";
 
 /**
  * Document Upload Confirmation API Route
@@ -17,28 +24,40 @@ import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib
  * 1. Client requests signed URL from /api/documents/upload-url
  * 2. Client uploads file directly to Supabase using signed URL
  * 3. Client calls THIS endpoint to confirm upload completion
- * 4. Server validates file exists and is a valid PDF
- * 5. Server updates database status to 'pending'
+ * 4. Server validates file exists and matches its format (PDF, DOCX, HTML, XLSX)
+ * 5. Server hashes the file (SHA-256); if the workspace already has it, the
+ *    new upload is discarded and the existing document returned (`duplicate: true`)
+ * 6. Server updates database status to 'pending'
+ *
+ * Batch form: `{ documents: [{ documentId, path }, ...] }` (up to
+ * MAX_CONFIRM_BATCH) returns `{ results: [...] }` in the same order, each a
+ * single-document response or `{ success: false, error, code, status }`.
  *
  * Security features:
  * - Verifies file exists in storage before confirming
- * - PDF magic byte validation (prevents non-PDFs disguised as PDFs)
+ * - Magic byte validation per format (prevents files disguised as another type)
  * - Validates document record status is 'uploading'
- * - Updates file size from actual storage (not client-reported)
+ * - Document must belong to the caller's workspace, and path must be its own
+ * - Updates file size and content hash from actual storage (not client-reported)
  * - Safe error handling (no internal details leaked)
  */
 
-interface UploadConfirmRequest {
-  documentId: number;  // Supabase BIGSERIAL returns number
-  path: string;
+interface UploadConfirmBatchRequest {
+  documents: UploadConfirmRequest[];
 }
 
 export async function POST(request: NextRequest) {
+  return withWorkspace(request, () =>
+    withUsage("/api/documents/upload", "document_upload", null, () => handlePost(request))
+  );
+}
+
+async function handlePost(request: NextRequest) {
   try {
     // ========================================
-    // Step 1: Parse and Validate Request Body
+    // Step 1: Parse Request Body
     // ========================================
-    let body: UploadConfirmRequest;
+    let body: UploadConfirmRequest | UploadConfirmBatchRequest;
 
     try {
       body = await request.json();
@@ -47,162 +66,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
     }
 
-    const { documentId, path } = body;
-
-    if (!documentId || typeof documentId !== "number") {
-      const error = createValidationError("Missing or invalid documentId.");
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
-    if (!path || typeof path !== "string") {
-      const error = createValidationError("Missing or invalid path.");
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
     // ========================================
-    // Step 2: Verify Database Record Exists
+    // Step 2: Batch of Documents
     // ========================================
-    const { data: docData, error: docError } = await supabase
-      .from("documents")
-      .select("id, status, filename, storage_path")
-      .eq("id", documentId)
-      .single();
-
-    if (docError || !docData) {
-      console.error("[Upload Confirm API] Document not found:", docError);
-      const error = createValidationError("Document record not found.");
-      return NextResponse.json(error, { status: 404 });
-    }
-
-    // Verify document is in 'uploading' status
-    if (docData.status !== "uploading") {
-      const error = createValidationError(
-        `Document status is '${docData.status}', expected 'uploading'.`
-      );
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
-    // ========================================
-    // Step 3: Verify File Exists in Storage
-    // ========================================
-    const { data: fileList, error: listError } = await supabase.storage
-      .from("documents")
-      .list("", {
-        search: path,
-      });
-
-    if (listError || !fileList || fileList.length === 0) {
-      console.error("[Upload Confirm API] File not found in storage:", listError);
-
-      // Clean up orphaned database record
-      try {
-        await supabase.from("documents").delete().eq("id", documentId);
-      } catch (cleanupError) {
-        console.error("[Upload Confirm API] Failed to clean up orphaned record:", cleanupError);
+    if (body && "documents" in body) {
+      const { documents } = body;
+      if (!Array.isArray(documents) || documents.length === 0 || documents.length > MAX_CONFIRM_BATCH) {
+        const error = createValidationError(`documents must be an array of 1 to ${MAX_CONFIRM_BATCH} uploads.`);
+        return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
       }
 
-      const error = createValidationError("File not found in storage. Upload may have failed.");
-      return NextResponse.json(error, { status: 404 });
-    }
-
-    // Get actual file size from storage
-    const actualFileSize = fileList[0].metadata?.size || 0;
-
-    // ========================================
-    // Step 4: Download File for PDF Validation
-    // ========================================
-    // This is a security check - verify the file is actually a PDF
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from("documents")
-      .download(path);
-
-    if (downloadError || !fileData) {
-      console.error("[Upload Confirm API] Failed to download file for validation:", downloadError);
-      const error = createValidationError("Failed to validate uploaded file.");
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
-    // Read first 5 bytes to check PDF magic bytes
-    const buffer = await fileData.slice(0, 5).arrayBuffer();
-    const bytes = new Uint8Array(buffer);
-
-    // PDF magic bytes: %PDF- (0x25 0x50 0x44 0x46 0x2D)
-    const PDF_MAGIC = [0x25, 0x50, 0x44, 0x46, 0x2D];
-    const isPdf = PDF_MAGIC.every((byte, index) => bytes[index] === byte);
-
-    if (!isPdf) {
-      console.error("[Upload Confirm API] Invalid PDF magic bytes");
-
-      // Clean up invalid file
-      try {
-        await supabase.storage.from("documents").remove([path]);
-        await supabase.from("documents").delete().eq("id", documentId);
-      } catch (cleanupError) {
-        console.error("[Upload Confirm API] Failed to clean up invalid file:", cleanupError);
-      }
-
-      const error = createValidationError(
-        "Invalid PDF file. The uploaded file does not appear to be a valid PDF document."
-      );
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
-    }
-
-    // ========================================
-    // Step 5: Validate File Size
-    // ========================================
-    if (actualFileSize > MAX_PDF_SIZE) {
-      const sizeMB = (actualFileSize / (1024 * 1024)).toFixed(1);
-      const maxMB = (MAX_PDF_SIZE / (1024 * 1024)).toFixed(0);
-
-      // Clean up file that exceeds size limit
-      try {
-        await supabase.storage.from("documents").remove([path]);
-        await supabase.from("documents").delete().eq("id", documentId);
-      } catch (cleanupError) {
-        console.error("[Upload Confirm API] Failed to clean up oversized file:", cleanupError);
-      }
-
-      const error = createValidationError(
-        `File too large (${sizeMB}MB). Maximum allowed size is ${maxMB}MB.`
+      const results = await runBatch(documents, confirmUpload, "Document Upload");
+      console.log(
+        `[Upload Confirm API] Batch of ${documents.length}: ${results.filter((r) => r.success).length} confirmed`
       );
-      return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+      return NextResponse.json({ success: true, results });
     }
 
     // ========================================
-    // Step 6: Get Public URL
+    // Step 3: Single Document
     // ========================================
-    const { data: urlData } = supabase.storage
-      .from("documents")
-      .getPublicUrl(path);
+    return NextResponse.json(await confirmUpload(body));
 
-    // ========================================
-    // Step 7: Update Database Status
-    // ========================================
-    const { error: updateError } = await supabase
-      .from("documents")
-      .update({
-        status: "pending", // Will be updated to "indexed" after processing
-        file_size: actualFileSize, // Use actual size from storage
-      })
-      .eq("id", documentId);
-
-    if (updateError) {
-      console.error("[Upload Confirm API] Failed to update document status:", updateError);
-      const { response, status } = handleApiError(updateError, "Upload Confirmation - Database Update");
-      return NextResponse.json(response, { status });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(error.response, { status: error.status });
     }
 
-    // ========================================
-    // Step 8: Return Success Response
-    // ========================================
-    return NextResponse.json({
-      success: true,
-      documentId: documentId,
-      path: path,
-      url: urlData.publicUrl,
-    });
-
-  } catch (error) {
     // Use safe error handler - never leaks internal details
     const { response, status } = handleApiError(error, "Document Upload");
     return NextResponse.json(response, { status });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { withWorkspace } from "@/lib/workspace";
 
 const MAX_QUERY_LENGTH = 2000;
 const MAX_RESPONSE_LENGTH = 10000;
@@ -20,6 +21,10 @@ const VALID_ISSUE_TYPES = [
  * POST /api/feedback — Submit feedback on a RAG response
  */
 export async function POST(request: NextRequest) {
+  return withWorkspace(request, ({ workspaceId }) => handlePost(request, workspaceId));
+}
+
+async function handlePost(request: NextRequest, workspaceId: string) {
   try {
     const body = await request.json();
     const { query, response, sources, confidence, rating, issue_type, comment, flagged_by } = body;
@@ -62,6 +67,7 @@ export async function POST(request: NextRequest) {
         issue_type: issue_type || null,
         comment: sanitizedComment,
         flagged_by: sanitizedName,
+        workspace_id: workspaceId,
       },
     ]);
 
@@ -80,9 +86,14 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/feedback — Retrieve feedback entries (for diagnostic report)
  * Query params: limit (default 50), rating (filter), issue_type (filter)
- * Requires FEEDBACK_ADMIN_KEY header for authorization.
+ * Requires FEEDBACK_ADMIN_KEY header for authorization. Returns the caller's
+ * workspace's feedback only.
  */
 export async function GET(request: NextRequest) {
+  return withWorkspace(request, ({ workspaceId }) => handleGet(request, workspaceId));
+}
+
+async function handleGet(request: NextRequest, workspaceId: string) {
   const adminKey = process.env.FEEDBACK_ADMIN_KEY;
   const providedKey = request.headers.get("x-admin-key");
   if (!adminKey || providedKey !== adminKey) {
@@ -97,6 +108,7 @@ export async function GET(request: NextRequest) {
   let query = supabase
     .from("feedback")
     .select("*")
+    .eq("workspace_id", workspaceId)
     .order("created_at", { ascending: false })
     .limit(limit);
 
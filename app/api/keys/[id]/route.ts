@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import { createUserClient, getBearerToken, withWorkspace, type WorkspaceContext } from "@/lib/workspace";
+
+/**
+ * API Key Revocation Route
+ *
+ * Usage:
+ *   DELETE /api/keys/<id>    # Revoke a key (is_active = false; kept for the audit log)
+ *
+ * Requires a signed-in user; only the key's owner can revoke it.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withWorkspace(request, (workspace) => handleDelete(request, workspace, id));
+}
+
+async function handleDelete(request: NextRequest, workspace: WorkspaceContext, id: string) {
+  const accessToken = getBearerToken(request);
+  if (workspace.authMethod !== "session" || !accessToken) {
+    return NextResponse.json(
+      { error: "API keys can only be managed by a signed-in user.", code: "FORBIDDEN" },
+      { status: getErrorStatusCode("FORBIDDEN") }
+    );
+  }
+
+  if (!UUID_PATTERN.test(id)) {
+    const error = createValidationError("Invalid key id.");
+    return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+  }
+
+  try {
+    // RLS limits the update to the caller's own keys
+    const { data, error } = await createUserClient(accessToken)
+      .from("user_api_keys")
+      .update({ is_active: false })
+      .eq("id", id)
+      .eq("workspace_id", workspace.workspaceId)
+      .select("id, key_prefix")
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "API key not found.", code: "NOT_FOUND" },
+        { status: getErrorStatusCode("NOT_FOUND") }
+      );
+    }
+
+    console.log(`[API Keys] Revoked ${data.key_prefix}... in workspace ${workspace.workspaceId}`);
+    return NextResponse.json({ success: true, id: data.id, key_prefix: data.key_prefix, is_active: false });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "API Keys - Revoke");
+    return NextResponse.json(response, { status });
+  }
+}
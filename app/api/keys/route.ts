@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, createValidationError, getErrorStatusCode } from "@/lib/errors";
+import { generateApiKey, type ApiKeySummary } from "@/lib/api-keys";
+import { createUserClient, getBearerToken, withWorkspace, type WorkspaceContext } from "@/lib/workspace";
+
+/**
+ * API Keys Route - Create and list keys for server-to-server access
+ *
+ * Usage:
+ *   GET  /api/keys                             # List your keys (prefix only)
+ *   POST /api/keys { name, expiresInDays? }    # Create a key — returned once
+ *
+ * Requires a signed-in user (`Authorization: Bearer <Supabase access token>`):
+ * keys can't be used to mint more keys. Reads and writes go through the
+ * user's own Supabase client, so the user_api_keys RLS policies apply.
+ */
+
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 365;
+
+const SUMMARY_COLUMNS = "id, name, key_prefix, created_at, last_used_at, expires_at, is_active";
+
+function validationResponse(message: string) {
+  const error = createValidationError(message);
+  return NextResponse.json(error, { status: getErrorStatusCode("VALIDATION_ERROR") });
+}
+
+function sessionRequiredResponse() {
+  return NextResponse.json(
+    { error: "API keys can only be managed by a signed-in user.", code: "FORBIDDEN" },
+    { status: getErrorStatusCode("FORBIDDEN") }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  return withWorkspace(request, (workspace) => handleGet(request, workspace));
+}
+
+export async function POST(request: NextRequest) {
+  return withWorkspace(request, (workspace) => handlePost(request, workspace));
+}
+
+async function handleGet(request: NextRequest, workspace: WorkspaceContext) {
+  const accessToken = getBearerToken(request);
+  if (workspace.authMethod !== "session" || !accessToken) {
+    return sessionRequiredResponse();
+  }
+
+  try {
+    const { data, error } = await createUserClient(accessToken)
+      .from("user_api_keys")
+      .select(SUMMARY_COLUMNS)
+      .eq("workspace_id", workspace.workspaceId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json({ keys: (data ?? []) as ApiKeySummary[] });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "API Keys - List");
+    return NextResponse.json(response, { status });
+  }
+}
+
+async function handlePost(request: NextRequest, workspace: WorkspaceContext) {
+  const accessToken = getBearerToken(request);
+  if (workspace.authMethod !== "session" || !accessToken) {
+    return sessionRequiredResponse();
+  }
+
+  let body: { name?: unknown; expiresInDays?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return validationResponse("Invalid request body. Expected JSON.");
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return validationResponse(`name is required (max ${MAX_NAME_LENGTH} characters).`);
+  }
+
+  const { expiresInDays } = body;
+  if (
+    expiresInDays !== undefined &&
+    (typeof expiresInDays !== "number" || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+  ) {
+    return validationResponse(`expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}.`);
+  }
+
+  try {
+    const { key, keyHash, keyPrefix } = await generateApiKey();
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000).toISOString() : null;
+
+    const { data, error } = await createUserClient(accessToken)
+      .from("user_api_keys")
+      .insert({
+        user_id: workspace.userId,
+        workspace_id: workspace.workspaceId,
+        name,
+        key_hash: keyHash,
+        key_prefix: keyPrefix,
+        expires_at: expiresAt,
+      })
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    console.log(`[API Keys] Created ${keyPrefix}... for workspace ${workspace.workspaceId}`);
+
+    // The only time the full key is returned
+    return NextResponse.json({ ...(data as ApiKeySummary), key }, { status: 201 });
+  } catch (error) {
+    const { response, status } = handleApiError(error, "API Keys - Create");
+    return NextResponse.json(response, { status });
+  }
+}
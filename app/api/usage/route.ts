@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/errors";
+import { getUsageSummary } from "@/lib/usage";
+import { withWorkspace } from "@/lib/workspace";
+
+/**
+ * Usage Route - Quotas and token spend for the current billing period
+ *
+ * Usage:
+ *   GET /api/usage    # Plan, quotas used/limit, tokens and estimated cost by provider and endpoint
+ *
+ * Token counts are estimates and costs use list prices (see lib/usage.ts).
+ * Unmetered workspaces report `quotas: null` and calendar-month totals.
+ */
+
+export async function GET(request: NextRequest) {
+  return withWorkspace(request, ({ workspaceId }) => handleGet(workspaceId));
+}
+
+async function handleGet(workspaceId: string) {
+  try {
+    return NextResponse.json(await getUsageSummary(workspaceId));
+  } catch (error) {
+    const { response, status } = handleApiError(error, "Usage API");
+    return NextResponse.json(response, { status });
+  }
+}
@@ -12,7 +12,7 @@ import { SearchForm } from "@/components/search-form";
 import { RealtimeComparison } from "@/components/realtime-comparison";
 import { DocumentUpload } from "@/components/document-upload";
 
-import { Source, GenericLLMResponse, ConfidenceScore } from "@/lib/api";
+import { Source, GenericLLMResponse, ConfidenceScore, ChatStreamEvent, AnswerClaim, SpecConflict } from "@/lib/api";
 import { NetworkVisualization } from "@/components/network-visualization";
 
 function Hero3DAnimation() {
@@ -390,6 +390,15 @@ export default function Home() {
   // Generic LLM response for comparison display
   const [genericLLMResponse, setGenericLLMResponse] = useState<string | null>(null);
   const [confidence, setConfidence] = useState<ConfidenceScore | null>(null);
+  const [claims, setClaims] = useState<AnswerClaim[]>([]);
+  const [conflicts, setConflicts] = useState<SpecConflict[]>([]);
+
+  // Live progress label while the SpecVault answer streams in
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+
+  // Conversation context so follow-ups ("What about 2507?") keep earlier specs
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [rewrittenQuery, setRewrittenQuery] = useState<string | null>(null);
 
   // Refs for auto-scrolling
   const step2Ref = useRef<HTMLDivElement>(null);
@@ -418,6 +427,8 @@ export default function Home() {
 
   const handleUploadComplete = useCallback((documentId: number | null) => {
     setUploadedDocumentId(documentId);
+    // A new document starts a new conversation
+    setConversationId(null);
   }, []);
 
   const handleResult = useCallback((result: string, resultSources: Source[]) => {
@@ -439,16 +450,57 @@ export default function Home() {
       setError(null);
       setGenericLLMResponse(null);
       setConfidence(null);
+      setClaims([]);
+      setConflicts([]);
+      setStreamStatus(null);
+      setRewrittenQuery(null);
+    }
+  }, []);
+
+  const handleStreamEvent = useCallback((event: ChatStreamEvent) => {
+    switch (event.type) {
+      case "stage":
+        setStreamStatus(
+          event.stage === "retrieval"
+            ? "Searching specifications..."
+            : event.stage === "generation"
+            ? "Writing cited answer..."
+            : "Verifying numbers against sources..."
+        );
+        break;
+      case "rewrite":
+        setRewrittenQuery(event.query);
+        break;
+      case "sources":
+        setSources(event.sources);
+        break;
+      case "token":
+        setResponse((prev) => (prev ?? "") + event.text);
+        break;
+      case "replace":
+        setResponse(event.text);
+        break;
+      case "verification":
+        setStreamStatus(`Verified: grounding ${event.grounding}% · coherence ${event.coherence}%`);
+        break;
     }
   }, []);
 
   const handleComparisonResult = useCallback(
-    (steelAgent: { response: string; sources: Source[]; confidence?: ConfidenceScore }, genericLLM: GenericLLMResponse) => {
+    (
+      steelAgent: { response: string; sources: Source[]; confidence?: ConfidenceScore; conversationId?: string; rewrittenQuery?: string; claims?: AnswerClaim[]; conflicts?: SpecConflict[] },
+      genericLLM: GenericLLMResponse
+    ) => {
       setError(null);
       setResponse(steelAgent.response);
       setSources(steelAgent.sources);
       setGenericLLMResponse(genericLLM.response);
       setConfidence(steelAgent.confidence ?? null);
+      setClaims(steelAgent.claims ?? []);
+      setConflicts(steelAgent.conflicts ?? []);
+      setStreamStatus(null);
+      setRewrittenQuery(steelAgent.rewrittenQuery ?? null);
+      if (steelAgent.conversationId) setConversationId(steelAgent.conversationId);
     },
     []
   );
@@ -966,7 +1018,9 @@ export default function Home() {
                       onLoadingChange={handleLoadingChange}
                       onComparisonResult={handleComparisonResult}
                       onQuerySubmit={setLastQuery}
+                      onStreamEvent={handleStreamEvent}
                       documentId={uploadedDocumentId}
+                      conversationId={conversationId}
                     />
                   </motion.div>
 
@@ -1002,9 +1056,23 @@ export default function Home() {
                             <span className="flex items-center justify-center w-8 h-8 rounded-full bg-black dark:bg-white text-white dark:text-black text-sm font-medium">3</span>
                           )}
                           <h3 className="text-lg font-semibold text-black dark:text-white">
-                            {isLoading ? "Analyzing your query..." : "Cited Answer"}
+                            {isLoading ? streamStatus ?? "Analyzing your query..." : "Cited Answer"}
                           </h3>
+                          {conversationId && !isLoading && (
+                            <button
+                              type="button"
+                              onClick={() => { setConversationId(null); setRewrittenQuery(null); }}
+                              className="ml-auto text-xs text-black/50 dark:text-white/50 hover:text-black dark:hover:text-white underline underline-offset-2 transition-colors"
+                            >
+                              New conversation
+                            </button>
+                          )}
                         </div>
+                        {rewrittenQuery && (
+                          <p className="text-sm text-black/60 dark:text-white/60 pl-11">
+                            Searched for: <span className="font-medium text-black dark:text-white">{rewrittenQuery}</span>
+                          </p>
+                        )}
                         <RealtimeComparison
                           query={lastQuery}
                           steelAgentResponse={response}
@@ -1013,6 +1081,8 @@ export default function Home() {
                           isLoading={isLoading}
                           error={error}
                           confidence={confidence}
+                          claims={claims}
+                          conflicts={conflicts}
                           onRetry={() => setError(null)}
                         />
                       </motion.div>
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { ChevronLeft, ChevronRight, ExternalLink, FileText, X } from "lucide-react";
+import type { getDocumentProxy } from "unpdf";
+import { Button } from "@/components/ui/button";
+import type { Source } from "@/lib/api";
+import {
+  type CitationSpan,
+  type PageTextItem,
+  isViewableCitation,
+  locateCitation,
+  pageTextFromItems,
+} from "@/lib/citation-highlight";
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+type PdfPage = Awaited<ReturnType<PdfDocument["getPage"]>>;
+type PageViewport = ReturnType<PdfPage["getViewport"]>;
+
+interface PositionedTextItem extends PageTextItem {
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+/** Highlight box, as fractions of the page's width and height */
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type ViewState =
+  | { status: "ready"; pageNumber: number; boxes: HighlightBox[] }
+  | { status: "error"; message: string };
+
+interface CitationViewerProps {
+  sources: Source[];
+  /** Index of the citation being shown */
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+function pdfUrl(storagePath: string): string {
+  return `/api/documents/pdf?path=${encodeURIComponent(storagePath)}`;
+}
+
+async function loadPdf(storagePath: string): Promise<PdfDocument> {
+  const response = await fetch(pdfUrl(storagePath));
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? "This document is no longer in your library" : "Couldn't load the PDF");
+  }
+  const { getDocumentProxy } = await import("unpdf");
+  return getDocumentProxy(new Uint8Array(await response.arrayBuffer()));
+}
+
+// Boxes around the part of each text item inside the span
+function highlightBoxes(
+  items: PositionedTextItem[],
+  starts: number[],
+  span: CitationSpan,
+  viewport: PageViewport
+): HighlightBox[] {
+  const boxes: HighlightBox[] = [];
+  items.forEach((item, index) => {
+    const itemStart = starts[index];
+    const itemEnd = itemStart + item.str.length;
+    if (itemEnd <= span.start || itemStart >= span.end || !item.str.trim()) return;
+
+    const from = (Math.max(itemStart, span.start) - itemStart) / item.str.length;
+    const to = (Math.min(itemEnd, span.end) - itemStart) / item.str.length;
+    const [, , c, d, x, y] = item.transform;
+    const height = item.height || Math.hypot(c, d);
+    // Baseline-anchored: leave room for descenders below it
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+      x + item.width * from,
+      y - height * 0.2,
+      x + item.width * to,
+      y + height,
+    ]);
+    boxes.push({
+      left: Math.min(x1, x2) / viewport.width,
+      top: Math.min(y1, y2) / viewport.height,
+      width: Math.abs(x2 - x1) / viewport.width,
+      height: Math.abs(y2 - y1) / viewport.height,
+    });
+  });
+  return boxes;
+}
+
+/**
+ * Citation viewer: the cited PDF page with the quoted span highlighted.
+ *
+ * Sits next to the answer; the citation chips and arrows step through all of
+ * the answer's sources. Documents are fetched once through the PDF proxy and
+ * kept while the viewer is open. Sources without pages (Word, HTML, Excel)
+ * show their location and quote instead.
+ */
+export function CitationViewer({ sources, activeIndex, onSelect, onClose }: CitationViewerProps) {
+  const source = sources[activeIndex];
+  const viewable = source ? isViewableCitation(source) : false;
+
+  // View of the source it was rendered for; stale views read as loading
+  const [view, setView] = useState<(ViewState & { source: Source }) | null>(null);
+  const documentsRef = useRef(new Map<string, Promise<PdfDocument>>());
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Release the parsed documents when the viewer closes
+  useEffect(() => {
+    const documents = documentsRef.current;
+    return () => {
+      for (const pdf of documents.values()) {
+        pdf.then((doc) => doc.destroy()).catch(() => {});
+      }
+      documents.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!source || !viewable) return;
+    const storagePath = source.storage_path as string;
+    let cancelled = false;
+    let renderTask: ReturnType<PdfPage["render"]> | null = null;
+
+    const render = async (): Promise<ViewState> => {
+      const documents = documentsRef.current;
+      if (!documents.has(storagePath)) {
+        documents.set(storagePath, loadPdf(storagePath).catch((error) => {
+          documents.delete(storagePath); // Allow a retry
+          throw error;
+        }));
+      }
+      const pdf = await documents.get(storagePath)!;
+      const pageNumber = Math.min(Math.max(parseInt(source.page, 10) || 1, 1), pdf.numPages);
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return { status: "error", message: "Closed" };
+
+      // The page is hidden while loading, so measure the scroller (less its padding)
+      const width = (scrollRef.current?.clientWidth ?? 0) - 24;
+      const fitWidth = (width > 0 ? width : 600) / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale: fitWidth * (window.devicePixelRatio || 1) });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvas, viewport });
+
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is typeof item & PositionedTextItem => "str" in item);
+      const { text, starts } = pageTextFromItems(items);
+      const span = locateCitation(text, source);
+      await renderTask.promise;
+
+      return {
+        status: "ready",
+        pageNumber,
+        boxes: span ? highlightBoxes(items, starts, span, viewport) : [],
+      };
+    };
+
+    render()
+      .catch((error): ViewState => ({
+        status: "error",
+        message: error instanceof Error ? error.message : "Couldn't show this page",
+      }))
+      .then((state) => {
+        if (!cancelled) setView({ ...state, source });
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [source, viewable]);
+
+  const current = view?.source === source ? view : null;
+
+  // Bring the highlight into view
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    const page = pageRef.current;
+    if (current?.status !== "ready" || current.boxes.length === 0 || !scroller || !page) return;
+    scroller.scrollTo({
+      top: current.boxes[0].top * page.clientHeight - scroller.clientHeight / 3,
+      behavior: "smooth",
+    });
+  }, [current]);
+
+  if (!source) return null;
+
+  const citation = [
+    source.location ?? `Page ${current?.status === "ready" ? current.pageNumber : source.page}`,
+    source.clause && `§${source.clause}`,
+    source.table,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="rounded-lg border-2 border-green-500/60 bg-background overflow-hidden flex flex-col"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 bg-green-500/10 border-b border-green-500/30 flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onSelect(activeIndex - 1)}
+          disabled={activeIndex === 0}
+          className="h-7 px-1.5 text-green-700 hover:bg-green-100"
+          aria-label="Previous citation"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex items-center gap-1 flex-wrap flex-1">
+          {sources.map((item, index) => (
+            <button
+              key={item.ref}
+              type="button"
+              onClick={() => onSelect(index)}
+              className={`font-mono text-xs font-bold px-1.5 py-0.5 rounded transition-colors ${
+                index === activeIndex
+                  ? "bg-green-600 text-white"
+                  : "bg-green-100 text-green-700 hover:bg-green-200"
+              }`}
+            >
+              {item.ref}
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onSelect(activeIndex + 1)}
+          disabled={activeIndex === sources.length - 1}
+          className="h-7 px-1.5 text-green-700 hover:bg-green-100"
+          aria-label="Next citation"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-7 px-1.5 text-muted-foreground hover:text-foreground"
+          aria-label="Close source viewer"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Citation */}
+      <div className="px-4 py-2 border-b border-border flex items-center gap-1.5 flex-wrap">
+        <FileText className="h-3.5 w-3.5 shrink-0 text-green-600" />
+        <span className="text-xs font-medium truncate text-green-700">{source.document}</span>
+        <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-green-100 text-green-700 shrink-0">
+          {citation}
+        </span>
+        {viewable && (
+          <a
+            href={`${pdfUrl(source.storage_path as string)}#page=${source.page}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="ml-auto flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground"
+          >
+            Open PDF <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+
+      {/* Page */}
+      {viewable ? (
+        <div ref={scrollRef} className="relative max-h-[600px] overflow-y-auto bg-muted/30 p-3">
+          {current?.status === "error" && (
+            <p className="text-sm text-destructive py-8 text-center">{current.message}</p>
+          )}
+          {!current && (
+            <p className="text-sm text-muted-foreground py-8 text-center">Loading page {source.page}...</p>
+          )}
+          <div
+            ref={pageRef}
+            className={`relative bg-white shadow-sm ${current?.status === "ready" ? "" : "hidden"}`}
+          >
+            {/* A fresh canvas per citation: pdf.js can't render twice into one at a time */}
+            <canvas key={`${activeIndex}:${source.ref}`} ref={canvasRef} className="block w-full h-auto" />
+            {current?.status === "ready" &&
+              current.boxes.map((box, index) => (
+                <div
+                  key={index}
+                  className="absolute rounded-sm bg-yellow-300/50 mix-blend-multiply ring-1 ring-yellow-500/60 pointer-events-none"
+                  style={{
+                    left: `${box.left * 100}%`,
+                    top: `${box.top * 100}%`,
+                    width: `${box.width * 100}%`,
+                    height: `${box.height * 100}%`,
+                  }}
+                />
+              ))}
+          </div>
+        </div>
+      ) : (
+        <p className="px-4 py-6 text-xs text-muted-foreground">
+          This source isn&apos;t a PDF, so there&apos;s no page to show; it&apos;s cited by its {source.location ? "location" : "page"} above.
+        </p>
+      )}
+
+      {/* Quote */}
+      <div className="px-4 py-3 border-t border-border">
+        {current?.status === "ready" && current.boxes.length === 0 && (
+          <p className="text-[11px] text-amber-700 mb-1.5">
+            The quoted text wasn&apos;t found in this page&apos;s text layer (it may be a scanned image) — showing the cited page.
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground leading-relaxed">
+          &ldquo;{source.content_preview}&rdquo;
+        </p>
+      </div>
+    </motion.div>
+  );
+}
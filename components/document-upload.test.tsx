@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DocumentUpload } from './document-upload';
+
+const FAILING_FILE = 'A789.pdf';
+
+// Storage uploads in the order they started; the first upload of FAILING_FILE is rejected
+let storageUploads: string[] = [];
+let failNextUpload = true;
+
+class MockXMLHttpRequest {
+  status = 0;
+  upload = { addEventListener: vi.fn() };
+  private listeners: Record<string, () => void> = {};
+
+  addEventListener(event: string, listener: () => void) {
+    this.listeners[event] = listener;
+  }
+
+  open() {}
+
+  setRequestHeader() {}
+
+  send(file: File) {
+    storageUploads.push(file.name);
+    const fails = file.name === FAILING_FILE && failNextUpload;
+    if (fails) failNextUpload = false;
+    this.status = fails ? 500 : 200;
+    setTimeout(() => this.listeners.load?.(), 0);
+  }
+}
+
+function jsonResponse(data: unknown) {
+  return Promise.resolve(new Response(JSON.stringify(data), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+}
+
+const documentIds: Record<string, number> = { 'A790.pdf': 1, [FAILING_FILE]: 2, 'A928.pdf': 3 };
+const fetchMock = vi.fn((url: string, init?: RequestInit) => {
+  const body = init?.body ? JSON.parse(init.body as string) : {};
+  if (url === '/api/documents/upload-url') {
+    return jsonResponse({
+      results: body.files.map((file: { filename: string }) => ({
+        success: true,
+        documentId: documentIds[file.filename] ?? parseInt(file.filename.replace(/\D/g, ''), 10),
+        uploadUrl: `https://storage.test/${file.filename}`,
+        path: `docs/${file.filename}`,
+      })),
+    });
+  }
+  if (url === '/api/documents/upload') {
+    return jsonResponse({
+      results: body.documents.map(({ documentId }: { documentId: number }) => ({ success: true, documentId })),
+    });
+  }
+  if (url === '/api/documents/process') {
+    return jsonResponse({
+      results: body.documentIds.map((documentId: number) => ({ documentId, status: 'indexed', chunks: documentId * 10 })),
+    });
+  }
+  return jsonResponse({});
+});
+
+function selectFiles(container: HTMLElement, names: string[]) {
+  const input = container.querySelector('#file-upload')!;
+  // jsdom's File has no arrayBuffer(); the upload hashes each file with it
+  const files = names.map((name) =>
+    Object.assign(new File([`%PDF-1.7 ${name}`], name, { type: 'application/pdf' }), {
+      arrayBuffer: async () => new TextEncoder().encode(`%PDF-1.7 ${name}`).buffer,
+    })
+  );
+  fireEvent.change(input, { target: { files } });
+}
+
+function processedBatches() {
+  return fetchMock.mock.calls
+    .filter(([url]) => url === '/api/documents/process')
+    .map(([, init]) => JSON.parse(init!.body as string).documentIds);
+}
+
+describe('DocumentUpload', () => {
+  beforeEach(() => {
+    storageUploads = [];
+    failNextUpload = true;
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('XMLHttpRequest', MockXMLHttpRequest);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should upload and process a batch in the order the files were added', async () => {
+    const { container } = render(<DocumentUpload />);
+
+    selectFiles(container, ['A790.pdf', 'A928.pdf']);
+
+    await waitFor(() => expect(screen.getByText(/2 of 2 ready/)).toBeInTheDocument());
+    expect(storageUploads).toEqual(['A790.pdf', 'A928.pdf']);
+    expect(processedBatches()).toEqual([[1, 3]]);
+    expect(screen.getByText('Ready! 10 chunks')).toBeInTheDocument();
+    expect(screen.getByText('Ready! 30 chunks')).toBeInTheDocument();
+  });
+
+  it('should upload large selections in batches without reordering them', async () => {
+    const names = Array.from({ length: 12 }, (_, index) => `Spec ${101 + index}.pdf`);
+    const { container } = render(<DocumentUpload />);
+
+    selectFiles(container, names);
+
+    await waitFor(() => expect(screen.getByText(/12 of 12 ready/)).toBeInTheDocument(), { timeout: 5000 });
+    const urlBatches = fetchMock.mock.calls
+      .filter(([url]) => url === '/api/documents/upload-url')
+      .map(([, init]) => JSON.parse(init!.body as string).files.length);
+    expect(urlBatches).toEqual([10, 2]);
+    expect(processedBatches()).toEqual([Array.from({ length: 12 }, (_, index) => 101 + index)]);
+  });
+
+  it('should fail a single file without stalling the rest, then retry it alone', async () => {
+    const { container } = render(<DocumentUpload />);
+
+    selectFiles(container, ['A790.pdf', FAILING_FILE, 'A928.pdf']);
+
+    await waitFor(() => expect(screen.getByText('Upload failed with status 500')).toBeInTheDocument());
+    await waitFor(() => expect(screen.getByText(/2 of 3 ready/)).toBeInTheDocument());
+    expect(processedBatches()).toEqual([[1, 3]]);
+
+    fireEvent.click(screen.getByTitle('Retry'));
+
+    await waitFor(() => expect(screen.getByText(/3 of 3 ready/)).toBeInTheDocument());
+    expect(storageUploads.filter((name) => name === FAILING_FILE)).toHaveLength(2);
+    expect(processedBatches()).toEqual([[1, 3], [2]]);
+  });
+});
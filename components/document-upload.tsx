@@ -1,17 +1,87 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
-import { Upload, FileText, X, CheckCircle, Loader2 } from "lucide-react";
+import { Upload, FileText, X, CheckCircle, Loader2, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { sha256Hex } from "@/lib/utils/hash";
+import { ACCEPTED_EXTENSIONS, contentTypeFor, detectDocumentFormat } from "@/lib/document-formats";
 
 // Maximum file size (50MB) - must match server-side limit
 const MAX_FILE_SIZE = 50 * 1024 * 1024;
 
-interface UploadedFile {
-  name: string;
-  size: number;
-  status: "uploading" | "processing" | "complete" | "error";
+// Files go through the upload routes in batches (one upload-url and one
+// confirm request per batch) so dropping 30+ specs stays within the routes'
+// rate limits. Must not exceed MAX_CONFIRM_BATCH in lib/document-uploads.ts.
+const UPLOAD_BATCH_SIZE = 10;
+const UPLOAD_CONCURRENCY = 3; // Parallel uploads to storage
+const PROCESS_BATCH_SIZE = 50; // Must not exceed MAX_PROCESS_BATCH in the process route
+
+// Processing runs in resumable slices (202 = call again); the widget polls
+// GET /api/documents/<id>/progress in the meantime
+const PROGRESS_POLL_INTERVAL_MS = 2000;
+const RESUME_DELAY_MS = 6000; // Keeps retries under the 10/min rate limit
+const MAX_PROCESS_CALLS = 60;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+const STAGE_LABELS: Record<string, string> = {
+  extract: "Extracting text",
+  ocr: "Reading scanned pages",
+  chunk: "Chunking",
+  embed: "Embedding",
+  store: "Saving chunks",
+  tables: "Parsing tables",
+  done: "Finishing",
+};
+
+// Subset of the ingestion job progress returned by the API
+interface ProcessingProgress {
+  stage: string;
+  percent: number;
+  pages_total: number | null;
+  chunks_total: number | null;
+  chunks_embedded: number;
+}
+
+type FileStatus = "queued" | "uploading" | "processing" | "complete" | "duplicate" | "error";
+
+interface QueuedFile {
+  id: string;
+  file: File;
+  status: FileStatus;
+  uploadProgress: number;
+  progress: ProcessingProgress | null;
+  documentId: number | null;
+  /** Upload confirmed: a retry only needs to (re)process */
+  uploaded: boolean;
+  chunks?: number;
+  error?: string;
+}
+
+type UpdateFile = (id: string, patch: Partial<QueuedFile>) => void;
+
+/** A confirmed document to process, for a queue entry */
+interface ProcessTarget {
+  id: string;
+  documentId: number;
+}
+
+// Per-file entries of the batch responses
+type BatchItem<T> = (T & { success: true }) | { success: false; error: string };
+
+interface UploadUrlItem {
+  documentId: number;
+  duplicate?: boolean;
+  status?: string;
+  uploadUrl?: string;
+  path?: string;
+}
+
+interface ProcessItem {
+  documentId: number;
+  status: "indexed" | "processing" | "pending" | "error";
+  chunks?: number;
+  progress?: ProcessingProgress;
   error?: string;
 }
 
@@ -19,180 +89,394 @@ interface DocumentUploadProps {
   onUploadComplete?: (documentId: number | null) => void;
 }
 
-export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
-  const [file, setFile] = useState<UploadedFile | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<number>(0);
-  const [currentDocumentId, setCurrentDocumentId] = useState<number | null>(null);
+function describeProgress(progress: ProcessingProgress): string {
+  if (progress.stage === "embed" && progress.chunks_total) {
+    return `${progress.chunks_embedded} of ${progress.chunks_total} chunks embedded`;
+  }
+  if (progress.pages_total) {
+    return `${progress.pages_total} pages extracted`;
+  }
+  return "Reading document";
+}
 
-  // Notify parent when file completes upload
-  useEffect(() => {
-    onUploadComplete?.(file?.status === "complete" ? currentDocumentId : null);
-  }, [file, currentDocumentId, onUploadComplete]);
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isSupported = (file: File) => detectDocumentFormat(file.name, file.type) !== null;
+
+// The format's canonical type: the upload routes check it against the extension
+const uploadContentType = (file: File) => contentTypeFor(detectDocumentFormat(file.name, file.type) ?? "pdf");
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+/**
+ * Supported documents (PDF, Word, HTML, Excel) from a drop, including those
+ * inside dropped folders.
+ */
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries must be taken before the first await (the drop data is cleared after the event)
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).filter(isSupported);
+  }
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      if (isSupported(file)) files.push(file);
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns the directory in pages until it returns none
+      for (;;) {
+        const children = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (children.length === 0) break;
+        for (const child of children) await walk(child);
+      }
+    }
+  };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragging(false);
+  for (const entry of entries) await walk(entry);
+  return files;
+}
 
-    const droppedFiles = Array.from(e.dataTransfer.files).filter(
-      (f) => f.type === "application/pdf"
-    );
+/**
+ * POST JSON, waiting out rate limits (429 with Retry-After).
+ * Throws the API's error message for other failures.
+ */
+async function postJson<T>(url: string, body: unknown): Promise<{ status: number; data: T }> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    // Rate limited (not out of quota): wait, then try again
+    if (response.status === 429 && data.code !== "QUOTA_EXCEEDED" && attempt < MAX_RATE_LIMIT_RETRIES) {
+      await wait((Number(response.headers.get("Retry-After")) || 10) * 1000);
+      continue;
+    }
 
-    if (droppedFiles.length > 0) {
-      handleFile(droppedFiles[0]); // Only take first file
+    if (!response.ok) {
+      // Provide context-specific fallback based on status code
+      const fallbackMessage = response.status >= 500
+        ? "Server error occurred. Please try again later."
+        : "Request failed. Please try again.";
+      throw new Error(data.error || data.message || data.details || fallbackMessage);
     }
-  }, []);
 
-  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      handleFile(e.target.files[0]); // Only take first file
+    return { status: response.status, data: data as T };
+  }
+}
+
+/**
+ * Upload a file to its signed URL, reporting progress (0-100).
+ */
+function uploadToStorage(uploadUrl: string, file: File, onProgress: (percent: number) => void): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    // Track upload progress
+    xhr.upload.addEventListener("progress", (e) => {
+      if (e.lengthComputable) {
+        onProgress(Math.round((e.loaded / e.total) * 100));
+      }
+    });
+
+    // Handle completion
+    xhr.addEventListener("load", () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    });
+
+    // Handle errors
+    xhr.addEventListener("error", () => {
+      reject(new Error("Network error during upload"));
+    });
+
+    xhr.addEventListener("abort", () => {
+      reject(new Error("Upload cancelled"));
+    });
+
+    // Start upload
+    xhr.open("PUT", uploadUrl);
+    xhr.setRequestHeader("Content-Type", uploadContentType(file));
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.send(file);
+  });
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Upload one batch of files: signed URLs (1 request), uploads to storage
+ * (UPLOAD_CONCURRENCY at a time), confirmation (1 request). Confirmed
+ * documents that need processing are added to `targets`.
+ */
+async function uploadBatch(items: QueuedFile[], update: UpdateFile, targets: ProcessTarget[]): Promise<void> {
+  const settled = new Set<string>();
+  const settle = (id: string, patch: Partial<QueuedFile>) => {
+    settled.add(id);
+    update(id, patch);
+  };
+
+  // The workspace already has this file; it's only processed if that hasn't happened yet
+  const settleDuplicate = (item: QueuedFile, documentId: number, status: string | undefined) => {
+    settle(item.id, { status: "duplicate", documentId, uploaded: true, uploadProgress: 100 });
+    if (status === "pending" && !targets.some((target) => target.documentId === documentId)) {
+      targets.push({ id: item.id, documentId });
     }
   };
 
-  const handleFile = async (newFile: File) => {
-    // Client-side file size validation for instant feedback
-    if (newFile.size > MAX_FILE_SIZE) {
-      setFile({
-        name: newFile.name,
-        size: newFile.size,
-        status: "error",
-        error: "File too large. Maximum size is 50MB.",
+  try {
+    // ========================================
+    // Step 1: Request Signed Upload URLs
+    // ========================================
+    // The hash lets the server skip files this workspace already has
+    const files = [];
+    for (const item of items) {
+      update(item.id, { status: "uploading", uploadProgress: 0, error: undefined });
+      files.push({
+        filename: item.file.name,
+        fileSize: item.file.size,
+        contentType: uploadContentType(item.file),
+        contentHash: await sha256Hex(await item.file.arrayBuffer()),
       });
-      return;
     }
 
-    const uploadFile: UploadedFile = {
-      name: newFile.name,
-      size: newFile.size,
-      status: "uploading",
-    };
-
-    // Replace any existing file
-    setFile(uploadFile);
-    setUploadProgress(0);
-
-    try {
-      // ========================================
-      // Step 1: Request Signed Upload URL
-      // ========================================
-      const urlResponse = await fetch("/api/documents/upload-url", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          filename: newFile.name,
-          fileSize: newFile.size,
-          contentType: newFile.type,
-        }),
-      });
+    const { data: urlData } = await postJson<{ results: BatchItem<UploadUrlItem>[] }>(
+      "/api/documents/upload-url",
+      { files }
+    );
 
-      if (!urlResponse.ok) {
-        const errorData = await urlResponse.json().catch(() => ({}));
-        throw new Error(errorData.details || errorData.error || "Failed to get upload URL");
+    const uploads: Array<{ item: QueuedFile; documentId: number; uploadUrl: string; path: string }> = [];
+    urlData.results.forEach((result, index) => {
+      const item = items[index];
+      if (!result.success) {
+        settle(item.id, { status: "error", error: result.error });
+      } else if (result.duplicate) {
+        settleDuplicate(item, result.documentId, result.status);
+      } else {
+        uploads.push({ item, documentId: result.documentId, uploadUrl: result.uploadUrl!, path: result.path! });
+      }
+    });
+
+    // ========================================
+    // Step 2: Upload Directly to Supabase Storage
+    // ========================================
+    const uploaded: typeof uploads = [];
+    await runWithConcurrency(uploads, UPLOAD_CONCURRENCY, async (upload) => {
+      try {
+        await uploadToStorage(upload.uploadUrl, upload.item.file, (percent) =>
+          update(upload.item.id, { uploadProgress: percent })
+        );
+        uploaded.push(upload);
+      } catch (error) {
+        settle(upload.item.id, { status: "error", error: errorMessage(error, "Upload failed") });
       }
+    });
 
-      const { documentId, uploadUrl, path } = await urlResponse.json();
-      setCurrentDocumentId(documentId);
-
-      // ========================================
-      // Step 2: Upload Directly to Supabase Storage
-      // ========================================
-      // Use XMLHttpRequest for progress tracking
-      await new Promise<void>((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-
-        // Track upload progress
-        xhr.upload.addEventListener("progress", (e) => {
-          if (e.lengthComputable) {
-            const percentComplete = Math.round((e.loaded / e.total) * 100);
-            setUploadProgress(percentComplete);
-          }
-        });
-
-        // Handle completion
-        xhr.addEventListener("load", () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            setUploadProgress(100);
-            resolve();
-          } else {
-            reject(new Error(`Upload failed with status ${xhr.status}`));
-          }
-        });
-
-        // Handle errors
-        xhr.addEventListener("error", () => {
-          reject(new Error("Network error during upload"));
-        });
-
-        xhr.addEventListener("abort", () => {
-          reject(new Error("Upload cancelled"));
-        });
-
-        // Start upload
-        xhr.open("PUT", uploadUrl);
-        xhr.setRequestHeader("Content-Type", "application/pdf");
-        xhr.setRequestHeader("x-upsert", "false");
-        xhr.send(newFile);
-      });
+    if (uploaded.length === 0) return;
 
-      // ========================================
-      // Step 3: Confirm Upload Completion
-      // ========================================
-      const confirmResponse = await fetch("/api/documents/upload", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ documentId, path }),
-      });
+    // ========================================
+    // Step 3: Confirm Upload Completion
+    // ========================================
+    const { data: confirmData } = await postJson<{ results: BatchItem<UploadUrlItem>[] }>(
+      "/api/documents/upload",
+      { documents: uploaded.map(({ documentId, path }) => ({ documentId, path })) }
+    );
 
-      if (!confirmResponse.ok) {
-        const errorData = await confirmResponse.json().catch(() => ({}));
-        throw new Error(errorData.details || errorData.error || "Upload confirmation failed");
+    confirmData.results.forEach((result, index) => {
+      const { item } = uploaded[index];
+      if (!result.success) {
+        settle(item.id, { status: "error", error: result.error });
+      } else if (result.duplicate) {
+        // Same bytes as a document confirmed in the meantime: the server discarded this copy
+        settleDuplicate(item, result.documentId, result.status);
+      } else {
+        settle(item.id, { documentId: result.documentId, uploaded: true });
+        targets.push({ id: item.id, documentId: result.documentId });
       }
+    });
+  } catch (error) {
+    // A whole-batch request failed
+    for (const item of items) {
+      if (!settled.has(item.id)) {
+        update(item.id, { status: "error", error: errorMessage(error, "Upload failed") });
+      }
+    }
+  }
+}
 
-      // Update status to processing
-      setFile((prev) =>
-        prev ? { ...prev, status: "processing" } : null
-      );
+/**
+ * Process confirmed documents in batches, resuming until every one is
+ * indexed or failed.
+ */
+async function processDocuments(targets: ProcessTarget[], update: UpdateFile): Promise<void> {
+  const updateTargets = (documentId: number, patch: Partial<QueuedFile>) => {
+    for (const target of targets) {
+      if (target.documentId === documentId) update(target.id, patch);
+    }
+  };
 
-      // ========================================
-      // Step 4: Process Document (Extract Text & Generate Embeddings)
-      // ========================================
-      const processResponse = await fetch("/api/documents/process", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ documentId }),
-      });
+  for (const target of targets) {
+    update(target.id, { status: "processing", progress: null, error: undefined });
+  }
 
-      if (!processResponse.ok) {
-        const errorData = await processResponse.json().catch(() => ({}));
-        const errorMessage = errorData.error || errorData.message || errorData.details;
+  let remaining = [...new Set(targets.map((target) => target.documentId))];
 
-        // Provide context-specific fallback based on status code
-        const fallbackMessage = processResponse.status === 429
-          ? "Service is busy. Please wait a moment and try again."
-          : processResponse.status >= 500
-          ? "Server error occurred. Please try again later."
-          : "Processing failed. Please try again.";
+  // Documents are processed in order, so the first unfinished one is the one to watch
+  const poll = setInterval(async () => {
+    const documentId = remaining[0];
+    if (documentId === undefined) return;
+    const progressResponse = await fetch(`/api/documents/${documentId}/progress`).catch(() => null);
+    if (progressResponse?.ok) {
+      const progressData = await progressResponse.json();
+      if (progressData.progress) updateTargets(documentId, { progress: progressData.progress });
+    }
+  }, PROGRESS_POLL_INTERVAL_MS);
 
-        throw new Error(errorMessage || fallbackMessage);
+  try {
+    for (let call = 0; remaining.length > 0; call++) {
+      if (call >= MAX_PROCESS_CALLS) {
+        throw new Error("Processing is taking longer than expected. Please retry.");
       }
 
-      // Update status to complete
-      setFile((prev) =>
-        prev ? { ...prev, status: "complete" } : null
+      const { data } = await postJson<{ results: ProcessItem[] }>(
+        "/api/documents/process",
+        { documentIds: remaining.slice(0, PROCESS_BATCH_SIZE) }
       );
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Upload failed";
-      setFile((prev) =>
-        prev ? { ...prev, status: "error", error: errorMessage } : null
+
+      for (const result of data.results) {
+        if (result.status === "indexed") {
+          updateTargets(result.documentId, { status: "complete", chunks: result.chunks, progress: result.progress ?? null });
+        } else if (result.status === "error") {
+          updateTargets(result.documentId, { status: "error", error: result.error || "Processing failed. Please try again." });
+        } else if (result.progress) {
+          updateTargets(result.documentId, { progress: result.progress });
+        }
+      }
+
+      const finished = new Set(
+        data.results.filter((r) => r.status === "indexed" || r.status === "error").map((r) => r.documentId)
       );
-      setUploadProgress(0);
-      setCurrentDocumentId(null);
+      remaining = remaining.filter((documentId) => !finished.has(documentId));
+
+      // 202: time budget ran out (or another call holds a job)
+      if (remaining.length > 0) await wait(RESUME_DELAY_MS);
+    }
+  } catch (error) {
+    for (const documentId of remaining) {
+      updateTargets(documentId, { status: "error", error: errorMessage(error, "Processing failed") });
+    }
+  } finally {
+    clearInterval(poll);
+  }
+}
+
+/**
+ * Upload and process queued files. Entries whose upload was already
+ * confirmed (retrying a failed processing run) go straight to processing.
+ */
+async function runQueue(items: QueuedFile[], update: UpdateFile): Promise<void> {
+  const targets: ProcessTarget[] = items
+    .filter((item) => item.uploaded && item.documentId !== null)
+    .map((item) => ({ id: item.id, documentId: item.documentId! }));
+
+  const toUpload = items.filter((item) => !item.uploaded);
+  for (let i = 0; i < toUpload.length; i += UPLOAD_BATCH_SIZE) {
+    await uploadBatch(toUpload.slice(i, i + UPLOAD_BATCH_SIZE), update, targets);
+  }
+
+  if (targets.length > 0) {
+    await processDocuments(targets, update);
+  }
+}
+
+export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Notify parent when uploads finish. A single document scopes search to it;
+  // a batch leaves search across the whole workspace.
+  const readyDocumentIds = queue
+    .filter((item) => item.status === "complete" || item.status === "duplicate")
+    .map((item) => item.documentId);
+  const singleDocumentId = queue.length === 1 && readyDocumentIds.length === 1 ? readyDocumentIds[0] : null;
+
+  useEffect(() => {
+    onUploadComplete?.(singleDocumentId);
+  }, [singleDocumentId, onUploadComplete]);
+
+  const updateFile = useCallback<UpdateFile>((id, patch) => {
+    setQueue((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const addFiles = useCallback((newFiles: File[]) => {
+    const entries: QueuedFile[] = newFiles.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      // Client-side file size validation for instant feedback
+      status: file.size > MAX_FILE_SIZE ? "error" : "queued",
+      error: file.size > MAX_FILE_SIZE ? "File too large. Maximum size is 50MB." : undefined,
+      uploadProgress: 0,
+      progress: null,
+      documentId: null,
+      uploaded: false,
+    }));
+
+    setQueue((prev) => [...prev, ...entries]);
+    runQueue(entries.filter((entry) => entry.status === "queued"), updateFile);
+  }, [updateFile]);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const droppedFiles = await collectDroppedFiles(e.dataTransfer);
+    if (droppedFiles.length > 0) {
+      addFiles(droppedFiles);
+    }
+  }, [addFiles]);
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files).filter(isSupported));
     }
+    // Allow selecting the same files again
+    e.target.value = "";
+  };
+
+  const retryFiles = (items: QueuedFile[]) => {
+    const retryable = items.filter((item) => item.status === "error" && item.file.size <= MAX_FILE_SIZE);
+    for (const item of retryable) {
+      updateFile(item.id, { status: "queued", error: undefined });
+    }
+    runQueue(retryable, updateFile);
+  };
+
+  const removeFile = (id: string) => {
+    setQueue((prev) => prev.filter((item) => item.id !== id));
   };
 
-  const removeFile = () => {
-    setFile(null);
-    setCurrentDocumentId(null);
+  const clearFinished = () => {
+    setQueue((prev) => prev.filter((item) => !isFinished(item)));
   };
 
   const formatFileSize = (bytes: number) => {
@@ -201,168 +485,217 @@ export function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
     return (bytes / (1024 * 1024)).toFixed(1) + " MB";
   };
 
-  // Estimate page count from file size (rough: ~50KB per page average for ASTM specs)
-  const estimatePageCount = (bytes: number) => {
-    return Math.max(1, Math.round(bytes / (50 * 1024)));
-  };
+  const isFinished = (item: QueuedFile) =>
+    item.status === "complete" || item.status === "duplicate" || item.status === "error";
 
-  // Estimate processing time: ~3 seconds per page
-  // Formula: pages × 3s (includes upload, extraction, chunking, embedding)
-  const estimateProcessingTime = (bytes: number) => {
-    const pages = estimatePageCount(bytes);
-    const seconds = Math.max(10, pages * 3); // Minimum 10 seconds
-    if (seconds < 60) return `~${seconds}s`;
-    const minutes = Math.ceil(seconds / 60);
-    return `~${minutes} min`;
-  };
+  // Combined summary
+  const completeCount = queue.filter((item) => item.status === "complete").length;
+  const duplicateCount = queue.filter((item) => item.status === "duplicate").length;
+  const failed = queue.filter((item) => item.status === "error");
+  const activeCount = queue.length - completeCount - duplicateCount - failed.length;
+  const totalChunks = queue.reduce((sum, item) => sum + (item.chunks ?? 0), 0);
 
   return (
     <Card className="border border-black/10 dark:border-white/10">
       <CardContent className="p-6">
-        {/* Show upload area only if no file or file has error */}
-        {(!file || file.status === "error") && (
-          <div
-            onDragOver={(e) => {
-              e.preventDefault();
-              setIsDragging(true);
-            }}
-            onDragLeave={() => setIsDragging(false)}
-            onDrop={handleDrop}
-            className={`
-              border-2 border-dashed rounded-lg p-6 sm:p-8 text-center transition-colors
-              ${isDragging ? "border-black dark:border-white bg-black/5 dark:bg-white/5" : "border-black/20 dark:border-white/20 hover:border-black/40 dark:hover:border-white/40"}
-            `}
-          >
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`
+            border-2 border-dashed rounded-lg text-center transition-colors
+            ${queue.length > 0 ? "p-4" : "p-6 sm:p-8"}
+            ${isDragging ? "border-black dark:border-white bg-black/5 dark:bg-white/5" : "border-black/20 dark:border-white/20 hover:border-black/40 dark:hover:border-white/40"}
+          `}
+        >
+          {queue.length === 0 && (
             <Upload className="w-12 h-12 sm:w-10 sm:h-10 mx-auto mb-4 text-black/40 dark:text-white/40" />
-            <p className="text-base sm:text-lg font-medium text-black dark:text-white mb-2">
-              Drop your PDF here
-            </p>
-            <p className="text-sm sm:text-base text-black/60 dark:text-white/60 mb-2">
-              or click to browse your files
-            </p>
-            <p className="text-xs sm:text-sm text-black/40 dark:text-white/40 mb-4">
-              Up to 50MB • 500+ pages supported
-            </p>
-            <input
-              type="file"
-              accept=".pdf"
-              onChange={handleFileInput}
-              className="hidden"
-              id="file-upload"
-            />
+          )}
+          <p className="text-base sm:text-lg font-medium text-black dark:text-white mb-2">
+            {queue.length > 0 ? "Drop more documents or folders" : "Drop documents or a folder here"}
+          </p>
+          {queue.length === 0 && (
+            <>
+              <p className="text-sm sm:text-base text-black/60 dark:text-white/60 mb-2">
+                or click to browse your files
+              </p>
+              <p className="text-xs sm:text-sm text-black/40 dark:text-white/40 mb-4">
+                PDF, Word, HTML or Excel • Up to 50MB per file • 500+ pages supported
+              </p>
+            </>
+          )}
+          <input
+            type="file"
+            accept={ACCEPTED_EXTENSIONS}
+            multiple
+            onChange={handleFileInput}
+            className="hidden"
+            id="file-upload"
+          />
+          <input
+            type="file"
+            // Not in React's input attributes; lets the picker select a folder
+            ref={(input) => input?.setAttribute("webkitdirectory", "")}
+            onChange={handleFileInput}
+            className="hidden"
+            id="folder-upload"
+          />
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
             <Button variant="outline" size="lg" className="touch-target" asChild>
               <label htmlFor="file-upload" className="cursor-pointer">
-                Select File
+                Select Files
+              </label>
+            </Button>
+            <Button variant="outline" size="lg" className="touch-target" asChild>
+              <label htmlFor="folder-upload" className="cursor-pointer">
+                Select Folder
               </label>
             </Button>
           </div>
-        )}
+        </div>
+
+        {queue.length > 0 && (
+          <div className="mt-4 space-y-3">
+            {/* Combined summary */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+              <p className="text-black/70 dark:text-white/70">
+                {completeCount + duplicateCount} of {queue.length} ready
+                {totalChunks > 0 && ` • ${totalChunks} chunks indexed`}
+                {duplicateCount > 0 && ` • ${duplicateCount} already in library`}
+                {failed.length > 0 && ` • ${failed.length} failed`}
+                {activeCount > 0 && ` • ${activeCount} in progress`}
+              </p>
+              <div className="flex gap-3">
+                {failed.length > 0 && (
+                  <button
+                    onClick={() => retryFiles(failed)}
+                    className="text-black/50 dark:text-white/50 hover:text-black dark:hover:text-white transition-colors"
+                  >
+                    Retry failed
+                  </button>
+                )}
+                {queue.some(isFinished) && (
+                  <button
+                    onClick={clearFinished}
+                    className="text-black/50 dark:text-white/50 hover:text-black dark:hover:text-white transition-colors"
+                  >
+                    Clear finished
+                  </button>
+                )}
+              </div>
+            </div>
 
-        {/* Show file status */}
-        {file && (
-          <div className={`space-y-3 ${file.status === "error" ? "mt-4" : ""}`}>
-            <div
-              className={`flex flex-col sm:flex-row items-start sm:items-center gap-3 p-4 rounded-lg transition-all ${
-                file.status === "complete"
-                  ? "bg-green-50 dark:bg-green-950/30 border-2 border-green-500"
-                  : file.status === "error"
-                  ? "bg-red-50 dark:bg-red-950/30 border-2 border-red-300 dark:border-red-800"
-                  : "bg-black/5 dark:bg-white/5 border-2 border-black/10 dark:border-white/10"
-              }`}
-            >
-              <div className="flex items-center gap-3 flex-1 min-w-0 w-full sm:w-auto">
-                <FileText className={`w-6 h-6 flex-shrink-0 ${
-                  file.status === "complete" ? "text-green-600 dark:text-green-400" : "text-black/60 dark:text-white/60"
-                }`} />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm sm:text-base font-medium text-black dark:text-white truncate">
-                    {file.name}
-                  </p>
-                  <p className="text-xs sm:text-sm text-black/60 dark:text-white/60">
-                    {formatFileSize(file.size)}
-                  </p>
+            {/* Per-file status */}
+            {queue.map((item) => (
+              <div
+                key={item.id}
+                className={`flex flex-col sm:flex-row items-start sm:items-center gap-3 p-4 rounded-lg transition-all ${
+                  item.status === "complete" || item.status === "duplicate"
+                    ? "bg-green-50 dark:bg-green-950/30 border-2 border-green-500"
+                    : item.status === "error"
+                    ? "bg-red-50 dark:bg-red-950/30 border-2 border-red-300 dark:border-red-800"
+                    : "bg-black/5 dark:bg-white/5 border-2 border-black/10 dark:border-white/10"
+                }`}
+              >
+                <div className="flex items-center gap-3 flex-1 min-w-0 w-full sm:w-auto">
+                  <FileText className={`w-6 h-6 flex-shrink-0 ${
+                    item.status === "complete" || item.status === "duplicate"
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-black/60 dark:text-white/60"
+                  }`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm sm:text-base font-medium text-black dark:text-white truncate">
+                      {item.file.name}
+                    </p>
+                    <p className="text-xs sm:text-sm text-black/60 dark:text-white/60">
+                      {formatFileSize(item.file.size)}
+                    </p>
+                  </div>
                 </div>
-                <button
-                  onClick={removeFile}
-                  className="p-2 touch-target hover:bg-black/10 dark:hover:bg-white/10 rounded-full transition-colors sm:hidden"
-                  title="Remove file"
-                >
-                  <X className="w-5 h-5 text-black/60 dark:text-white/60" />
-                </button>
-              </div>
-              <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 w-full sm:w-auto">
-                {file.status === "uploading" && (
-                  <div className="flex flex-col gap-2 w-full sm:w-auto sm:min-w-[200px]">
-                    <div className="flex items-center gap-2">
-                      <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
-                      <span className="text-sm sm:text-base font-medium text-blue-600">
-                        Uploading... {uploadProgress}%
-                      </span>
+                <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 w-full sm:w-auto">
+                  {item.status === "queued" && (
+                    <span className="text-sm text-black/50 dark:text-white/50">Queued</span>
+                  )}
+                  {item.status === "uploading" && (
+                    <div className="flex flex-col gap-2 w-full sm:w-auto sm:min-w-[200px]">
+                      <div className="flex items-center gap-2">
+                        <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+                        <span className="text-sm sm:text-base font-medium text-blue-600">
+                          Uploading... {item.uploadProgress}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
+                          style={{ width: `${item.uploadProgress}%` }}
+                        />
+                      </div>
                     </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
-                        style={{ width: `${uploadProgress}%` }}
-                      />
+                  )}
+                  {item.status === "processing" && (
+                    <div className="flex flex-col gap-2 w-full sm:w-auto sm:min-w-[200px]">
+                      <div className="flex items-center gap-2">
+                        <Loader2 className="w-5 h-5 animate-spin text-amber-600" />
+                        <span className="text-sm sm:text-base font-medium text-amber-600">
+                          {item.progress
+                            ? `${STAGE_LABELS[item.progress.stage] ?? "Processing"}... ${item.progress.percent}%`
+                            : "Processing..."}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                        <div
+                          className="bg-amber-600 h-2 rounded-full transition-all duration-300 ease-out"
+                          style={{ width: `${item.progress?.percent ?? 0}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-amber-600/70">
+                        {item.progress ? describeProgress(item.progress) : "Waiting for earlier files"}
+                      </span>
                     </div>
-                  </div>
-                )}
-                {file.status === "processing" && (
-                  <div className="flex flex-col gap-2 w-full sm:w-auto sm:min-w-[200px]">
+                  )}
+                  {item.status === "complete" && (
                     <div className="flex items-center gap-2">
-                      <Loader2 className="w-5 h-5 animate-spin text-amber-600" />
-                      <span className="text-sm sm:text-base font-medium text-amber-600">
-                        Processing...
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                      <span className="text-sm sm:text-base font-medium text-green-600">
+                        Ready!{item.chunks !== undefined && ` ${item.chunks} chunks`}
                       </span>
                     </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-                      <div
-                        className="bg-amber-600 h-2 rounded-full animate-pulse"
-                        style={{ width: "60%" }}
-                      />
+                  )}
+                  {item.status === "duplicate" && (
+                    <div className="flex items-center gap-2">
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                      <span className="text-sm sm:text-base font-medium text-green-600">Already in library</span>
                     </div>
-                    <span className="text-xs text-amber-600/70">
-                      ~{estimatePageCount(file.size)} pages • {estimateProcessingTime(file.size)} estimated
-                    </span>
-                  </div>
-                )}
-                {file.status === "complete" && (
-                  <div className="flex items-center gap-2">
-                    <CheckCircle className="w-5 h-5 text-green-600" />
-                    <span className="text-sm sm:text-base font-medium text-green-600">Ready!</span>
-                  </div>
-                )}
-                {file.status === "error" && (
-                  <span className="text-sm sm:text-base text-red-600 break-words">{file.error}</span>
-                )}
-                <button
-                  onClick={removeFile}
-                  className="hidden sm:block p-2 touch-target hover:bg-black/10 dark:hover:bg-white/10 rounded-full transition-colors"
-                  title="Remove file"
-                >
-                  <X className="w-4 h-4 text-black/60 dark:text-white/60" />
-                </button>
-              </div>
-            </div>
-
-            {/* Replace file option when complete */}
-            {file.status === "complete" && (
-              <div className="text-center">
-                <input
-                  type="file"
-                  accept=".pdf"
-                  onChange={handleFileInput}
-                  className="hidden"
-                  id="file-replace"
-                />
-                <label
-                  htmlFor="file-replace"
-                  className="text-sm text-black/50 dark:text-white/50 hover:text-black dark:hover:text-white cursor-pointer transition-colors"
-                >
-                  Upload a different document
-                </label>
+                  )}
+                  {item.status === "error" && (
+                    <>
+                      <span className="text-sm sm:text-base text-red-600 break-words">{item.error}</span>
+                      {item.file.size <= MAX_FILE_SIZE && (
+                        <button
+                          onClick={() => retryFiles([item])}
+                          className="p-2 touch-target hover:bg-black/10 dark:hover:bg-white/10 rounded-full transition-colors"
+                          title="Retry"
+                        >
+                          <RotateCcw className="w-4 h-4 text-black/60 dark:text-white/60" />
+                        </button>
+                      )}
+                    </>
+                  )}
+                  {isFinished(item) && (
+                    <button
+                      onClick={() => removeFile(item.id)}
+                      className="p-2 touch-target hover:bg-black/10 dark:hover:bg-white/10 rounded-full transition-colors"
+                      title="Remove file"
+                    >
+                      <X className="w-4 h-4 text-black/60 dark:text-white/60" />
+                    </button>
+                  )}
+                </div>
               </div>
-            )}
+            ))}
           </div>
         )}
       </CardContent>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect, useRef, type ReactNode } from "react";
 import { motion } from "framer-motion";
 import {
   CheckCircle,
@@ -13,8 +13,9 @@ import {
   Check,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Source, ConfidenceScore } from "@/lib/api";
+import { Source, ConfidenceScore, AnswerClaim, ClaimVerdict, SpecConflict } from "@/lib/api";
 import { ResponseFeedback } from "@/components/response-feedback";
+import { CitationViewer } from "@/components/citation-viewer";
 
 interface RealtimeComparisonProps {
   query?: string;
@@ -24,29 +25,37 @@ interface RealtimeComparisonProps {
   isLoading: boolean;
   error: string | null;
   confidence?: ConfidenceScore | null;
+  /** Per-claim provenance of the SpecVault answer */
+  claims?: AnswerClaim[];
+  /** Values the cited specs disagree on */
+  conflicts?: SpecConflict[];
   onRetry?: () => void;
 }
 
 // Typewriter effect hook
+// When text grows by appending (streamed tokens), typing resumes where it left off
 function useTypewriter(text: string, speed: number = 15) {
   const [displayedText, setDisplayedText] = useState("");
   const [isComplete, setIsComplete] = useState(false);
+  const typedRef = useRef("");
 
   useEffect(() => {
     if (!text) {
+      typedRef.current = "";
       setDisplayedText("");
       setIsComplete(false);
       return;
     }
 
-    setDisplayedText("");
+    let index = text.startsWith(typedRef.current) ? typedRef.current.length : 0;
+    setDisplayedText(text.slice(0, index));
     setIsComplete(false);
 
-    let index = 0;
     const interval = setInterval(() => {
       if (index < text.length) {
         setDisplayedText(text.slice(0, index + 1));
         index++;
+        typedRef.current = text.slice(0, index);
       } else {
         setIsComplete(true);
         clearInterval(interval);
@@ -59,13 +68,17 @@ function useTypewriter(text: string, speed: number = 15) {
   return { displayedText, isComplete };
 }
 
-// Source citation component — inline summary, no PDF viewer
+// Source citation component — inline summary; opens the citation viewer
 function SourceCitation({
   source,
   index,
+  active,
+  onOpen,
 }: {
   source: Source;
   index: number;
+  active?: boolean;
+  onOpen?: () => void;
 }) {
   return (
     <motion.div
@@ -73,7 +86,14 @@ function SourceCitation({
       animate={{ opacity: 1, x: 0 }}
       transition={{ delay: index * 0.05 }}
     >
-      <div className="flex items-start gap-2 rounded-lg p-2 -m-1">
+      <button
+        type="button"
+        onClick={onOpen}
+        disabled={!onOpen}
+        className={`w-full text-left flex items-start gap-2 rounded-lg p-2 -m-1 transition-colors enabled:hover:bg-green-100/60 ${
+          active ? "bg-green-100/80" : ""
+        }`}
+      >
         <span className="font-mono text-xs font-bold px-1.5 py-0.5 rounded shrink-0 bg-green-100 text-green-700">
           {source.ref}
         </span>
@@ -84,18 +104,99 @@ function SourceCitation({
               {source.document}
             </span>
             <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-green-100 text-green-700 shrink-0">
-              Page {source.page}
+              {[source.location ?? `Page ${source.page}`, source.clause && `§${source.clause}`, source.table]
+                .filter(Boolean)
+                .join(" · ")}
             </span>
           </div>
           <p className="text-xs text-muted-foreground leading-relaxed mt-1 ml-5">
             {source.content_preview}
           </p>
         </div>
-      </div>
+      </button>
     </motion.div>
   );
 }
 
+// Answer text with its [n] citation markers linked to the viewer
+function CitedText({
+  text,
+  sources,
+  onOpen,
+}: {
+  text: string;
+  sources: Source[];
+  onOpen: (index: number) => void;
+}) {
+  return (
+    <>
+      {text.split(/(\[\d+\])/).map((part, position) => {
+        const index = sources.findIndex((source) => source.ref === part);
+        return (
+          <Fragment key={position}>
+            {index === -1 ? (
+              part
+            ) : (
+              <button
+                type="button"
+                onClick={() => onOpen(index)}
+                className="font-mono text-xs font-semibold text-green-700 hover:underline underline-offset-2"
+              >
+                {part}
+              </button>
+            )}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+const CLAIM_STYLES: Record<ClaimVerdict, string> = {
+  verified: "underline decoration-green-500/50 decoration-1 underline-offset-4",
+  unverified: "underline decoration-amber-500 decoration-dotted decoration-2 underline-offset-4",
+  contradicted: "underline decoration-red-500 decoration-wavy underline-offset-4 bg-red-50 dark:bg-red-950/30",
+};
+
+function claimTitle(claim: AnswerClaim): string {
+  switch (claim.verdict) {
+    case "verified":
+      return `Verified against ${claim.ref}${claim.quote ? `: "${claim.quote}"` : ""}`;
+    case "contradicted":
+      return `${claim.ref} says: "${claim.quote}" (${claim.unsupported_numbers.join(", ")} not in the source)`;
+    case "unverified":
+      return claim.ref ? `Not verified against ${claim.ref}` : "Not verified: no citation";
+  }
+}
+
+// Answer text with each claim marked verified, unverified or contradicted
+function ClaimedText({
+  text,
+  claims,
+  sources,
+  onOpen,
+}: {
+  text: string;
+  claims: AnswerClaim[];
+  sources: Source[];
+  onOpen: (index: number) => void;
+}) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const claim of claims) {
+    if (claim.start < position || claim.end > text.length) continue;
+    parts.push(
+      <CitedText key={`text-${position}`} text={text.slice(position, claim.start)} sources={sources} onOpen={onOpen} />,
+      <span key={`claim-${claim.start}`} className={CLAIM_STYLES[claim.verdict]} title={claimTitle(claim)}>
+        <CitedText text={text.slice(claim.start, claim.end)} sources={sources} onOpen={onOpen} />
+      </span>
+    );
+    position = claim.end;
+  }
+  parts.push(<CitedText key={`text-${position}`} text={text.slice(position)} sources={sources} onOpen={onOpen} />);
+  return <>{parts}</>;
+}
+
 // Loading indicator — clean bouncing dots
 function ResponseSkeleton() {
   return (
@@ -127,12 +228,18 @@ export function RealtimeComparison({
   isLoading,
   error,
   confidence,
+  claims = [],
+  conflicts = [],
   onRetry,
 }: RealtimeComparisonProps) {
   const steelAgent = useTypewriter(steelAgentResponse || "", 12);
   const genericLLM = useTypewriter(genericLLMResponse || "", 12);
   const [copiedSteel, setCopiedSteel] = useState(false);
   const [copiedGeneric, setCopiedGeneric] = useState(false);
+  // Citation open in the viewer, for the sources it was opened from
+  const [viewing, setViewing] = useState<{ sources: Source[]; index: number } | null>(null);
+  const viewingIndex = viewing?.sources === steelAgentSources ? viewing.index : null;
+  const openCitation = (index: number) => setViewing({ sources: steelAgentSources, index });
 
   const handleCopy = async (text: string, setter: (v: boolean) => void) => {
     await navigator.clipboard.writeText(text);
@@ -240,11 +347,25 @@ export function RealtimeComparison({
           {/* Content */}
           <div className="p-4 min-h-[200px]">
             {isLoading && !steelAgentResponse ? (
-              <ResponseSkeleton />
+              <>
+                <ResponseSkeleton />
+                {/* Sources arrive before the answer when streaming */}
+                {steelAgentSources.length > 0 && (
+                  <div className="space-y-2">
+                    {steelAgentSources.map((source, index) => (
+                      <SourceCitation key={source.ref} source={source} index={index} onOpen={() => openCitation(index)} />
+                    ))}
+                  </div>
+                )}
+              </>
             ) : (
               <>
                 <div className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">
-                  {steelAgent.displayedText}
+                  {steelAgent.isComplete && claims.length > 0 ? (
+                    <ClaimedText text={steelAgent.displayedText} claims={claims} sources={steelAgentSources} onOpen={openCitation} />
+                  ) : (
+                    <CitedText text={steelAgent.displayedText} sources={steelAgentSources} onOpen={openCitation} />
+                  )}
                   {!steelAgent.isComplete && steelAgentResponse && (
                     <motion.span
                       animate={{ opacity: [1, 0] }}
@@ -283,7 +404,13 @@ export function RealtimeComparison({
                     </motion.div>
                     <div className="space-y-2">
                       {steelAgentSources.map((source, index) => (
-                        <SourceCitation key={source.ref} source={source} index={index} />
+                        <SourceCitation
+                          key={source.ref}
+                          source={source}
+                          index={index}
+                          active={index === viewingIndex}
+                          onOpen={() => openCitation(index)}
+                        />
                       ))}
                     </div>
 
@@ -310,6 +437,62 @@ export function RealtimeComparison({
                       </motion.div>
                     )}
 
+                    {/* Conflicting values across specs (each value opens its citation) */}
+                    {conflicts.length > 0 && (
+                      <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: 0.62 }}
+                        className="mt-3 p-2 bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-800 rounded-md space-y-1"
+                      >
+                        <p className="text-xs font-semibold text-orange-700 dark:text-orange-300 flex items-center gap-1.5">
+                          <AlertTriangle className="h-3 w-3" />
+                          Specs disagree
+                        </p>
+                        {conflicts.map((conflict) => (
+                          <p key={`${conflict.grade}:${conflict.property}`} className="text-[11px] text-orange-800 dark:text-orange-200">
+                            {conflict.grade} {conflict.property}:{" "}
+                            {conflict.values.map((value, index) => {
+                              const sourceIndex = steelAgentSources.findIndex((source) => source.ref === value.ref);
+                              return (
+                                <span key={value.document}>
+                                  {index > 0 && " vs "}
+                                  {value.value} per {value.spec ?? value.document}{" "}
+                                  {sourceIndex !== -1 ? (
+                                    <button
+                                      type="button"
+                                      onClick={() => openCitation(sourceIndex)}
+                                      className="font-mono font-bold text-green-700 hover:underline"
+                                    >
+                                      {value.ref}
+                                    </button>
+                                  ) : (
+                                    <span className="font-mono">{value.ref}</span>
+                                  )}
+                                </span>
+                              );
+                            })}
+                          </p>
+                        ))}
+                      </motion.div>
+                    )}
+
+                    {/* Claim verdicts (claims are marked in the answer; hover for the quote) */}
+                    {claims.length > 0 && (
+                      <motion.p
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ delay: 0.65 }}
+                        className="mt-2 text-[10px] text-muted-foreground"
+                      >
+                        Claims: <span className="text-green-700">{claims.filter((claim) => claim.verdict === "verified").length} verified</span>
+                        {" · "}
+                        <span className="text-amber-700">{claims.filter((claim) => claim.verdict === "unverified").length} unverified</span>
+                        {" · "}
+                        <span className="text-red-700">{claims.filter((claim) => claim.verdict === "contradicted").length} contradicted</span>
+                      </motion.p>
+                    )}
+
                     {/* AI-assisted disclaimer */}
                     <motion.div
                       initial={{ opacity: 0 }}
@@ -346,75 +529,85 @@ export function RealtimeComparison({
           </div>
         </motion.div>
 
-        {/* Generic LLM Column */}
-        <motion.div
-          initial={{ opacity: 0, x: 20 }}
-          animate={{ opacity: 1, x: 0 }}
-          transition={{ delay: 0.2 }}
-          className="rounded-lg border-2 border-muted-foreground/30 bg-gradient-to-br from-muted/30 to-background overflow-hidden"
-        >
-          {/* Header */}
-          <div className="px-4 py-3 bg-muted/50 border-b border-border flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Bot className="h-4 w-4 text-muted-foreground" />
-              <span className="text-sm font-medium text-muted-foreground">Generic LLM</span>
-              <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-muted-foreground/20 text-muted-foreground font-medium">
-                No RAG
-              </span>
+        {/* Citation viewer, in place of the Generic LLM column while open */}
+        {viewingIndex !== null ? (
+          <CitationViewer
+            sources={steelAgentSources}
+            activeIndex={viewingIndex}
+            onSelect={openCitation}
+            onClose={() => setViewing(null)}
+          />
+        ) : (
+          /* Generic LLM Column */
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.2 }}
+            className="rounded-lg border-2 border-muted-foreground/30 bg-gradient-to-br from-muted/30 to-background overflow-hidden"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 bg-muted/50 border-b border-border flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Bot className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium text-muted-foreground">Generic LLM</span>
+                <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-muted-foreground/20 text-muted-foreground font-medium">
+                  No RAG
+                </span>
+              </div>
+              {genericLLMResponse && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCopy(genericLLMResponse, setCopiedGeneric)}
+                  className="h-7 px-2 text-muted-foreground hover:text-foreground"
+                >
+                  {copiedGeneric ? (
+                    <Check className="h-3 w-3" />
+                  ) : (
+                    <Copy className="h-3 w-3" />
+                  )}
+                </Button>
+              )}
             </div>
-            {genericLLMResponse && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleCopy(genericLLMResponse, setCopiedGeneric)}
-                className="h-7 px-2 text-muted-foreground hover:text-foreground"
-              >
-                {copiedGeneric ? (
-                  <Check className="h-3 w-3" />
-                ) : (
-                  <Copy className="h-3 w-3" />
-                )}
-              </Button>
-            )}
-          </div>
 
-          {/* Content */}
-          <div className="p-4 min-h-[200px]">
-            {isLoading && !genericLLMResponse ? (
-              <ResponseSkeleton />
-            ) : (
-              <>
-                <div className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                  {genericLLM.displayedText}
-                  {!genericLLM.isComplete && genericLLMResponse && (
-                    <motion.span
-                      animate={{ opacity: [1, 0] }}
-                      transition={{ duration: 0.5, repeat: Infinity }}
-                      className="inline-block w-0.5 h-4 bg-muted-foreground ml-0.5 align-middle"
-                    />
-                  )}
-                </div>
+            {/* Content */}
+            <div className="p-4 min-h-[200px]">
+              {isLoading && !genericLLMResponse ? (
+                <ResponseSkeleton />
+              ) : (
+                <>
+                  <div className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
+                    {genericLLM.displayedText}
+                    {!genericLLM.isComplete && genericLLMResponse && (
+                      <motion.span
+                        animate={{ opacity: [1, 0] }}
+                        transition={{ duration: 0.5, repeat: Infinity }}
+                        className="inline-block w-0.5 h-4 bg-muted-foreground ml-0.5 align-middle"
+                      />
+                    )}
+                  </div>
 
-                {/* No Sources Warning */}
-                {genericLLM.isComplete && (
-                  <motion.div
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: 0.3 }}
-                    className="mt-4 pt-3 border-t border-border"
-                  >
-                    <div className="flex items-center gap-1.5">
-                      <XCircle className="h-3.5 w-3.5 text-red-400" />
-                      <span className="text-xs text-red-400">
-                        No citations • Cannot verify accuracy
-                      </span>
-                    </div>
-                  </motion.div>
-                )}
-              </>
-            )}
-          </div>
-        </motion.div>
+                  {/* No Sources Warning */}
+                  {genericLLM.isComplete && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.3 }}
+                      className="mt-4 pt-3 border-t border-border"
+                    >
+                      <div className="flex items-center gap-1.5">
+                        <XCircle className="h-3.5 w-3.5 text-red-400" />
+                        <span className="text-xs text-red-400">
+                          No citations • Cannot verify accuracy
+                        </span>
+                      </div>
+                    </motion.div>
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
       </div>
 
       {/* Comparison Summary */}
@@ -4,18 +4,22 @@ import { useState, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ArrowRight, Loader2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { queryKnowledgeBase, queryWithComparison, ApiRequestError, Source, GenericLLMResponse, ConfidenceScore } from "@/lib/api";
+import { queryKnowledgeBase, queryWithComparison, ApiRequestError, Source, GenericLLMResponse, ConfidenceScore, ChatStreamEvent, AnswerClaim, SpecConflict } from "@/lib/api";
 
 interface SearchFormProps {
   onResult: (response: string, sources: Source[]) => void;
   onError: (error: string) => void;
   onLoadingChange?: (loading: boolean) => void;
   onComparisonResult?: (
-    steelAgent: { response: string; sources: Source[]; confidence?: ConfidenceScore },
+    steelAgent: { response: string; sources: Source[]; confidence?: ConfidenceScore; conversationId?: string; rewrittenQuery?: string; claims?: AnswerClaim[]; conflicts?: SpecConflict[] },
     genericLLM: GenericLLMResponse
   ) => void;
   onQuerySubmit?: (query: string) => void;
+  /** Receives stage, source and answer-token events while the query streams */
+  onStreamEvent?: (event: ChatStreamEvent) => void;
   documentId?: number | null;
+  /** Conversation to continue, so follow-up questions keep earlier context */
+  conversationId?: string | null;
 }
 
 
@@ -25,7 +29,9 @@ export function SearchForm({
   onLoadingChange,
   onComparisonResult,
   onQuerySubmit,
+  onStreamEvent,
   documentId,
+  conversationId,
 }: SearchFormProps) {
   const [query, setQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -40,17 +46,29 @@ export function SearchForm({
       onLoadingChange?.(true);
       onQuerySubmit?.(query);
 
+      const queryOptions = { onEvent: onStreamEvent, conversationId: conversationId ?? undefined };
+
       try {
         if (onComparisonResult) {
-          // Always run comparison mode
-          const result = await queryWithComparison(query, documentId ?? undefined);
+          // Always run comparison mode; the page keeps the conversation for follow-ups
+          const result = await queryWithComparison(query, documentId ?? undefined, { ...queryOptions, startConversation: true });
           onComparisonResult(
-            { response: result.steelAgent.response, sources: result.steelAgent.sources || [], confidence: result.steelAgent.confidence },
+            {
+              response: result.steelAgent.response,
+              sources: result.steelAgent.sources || [],
+              confidence: result.steelAgent.confidence,
+              conversationId: result.steelAgent.conversationId,
+              rewrittenQuery: result.steelAgent.rewrittenQuery,
+              claims: result.steelAgent.claims,
+              conflicts: result.steelAgent.conflicts,
+            },
             result.genericLLM
           );
         } else {
           // Fallback to single query if no comparison handler
-          const result = await queryKnowledgeBase(query, documentId ?? undefined);
+          const result = onStreamEvent || conversationId
+            ? await queryKnowledgeBase(query, documentId ?? undefined, queryOptions)
+            : await queryKnowledgeBase(query, documentId ?? undefined);
           onResult(result.response, result.sources || []);
         }
       } catch (error) {
@@ -64,7 +82,7 @@ export function SearchForm({
         onLoadingChange?.(false);
       }
     },
-    [query, isLoading, onResult, onError, onLoadingChange, onComparisonResult, onQuerySubmit, documentId]
+    [query, isLoading, onResult, onError, onLoadingChange, onComparisonResult, onQuerySubmit, onStreamEvent, documentId, conversationId]
   );
 
 
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { groundClaims, type ClaimSource } from './answer-grounding';
+import { a790TensileTable } from '../tests/helpers/spec-fixtures';
+
+const SOURCES: ClaimSource[] = [
+  {
+    ref: '[1]',
+    content: a790TensileTable('S32205'),
+  },
+  {
+    ref: '[2]',
+    content: '6.1 All pipe shall be furnished in the solution-annealed condition and quenched in water.\n6.2 Quench from 1870 °F minimum.',
+  },
+];
+
+describe('groundClaims', () => {
+  it('should verify a cited value and keep its span in the answer', () => {
+    const answer = 'The minimum yield strength of S32205 is 65 ksi [1]. Pipe shall be solution-annealed and quenched in water [2].';
+
+    const claims = groundClaims(answer, SOURCES);
+
+    expect(claims).toHaveLength(2);
+    expect(claims[0]).toMatchObject({ ref: '[1]', numbers_checked: 1, numbers_verified: 1, verdict: 'verified' });
+    expect(answer.slice(claims[0].start, claims[0].end)).toBe('The minimum yield strength of S32205 is 65 ksi [1].');
+    expect(claims[1]).toMatchObject({
+      ref: '[2]',
+      quote: '6.1 All pipe shall be furnished in the solution-annealed condition and quenched in water.',
+      numbers_checked: 0,
+      verdict: 'verified',
+    });
+  });
+
+  it('should accept a value converted to the other unit system', () => {
+    const [claim] = groundClaims('S32205 has a minimum yield strength of 450 MPa [1].', SOURCES);
+
+    expect(claim.verdict).toBe('verified');
+  });
+
+  it('should flag a misquoted value as contradicted', () => {
+    const [claim] = groundClaims('Quench from 1900 °F minimum [2].', SOURCES);
+
+    expect(claim).toMatchObject({ ref: '[2]', quote: '6.2 Quench from 1870 °F minimum.', verdict: 'contradicted' });
+    expect(claim.unsupported_numbers).toHaveLength(1);
+  });
+
+  it('should leave uncited or unknown citations unverified', () => {
+    const claims = groundClaims('Duplex grades reach 80 ksi.\n\nHardness is limited [7].', SOURCES);
+
+    expect(claims.map((claim) => [claim.ref, claim.verdict])).toEqual([
+      [null, 'unverified'],
+      ['[7]', 'unverified'],
+    ]);
+  });
+
+  it('should check table rows against the table citation', () => {
+    const answer = `| Grade | Yield |
+| --- | --- |
+| S32205 | 65 ksi |
+| S32750 | 80 ksi |
+Values from Table 3 [1].`;
+
+    const claims = groundClaims(answer, SOURCES);
+    const rows = claims.filter((claim) => claim.text.startsWith('| S'));
+
+    expect(rows.map((claim) => [claim.ref, claim.verdict])).toEqual([
+      ['[1]', 'verified'],
+      ['[1]', 'unverified'],
+    ]);
+  });
+
+  it('should skip headings and the sources list', () => {
+    const claims = groundClaims('## Answer\nPipe is solution-annealed and quenched in water [2].\n\n**Sources:**\n[2] ASTM-A790.pdf, Page 3', SOURCES);
+
+    expect(claims.map((claim) => claim.text)).toEqual(['Pipe is solution-annealed and quenched in water [2].']);
+  });
+});
@@ -8,9 +8,19 @@
  * This catches hallucinated numbers (e.g., LLM says "65 ksi" when
  * chunks say "70 ksi") without the overhead of the full verified
  * generation pipeline.
+ *
+ * Values the LLM converted itself ("448 MPa" from a chunk that only says
+ * "65 ksi") count as grounded when the source has the same value in another
+ * unit — see lib/units.ts.
+ *
+ * groundClaims() applies the same checks per claim: each sentence or table
+ * row is matched against the source it cites, so the UI can mark claims
+ * verified, unverified or contradicted instead of showing one score.
  */
 
+import type { AnswerClaim, ClaimVerdict } from "./api";
 import { extractNumericalValues } from "./structured-output";
+import { extractQuantities, isEquivalent, normalizeUnit, type Quantity } from "./units";
 
 export interface GroundingResult {
   /** Percentage of response numbers found in chunks (0-100) */
@@ -21,6 +31,8 @@ export interface GroundingResult {
   totalNumbers: number;
   /** Numbers verified against source chunks */
   groundedNumbers: number;
+  /** Grounded numbers that matched a source value in another unit */
+  convertedNumbers: number;
   /** Numbers NOT found in any chunk */
   ungroundedNumbers: { value: number; unit: string; original: string }[];
 }
@@ -53,27 +65,36 @@ export function groundResponse(
       passed: true,
       totalNumbers: 0,
       groundedNumbers: 0,
+      convertedNumbers: 0,
       ungroundedNumbers: [],
     };
   }
 
-  // Collect all numbers from all source chunks into a flat set
+  // Collect all numbers from all source chunks into a flat set, plus
+  // unit-tagged quantities (incl. dual-notation table values) for conversions
   const sourceNumbers = new Set<number>();
+  const sourceQuantities: Quantity[] = [];
   for (const chunk of chunks) {
     const chunkNumbers = extractNumericalValues(chunk.content);
     for (const n of chunkNumbers) {
       sourceNumbers.add(n.value);
     }
+    sourceQuantities.push(...extractQuantities(chunk.content));
   }
 
   // Verify each response number against source numbers
   const ungrounded: GroundingResult["ungroundedNumbers"] = [];
   let groundedCount = 0;
+  let convertedCount = 0;
 
   for (const rn of responseNumbers) {
     const isGrounded = hasMatchingNumber(rn.value, sourceNumbers);
     if (isGrounded) {
       groundedCount++;
+    } else if (hasConvertedNumber(rn, sourceQuantities)) {
+      // LLM-computed conversion of a source value (65 ksi → 448 MPa)
+      groundedCount++;
+      convertedCount++;
     } else if ((rn.value > 10 || !Number.isInteger(rn.value)) && hasRawNumberInChunks(rn.value, chunks)) {
       // Secondary check: look for bare number in chunk text (handles table values).
       // ASTM tables store values without adjacent units — units are in the header row.
@@ -92,6 +113,7 @@ export function groundResponse(
     passed: score >= 50,
     totalNumbers: responseNumbers.length,
     groundedNumbers: groundedCount,
+    convertedNumbers: convertedCount,
     ungroundedNumbers: ungrounded,
   };
 }
@@ -109,6 +131,19 @@ function hasMatchingNumber(value: number, sourceNumbers: Set<number>): boolean {
   return false;
 }
 
+/**
+ * Check if a response value is a unit conversion of a source quantity,
+ * within the rounding tolerance specs use for dual units.
+ */
+function hasConvertedNumber(
+  number: { value: number; unit: string },
+  sourceQuantities: Quantity[]
+): boolean {
+  const unit = normalizeUnit(number.unit);
+  if (!unit) return false;
+  return sourceQuantities.some(source => source.unit !== unit && isEquivalent({ value: number.value, unit }, source));
+}
+
 /**
  * Fallback: check if a bare number appears in any chunk text.
  * Handles ASTM table values where numbers appear without adjacent units
@@ -121,3 +156,219 @@ function hasRawNumberInChunks(value: number, chunks: { content: string }[]): boo
   const pattern = new RegExp(`\\b${numStr.replace('.', '\\.')}\\b`);
   return chunks.some(chunk => pattern.test(chunk.content));
 }
+
+// ============================================================================
+// Per-Claim Provenance
+// ============================================================================
+
+/** Text behind a citation: the chunks a source ref stands for */
+export interface ClaimSource {
+  ref: string;
+  content: string;
+}
+
+// Share of a claim's words and values a passage must contain to back it
+// (the same threshold verifyClaims uses for quotes)
+const QUOTE_MATCH_THRESHOLD = 60;
+const MAX_QUOTE_LENGTH = 300;
+
+const CITATION_MARKER = /\[(\d+)\]/g;
+// End of a sentence, with any citation markers that follow it
+const SENTENCE_END = /[.!?](?:\s*\[\d+\])*(?=\s+[A-Z(*[]|\s*$)/g;
+// The answer's closing "Sources:" list, which cites rather than claims
+const SOURCES_HEADING = /^\s*(?:#+\s*|\*\*)?(?:Sources|References)\b/im;
+const TABLE_SEPARATOR = /^\s*\|?[\s:|-]*-[\s:|-]*\|?\s*$/;
+const LIST_MARKER = /^\s*(?:[-*•]|\d+\.)\s+/;
+
+/**
+ * Check each claim of an answer against the source it cites.
+ *
+ * Claims are the sentences and table rows that cite a source or state a
+ * value with a unit; a claim without its own citation uses the citations of
+ * its paragraph or table. For each, the closest passage of the cited
+ * source(s) is the quote, and values are grounded as in groundResponse().
+ *
+ * Verdicts:
+ * - verified: all values found in the cited source, or (without values) the
+ *   quote contains most of the claim
+ * - contradicted: the claim matches a passage that states values, but its
+ *   own values aren't in the source
+ * - unverified: no citation, an unknown one, or too little in common
+ *
+ * @param responseText - The final answer, with its citation numbers
+ * @param sources - Source text by ref, as numbered in the answer
+ * @returns Claims in answer order; spans index into responseText
+ */
+export function groundClaims(responseText: string, sources: ClaimSource[]): AnswerClaim[] {
+  const sourceByRef = new Map(sources.map((source) => [source.ref, source]));
+  const sourcesHeading = responseText.match(SOURCES_HEADING);
+  const body = sourcesHeading ? responseText.slice(0, sourcesHeading.index) : responseText;
+
+  const claims: AnswerClaim[] = [];
+  for (const block of splitBlocks(body)) {
+    const blockRefs = citedRefs(body.slice(block.start, block.end));
+    for (const segment of block.segments) {
+      const text = body.slice(segment.start, segment.end);
+      const refs = citedRefs(text);
+      const claimText = text.replace(CITATION_MARKER, "").trim();
+      if (refs.length === 0 && extractNumericalValues(claimText).length === 0) continue;
+
+      claims.push({
+        text,
+        start: segment.start,
+        end: segment.end,
+        ...checkClaim(claimText, refs.length > 0 ? refs : blockRefs, sourceByRef),
+      });
+    }
+  }
+  return claims;
+}
+
+/**
+ * Paragraphs and tables of the answer, cut into claim-sized segments:
+ * table rows, and sentences of other lines (without list markers).
+ * Headings and table separators are left out.
+ */
+function splitBlocks(text: string): { start: number; end: number; segments: { start: number; end: number }[] }[] {
+  const blocks: { start: number; end: number; segments: { start: number; end: number }[] }[] = [];
+  let block: (typeof blocks)[number] | null = null;
+  let lineStart = 0;
+
+  for (const line of text.split("\n")) {
+    const lineEnd = lineStart + line.length;
+    if (!line.trim()) {
+      block = null;
+    } else {
+      if (!block) {
+        block = { start: lineStart, end: lineEnd, segments: [] };
+        blocks.push(block);
+      }
+      block.end = lineEnd;
+
+      if (line.trimStart().startsWith("|")) {
+        if (!TABLE_SEPARATOR.test(line)) {
+          block.segments.push(trimmedSpan(text, lineStart, lineEnd));
+        }
+      } else if (!line.trimStart().startsWith("#")) {
+        const marker = line.match(LIST_MARKER);
+        let sentenceStart = lineStart + (marker ? marker[0].length : 0);
+        for (const end of line.matchAll(SENTENCE_END)) {
+          const sentenceEnd = lineStart + end.index + end[0].length;
+          block.segments.push(trimmedSpan(text, sentenceStart, sentenceEnd));
+          sentenceStart = sentenceEnd;
+        }
+        if (text.slice(sentenceStart, lineEnd).trim()) {
+          block.segments.push(trimmedSpan(text, sentenceStart, lineEnd));
+        }
+      }
+    }
+    lineStart = lineEnd + 1;
+  }
+
+  return blocks;
+}
+
+function trimmedSpan(text: string, start: number, end: number): { start: number; end: number } {
+  const slice = text.slice(start, end);
+  const leading = slice.length - slice.trimStart().length;
+  return { start: start + leading, end: start + slice.trimEnd().length };
+}
+
+function citedRefs(text: string): string[] {
+  return [...new Set([...text.matchAll(CITATION_MARKER)].map((match) => match[0]))];
+}
+
+/**
+ * Match one claim against its cited sources: closest passage, values, verdict.
+ */
+function checkClaim(
+  claimText: string,
+  refs: string[],
+  sourceByRef: Map<string, ClaimSource>
+): Omit<AnswerClaim, "text" | "start" | "end"> {
+  const cited = refs.map((ref) => sourceByRef.get(ref)).filter((source): source is ClaimSource => source !== undefined);
+  const numbers = extractNumericalValues(claimText);
+
+  if (cited.length === 0) {
+    return {
+      ref: refs[0] ?? null,
+      quote: null,
+      quote_score: 0,
+      numbers_checked: numbers.length,
+      numbers_verified: 0,
+      unsupported_numbers: numbers.map((number) => number.original),
+      verdict: "unverified",
+    };
+  }
+
+  // Closest passage across the cited sources
+  const claimTokens = tokenize(claimText);
+  let best = { ref: cited[0].ref, quote: "", score: 0 };
+  for (const source of cited) {
+    for (const passage of splitPassages(source.content)) {
+      const score = overlapScore(claimTokens, passage);
+      if (score > best.score) best = { ref: source.ref, quote: passage, score };
+    }
+  }
+
+  // Values count as supported anywhere in the cited sources
+  const grounding = groundResponse(claimText, cited);
+  const allGrounded = grounding.ungroundedNumbers.length === 0;
+
+  let verdict: ClaimVerdict;
+  if (grounding.totalNumbers > 0) {
+    verdict = allGrounded
+      ? "verified"
+      : best.score >= QUOTE_MATCH_THRESHOLD && extractNumericalValues(best.quote).length > 0
+        ? "contradicted"
+        : "unverified";
+  } else {
+    verdict = best.score >= QUOTE_MATCH_THRESHOLD ? "verified" : "unverified";
+  }
+
+  return {
+    ref: best.ref,
+    quote: best.quote ? best.quote.slice(0, MAX_QUOTE_LENGTH) : null,
+    quote_score: best.score,
+    numbers_checked: grounding.totalNumbers,
+    numbers_verified: grounding.groundedNumbers,
+    unsupported_numbers: grounding.ungroundedNumbers.map((number) => number.original),
+    verdict,
+  };
+}
+
+/**
+ * Lines of a source, with long lines (running text) cut into sentences.
+ */
+function splitPassages(content: string): string[] {
+  return content
+    .split("\n")
+    .flatMap((line) => (line.length > MAX_QUOTE_LENGTH ? line.split(/(?<=[.;])\s+/) : [line]))
+    .map((passage) => passage.trim())
+    .filter((passage) => passage.length > 0);
+}
+
+const STOPWORDS = new Set([
+  "the", "is", "are", "be", "of", "and", "or", "to", "in", "on", "at", "by", "for",
+  "with", "as", "per", "this", "that", "it", "its", "shall", "an",
+]);
+
+// Words and numbers, lowercased, without stopwords; 0.08 stays one token
+function tokenize(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9]+(?:\.\d+)?/g) ?? []).filter((token) => token.length > 1 && !STOPWORDS.has(token))
+  );
+}
+
+/**
+ * Share of the claim's words (and identifiers such as grades) that appear in
+ * the passage (0-100). Bare numbers are left to the value check, so a claim
+ * with a wrong value still matches the passage it misquotes.
+ */
+function overlapScore(claimTokens: Set<string>, passage: string): number {
+  const words = [...claimTokens].filter((token) => !/^\d/.test(token));
+  if (words.length === 0) return 0;
+  const passageTokens = tokenize(passage);
+  const shared = words.filter((token) => passageTokens.has(token)).length;
+  return Math.round((shared / words.length) * 100);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { authenticateApiKey, generateApiKey, hashApiKey } from './api-keys';
+import { getSupabase } from './supabase';
+
+const maybeSingle = vi.fn();
+const rpc = vi.fn(() => ({ maybeSingle }));
+
+vi.mock('./supabase', () => ({
+  getSupabase: vi.fn(() => ({ rpc })),
+}));
+
+const KEY = 'sk_' + 'ab'.repeat(32);
+
+describe('API Keys', () => {
+  beforeEach(() => {
+    vi.mocked(getSupabase).mockClear();
+    rpc.mockClear();
+    maybeSingle.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('hashApiKey', () => {
+    it('should return the SHA-256 hex digest of the key', async () => {
+      expect(await hashApiKey('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+  });
+
+  describe('generateApiKey', () => {
+    it('should generate an sk_ key with its hash and display prefix', async () => {
+      const { key, keyHash, keyPrefix } = await generateApiKey();
+
+      expect(key).toMatch(/^sk_[0-9a-f]{64}$/);
+      expect(keyPrefix).toBe(key.slice(0, 8));
+      expect(keyHash).toBe(await hashApiKey(key));
+    });
+
+    it('should generate a different key each time', async () => {
+      const [first, second] = await Promise.all([generateApiKey(), generateApiKey()]);
+
+      expect(first.key).not.toBe(second.key);
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should look the key up by its hash and return its workspace and owner', async () => {
+      maybeSingle.mockResolvedValue({ data: { workspace_id: 'workspace-1', user_id: 'user-1' }, error: null });
+
+      expect(await authenticateApiKey(KEY)).toEqual({ workspaceId: 'workspace-1', userId: 'user-1' });
+      expect(rpc).toHaveBeenCalledWith('authenticate_api_key', { p_key_hash: await hashApiKey(KEY) });
+    });
+
+    it('should reject a revoked, expired or unknown key', async () => {
+      // The RPC returns no row unless the key is active and unexpired
+      maybeSingle.mockResolvedValue({ data: null, error: null });
+
+      expect(await authenticateApiKey(KEY)).toBeNull();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Rejected key sk_ababa...'));
+    });
+
+    it('should reject the key when validation fails', async () => {
+      maybeSingle.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+      expect(await authenticateApiKey(KEY)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * API Key Authentication
+ *
+ * Server-to-server callers (scripts, ERP integrations) authenticate with
+ * `Authorization: Bearer sk_...`. Keys live in `user_api_keys`: only the
+ * SHA-256 hash is stored, plus `key_prefix` (first 8 characters) so users can
+ * tell keys apart. The full key is shown once, when it's created.
+ *
+ * Validation runs through the `authenticate_api_key` RPC
+ * (supabase/migrations/add-api-key-auth.sql), which checks `is_active` and
+ * `expires_at` and records `last_used_at` — the table itself is only readable
+ * by the key's owner.
+ *
+ * Middleware validates the key once per request and hands the workspace to
+ * routes (lib/workspace.ts). Hashing uses Web Crypto so it runs in middleware
+ * (edge runtime) too.
+ */
+
+import { getSupabase } from "./supabase";
+import { sha256Hex } from "./utils/hash";
+
+// ============================================
+// Configuration
+// ============================================
+
+export const API_KEY_PREFIX = "sk_";
+
+/** Characters of the key stored for display (e.g. "sk_3f9a1") */
+const DISPLAY_PREFIX_LENGTH = 8;
+
+/** Random bytes per key (hex-encoded: 64 characters after the prefix) */
+const KEY_BYTES = 32;
+
+// ============================================
+// Types
+// ============================================
+
+/** An API key as listed to its owner — never includes the key itself */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  is_active: boolean;
+}
+
+export interface AuthenticatedApiKey {
+  workspaceId: string;
+  userId: string;
+}
+
+// ============================================
+// Key Handling
+// ============================================
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * SHA-256 hex digest of a key, as stored in `user_api_keys.key_hash`.
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  return sha256Hex(key);
+}
+
+/**
+ * Generate a new key with its hash and display prefix.
+ */
+export async function generateApiKey(): Promise<{ key: string; keyHash: string; keyPrefix: string }> {
+  const key = API_KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+  return { key, keyHash: await hashApiKey(key), keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * Validate a key and record its use.
+ *
+ * @returns The key's workspace and owner, or null if the key is unknown,
+ *   revoked or expired
+ */
+export async function authenticateApiKey(key: string): Promise<AuthenticatedApiKey | null> {
+  const { data, error } = await getSupabase()
+    .rpc("authenticate_api_key", { p_key_hash: await hashApiKey(key) })
+    .maybeSingle<{ workspace_id: string; user_id: string }>();
+
+  if (error) {
+    console.error("[API Keys] Validation failed:", error);
+    return null;
+  }
+  if (!data) {
+    console.warn(`[API Keys] Rejected key ${key.slice(0, DISPLAY_PREFIX_LENGTH)}... (unknown, revoked or expired)`);
+    return null;
+  }
+
+  return { workspaceId: data.workspace_id, userId: data.user_id };
+}
@@ -36,6 +36,79 @@ describe('API Client', () => {
       expect(result).toEqual(mockResponse);
     });
 
+    it('should read the legacy single-payload SSE format', async () => {
+      const mockResponse = { response: 'Streamed answer', sources: [] };
+      const encoded = new TextEncoder().encode(`: heartbeat\n\ndata: ${JSON.stringify(mockResponse)}\n\n`);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(encoded);
+            controller.close();
+          },
+        }),
+      });
+
+      const result = await queryKnowledgeBase('What is A106 Grade B?');
+
+      expect(result).toEqual(mockResponse);
+    });
+
+    it('should forward typed stream events and resolve with the final payload', async () => {
+      const sources = [{ ref: '[1]', document: 'A790.pdf', page: '4', content_preview: 'Table 3' }];
+      const finalPayload = { response: 'Yield is 65 ksi [1].', sources };
+      const wire = [
+        'event: stage\ndata: {"stage":"retrieval"}\n\n',
+        `event: sources\ndata: ${JSON.stringify({ sources })}\n\n`,
+        'event: token\ndata: {"text":"Yield is "}\n\n',
+        'event: token\ndata: {"text":"65 ksi [1]."}\n\n',
+        `event: final\ndata: ${JSON.stringify(finalPayload)}\n\n`,
+      ].join('');
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        body: new ReadableStream({
+          start(controller) {
+            // Split mid-event to exercise buffering across reads
+            const bytes = new TextEncoder().encode(wire);
+            controller.enqueue(bytes.slice(0, 30));
+            controller.enqueue(bytes.slice(30));
+            controller.close();
+          },
+        }),
+      });
+
+      const onEvent = vi.fn();
+      const result = await queryKnowledgeBase('S32205 yield per A790', undefined, { onEvent });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/chat',
+        expect.objectContaining({
+          body: JSON.stringify({ query: 'S32205 yield per A790', stream: true, events: true }),
+        })
+      );
+      expect(onEvent).toHaveBeenNthCalledWith(1, { type: 'stage', stage: 'retrieval' });
+      expect(onEvent).toHaveBeenNthCalledWith(2, { type: 'sources', sources });
+      expect(onEvent.mock.calls.filter(([e]) => e.type === 'token').map(([e]) => e.text).join('')).toBe('Yield is 65 ksi [1].');
+      expect(result).toEqual(finalPayload);
+    });
+
+    it('should throw ApiRequestError on a typed error event', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('event: error\ndata: {"error":"The request took too long.","code":"TIMEOUT"}\n\n'));
+            controller.close();
+          },
+        }),
+      });
+
+      await expect(queryKnowledgeBase('yield', undefined, { onEvent: vi.fn() })).rejects.toThrow(ApiRequestError);
+    });
+
     it('should throw ApiRequestError on server error', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -3,6 +3,9 @@
  * Handles communication with the Next.js API routes
  */
 
+import type { MaterialSpecification } from './validation';
+import type { UnitSystem } from './units';
+
 // API_URL: Empty string uses relative paths (/api/chat) to same Next.js server
 // NOT a separate backend. API routes run on same server as frontend.
 const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
@@ -145,6 +148,65 @@ export interface Source {
   char_offset_start?: number;
   /** Ending character position within the page for citation highlighting */
   char_offset_end?: number;
+  /** The cited text came from OCR of a scanned page (values may be misread) */
+  ocr?: boolean;
+  /** Citation location in a non-PDF document, e.g. 'Sheet "Chemistry", rows 2-14' (page is the section number) */
+  location?: string;
+  /** Clause the cited text falls under, e.g. "7.2" (cite as "A790 §7.2") */
+  clause?: string;
+  /** Table the cited text is from, e.g. "Table 2" */
+  table?: string;
+  /** Footnote letters of that table in the cited text, e.g. ["A", "C"] */
+  footnotes?: string[];
+}
+
+/** How well a claim in an answer is supported by the source it cites */
+export type ClaimVerdict = 'verified' | 'unverified' | 'contradicted';
+
+/**
+ * Provenance of one claim (a sentence or table row) of an answer
+ */
+export interface AnswerClaim {
+  /** The claim as it appears in the answer */
+  text: string;
+  /** Character span of the claim in the response text */
+  start: number;
+  end: number;
+  /** Source the claim was checked against, e.g. "[2]" (null if it cites none) */
+  ref: string | null;
+  /** Closest passage of that source */
+  quote: string | null;
+  /** How much of the claim's wording the quote contains (0-100) */
+  quote_score: number;
+  /** Values with units in the claim */
+  numbers_checked: number;
+  /** Of those, values the cited source supports (directly or converted) */
+  numbers_verified: number;
+  /** Values the cited source doesn't support, as written in the claim */
+  unsupported_numbers: string[];
+  verdict: ClaimVerdict;
+}
+
+/**
+ * Two or more documents giving different values for the same grade and
+ * property, e.g. S32205 minimum yield in A789 (tubing) and A790 (pipe)
+ */
+export interface SpecConflict {
+  /** Grade the values are for, e.g. "S32205" */
+  grade: string;
+  /** e.g. "yield strength", "Cr (wt %)" */
+  property: string;
+  /** One value per document, in citation order */
+  values: {
+    /** As printed, e.g. "65 ksi [450 MPa]" */
+    value: string;
+    /** Specification the document is, e.g. "ASTM A790" (null if its filename doesn't say) */
+    spec: string | null;
+    document: string;
+    page: number;
+    /** Source the value is cited as, e.g. "[2]" */
+    ref: string;
+  }[];
 }
 
 // Response types
@@ -159,6 +221,47 @@ export interface ChatResponse {
   response: string;
   sources: Source[];
   confidence?: ConfidenceScore;
+  /** Conversation this turn belongs to — send it back to ask follow-ups */
+  conversationId?: string;
+  /** Standalone query actually searched, when a follow-up was rewritten */
+  rewrittenQuery?: string;
+  /** Table values for the queried grade (chemistry, mechanical, heat treatment) */
+  structured?: MaterialSpecification;
+  /** Per-claim provenance: each cited sentence or table row checked against its source */
+  claims?: AnswerClaim[];
+  /** Values the retrieved documents disagree on; the answer gives each of them */
+  conflicts?: SpecConflict[];
+}
+
+/** Pipeline stages reported by the chat stream */
+export type ChatStreamStage = 'retrieval' | 'generation' | 'verification';
+
+/**
+ * Typed events sent by /api/chat when the request sets `events: true`.
+ * On the wire each event is `event: <type>` followed by its payload as JSON
+ * in the `data:` line (the `final` payload is the full ChatResponse).
+ */
+export type ChatStreamEvent =
+  | { type: 'stage'; stage: ChatStreamStage }
+  | { type: 'rewrite'; query: string }
+  | { type: 'sources'; sources: Source[] }
+  | { type: 'token'; text: string }
+  /** The streamed draft was regenerated during verification; replace it with text */
+  | { type: 'replace'; text: string }
+  | { type: 'verification'; grounding: number; coherence: number; regenerated: boolean }
+  | ({ type: 'final' } & ChatResponse)
+  | { type: 'error'; error: string; code?: string };
+
+/** Optional settings for a knowledge base query */
+export interface QueryOptions {
+  /** Handler for progress events (stages, sources, answer tokens) */
+  onEvent?: (event: ChatStreamEvent) => void;
+  /** Continue an earlier conversation so follow-ups keep their context */
+  conversationId?: string;
+  /** Start a conversation when there is none to continue (the response carries its ID) */
+  startConversation?: boolean;
+  /** Report values in inch-pound, SI or both units (as printed if omitted) */
+  units?: UnitSystem;
 }
 
 export interface GenericLLMResponse {
@@ -193,13 +296,39 @@ export class ApiRequestError extends Error {
   }
 }
 
+/**
+ * Parse one SSE block ("event: x\ndata: {...}") into its event name and payload.
+ * Blocks without data (heartbeat comments) return null.
+ */
+function parseEventBlock(block: string): { event: string; data: string } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+}
+
 /**
  * Query the knowledge base with a user question
  * Uses SSE streaming to prevent Vercel Hobby timeout (10s)
  * @param query - The user's question
+ * @param documentId - Optional uploaded document to scope the search to
+ * @param options - Optional event handler and conversation to continue
  * @returns The AI-generated response with source citations
  */
-export async function queryKnowledgeBase(query: string, documentId?: number): Promise<ChatResponse> {
+export async function queryKnowledgeBase(
+  query: string,
+  documentId?: number,
+  options: QueryOptions = {}
+): Promise<ChatResponse> {
+  const { onEvent, conversationId, startConversation, units } = options;
   try {
     const controller = new AbortController();
     // 2 minute timeout (120s) - exceeds server RAG pipeline timeout (75s)
@@ -210,7 +339,7 @@ export async function queryKnowledgeBase(query: string, documentId?: number): Pr
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ query, stream: true, ...(documentId && { documentId }) }),
+      body: JSON.stringify({ query, stream: true, ...(onEvent && { events: true }), ...(documentId && { documentId }), ...(conversationId && { conversationId }), ...(startConversation && { startConversation }), ...(units && { units }) }),
       signal: controller.signal,
     });
 
@@ -238,28 +367,38 @@ export async function queryKnowledgeBase(query: string, documentId?: number): Pr
       }
 
       const decoder = new TextDecoder();
-      let result = '';
+      let buffer = '';
 
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
+        if (!done) {
+          buffer += decoder.decode(value, { stream: true });
+        }
+
+        // Events are separated by a blank line; keep any incomplete tail buffered
+        const blocks = buffer.split('\n\n');
+        buffer = done ? '' : blocks.pop() ?? '';
 
-        const chunk = decoder.decode(value, { stream: true });
-        result += chunk;
+        for (const block of blocks) {
+          const parsedBlock = parseEventBlock(block);
+          if (!parsedBlock) continue;
 
-        // Look for data: line which contains the final response
-        const dataMatch = result.match(/data: (.+)\n/);
-        if (dataMatch) {
-          const jsonStr = dataMatch[1];
-          const parsed = JSON.parse(jsonStr);
+          const parsed = JSON.parse(parsedBlock.data);
 
-          // Check if it's an error response
-          if (parsed.error) {
-            throw new ApiRequestError(parsed.error, 500);
+          // Unnamed data is the legacy single-payload format; "final" is its typed equivalent
+          if (parsedBlock.event === 'message' || parsedBlock.event === 'final' || parsedBlock.event === 'error') {
+            // Check if it's an error response
+            if (parsed.error) {
+              throw new ApiRequestError(parsed.error, 500);
+            }
+
+            return parsed as ChatResponse;
           }
 
-          return parsed as ChatResponse;
+          onEvent?.({ type: parsedBlock.event, ...parsed } as ChatStreamEvent);
         }
+
+        if (done) break;
       }
 
       throw new ApiRequestError('No data received from stream', 500);
@@ -318,11 +457,17 @@ export async function queryGenericLLM(query: string): Promise<GenericLLMResponse
 /**
  * Query both Steel Agent and generic LLM in parallel for comparison
  * @param query - The user's question
+ * @param documentId - Optional uploaded document to scope the search to
+ * @param options - Optional Steel Agent event handler and conversation to continue
  * @returns Both responses for side-by-side comparison
  */
-export async function queryWithComparison(query: string, documentId?: number): Promise<ComparisonResult> {
+export async function queryWithComparison(
+  query: string,
+  documentId?: number,
+  options: QueryOptions = {}
+): Promise<ComparisonResult> {
   const [steelAgent, genericLLM] = await Promise.all([
-    queryKnowledgeBase(query, documentId),
+    queryKnowledgeBase(query, documentId, options),
     queryGenericLLM(query),
   ]);
 
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { isViewableCitation, locateCitation, pageTextFromItems } from './citation-highlight';
+import type { Source } from './api';
+
+const PAGE = pageTextFromItems([
+  { str: 'ASTM A790/A790M − 24', hasEOL: true },
+  { str: '6. Heat Treatment', hasEOL: true },
+  { str: '6.1 All pipe shall be furnished in the', hasEOL: true },
+  { str: 'solution-annealed   condition and quenched in water.', hasEOL: false },
+  { str: ' Other cooling is permitted.', hasEOL: true },
+]).text;
+
+const QUOTE = '6.1 All pipe shall be furnished in the solution-annealed condition and quenched in water.';
+
+function source(overrides: Partial<Source> = {}): Source {
+  return { ref: '[1]', document: 'ASTM-A790.pdf', page: '2', content_preview: `${QUOTE}...`, storage_path: 'docs/ASTM-A790.pdf', ...overrides };
+}
+
+describe('Citation Highlight', () => {
+  describe('pageTextFromItems', () => {
+    it('should join items with line breaks where pdf.js marks them', () => {
+      const { text, starts } = pageTextFromItems([{ str: 'TABLE 3', hasEOL: true }, { str: 'S32205' }, { str: ' 65' }]);
+
+      expect(text).toBe('TABLE 3\nS32205 65');
+      expect(starts).toEqual([0, 8, 14]);
+    });
+  });
+
+  describe('locateCitation', () => {
+    it('should use the stored offsets when the page reads the quote there', () => {
+      const start = PAGE.indexOf('6.1');
+
+      expect(locateCitation(PAGE, source({ char_offset_start: start, char_offset_end: PAGE.length + 50 }))).toEqual({
+        start,
+        end: PAGE.length,
+      });
+    });
+
+    it('should search for the quote when the offsets point elsewhere', () => {
+      const span = locateCitation(PAGE, source({ char_offset_start: 900, char_offset_end: 910 }));
+
+      expect(span!.start).toBe(PAGE.indexOf('6.1'));
+      expect(PAGE.slice(span!.start, span!.end)).toBe(PAGE.slice(PAGE.indexOf('6.1'), PAGE.indexOf(' Other')));
+    });
+
+    it('should extend a found quote to the stored chunk length', () => {
+      const start = PAGE.indexOf('6.1');
+      const span = locateCitation(PAGE, source({ char_offset_start: 0, char_offset_end: PAGE.length - start }));
+
+      expect(span).toEqual({ start, end: PAGE.length });
+    });
+
+    it('should fall back to the opening of the quote', () => {
+      const span = locateCitation(PAGE, source({ content_preview: '6.1 All pipe shall be furnished in the solution-annealed condition, then air cooled.' }));
+
+      expect(span!.start).toBe(PAGE.indexOf('6.1'));
+    });
+
+    it('should return null when the quote is not on the page', () => {
+      expect(locateCitation(PAGE, source({ content_preview: 'Hydrostatic tests shall be made on each length.' }))).toBeNull();
+      expect(locateCitation(PAGE, source({ content_preview: '...' }))).toBeNull();
+    });
+  });
+
+  describe('isViewableCitation', () => {
+    it('should only open PDFs cited by page', () => {
+      expect(isViewableCitation(source())).toBe(true);
+      expect(isViewableCitation(source({ storage_path: 'docs/A790.docx', location: 'Section: 6. Heat Treatment' }))).toBe(false);
+      expect(isViewableCitation(source({ location: 'Sheet "Limits", row 2' }))).toBe(false);
+      expect(isViewableCitation(source({ storage_path: undefined }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Citation Highlighting
+ *
+ * Finds the cited span of a source on its PDF page, for the citation viewer
+ * (components/citation-viewer.tsx). The viewer rebuilds the page text from
+ * pdf.js text items exactly as ingestion did (unpdf's extractText), so
+ * character offsets line up with the stored ones.
+ *
+ * Stored offsets are only a hint: table and list chunks count from the start
+ * of the page, but running-text chunks count through the document with its
+ * tables lifted out. The span is therefore confirmed against the source's
+ * quoted text and, failing that, found by searching for the quote.
+ */
+
+import type { Source } from "./api";
+
+/** A pdf.js text item, as far as highlighting needs it */
+export interface PageTextItem {
+  str: string;
+  hasEOL?: boolean;
+}
+
+export interface CitationSpan {
+  start: number;
+  end: number;
+}
+
+// Characters of the quote that must match for a span to count as found
+const ANCHOR_LENGTH = 40;
+
+/**
+ * Whether a source can be opened in the viewer: PDFs only. Word, HTML and
+ * Excel documents are cited by section or sheet and have no pages to show.
+ */
+export function isViewableCitation(source: Source): boolean {
+  return !source.location && /\.pdf$/i.test(source.storage_path ?? "");
+}
+
+/**
+ * Join a page's text items the way ingestion did, noting where each starts.
+ */
+export function pageTextFromItems(items: PageTextItem[]): { text: string; starts: number[] } {
+  const starts: number[] = [];
+  let text = "";
+  for (const item of items) {
+    starts.push(text.length);
+    text += item.str + (item.hasEOL ? "\n" : "");
+  }
+  return { text, starts };
+}
+
+/**
+ * Locate the cited span on a page.
+ *
+ * @param pageText - Page text from pageTextFromItems
+ * @param source - The citation; its content_preview is the chunk's opening sentence
+ * @returns The span, or null if the quoted text isn't on the page (e.g. an OCR'd scan)
+ */
+export function locateCitation(pageText: string, source: Source): CitationSpan | null {
+  const quote = normalize(source.content_preview.replace(/\.\.\.$/, ""));
+  if (!quote) return null;
+  const anchor = quote.slice(0, ANCHOR_LENGTH);
+
+  const { char_offset_start: start, char_offset_end: end } = source;
+  const hasOffsets = start !== undefined && end !== undefined && end > start;
+
+  // The stored offsets are right when the page reads the quote there
+  if (hasOffsets && start < pageText.length && normalize(pageText.slice(start, start + anchor.length * 2)).startsWith(anchor)) {
+    return { start, end: Math.min(end, pageText.length) };
+  }
+
+  const found = findIgnoringSpace(pageText, quote) ?? findIgnoringSpace(pageText, anchor);
+  if (!found) return null;
+
+  // The chunk runs on past its opening sentence
+  const length = hasOffsets ? end - start : 0;
+  return {
+    start: found.start,
+    end: Math.min(Math.max(found.end, found.start + length), pageText.length),
+  };
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Find text in a page with whitespace runs treated as a single space.
+ * Returns offsets in the original page text.
+ */
+function findIgnoringSpace(pageText: string, needle: string): CitationSpan | null {
+  let collapsed = "";
+  const origins: number[] = [];
+  for (let index = 0; index < pageText.length; index++) {
+    const isSpace = /\s/.test(pageText[index]);
+    if (isSpace && collapsed.endsWith(" ")) continue;
+    collapsed += isSpace ? " " : pageText[index];
+    origins.push(index);
+  }
+
+  const at = collapsed.indexOf(needle);
+  if (at === -1) return null;
+  return { start: origins[at], end: origins[at + needle.length - 1] + 1 };
+}
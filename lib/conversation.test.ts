@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { rewriteFollowUpQuery, type ConversationTurn } from './conversation';
+
+function turn(query: string, rewrittenQuery: string | null = null): ConversationTurn {
+  return { query, rewritten_query: rewrittenQuery, response: '' };
+}
+
+const A790_YIELD = [turn('What is the yield strength of S32205 per A790?')];
+
+describe('rewriteFollowUpQuery', () => {
+  it('should carry the spec and property over to a new grade', () => {
+    expect(rewriteFollowUpQuery('What about for 2507?', A790_YIELD)).toEqual({
+      query: 'What is the yield strength of 2507 per A790?',
+      wasRewritten: true,
+    });
+  });
+
+  it('should fill every slot for a pronoun-only follow-up', () => {
+    expect(rewriteFollowUpQuery('What is its tensile strength?', A790_YIELD)).toEqual({
+      query: 'What is the tensile strength of S32205 per A790?',
+      wasRewritten: true,
+    });
+  });
+
+  it('should use the most recent rewritten turn', () => {
+    const history = [...A790_YIELD, turn('What about for 2507?', 'What is the yield strength of 2507 per A790?')];
+
+    expect(rewriteFollowUpQuery('And the hardness?', history).query).toBe('What is the hardness of 2507 per A790?');
+  });
+
+  it('should let a new spec replace the earlier one', () => {
+    expect(rewriteFollowUpQuery('What about A789?', A790_YIELD)).toEqual({
+      query: 'What is the yield strength of S32205 per A789?',
+      wasRewritten: true,
+    });
+  });
+
+  it('should keep a new subject and carry only spec and grade', () => {
+    expect(rewriteFollowUpQuery('What about wall thickness tolerance?', A790_YIELD).query).toBe(
+      'What about wall thickness tolerance for S32205 per A790?'
+    );
+  });
+
+  it('should pass standalone queries through unchanged', () => {
+    const standalone = 'What is the hydrostatic test pressure for S31803 per A789?';
+
+    expect(rewriteFollowUpQuery(standalone, A790_YIELD)).toEqual({ query: standalone, wasRewritten: false });
+    expect(rewriteFollowUpQuery('  What about for 2507?  ', [])).toEqual({ query: 'What about for 2507?', wasRewritten: false });
+  });
+});
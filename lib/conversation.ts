@@ -0,0 +1,310 @@
+/**
+ * Conversation Sessions & Follow-Up Rewriting
+ *
+ * Persists chat turns per conversation and rewrites follow-up questions into
+ * standalone queries before they reach preprocessing and retrieval.
+ *
+ * Example:
+ *   Turn 1: "What is the yield strength of S32205 per A790?"
+ *   Turn 2: "What about for 2507?"
+ *   → "What is the yield strength of 2507 per A790?"
+ *
+ * Rewriting is deterministic slot carry-over (spec, grade, property) using the
+ * same code patterns as query-preprocessing — no LLM call, so it adds no
+ * latency and can only reuse specs the user actually mentioned.
+ *
+ * Persistence is best-effort: if the conversation tables are missing or
+ * Supabase is unavailable, the query still runs statelessly. Conversations
+ * belong to a workspace and can only be continued from within it; they are
+ * created only when a client starts one, so stateless API calls store nothing.
+ */
+
+import { supabaseAdmin } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import { preprocessQuery } from "./query-preprocessing";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ConversationTurn {
+  /** What the user typed */
+  query: string;
+  /** Standalone query sent to retrieval (null if not rewritten) */
+  rewritten_query: string | null;
+  response: string;
+}
+
+export interface Conversation {
+  /** null for a new or unknown conversation, or when persistence is unavailable */
+  id: string | null;
+  /** Earlier turns, oldest first */
+  turns: ConversationTurn[];
+}
+
+export interface RewrittenQuery {
+  /** Standalone query to run through the RAG pipeline */
+  query: string;
+  /** True if context from earlier turns was carried over */
+  wasRewritten: boolean;
+}
+
+/** Spec / grade / property slots extracted from a query */
+interface QuerySlots {
+  specs: string[];
+  grades: string[];
+  property: string | null;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/** Number of earlier turns considered when rewriting a follow-up */
+const MAX_HISTORY_TURNS = 6;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Property phrases recognised in queries, mapped to the canonical wording
+ * used when building a standalone question.
+ */
+const PROPERTY_PHRASES: Array<[RegExp, string]> = [
+  [/\byield\b/i, "yield strength"],
+  [/\btensile\b/i, "tensile strength"],
+  [/\belongation\b/i, "elongation"],
+  [/\bhardness\b/i, "hardness"],
+  [/\b(?:chemical|chemistry|composition)\b/i, "chemical composition"],
+  [/\bheat[\s-]*treat(?:ment|ed)?\b/i, "heat treatment"],
+  [/\b(?:impact|charpy)\b/i, "impact test requirements"],
+  [/\bPREN\b/i, "PREN"],
+  [/\bhydrostatic\b/i, "hydrostatic test requirements"],
+  [/\bferrite\b/i, "ferrite content"],
+  [/\b(carbon|chromium|nickel|molybdenum|nitrogen|manganese|copper|sulfur|phosphorus)\b/i, "$1 content"],
+];
+
+/** Openers that mark a query as a follow-up ("What about...", "And the...") */
+const FOLLOW_UP_LEAD = /^(?:(?:and|so|ok(?:ay)?)[,\s]+)?(?:(?:what|how)\s+about|and|also|same(?:\s+for)?)\b[\s,]*/i;
+
+/** Back-references to something said earlier */
+const BACK_REFERENCE = /\b(?:it|its|that|this|those|these|them|same|instead)\b/i;
+
+/** Words that carry no subject of their own once slots are removed */
+const FILLER_WORDS = new Set([
+  "what", "whats", "is", "are", "the", "a", "an", "of", "for", "per", "in", "to",
+  "and", "about", "how", "it", "its", "that", "this", "those", "these", "them",
+  "same", "instead", "then", "min", "minimum", "max", "maximum", "value", "values",
+  "requirement", "requirements", "strength", "content", "grade", "spec", "astm", "uns",
+]);
+
+// ============================================
+// Slot Extraction
+// ============================================
+
+function extractSlots(query: string): QuerySlots {
+  const { extractedCodes } = preprocessQuery(query);
+
+  const specs = [
+    ...(extractedCodes.astm ?? []).map(code => code.replace(/^ASTM\s*/, "")),
+    ...(extractedCodes.api ?? []).map(code => `API ${code}`),
+    ...(extractedCodes.nace ?? []),
+  ];
+  const grades = [...(extractedCodes.uns ?? []), ...(extractedCodes.grade ?? [])];
+
+  let property: string | null = null;
+  for (const [pattern, canonical] of PROPERTY_PHRASES) {
+    const match = query.match(pattern);
+    if (match) {
+      property = canonical.replace("$1", (match[1] ?? "").toLowerCase());
+      break;
+    }
+  }
+
+  return { specs, grades, property };
+}
+
+/**
+ * Strip the follow-up opener, codes and filler words — whatever remains is a
+ * subject the follow-up introduced itself (e.g. "wall thickness").
+ */
+function residualSubject(query: string): string {
+  const withoutCodes = query
+    .replace(FOLLOW_UP_LEAD, "")
+    .replace(/\b(?:ASTM\s*)?A\d{3,4}(?:[/-]\d{2,4})?\b/gi, "")
+    .replace(/\bAPI[\s-]+(?:SPEC(?:IFICATION)?\s+)?\d{1,2}[A-Z]{1,4}\b/gi, "")
+    .replace(/\b[SNCGHJKWRT]\d{5}\b/gi, "")
+    .replace(/\b\d{3,4}L?\b/g, "");
+
+  const withoutProperties = PROPERTY_PHRASES.reduce(
+    (text, [pattern]) => text.replace(new RegExp(pattern.source, "gi"), ""),
+    withoutCodes
+  );
+
+  return withoutProperties
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .join(" ");
+}
+
+// ============================================
+// Follow-Up Rewriting
+// ============================================
+
+/**
+ * Rewrite a follow-up into a standalone query using earlier turns.
+ *
+ * Missing slots are filled from the most recent turn that has them. A
+ * follow-up that names a new subject of its own ("What about wall thickness?")
+ * only inherits spec and grade; the earlier property carries over only when
+ * the user refers back to it ("Is it the same for tubing?").
+ *
+ * @param query - The user's query as typed
+ * @param history - Earlier turns, oldest first
+ */
+export function rewriteFollowUpQuery(
+  query: string,
+  history: ConversationTurn[]
+): RewrittenQuery {
+  const trimmed = query.trim();
+  if (history.length === 0) {
+    return { query: trimmed, wasRewritten: false };
+  }
+
+  const current = extractSlots(trimmed);
+  const hasBackReference = BACK_REFERENCE.test(trimmed);
+  const isFollowUp =
+    FOLLOW_UP_LEAD.test(trimmed) ||
+    hasBackReference ||
+    (current.specs.length === 0 && current.grades.length === 0);
+
+  if (!isFollowUp) {
+    return { query: trimmed, wasRewritten: false };
+  }
+
+  const residual = residualSubject(trimmed);
+  const merged: QuerySlots = { ...current };
+
+  // Most recent turn wins for each missing slot
+  for (const turn of [...history].reverse()) {
+    const earlier = extractSlots(turn.rewritten_query ?? turn.query);
+    if (merged.specs.length === 0) merged.specs = earlier.specs;
+    if (merged.grades.length === 0) merged.grades = earlier.grades;
+    if (!merged.property && (!residual || hasBackReference)) merged.property = earlier.property;
+  }
+
+  const carriedSpecs = current.specs.length === 0 && merged.specs.length > 0;
+  const carriedGrades = current.grades.length === 0 && merged.grades.length > 0;
+  const carriedProperty = !current.property && !!merged.property;
+
+  if (!carriedSpecs && !carriedGrades && !carriedProperty) {
+    return { query: trimmed, wasRewritten: false };
+  }
+
+  // Nothing but slots left → build a clean standalone question
+  if (!residual && merged.property) {
+    let rewritten = `What is the ${merged.property}`;
+    if (merged.grades.length > 0) rewritten += ` of ${merged.grades.join(" and ")}`;
+    if (merged.specs.length > 0) rewritten += ` per ${merged.specs.join(" and ")}`;
+    return { query: `${rewritten}?`, wasRewritten: true };
+  }
+
+  // Otherwise keep the user's wording and append the carried context
+  const context: string[] = [];
+  if (carriedGrades) context.push(`for ${merged.grades.join(" and ")}`);
+  if (carriedSpecs) context.push(`per ${merged.specs.join(" and ")}`);
+  if (carriedProperty) context.push(`(${merged.property})`);
+
+  const stem = trimmed.replace(/[?.!\s]+$/, "");
+  return { query: `${stem} ${context.join(" ")}?`.replace(/\s+/g, " ").trim(), wasRewritten: true };
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * Load an existing conversation's recent turns.
+ *
+ * Unknown or malformed IDs (and conversations from another workspace) return
+ * `id: null` with no turns rather than failing the query, as does a missing
+ * conversation table. Nothing is created here — see createConversation.
+ */
+export async function loadConversation(conversationId?: string): Promise<Conversation> {
+  if (!conversationId || !UUID_PATTERN.test(conversationId)) {
+    return { id: null, turns: [] };
+  }
+
+  try {
+    const { data: existing } = await supabaseAdmin
+      .from("conversations")
+      .select("id")
+      .eq("id", conversationId)
+      .eq("workspace_id", currentWorkspaceId())
+      .maybeSingle();
+
+    if (!existing) return { id: null, turns: [] };
+
+    const { data: turns, error } = await supabaseAdmin
+      .from("conversation_turns")
+      .select("query, rewritten_query, response")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: false })
+      .limit(MAX_HISTORY_TURNS);
+
+    if (error) throw error;
+    return { id: conversationId, turns: ((turns ?? []) as ConversationTurn[]).reverse() };
+  } catch (error) {
+    console.warn("[Conversation] Persistence unavailable, running statelessly:", error instanceof Error ? error.message : error);
+    return { id: null, turns: [] };
+  }
+}
+
+/**
+ * Start a conversation in the current workspace, once its first turn has an
+ * answer to save. Returns null if the conversation tables are unavailable.
+ */
+export async function createConversation(): Promise<string | null> {
+  try {
+    const { data: created, error } = await supabaseAdmin
+      .from("conversations")
+      .insert({ workspace_id: currentWorkspaceId() })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return created.id as string;
+  } catch (error) {
+    console.warn("[Conversation] Persistence unavailable, running statelessly:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Append a completed turn to a conversation. Failures are logged, not thrown —
+ * the user already has their answer.
+ */
+export async function saveConversationTurn(
+  conversationId: string,
+  turn: ConversationTurn & { sources?: unknown[]; confidence?: unknown }
+): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin.from("conversation_turns").insert({
+      conversation_id: conversationId,
+      query: turn.query,
+      rewritten_query: turn.rewritten_query,
+      response: turn.response,
+      sources: turn.sources ?? [],
+      confidence: turn.confidence ?? {},
+    });
+    if (error) throw error;
+
+    await supabaseAdmin
+      .from("conversations")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", conversationId);
+  } catch (error) {
+    console.warn("[Conversation] Failed to save turn:", error instanceof Error ? error.message : error);
+  }
+}
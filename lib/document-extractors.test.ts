@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { chunkSpreadsheet, extractDocumentSections, extractHtmlSections, sectionLocation } from './document-extractors';
+
+const LONG_PARAGRAPH = 'The tubing shall be furnished in the solution-annealed condition and quenched in water or rapidly cooled by other means. '.repeat(8);
+
+describe('Document Extractors', () => {
+  describe('extractHtmlSections', () => {
+    it('should start a section at each heading, labelled by the heading', () => {
+      const { texts, labels } = extractHtmlSections(`<!DOCTYPE html>
+<html><head><title>Duplex Tubing</title><style>p { color: red }</style></head>
+<body>
+  <h2>5. Materials</h2><p>${LONG_PARAGRAPH}</p>
+  <h2>6. Heat Treatment</h2><p>${LONG_PARAGRAPH}</p>
+  <script>track()</script>
+</body></html>`);
+
+      expect(labels).toEqual(['5. Materials', '6. Heat Treatment']);
+      expect(texts[1].startsWith('6. Heat Treatment\n\nThe tubing shall')).toBe(true);
+      expect(texts.join('\n')).not.toContain('track()');
+      expect(texts.join('\n')).not.toContain('color: red');
+    });
+
+    it('should merge short sections into the next one', () => {
+      const { texts, labels } = extractHtmlSections(`<title>Duplex Tubing</title>
+<h1>4. Chemistry</h1><p>See Table 1.</p>
+<h2>4.1 Product Analysis</h2><p>${LONG_PARAGRAPH}</p>
+<h2>4.2 Retests</h2><p>One retest is permitted.</p>`);
+
+      expect(labels).toEqual(['4. Chemistry - 4.1 Product Analysis', '4.2 Retests']);
+      expect(texts[0].startsWith('4. Chemistry\n\nSee Table 1.\n\n4.1 Product Analysis')).toBe(true);
+      expect(texts[1]).toBe('4.2 Retests\n\nOne retest is permitted.');
+    });
+
+    it('should turn tables into pipe tables and lists into list lines', () => {
+      const { texts } = extractHtmlSections(`<table>
+  <caption>TABLE 1 Chemical Requirements</caption>
+  <tr><th>Element</th><th colspan="2">Composition, %</th></tr>
+  <tr><td>Carbon</td><td>0.030</td><td>max | A</td></tr>
+</table>
+<ol><li>Tension test<ul><li>One per lot</li></ul></li><li>Hardness test</li></ol>`);
+
+      expect(texts[0]).toBe(`TABLE 1 Chemical Requirements
+| Element | Composition, % |  |
+| --- | --- | --- |
+| Carbon | 0.030 | max / A |
+
+1. Tension test
+  - One per lot
+2. Hardness test`);
+    });
+  });
+
+  describe('spreadsheets', () => {
+    async function workbook(): Promise<ArrayBuffer> {
+      const book = new ExcelJS.Workbook();
+      const limits = book.addWorksheet('Limits');
+      limits.addRow(['Grade', 'Yield, ksi']);
+      limits.addRow(['S32205', 65]);
+      limits.addRow([]);
+      limits.addRow(['S32750', 80]);
+      book.addWorksheet('Hidden', { state: 'hidden' }).addRow(['secret']);
+      const buffer = await book.xlsx.writeBuffer();
+      return new Uint8Array(buffer as ArrayBuffer).slice().buffer;
+    }
+
+    it('should read each visible sheet as a table numbered by row', async () => {
+      const { texts, labels } = await extractDocumentSections('xlsx', await workbook());
+
+      expect(labels).toEqual(['Limits']);
+      expect(texts[0]).toBe(`| Row | Grade | Yield, ksi |
+| --- | --- | --- |
+| 2 | S32205 | 65 |
+| 4 | S32750 | 80 |`);
+    });
+
+    it('should chunk rows under the sheet name and header', async () => {
+      const { texts, labels } = await extractDocumentSections('xlsx', await workbook());
+
+      const chunks = chunkSpreadsheet(texts, labels);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content.startsWith('Sheet: Limits\n| Row | Grade | Yield, ksi |')).toBe(true);
+      expect(chunks[0].location).toBe('Sheet "Limits", rows 2-4');
+      expect(chunks[0].metadata).toMatchObject({ page_number: 1, chunk_type: 'table', section_title: 'Limits' });
+      expect(texts[0].slice(chunks[0].char_offset_start, chunks[0].char_offset_end)).toBe('| 2 | S32205 | 65 |\n| 4 | S32750 | 80 |');
+    });
+
+    it('should split long sheets into chunks of whole rows', () => {
+      const rows = Array.from({ length: 120 }, (_, index) => `| ${index + 2} | S3${String(index).padStart(4, '0')} | 65 |`);
+      const page = ['| Row | Grade | Yield, ksi |', '| --- | --- | --- |', ...rows].join('\n');
+
+      const chunks = chunkSpreadsheet([page], [null]);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].location).toMatch(/^Sheet "Sheet 1", rows 2-\d+$/);
+      expect(chunks.every((chunk) => chunk.content.split('\n')[1] === '| Row | Grade | Yield, ksi |')).toBe(true);
+      expect(chunks.flatMap((chunk) => chunk.content.split('\n').slice(3))).toEqual(rows);
+    });
+  });
+
+  describe('sectionLocation', () => {
+    it('should cite a section by its label', () => {
+      expect(sectionLocation('6. Heat Treatment')).toBe('Section: 6. Heat Treatment');
+      expect(sectionLocation(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Non-PDF Document Extractors
+ *
+ * Turn Word (.docx), HTML and Excel (.xlsx) files into the page texts the
+ * ingestion pipeline works on. These formats have no pages, so each is split
+ * into page-equivalent sections with a label used for citations:
+ * - DOCX/HTML: sections start at h1-h3 headings, short ones merged with the
+ *   next, labelled by heading ("4.1 Chemistry - 4.3 Heat Treatment" when
+ *   merged). Word documents go through mammoth's HTML conversion.
+ *   Paragraphs, lists and tables keep the shapes semantic chunking
+ *   recognises; tables become pipe tables.
+ * - XLSX: one section per visible sheet, as a pipe table. The first column is
+ *   the spreadsheet row number, so chunks can be cited as rows of a sheet
+ *   and the LLM can quote them.
+ *
+ * Spreadsheets skip semantic chunking: chunkSpreadsheet cuts each sheet into
+ * table chunks of whole rows, each repeating the header row.
+ */
+
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+import { detectTechnicalCodes, DEFAULT_CHUNK_OPTIONS, type EnhancedChunk } from "./semantic-chunking";
+import type { DocumentFormat } from "./document-formats";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExtractedSections {
+  /** Text of each section, in document order (the pipeline's page texts) */
+  texts: string[];
+  /** Heading or sheet name of each section; null before the first heading */
+  labels: (string | null)[];
+}
+
+interface HtmlSection {
+  /** Headings the section runs over (the document title before the first heading) */
+  headings: string[];
+  blocks: string[];
+}
+
+/** A chunk and where to cite it */
+export type LocatedChunk = EnhancedChunk & { location: string | null };
+
+// Sections shorter than this are merged into the next one: semantic chunking
+// only chunks a page's running text when there is at least this much of it
+const MIN_SECTION_LENGTH = DEFAULT_CHUNK_OPTIONS.minChunkSize;
+
+const SECTION_HEADINGS = new Set(["h1", "h2", "h3"]);
+
+const SKIPPED_ELEMENTS = new Set(["script", "style", "noscript", "template", "head", "title", "nav", "svg", "iframe"]);
+
+const BLOCK_TEXT_ELEMENTS = new Set([
+  "p", "h4", "h5", "h6", "pre", "blockquote", "caption", "figcaption", "dt", "dd", "address",
+]);
+
+/** First column of spreadsheet page texts */
+const ROW_COLUMN = "Row";
+
+// Spreadsheet chunks are already exact cell values
+const SPREADSHEET_CHUNK_CONFIDENCE = 0.98;
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Extract the sections of a non-PDF document.
+ *
+ * @throws Error if the file can't be read as its format
+ */
+export async function extractDocumentSections(
+  format: Exclude<DocumentFormat, "pdf">,
+  file: ArrayBuffer
+): Promise<ExtractedSections> {
+  switch (format) {
+    case "docx":
+      return extractDocxSections(file);
+    case "html":
+      return extractHtmlSections(new TextDecoder().decode(file));
+    case "xlsx":
+      return extractXlsxSections(file);
+  }
+}
+
+async function extractDocxSections(file: ArrayBuffer): Promise<ExtractedSections> {
+  // Dynamic so mammoth is only loaded for Word documents
+  const mammoth = await import("mammoth");
+  const { value: html, messages } = await mammoth.convertToHtml({ buffer: Buffer.from(file) });
+  const errors = messages.filter((message) => message.type === "error");
+  if (errors.length > 0) {
+    console.warn(`[Extractors] Word conversion reported ${errors.length} errors:`, errors[0].message);
+  }
+  return extractHtmlSections(html);
+}
+
+/**
+ * Split HTML into sections at h1-h3 headings.
+ */
+export function extractHtmlSections(html: string): ExtractedSections {
+  const root = parse(html.replace(/<!doctype[^>]*>/i, ""), { blockTextElements: { pre: true } });
+  const title = normalizeText(root.querySelector("title")?.text ?? "");
+
+  const sections: HtmlSection[] = [{ headings: title ? [title] : [], blocks: [] }];
+
+  const addBlock = (text: string) => {
+    if (text) sections[sections.length - 1].blocks.push(text);
+  };
+
+  const walk = (node: Node) => {
+    for (const child of node.childNodes) {
+      if (child.nodeType === NodeType.TEXT_NODE) {
+        // Loose text directly inside a container
+        addBlock(normalizeText(child.text));
+        continue;
+      }
+      if (!(child instanceof HTMLElement)) continue;
+
+      const tag = child.tagName.toLowerCase();
+      if (SKIPPED_ELEMENTS.has(tag)) continue;
+
+      if (SECTION_HEADINGS.has(tag)) {
+        const heading = normalizeText(child.text);
+        if (heading) sections.push({ headings: [heading], blocks: [heading] });
+      } else if (tag === "table") {
+        addBlock(htmlTableToText(child));
+      } else if (tag === "ul" || tag === "ol") {
+        addBlock(htmlListToText(child, 0));
+      } else if (tag === "pre") {
+        addBlock(child.text.trim());
+      } else if (BLOCK_TEXT_ELEMENTS.has(tag) && !child.querySelector("table, ul, ol")) {
+        addBlock(normalizeText(child.text));
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(root);
+
+  // Short sections (a chapter heading straight before its first subsection,
+  // a one-line clause) are merged into the next one
+  const texts: string[] = [];
+  const labels: (string | null)[] = [];
+  let carried: HtmlSection | null = null;
+
+  for (const section of sections) {
+    if (section.blocks.length === 0) continue;
+
+    const merged: HtmlSection = carried
+      ? { headings: [...carried.headings, ...section.headings], blocks: [...carried.blocks, ...section.blocks] }
+      : section;
+    if (merged.blocks.join("\n\n").length < MIN_SECTION_LENGTH) {
+      carried = merged;
+      continue;
+    }
+
+    texts.push(merged.blocks.join("\n\n"));
+    labels.push(sectionLabel(merged));
+    carried = null;
+  }
+
+  if (carried) {
+    texts.push(carried.blocks.join("\n\n"));
+    labels.push(sectionLabel(carried));
+  }
+
+  return { texts, labels };
+}
+
+function sectionLabel({ headings }: HtmlSection): string | null {
+  if (headings.length <= 1) return headings[0] ?? null;
+  return `${headings[0]} - ${headings[headings.length - 1]}`;
+}
+
+async function extractXlsxSections(file: ArrayBuffer): Promise<ExtractedSections> {
+  // Dynamic so exceljs is only loaded for spreadsheets
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(file);
+
+  const texts: string[] = [];
+  const labels: (string | null)[] = [];
+
+  for (const sheet of workbook.worksheets) {
+    if (sheet.state !== "visible") continue;
+
+    const rows: { rowNumber: number; cells: string[] }[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, column) => {
+        cells[column - 1] = cleanCell(cell.text ?? "");
+      });
+      while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+      if (cells.length > 0) rows.push({ rowNumber, cells });
+    });
+
+    texts.push(rows.length > 0 ? sheetToTable(rows) : "");
+    labels.push(sheet.name);
+  }
+
+  return { texts, labels };
+}
+
+// ============================================
+// Text Shapes
+// ============================================
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Cell text for a pipe table: one line, no pipes */
+function cleanCell(text: string): string {
+  return normalizeText(String(text)).replace(/\|/g, "/");
+}
+
+function toPipeRow(cells: string[]): string {
+  return `| ${cells.join(" | ")} |`;
+}
+
+function toSeparatorRow(columns: number): string {
+  return `|${" --- |".repeat(columns)}`;
+}
+
+/**
+ * Pipe table with a separator after the first row, so semantic chunking and
+ * spec table parsing recognise it
+ */
+function htmlTableToText(table: HTMLElement): string {
+  const rows = table
+    .querySelectorAll("tr")
+    // Skip rows of nested tables
+    .filter((row) => row.closest("table") === table)
+    .map((row) =>
+      row.childNodes
+        .filter((cell): cell is HTMLElement => cell instanceof HTMLElement && /^t[dh]$/i.test(cell.tagName))
+        .flatMap((cell) => {
+          const text = cleanCell(cell.text);
+          const span = Math.min(Number(cell.getAttribute("colspan")) || 1, 20);
+          return [text, ...Array<string>(span - 1).fill("")];
+        })
+    )
+    .filter((cells) => cells.some(Boolean));
+
+  if (rows.length === 0) return "";
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const lines = rows.map((cells) => toPipeRow([...cells, ...Array<string>(columns - cells.length).fill("")]));
+  const caption = table.querySelector("caption");
+  return [
+    ...(caption ? [normalizeText(caption.text)] : []),
+    lines[0],
+    toSeparatorRow(columns),
+    ...lines.slice(1),
+  ].join("\n");
+}
+
+function htmlListToText(list: HTMLElement, depth: number): string {
+  const ordered = list.tagName.toLowerCase() === "ol";
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+  let index = 0;
+
+  for (const item of list.childNodes) {
+    if (!(item instanceof HTMLElement) || item.tagName.toLowerCase() !== "li") continue;
+    index++;
+
+    const nested = item.childNodes.filter(
+      (child): child is HTMLElement => child instanceof HTMLElement && /^[ou]l$/i.test(child.tagName)
+    );
+    const text = normalizeText(
+      item.childNodes.filter((child) => !nested.includes(child as HTMLElement)).map((child) => child.text).join(" ")
+    );
+    if (text) lines.push(`${indent}${ordered ? `${index}.` : "-"} ${text}`);
+    for (const sublist of nested) {
+      lines.push(htmlListToText(sublist, depth + 1));
+    }
+  }
+
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * The first non-empty row is the header; every row starts with its row number
+ */
+function sheetToTable(rows: { rowNumber: number; cells: string[] }[]): string {
+  const columns = Math.max(...rows.map((row) => row.cells.length));
+  const line = ({ rowNumber, cells }: { rowNumber: number; cells: string[] }, first: string = String(rowNumber)) =>
+    toPipeRow([first, ...Array.from({ length: columns }, (_, index) => cells[index] ?? "")]);
+
+  return [
+    line(rows[0], ROW_COLUMN),
+    toSeparatorRow(columns + 1),
+    ...rows.slice(1).map((row) => line(row)),
+  ].join("\n");
+}
+
+// ============================================
+// Chunking
+// ============================================
+
+/**
+ * Citation location for a chunk of a DOCX/HTML section
+ */
+export function sectionLocation(label: string | null | undefined): string | null {
+  return label ? `Section: ${label}` : null;
+}
+
+/**
+ * Cut spreadsheet page texts (from extractDocumentSections) into table
+ * chunks of whole rows, up to the target chunk size. Each chunk starts with
+ * the sheet name and header row so its values keep their column labels.
+ */
+export function chunkSpreadsheet(pageTexts: string[], labels: (string | null)[]): LocatedChunk[] {
+  const chunks: LocatedChunk[] = [];
+
+  pageTexts.forEach((pageText, pageIndex) => {
+    const lines = pageText.split("\n");
+    if (lines.length < 3) return; // No data rows
+
+    const sheet = labels[pageIndex] ?? `Sheet ${pageIndex + 1}`;
+    const prefix = [`Sheet: ${sheet}`, lines[0], lines[1]].join("\n");
+
+    // Offsets of each data row within the page text
+    let offset = lines[0].length + lines[1].length + 2;
+    const rows = lines.slice(2).map((line) => {
+      const row = { line, start: offset, end: offset + line.length, number: Number(line.match(/^\|\s*(\d+)/)?.[1]) };
+      offset = row.end + 1;
+      return row;
+    });
+
+    let group: typeof rows = [];
+    const flush = () => {
+      if (group.length === 0) return;
+      const content = [prefix, ...group.map((row) => row.line)].join("\n");
+      const first = group[0].number;
+      const last = group[group.length - 1].number;
+      chunks.push({
+        content,
+        metadata: {
+          page_number: pageIndex + 1,
+          section_title: sheet,
+          chunk_type: "table",
+          has_codes: detectTechnicalCodes(content),
+          confidence: SPREADSHEET_CHUNK_CONFIDENCE,
+        },
+        char_offset_start: group[0].start,
+        char_offset_end: group[group.length - 1].end,
+        location: `Sheet "${sheet}", ${first === last ? `row ${first}` : `rows ${first}-${last}`}`,
+      });
+      group = [];
+    };
+
+    let size = prefix.length;
+    for (const row of rows) {
+      if (group.length > 0 && size + row.line.length + 1 > DEFAULT_CHUNK_OPTIONS.targetChunkSize) {
+        flush();
+        size = prefix.length;
+      }
+      group.push(row);
+      size += row.line.length + 1;
+    }
+    flush();
+  });
+
+  return chunks;
+}
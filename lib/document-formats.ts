@@ -0,0 +1,113 @@
+/**
+ * Document Formats
+ *
+ * The file types that can be uploaded and indexed, and how to recognise
+ * them. Besides PDF specs, workspaces keep internal material standards and
+ * company specs in Word, pages saved from the web, and vendor datasheets in
+ * Excel. Non-PDF documents are split into page-equivalent sections (headings
+ * or sheets) by lib/document-extractors.ts, and their chunks carry a
+ * citation location ("Section: 4.2 Heat Treatment", "Sheet "Chemistry", rows
+ * 2-14") in place of a page.
+ *
+ * Shared by the upload routes and the upload widget.
+ */
+
+export type DocumentFormat = "pdf" | "docx" | "html" | "xlsx";
+
+interface FormatInfo {
+  /** Name for messages */
+  label: string;
+  extensions: string[];
+  /** MIME types browsers report for the format */
+  contentTypes: string[];
+}
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, FormatInfo> = {
+  pdf: {
+    label: "PDF",
+    extensions: [".pdf"],
+    contentTypes: ["application/pdf"],
+  },
+  docx: {
+    label: "Word",
+    extensions: [".docx"],
+    contentTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  html: {
+    label: "HTML",
+    extensions: [".html", ".htm"],
+    contentTypes: ["text/html"],
+  },
+  xlsx: {
+    label: "Excel",
+    extensions: [".xlsx"],
+    contentTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  },
+};
+
+/** For file inputs: ".pdf,.docx,..." */
+export const ACCEPTED_EXTENSIONS = Object.values(DOCUMENT_FORMATS)
+  .flatMap((format) => format.extensions)
+  .join(",");
+
+/** For messages */
+export const SUPPORTED_FORMATS_LABEL = "PDF, Word (.docx), HTML and Excel (.xlsx)";
+
+// What browsers report when they don't know a file's type
+const GENERIC_CONTENT_TYPES = ["", "application/octet-stream"];
+
+/**
+ * Work out a file's format from its name and reported content type.
+ *
+ * The extension decides; the content type must agree with it or be generic
+ * (browsers leave it empty for some files). The stored bytes are checked
+ * again at confirmation (hasFormatSignature).
+ *
+ * @returns The format, or null if the file type isn't supported
+ */
+export function detectDocumentFormat(filename: string, contentType: string = ""): DocumentFormat | null {
+  const name = filename.toLowerCase();
+  const type = contentType.toLowerCase().split(";")[0].trim();
+
+  for (const [format, info] of Object.entries(DOCUMENT_FORMATS) as [DocumentFormat, FormatInfo][]) {
+    if (!info.extensions.some((extension) => name.endsWith(extension))) continue;
+    return info.contentTypes.includes(type) || GENERIC_CONTENT_TYPES.includes(type) ? format : null;
+  }
+
+  return null;
+}
+
+/**
+ * Content type to upload a file with
+ */
+export function contentTypeFor(format: DocumentFormat): string {
+  return DOCUMENT_FORMATS[format].contentTypes[0];
+}
+
+/** Bytes hasFormatSignature needs from the start of a file */
+export const SIGNATURE_BYTES = 512;
+
+/**
+ * Check a file's leading bytes against its format. Content types are
+ * client-controlled and can be spoofed; the bytes can't.
+ *
+ * - PDF: %PDF-
+ * - DOCX/XLSX: a ZIP archive (PK\x03\x04); the extractor checks the parts
+ * - HTML: text (no NUL bytes) whose first tag is <!doctype html>, <html> or another tag
+ *
+ * @param bytes - At least the first SIGNATURE_BYTES of the file (or all of a smaller file)
+ */
+export function hasFormatSignature(format: DocumentFormat, bytes: Uint8Array): boolean {
+  switch (format) {
+    case "pdf":
+      return [0x25, 0x50, 0x44, 0x46, 0x2d].every((byte, index) => bytes[index] === byte);
+    case "docx":
+    case "xlsx":
+      return [0x50, 0x4b, 0x03, 0x04].every((byte, index) => bytes[index] === byte);
+    case "html": {
+      if (bytes.includes(0)) return false;
+      const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, "").trimStart();
+      return /^<(?:!doctype\s+html|html|head|body|!--|[a-z][a-z0-9]*[\s>])/i.test(text);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Document Library
+ *
+ * Listing and housekeeping for a workspace's uploaded documents: display
+ * names, tags and deletion (chunks, structured tables and the stored PDF).
+ * Every function works on the current workspace; a document from another
+ * workspace behaves as if it doesn't exist.
+ *
+ * Reads use the anon client; changes go through the service role (anon has no
+ * UPDATE or DELETE access to documents), so they filter on the workspace
+ * themselves.
+ *
+ * Anything that changes what's searchable must call invalidateDocumentCaches()
+ * so code → document mappings and cached answers don't outlive the documents
+ * they were built from.
+ */
+
+import { supabase, supabaseAdmin } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import { getDocumentSpecCodes, invalidateDocumentCache } from "./document-mapper";
+import { invalidateQueryCache } from "./query-cache";
+import { clearRAGCache } from "./latency-optimizer";
+import type { DocumentFormat } from "./document-formats";
+
+// ============================================
+// Types
+// ============================================
+
+/** A document as listed by GET /api/documents */
+export interface DocumentSummary {
+  id: number;
+  filename: string;
+  /** User-facing name; defaults to the filename */
+  display_name: string;
+  tags: string[];
+  status: string;
+  format: DocumentFormat;
+  file_size: number | null;
+  chunk_count: number;
+  /** Spec codes detected in the filename and first pages (e.g. "A790", "S32205") */
+  spec_codes: string[];
+  created_at: string;
+}
+
+export interface DocumentUpdate {
+  /** null resets to the filename */
+  displayName?: string | null;
+  tags?: string[];
+}
+
+interface DocumentRow {
+  id: number;
+  filename: string;
+  display_name: string | null;
+  tags: string[] | null;
+  status: string;
+  format: DocumentFormat;
+  file_size: number | null;
+  created_at: string;
+  storage_path: string;
+  chunks: Array<{ count: number }>;
+}
+
+const DOCUMENT_COLUMNS = "id, filename, display_name, tags, status, format, file_size, created_at, storage_path, chunks(count)";
+
+export const MAX_DISPLAY_NAME_LENGTH = 255;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+
+/** Route params are strings; document IDs are positive integers */
+export function parseDocumentId(id: string): number | null {
+  return /^\d+$/.test(id) && Number(id) > 0 ? Number(id) : null;
+}
+
+// ============================================
+// Cache Invalidation
+// ============================================
+
+/**
+ * Drop everything cached from the current workspace's documents:
+ * code → document mappings, cached answers and cached retrievals.
+ */
+export async function invalidateDocumentCaches(): Promise<void> {
+  await invalidateDocumentCache();
+  invalidateQueryCache();
+  clearRAGCache();
+}
+
+// ============================================
+// Queries
+// ============================================
+
+function toSummary(row: DocumentRow, specCodes: Map<number, string[]>): DocumentSummary {
+  return {
+    id: row.id,
+    filename: row.filename,
+    display_name: row.display_name ?? row.filename,
+    tags: row.tags ?? [],
+    status: row.status,
+    format: row.format,
+    file_size: row.file_size,
+    chunk_count: row.chunks[0]?.count ?? 0,
+    spec_codes: (specCodes.get(row.id) ?? []).sort(),
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * List the workspace's documents, newest first.
+ *
+ * @param tag - Only documents with this tag
+ */
+export async function listDocuments(tag?: string): Promise<DocumentSummary[]> {
+  let query = supabase
+    .from("documents")
+    .select(DOCUMENT_COLUMNS)
+    .eq("workspace_id", currentWorkspaceId())
+    .order("created_at", { ascending: false });
+
+  if (tag) {
+    query = query.contains("tags", [tag]);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error listing documents:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+
+  const specCodes = await getDocumentSpecCodes();
+  return (data as DocumentRow[]).map((row) => toSummary(row, specCodes));
+}
+
+async function loadDocumentRow(id: number): Promise<DocumentRow | null> {
+  const { data, error } = await supabase
+    .from("documents")
+    .select(DOCUMENT_COLUMNS)
+    .eq("id", id)
+    .eq("workspace_id", currentWorkspaceId())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching document:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+  return data as DocumentRow | null;
+}
+
+/** A document with the same content as an upload */
+export interface DuplicateDocument {
+  id: number;
+  filename: string;
+  status: string;
+}
+
+/**
+ * Find a document in the current workspace with this content hash.
+ * Failed ("error") and unconfirmed ("uploading") documents don't count.
+ *
+ * @param contentHash - SHA-256 hex digest of the PDF
+ * @param excludeId - Ignore this document (the upload being confirmed)
+ * @returns The oldest matching document, or null
+ */
+export async function findDuplicateDocument(contentHash: string, excludeId?: number): Promise<DuplicateDocument | null> {
+  let query = supabase
+    .from("documents")
+    .select("id, filename, status")
+    .eq("workspace_id", currentWorkspaceId())
+    .eq("content_hash", contentHash)
+    .in("status", ["pending", "processing", "indexed"])
+    .order("id", { ascending: true })
+    .limit(1);
+
+  if (excludeId !== undefined) {
+    query = query.neq("id", excludeId);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    console.error("Error checking for duplicate document:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+  return data as DuplicateDocument | null;
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Rename and/or retag a document.
+ *
+ * @returns The updated document, or null if not found
+ */
+export async function updateDocument(id: number, update: DocumentUpdate): Promise<DocumentSummary | null> {
+  const changes: { display_name?: string | null; tags?: string[] } = {};
+  if (update.displayName !== undefined) changes.display_name = update.displayName;
+  if (update.tags !== undefined) changes.tags = update.tags;
+
+  const { data, error } = await supabaseAdmin
+    .from("documents")
+    .update(changes)
+    .eq("id", id)
+    .eq("workspace_id", currentWorkspaceId())
+    .select(DOCUMENT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating document:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+  if (!data) return null;
+
+  await invalidateDocumentCaches();
+  return toSummary(data as DocumentRow, await getDocumentSpecCodes());
+}
+
+/**
+ * Delete a document with its chunks, structured tables and stored PDF.
+ *
+ * @returns The deleted document, or null if not found
+ */
+export async function deleteDocument(id: number): Promise<DocumentSummary | null> {
+  const doc = await loadDocumentRow(id);
+  if (!doc) return null;
+  const summary = toSummary(doc, await getDocumentSpecCodes());
+
+  // Chunks and spec_tables cascade via FK, but be explicit (as dedup-documents.ts is)
+  const { error: chunkError } = await supabaseAdmin
+    .from("chunks")
+    .delete()
+    .eq("document_id", id)
+    .eq("workspace_id", currentWorkspaceId());
+  if (chunkError) {
+    console.error("Error deleting chunks:", chunkError);
+    throw new Error(`Database error: ${chunkError.message} (code: ${chunkError.code})`);
+  }
+
+  const { error: docError } = await supabaseAdmin
+    .from("documents")
+    .delete()
+    .eq("id", id)
+    .eq("workspace_id", currentWorkspaceId());
+  if (docError) {
+    console.error("Error deleting document:", docError);
+    throw new Error(`Database error: ${docError.message} (code: ${docError.code})`);
+  }
+
+  // The row is gone, so a leftover file is unreachable — warn rather than fail
+  const { error: storageError } = await supabaseAdmin.storage.from("documents").remove([doc.storage_path]);
+  if (storageError) {
+    console.warn(`[Document Library] Couldn't delete storage file ${doc.storage_path}:`, storageError.message);
+  }
+
+  await invalidateDocumentCaches();
+
+  console.log(`[Document Library] Deleted document ${id} (${doc.filename}) — ${summary.chunk_count} chunks removed`);
+  return summary;
+}
@@ -10,9 +10,24 @@
  *
  * When user asks "What is S32205 yield per A790?", we now filter
  * to only search A790 documents.
+ *
+ * Editions: when several editions of a spec are indexed, only the latest is
+ * searched unless the query pins one ("per A790-14").
+ *
+ * Mappings are cached per workspace: each customer's codes resolve only to
+ * their own documents.
  */
 
 import { supabase } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import {
+  formatEdition,
+  linkEditions,
+  parsePinnedEdition,
+  parseSpecIdentity,
+  type SpecEdition,
+  type SpecIdentity,
+} from "./spec-editions";
 
 export interface DocumentMapping {
   documentId: number;
@@ -20,9 +35,16 @@ export interface DocumentMapping {
   matchedCodes: string[];
 }
 
-// Cache for document mappings (refreshed periodically)
-let documentCache: Map<string, number[]> | null = null;
-let cacheTimestamp = 0;
+interface WorkspaceMappings {
+  /** Spec code → document IDs */
+  documentCache: Map<string, number[]>;
+  /** Spec identity per document ID */
+  editionCache: Map<number, SpecEdition>;
+  cacheTimestamp: number;
+}
+
+// Mappings per workspace ID (refreshed periodically)
+const workspaceCaches = new Map<string, WorkspaceMappings>();
 const CACHE_TTL = 60000; // 1 minute - short TTL to pick up new uploads quickly
 
 /**
@@ -33,7 +55,7 @@ const CACHE_TTL = 60000; // 1 minute - short TTL to pick up new uploads quickly
  * extractCodesFromFilename("897102004-ASTM-A790-A790M-24.pdf") // ["A790"]
  * extractCodesFromFilename("ASTM A789 Seamless & Welded Duplex Stainless Steel Tubing 2013.pdf") // ["A789"]
  */
-function extractCodesFromFilename(filename: string): {
+export function extractCodesFromFilename(filename: string): {
   astm: string[];
   uns: string[];
   api: string[];
@@ -96,31 +118,35 @@ function extractCodesFromContent(content: string): {
 }
 
 /**
- * Refresh the document cache from database
+ * Refresh a workspace's document cache from database
  *
- * Builds a mapping from spec codes to document IDs.
+ * Builds a mapping from spec codes to the workspace's document IDs.
+ *
+ * @returns The new mappings, or null if documents couldn't be fetched
  */
-async function refreshDocumentCache(): Promise<void> {
-  console.log("[Document Mapper] Refreshing document cache...");
+async function refreshDocumentCache(workspaceId: string): Promise<WorkspaceMappings | null> {
+  console.log(`[Document Mapper] Refreshing document cache for workspace ${workspaceId}...`);
 
   const { data: documents, error } = await supabase
     .from("documents")
     .select("id, filename")
+    .eq("workspace_id", workspaceId)
     .eq("status", "indexed");
 
   if (error) {
     console.error("[Document Mapper] Failed to fetch documents:", error);
-    return;
+    return null;
   }
 
   if (!documents || documents.length === 0) {
     console.log("[Document Mapper] No indexed documents found");
-    documentCache = new Map();
-    cacheTimestamp = Date.now();
-    return;
+    const empty = { documentCache: new Map(), editionCache: new Map(), cacheTimestamp: Date.now() };
+    workspaceCaches.set(workspaceId, empty);
+    return empty;
   }
 
-  documentCache = new Map();
+  const documentCache = new Map<string, number[]>();
+  const identities: Array<SpecIdentity & { documentId: number; filename: string }> = [];
 
   for (const doc of documents) {
     const { astm, uns, api } = extractCodesFromFilename(doc.filename);
@@ -164,10 +190,25 @@ async function refreshDocumentCache(): Promise<void> {
       .from("chunks")
       .select("content")
       .eq("document_id", doc.id)
+      .eq("workspace_id", workspaceId)
+      .order("page_number", { ascending: true })
       .limit(5);
 
+    const combined = sampleChunks?.map(c => c.content).join(" ") ?? "";
+
+    // Spec identity: primary code from the filename, edition from the
+    // designation line on the first pages (or the filename)
+    const { astm, api } = extractCodesFromFilename(doc.filename);
+    const designation = astm[0] ?? api[0];
+    if (designation) {
+      identities.push({
+        documentId: doc.id,
+        filename: doc.filename,
+        ...parseSpecIdentity(designation, doc.filename, combined),
+      });
+    }
+
     if (sampleChunks && sampleChunks.length > 0) {
-      const combined = sampleChunks.map(c => c.content).join(" ");
       const contentCodes = extractCodesFromContent(combined);
 
       const addedCodes: string[] = [];
@@ -188,10 +229,69 @@ async function refreshDocumentCache(): Promise<void> {
     }
   }
 
-  cacheTimestamp = Date.now();
+  const editionCache = linkEditions(identities);
+  for (const edition of editionCache.values()) {
+    if (edition.supersededBy !== null) {
+      const latest = editionCache.get(edition.supersededBy)!;
+      console.log(
+        `[Document Mapper] Document ${edition.documentId} (${formatEdition(edition)}) superseded by ${latest.documentId} (${formatEdition(latest)})`
+      );
+    }
+  }
+
+  const mappings = { documentCache, editionCache, cacheTimestamp: Date.now() };
+  workspaceCaches.set(workspaceId, mappings);
   console.log(
     `[Document Mapper] Cached ${documentCache.size} code-to-document mappings from ${documents.length} documents`
   );
+  return mappings;
+}
+
+/**
+ * Mappings for the current workspace, refreshed if stale.
+ *
+ * @returns null if the cache is cold and the refresh failed
+ */
+async function getWorkspaceMappings(): Promise<WorkspaceMappings | null> {
+  const workspaceId = currentWorkspaceId();
+  const cached = workspaceCaches.get(workspaceId);
+  if (cached && Date.now() - cached.cacheTimestamp <= CACHE_TTL) {
+    return cached;
+  }
+  // Keep serving stale mappings if the refresh fails
+  return (await refreshDocumentCache(workspaceId)) ?? cached ?? null;
+}
+
+/**
+ * Narrow a spec code's documents to one edition.
+ *
+ * Pinned ("A790-14"): that edition's documents, if indexed.
+ * Otherwise (or if the pinned edition isn't indexed): drop editions that a
+ * newer indexed edition supersedes. Documents of other designations that
+ * merely mention the code, and documents without a known edition, are kept.
+ */
+function selectEdition(
+  editionCache: Map<number, SpecEdition>,
+  code: string,
+  ids: number[],
+  pinned: SpecIdentity | null
+): number[] {
+  const isEditionOf = (id: number) => editionCache.get(id)?.designation === code;
+
+  if (pinned?.edition) {
+    const matching = ids.filter(id => isEditionOf(id) && editionCache.get(id)?.edition === pinned.edition);
+    if (matching.length > 0) {
+      console.log(`[Document Mapper] Pinned edition ${formatEdition(pinned)} → documents: [${matching.join(", ")}]`);
+      return [...matching, ...ids.filter(id => !isEditionOf(id))];
+    }
+    console.warn(`[Document Mapper] Pinned edition ${formatEdition(pinned)} not indexed, using latest edition`);
+  }
+
+  const current = ids.filter(id => !isEditionOf(id) || editionCache.get(id)?.supersededBy === null);
+  if (current.length < ids.length) {
+    console.log(`[Document Mapper] Code ${code}: preferring latest edition, skipped superseded documents [${ids.filter(id => !current.includes(id)).join(", ")}]`);
+  }
+  return current;
 }
 
 /**
@@ -201,16 +301,12 @@ async function refreshDocumentCache(): Promise<void> {
  * @returns Array of document IDs that contain this spec, or empty array
  */
 export async function getDocumentIdsForCode(code: string): Promise<number[]> {
-  // Refresh cache if stale
-  if (!documentCache || Date.now() - cacheTimestamp > CACHE_TTL) {
-    await refreshDocumentCache();
-  }
-
-  if (!documentCache) {
+  const mappings = await getWorkspaceMappings();
+  if (!mappings) {
     return [];
   }
 
-  return documentCache.get(code.toUpperCase()) || [];
+  return mappings.documentCache.get(code.toUpperCase()) || [];
 }
 
 /**
@@ -257,15 +353,12 @@ export async function resolveSpecsToDocuments(
   },
   fullQuery?: string
 ): Promise<number[] | null> {
-  // Refresh cache if stale
-  if (!documentCache || Date.now() - cacheTimestamp > CACHE_TTL) {
-    await refreshDocumentCache();
-  }
-
-  if (!documentCache) {
+  const mappings = await getWorkspaceMappings();
+  if (!mappings) {
     console.warn("[Document Mapper] Cache unavailable, skipping filter");
     return null;
   }
+  const { documentCache, editionCache } = mappings;
 
   // PRIORITY: Check full query for explicit "per/according to/in AXXX" patterns
   // This catches cases where the query says "per A790" but preprocessing didn't extract it
@@ -273,7 +366,7 @@ export async function resolveSpecsToDocuments(
 
   if (fullQuery && rawAstmCodes.length === 0) {
     // Look for patterns like "per A790", "according to A790", "in A790", "ASTM A790"
-    const perPattern = /\b(?:per|according\s+to|in|from|spec|specification|under|about|of|ASTM)\s+(A\d{3,4})\b/i;
+    const perPattern = /\b(?:per|according\s+to|in|from|spec|specification|under|about|of|ASTM)\s+(A\d{3,4}(?:[/-]\d{2,4})?)\b/i;
     const match = fullQuery.match(perPattern);
 
     if (match) {
@@ -300,7 +393,8 @@ export async function resolveSpecsToDocuments(
     const apiMatch = fullQuery.match(apiPattern);
     if (apiMatch) {
       const apiCode = apiMatch[1].toUpperCase();
-      const ids = documentCache.get(apiCode);
+      const cached = documentCache.get(apiCode);
+      const ids = cached && selectEdition(editionCache, apiCode, cached, null);
       if (ids && ids.length > 0) {
         console.log(`[Document Mapper] Found API code "${apiCode}" in query, filtering to docs: [${ids.join(", ")}]`);
         return ids;
@@ -330,8 +424,9 @@ export async function resolveSpecsToDocuments(
   // Collect document IDs that match ANY of the ASTM codes
   const documentIds = new Set<number>();
 
-  for (const code of astmCodes) {
-    const ids = documentCache.get(code);
+  for (const [index, code] of astmCodes.entries()) {
+    const cached = documentCache.get(code);
+    const ids = cached && selectEdition(editionCache, code, cached, parsePinnedEdition(rawAstmCodes[index]));
     if (ids) {
       ids.forEach((id) => documentIds.add(id));
       console.log(`[Document Mapper] Code ${code} → documents: [${ids.join(", ")}]`);
@@ -358,23 +453,101 @@ export async function resolveSpecsToDocuments(
 }
 
 /**
- * Force refresh the document cache
+ * Spec identity (designation, edition, supersedes links) for a document.
+ *
+ * @returns null if the document isn't indexed or has no recognisable spec code
+ */
+export async function getSpecEdition(documentId: number): Promise<SpecEdition | null> {
+  const mappings = await getWorkspaceMappings();
+  return mappings?.editionCache.get(documentId) ?? null;
+}
+
+/**
+ * All indexed editions of a spec, newest first (documents without a known
+ * edition year last).
+ *
+ * @param designation - Spec code, e.g. "A789", "ASTM A789" or "API 5CT"
+ */
+export async function getSpecEditions(designation: string): Promise<SpecEdition[]> {
+  const mappings = await getWorkspaceMappings();
+  if (!mappings) return [];
+  const code = normalizeAstmCode(designation.replace(/^API[\s-]+(?:SPEC\s+)?/i, ""));
+  return [...mappings.editionCache.values()]
+    .filter(edition => edition.designation === code)
+    .sort((a, b) => (b.edition ?? 0) - (a.edition ?? 0));
+}
+
+/**
+ * Notes to append to an answer about the editions it cites:
+ * - a cited edition has been superseded by a newer indexed edition
+ * - the query pinned an edition that isn't indexed
+ *
+ * @param query - The (standalone) user query
+ * @param documentIds - Documents cited in the answer
+ */
+export async function getEditionNotes(query: string, documentIds: number[]): Promise<string[]> {
+  const notes: string[] = [];
+  const editionCache = (await getWorkspaceMappings())?.editionCache ?? new Map<number, SpecEdition>();
+  const cited = [...new Set(documentIds)]
+    .map(id => editionCache.get(id))
+    .filter((edition): edition is SpecEdition => edition !== undefined);
+
+  for (const edition of cited) {
+    if (edition.supersededBy === null) continue;
+    const latest = editionCache.get(edition.supersededBy);
+    if (!latest) continue;
+    notes.push(
+      `${formatEdition(edition)} has been superseded by ${formatEdition(latest)} (${latest.filename}); values cited from ${formatEdition(edition)} may have changed.`
+    );
+  }
+
+  const pins = (query.match(/\b(?:ASTM\s*)?A\d{3,4}[/-]\d{2,4}\b/gi) ?? [])
+    .map(parsePinnedEdition)
+    .filter((pin): pin is SpecIdentity => pin !== null);
+  for (const pin of pins) {
+    const answeredFrom = cited.find(edition => edition.designation === pin.designation);
+    if (answeredFrom && answeredFrom.edition !== null && answeredFrom.edition !== pin.edition) {
+      notes.push(`${formatEdition(pin)} is not indexed; answered from ${formatEdition(answeredFrom)}.`);
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Force refresh the current workspace's document cache
  * Call this after uploading new documents
  */
 export async function invalidateDocumentCache(): Promise<void> {
-  console.log("[Document Mapper] Cache invalidated, will refresh on next query");
-  documentCache = null;
-  cacheTimestamp = 0;
+  const workspaceId = currentWorkspaceId();
+  console.log(`[Document Mapper] Cache invalidated for workspace ${workspaceId}, will refresh on next query`);
+  workspaceCaches.delete(workspaceId);
 }
 
 /**
- * Get all cached document mappings (for debugging)
+ * Get the current workspace's document mappings (for debugging)
  */
 export async function getDocumentMappings(): Promise<
   Map<string, number[]> | null
 > {
-  if (!documentCache || Date.now() - cacheTimestamp > CACHE_TTL) {
-    await refreshDocumentCache();
+  return (await getWorkspaceMappings())?.documentCache ?? null;
+}
+
+/**
+ * Spec codes detected per document in the current workspace
+ * (the inverse of the code → document mappings)
+ */
+export async function getDocumentSpecCodes(): Promise<Map<number, string[]>> {
+  const codesByDocument = new Map<number, string[]>();
+  const mappings = await getWorkspaceMappings();
+  if (!mappings) return codesByDocument;
+
+  for (const [code, documentIds] of mappings.documentCache) {
+    for (const documentId of documentIds) {
+      const codes = codesByDocument.get(documentId) ?? [];
+      codes.push(code);
+      codesByDocument.set(documentId, codes);
+    }
   }
-  return documentCache;
+  return codesByDocument;
 }
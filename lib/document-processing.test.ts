@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { processDocument } from './document-processing';
+import { extractPagesWithOCR, getOcrProvider } from './ocr';
+import { claimJob, openJob, releaseJob, saveCheckpoint, type IngestionJob } from './ingestion-jobs';
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: () => ({ update: () => ({ eq: vi.fn().mockResolvedValue({ error: null }) }) }),
+    storage: {
+      from: () => ({
+        download: vi.fn().mockResolvedValue({ data: { size: 8, arrayBuffer: async () => new ArrayBuffer(8) }, error: null }),
+      }),
+    },
+  },
+}));
+
+vi.mock('./embeddings', () => ({
+  generateEmbeddings: vi.fn(),
+  getEmbeddingProvider: vi.fn(),
+}));
+
+vi.mock('./document-library', () => ({
+  invalidateDocumentCaches: vi.fn(),
+}));
+
+vi.mock('./ocr', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./ocr')>()),
+  getOcrProvider: vi.fn(),
+  extractPagesWithOCR: vi.fn(),
+}));
+
+vi.mock('./ingestion-jobs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./ingestion-jobs')>()),
+  openJob: vi.fn(),
+  claimJob: vi.fn(),
+  saveCheckpoint: vi.fn(),
+  releaseJob: vi.fn(),
+}));
+
+const DIGITAL_PAGE = 'The pipe shall be furnished in the solution-annealed condition. '.repeat(5);
+const DOC = { id: 7, storage_path: 'docs/A790.pdf' };
+
+// Each OCR call takes longer than the time budget, so a call does one group of pages
+const OCR_CALL_MS = 2_000;
+const BUDGET_MS = 1_000;
+
+function scannedJob(): IngestionJob {
+  return {
+    id: 5,
+    document_id: DOC.id,
+    status: 'running',
+    stage: 'ocr',
+    page_texts: [DIGITAL_PAGE, '', '', ''],
+    page_labels: null,
+    used_ocr: false,
+    ocr_pages: [],
+    ocr_pending: [2, 3, 4],
+    ocr_provider: null,
+    pages_total: 4,
+    pages_extracted: 1,
+    chunks_total: null,
+    chunks_embedded: 0,
+    embedding_batches_total: null,
+    embedding_batches_completed: 0,
+    embedding_model: null,
+    chunks_stored: null,
+    tables_stored: null,
+    attempts: 1,
+    error: null,
+    locked_until: null,
+    created_at: '2026-10-19T00:00:00Z',
+    updated_at: '2026-10-19T00:00:00Z',
+    completed_at: null,
+  };
+}
+
+describe('processDocument', () => {
+  describe('ocr stage', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.mocked(getOcrProvider).mockResolvedValue({ name: 'tesseract', model: 'eng', pagesPerCall: 2, extractText: vi.fn() });
+      vi.mocked(extractPagesWithOCR).mockReset().mockImplementation(async (_provider, _pdf, pageNumbers) => {
+        vi.setSystemTime(Date.now() + OCR_CALL_MS);
+        return new Map(pageNumbers.map((page) => [page, `Scanned page ${page}. `.repeat(10).trim()]));
+      });
+      vi.mocked(claimJob).mockImplementation(async (job) => job);
+      vi.mocked(releaseJob).mockImplementation(async (job) => job);
+      vi.mocked(saveCheckpoint).mockReset().mockImplementation(async (job, changes) => ({ ...job, ...changes }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should checkpoint ocr_pending after each group of pages and pause when the budget runs out', async () => {
+      vi.mocked(openJob).mockResolvedValue(scannedJob());
+
+      const outcome = await processDocument(DOC, { deadline: Date.now() + BUDGET_MS });
+
+      expect(extractPagesWithOCR).toHaveBeenCalledOnce();
+      expect(vi.mocked(extractPagesWithOCR).mock.calls[0][2]).toEqual([2, 3]);
+      expect(saveCheckpoint).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 5 }),
+        expect.objectContaining({ ocr_pending: [4], ocr_pages: [2, 3], pages_extracted: 3, used_ocr: true, ocr_provider: 'tesseract' })
+      );
+      expect(outcome.result).toBeNull();
+      expect(outcome.progress).toMatchObject({ stage: 'ocr', pages_extracted: 3 });
+    });
+
+    it('should resume with the pages still pending and move on to chunking', async () => {
+      vi.mocked(openJob).mockResolvedValue(scannedJob());
+      await processDocument(DOC, { deadline: Date.now() + BUDGET_MS });
+      const checkpointed = await vi.mocked(saveCheckpoint).mock.results[0].value;
+      vi.mocked(extractPagesWithOCR).mockClear();
+      vi.mocked(openJob).mockResolvedValue(checkpointed);
+
+      const outcome = await processDocument(DOC, { deadline: Date.now() + BUDGET_MS });
+
+      expect(extractPagesWithOCR).toHaveBeenCalledOnce();
+      expect(vi.mocked(extractPagesWithOCR).mock.calls[0][2]).toEqual([4]);
+      expect(outcome.progress).toMatchObject({ stage: 'chunk', ocr_pending: [], ocr_pages: [2, 3, 4], pages_extracted: 4 });
+      expect(vi.mocked(saveCheckpoint).mock.lastCall![0].page_texts).toEqual([
+        DIGITAL_PAGE,
+        expect.stringMatching(/^Scanned page 2\./),
+        expect.stringMatching(/^Scanned page 3\./),
+        expect.stringMatching(/^Scanned page 4\./),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,676 @@
+/**
+ * Document Processing Pipeline
+ *
+ * Turns an uploaded document into searchable chunks:
+ * 1. Downloads the file from storage
+ * 2. Extracts text page by page, then OCRs scanned pages (lib/ocr.ts).
+ *    Word, HTML and Excel files are split into sections (headings or sheets)
+ *    instead, which stand in for pages (lib/document-extractors.ts)
+ * 3. Semantic chunking (tables, lists and sections kept intact);
+ *    spreadsheets are cut into table chunks of whole rows
+ * 4. Generates embeddings with the active provider, batch by batch
+ * 5. Replaces the document's chunks with the new ones
+ * 6. Parses detected tables into rows/columns/footnotes (spec_tables)
+ *
+ * Processing is resumable: it runs as an ingestion job (lib/ingestion-jobs.ts)
+ * that checkpoints after every stage and embedding batch. Each call works for
+ * up to PROCESSING_TIME_BUDGET_MS and then stops at the next checkpoint, so a
+ * large spec is processed over several calls instead of outliving the
+ * serverless timeout; a call that dies anyway is resumed by the next one.
+ *
+ * Shared by POST /api/documents/process (first ingestion and resuming) and
+ * POST /api/documents/:id/reprocess (re-run with the current chunking and
+ * embedding settings). Must run inside a workspace scope: chunks are stored
+ * in the current workspace.
+ */
+
+import { extractText } from "unpdf";
+import { supabase } from "./supabase";
+import { generateEmbeddings, getEmbeddingProvider } from "./embeddings";
+import {
+  handleApiError,
+  createValidationError,
+  createEmbeddingError,
+  getErrorStatusCode,
+  type SafeErrorResponse,
+} from "./errors";
+import {
+  getOcrProvider,
+  extractTextWithOCR,
+  extractPagesWithOCR,
+  findPagesNeedingOCR,
+  OCR_CHUNK_CONFIDENCE,
+  PAGE_BREAK,
+} from "./ocr";
+import { semanticChunk, DEFAULT_CHUNK_OPTIONS } from "./semantic-chunking";
+import { extractDocumentSections, chunkSpreadsheet, sectionLocation, type LocatedChunk } from "./document-extractors";
+import { DOCUMENT_FORMATS, type DocumentFormat } from "./document-formats";
+import { deleteSpecTables, extractSpecTables, storeSpecTables } from "./spec-tables";
+import { invalidateDocumentCaches } from "./document-library";
+import {
+  openJob,
+  claimJob,
+  saveCheckpoint,
+  releaseJob,
+  toProgress,
+  stageChunks,
+  getUnembeddedChunks,
+  saveEmbeddedChunks,
+  clearStagedEmbeddings,
+  publishStagedChunks,
+  type IngestionJob,
+  type IngestionProgress,
+} from "./ingestion-jobs";
+
+// ============================================
+// Types
+// ============================================
+
+export type DocumentStatus = "uploading" | "pending" | "processing" | "indexed" | "error";
+
+/** The document fields processing needs */
+export interface StoredDocument {
+  id: number;
+  storage_path: string;
+  /** Defaults to "pdf" (documents uploaded before other formats were supported) */
+  format?: DocumentFormat;
+}
+
+export interface ProcessingResult {
+  chunks: number;
+  tables: number;
+  pages: number;
+  usedOCR: boolean;
+}
+
+export interface ProcessingOutcome {
+  progress: IngestionProgress;
+  /** Set once the job has completed; null means call again to resume */
+  result: ProcessingResult | null;
+}
+
+export interface ProcessDocumentOptions {
+  /**
+   * Discard an unfinished job and start over (reprocessing). The document's
+   * current chunks stay searchable until the new ones are all embedded.
+   */
+  restart?: boolean;
+  /**
+   * Stop starting new steps at this time (ms since epoch). Defaults to
+   * PROCESSING_TIME_BUDGET_MS from now; a batch shares one deadline.
+   */
+  deadline?: number;
+}
+
+/**
+ * Work budget per call. Functions run for up to 60s (vercel.json); a stage
+ * started just before the budget runs out still has to finish in time.
+ */
+export const PROCESSING_TIME_BUDGET_MS = 40_000;
+
+// Longer than a function can run, so an expired lease means its holder died
+const JOB_LEASE_MS = 90_000;
+
+/**
+ * A processing step failed. Carries the safe response for the client;
+ * the document has already been marked as "error".
+ */
+export class DocumentProcessingError extends Error {
+  constructor(
+    public readonly response: SafeErrorResponse,
+    public readonly status: number = getErrorStatusCode(response.code)
+  ) {
+    super(response.error);
+    this.name = "DocumentProcessingError";
+  }
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+/**
+ * Helper function to update document status
+ * Centralizes status updates for cleaner error handling
+ */
+export async function updateDocumentStatus(documentId: number, status: DocumentStatus): Promise<void> {
+  await supabase
+    .from("documents")
+    .update({ status })
+    .eq("id", documentId);
+}
+
+function fail(response: SafeErrorResponse, status?: number): never {
+  throw new DocumentProcessingError(response, status);
+}
+
+/**
+ * Record a failed attempt on the job and the document. The checkpoints are
+ * kept, so retrying resumes where this attempt stopped.
+ */
+async function markFailed(job: IngestionJob, response: SafeErrorResponse): Promise<void> {
+  try {
+    await saveCheckpoint(job, { status: "failed", error: response, locked_until: null });
+  } catch (checkpointError) {
+    console.error(`[Process API] Failed to record failure for job ${job.id}:`, checkpointError);
+  }
+  await updateDocumentStatus(job.document_id, "error");
+}
+
+/**
+ * Run (or resume) the ingestion job for a document in the current workspace
+ * until it completes or the time budget runs out.
+ *
+ * @param doc - The document row (already checked to belong to the workspace)
+ * @returns The job's progress, with the result once it has completed. If
+ *   another call is working on the job, returns its progress untouched.
+ * @throws DocumentProcessingError with a client-safe response on failure
+ */
+export async function processDocument(
+  doc: StoredDocument,
+  options: ProcessDocumentOptions = {}
+): Promise<ProcessingOutcome> {
+  const deadline = options.deadline ?? Date.now() + PROCESSING_TIME_BUDGET_MS;
+
+  const opened = await openJob(doc.id, options.restart);
+  const claimed = await claimJob(opened, JOB_LEASE_MS);
+  if (!claimed) {
+    console.log(`[Process API] Job ${opened.id} for document ${doc.id} is being processed by another request`);
+    return { progress: toProgress(opened), result: null };
+  }
+
+  let job = claimed;
+  await updateDocumentStatus(doc.id, "processing");
+  console.log(
+    `[Process API] Job ${job.id} for document ${doc.id}: starting at stage "${job.stage}" (attempt ${job.attempts})`
+  );
+
+  try {
+    while (job.stage !== "done" && Date.now() < deadline) {
+      switch (job.stage) {
+        case "extract":
+          job = await extractPages(doc, job);
+          break;
+        case "ocr":
+          job = await ocrScannedPages(doc, job, deadline);
+          break;
+        case "chunk":
+          job = await chunkPages(doc, job);
+          break;
+        case "embed":
+          job = await embedChunks(job, deadline);
+          break;
+        case "store":
+          job = await storeChunks(job);
+          break;
+        case "tables":
+          job = await storeTables(job);
+          break;
+      }
+    }
+  } catch (error) {
+    let failure: DocumentProcessingError;
+    if (error instanceof DocumentProcessingError) {
+      failure = error;
+    } else {
+      // Unexpected errors (e.g. saving a checkpoint) get the same safe treatment
+      const { response, status } = handleApiError(error, "Document Processing");
+      failure = new DocumentProcessingError(response, status);
+    }
+    await markFailed(job, failure.response);
+    throw failure;
+  }
+
+  if (job.stage !== "done") {
+    job = await releaseJob(job);
+    console.log(`[Process API] Job ${job.id} paused at stage "${job.stage}" (time budget reached)`);
+    return { progress: toProgress(job), result: null };
+  }
+
+  return {
+    progress: toProgress(job),
+    result: {
+      chunks: job.chunks_stored ?? 0,
+      tables: job.tables_stored ?? 0,
+      pages: job.pages_total ?? 0,
+      usedOCR: job.used_ocr,
+    },
+  };
+}
+
+// ============================================
+// Stages
+// ============================================
+
+/**
+ * Download the document's file from storage.
+ */
+async function downloadDocument(doc: StoredDocument): Promise<{ file: ArrayBuffer; size: number }> {
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("documents")
+    .download(doc.storage_path);
+
+  if (downloadError || !fileData) {
+    console.error("[Process API] Failed to download document:", downloadError);
+    const { response, status } = handleApiError(downloadError, "Document Download");
+    return fail(response, status);
+  }
+
+  return { file: await fileData.arrayBuffer(), size: fileData.size };
+}
+
+function hasNoText(pageTexts: string[]): boolean {
+  return pageTexts.length === 0 || pageTexts.every(p => !p || p.trim().length === 0);
+}
+
+/**
+ * Download the PDF and extract its text per page; pages with too little
+ * text are left for the ocr stage. Other formats are split into sections.
+ * Checkpoint: page texts.
+ */
+async function extractPages(doc: StoredDocument, job: IngestionJob): Promise<IngestionJob> {
+  const documentId = doc.id;
+  const format = doc.format ?? "pdf";
+  if (format !== "pdf") {
+    return extractSections(doc, format, job);
+  }
+
+  const { file: arrayBuffer, size } = await downloadDocument(doc);
+
+  // Extract text per page for accurate page numbers
+  let pageTexts: string[] = [];
+
+  try {
+    // Use mergePages: false to get text per page
+    const result = await extractText(arrayBuffer, { mergePages: false });
+    // unpdf returns { text: string[] } when mergePages is false
+    const extractedPages = (result as unknown as { text: string[] }).text;
+
+    if (Array.isArray(extractedPages)) {
+      pageTexts = extractedPages;
+    } else {
+      // Fallback: if text is a string, treat as single page
+      pageTexts = [String(result.text || "")];
+    }
+  } catch (extractError) {
+    console.error("[Process API] PDF extraction failed:", extractError);
+    pageTexts = [];
+  }
+
+  if (pageTexts.length === 0) {
+    // unpdf couldn't read the file at all, so there are no pages to OCR one by one
+    return extractWholeDocumentWithOCR(job, arrayBuffer);
+  }
+
+  // Check if we got meaningful text, page by page. Pages unpdf got (almost)
+  // nothing from — scanned pages — are OCR'd in the next stage
+  const totalTextLength = pageTexts.reduce((sum, p) => sum + (p?.trim().length || 0), 0);
+  const ocrPending = totalTextLength < 100
+    ? pageTexts.map((_, index) => index + 1)
+    : findPagesNeedingOCR(pageTexts, size);
+
+  console.log(
+    `[Process API] Extracted ${pageTexts.length} pages from document ${documentId}` +
+    (ocrPending.length > 0 ? `, ${ocrPending.length} need OCR` : "")
+  );
+
+  return saveCheckpoint(job, {
+    stage: ocrPending.length > 0 ? "ocr" : "chunk",
+    page_texts: pageTexts,
+    page_labels: null,
+    used_ocr: false,
+    ocr_pages: [],
+    ocr_pending: ocrPending,
+    ocr_provider: null,
+    pages_total: pageTexts.length,
+    pages_extracted: pageTexts.length - ocrPending.length,
+  });
+}
+
+/**
+ * OCR the whole document in one call (unpdf couldn't read it).
+ * Checkpoint: page texts.
+ */
+async function extractWholeDocumentWithOCR(job: IngestionJob, pdf: ArrayBuffer): Promise<IngestionJob> {
+  console.log("[Process API] Insufficient text from unpdf, attempting OCR...");
+  const provider = await getOcrProvider();
+
+  let pageTexts: string[];
+  try {
+    const ocrText = await extractTextWithOCR(provider, pdf);
+    console.log(`[Process API] OCR extracted ${ocrText.length} characters`);
+    // Blank pages are kept (as empty sections) so page numbers stay correct
+    pageTexts = ocrText.split(PAGE_BREAK).map(p => p.trim());
+    while (pageTexts.length > 1 && pageTexts[pageTexts.length - 1] === "") {
+      pageTexts.pop();
+    }
+  } catch (ocrError) {
+    console.error("[Process API] OCR failed:", ocrError);
+    return fail(createValidationError(
+      "Could not extract text from PDF. The document may be corrupted or in an unsupported format."
+    ));
+  }
+
+  if (hasNoText(pageTexts)) {
+    console.error("[Process API] No text extracted from document:", job.document_id);
+    return fail(createValidationError(
+      "Could not extract text from PDF. The document appears to be empty or corrupted."
+    ));
+  }
+
+  console.log(`[Process API] Extracted ${pageTexts.length} pages from document ${job.document_id} (via OCR)`);
+
+  return saveCheckpoint(job, {
+    stage: "chunk",
+    page_texts: pageTexts,
+    page_labels: null,
+    used_ocr: true,
+    ocr_pages: pageTexts.map((_, index) => index + 1),
+    ocr_pending: [],
+    ocr_provider: provider.name,
+    pages_total: pageTexts.length,
+    pages_extracted: pageTexts.length,
+  });
+}
+
+/**
+ * Split a Word, HTML or Excel document into labelled sections, which the
+ * later stages treat as pages. No OCR: these formats always have text.
+ * Checkpoint: section texts and labels.
+ */
+async function extractSections(
+  doc: StoredDocument,
+  format: Exclude<DocumentFormat, "pdf">,
+  job: IngestionJob
+): Promise<IngestionJob> {
+  const { file } = await downloadDocument(doc);
+  const { label } = DOCUMENT_FORMATS[format];
+
+  let sections: { texts: string[]; labels: (string | null)[] };
+  try {
+    sections = await extractDocumentSections(format, file);
+  } catch (extractError) {
+    console.error(`[Process API] ${label} extraction failed:`, extractError);
+    return fail(createValidationError(
+      `Could not read the ${label} document. The file may be corrupted or in an unsupported format.`
+    ));
+  }
+
+  if (hasNoText(sections.texts)) {
+    console.error("[Process API] No text extracted from document:", doc.id);
+    return fail(createValidationError(
+      `Could not extract text from the ${label} document. The document appears to be empty.`
+    ));
+  }
+
+  console.log(`[Process API] Extracted ${sections.texts.length} sections from ${label} document ${doc.id}`);
+
+  return saveCheckpoint(job, {
+    stage: "chunk",
+    page_texts: sections.texts,
+    page_labels: sections.labels,
+    used_ocr: false,
+    ocr_pages: [],
+    ocr_pending: [],
+    ocr_provider: null,
+    pages_total: sections.texts.length,
+    pages_extracted: sections.texts.length,
+  });
+}
+
+/**
+ * OCR the scanned pages with the workspace's provider, a provider-sized
+ * group at a time, until none are left or the time budget runs out.
+ * Checkpoint: each group of pages.
+ */
+async function ocrScannedPages(
+  doc: StoredDocument,
+  job: IngestionJob,
+  deadline: number
+): Promise<IngestionJob> {
+  const provider = await getOcrProvider();
+  const { file: pdf } = await downloadDocument(doc);
+  const pageTexts = [...(job.page_texts ?? [])];
+
+  while (job.ocr_pending.length > 0 && Date.now() < deadline) {
+    const pageNumbers = job.ocr_pending.slice(0, provider.pagesPerCall);
+
+    let ocrTexts: Map<number, string>;
+    try {
+      ocrTexts = await extractPagesWithOCR(provider, pdf, pageNumbers);
+    } catch (ocrError) {
+      console.error("[Process API] OCR failed:", ocrError);
+      if (hasNoText(pageTexts)) {
+        return fail(createValidationError(
+          "Could not extract text from PDF. The document may be corrupted or in an unsupported format."
+        ));
+      }
+      // The rest of the document is still usable; index those pages as they are
+      console.warn(`[Process API] Skipping OCR of ${job.ocr_pending.length} pages, keeping extracted text`);
+      return saveCheckpoint(job, { stage: "chunk", ocr_pending: [], pages_extracted: pageTexts.length });
+    }
+
+    const ocrPages = [...job.ocr_pages];
+    for (const [pageNumber, ocrText] of ocrTexts) {
+      // Keep the text layer when OCR found no more than it did
+      if (ocrText.length > (pageTexts[pageNumber - 1]?.trim().length || 0)) {
+        pageTexts[pageNumber - 1] = ocrText;
+        ocrPages.push(pageNumber);
+      }
+    }
+
+    job = await saveCheckpoint(job, {
+      page_texts: pageTexts,
+      used_ocr: ocrPages.length > 0,
+      ocr_pages: ocrPages,
+      ocr_pending: job.ocr_pending.slice(pageNumbers.length),
+      ocr_provider: provider.name,
+      pages_extracted: job.pages_extracted + pageNumbers.length,
+    });
+  }
+
+  if (job.ocr_pending.length > 0) {
+    return job;
+  }
+
+  if (hasNoText(pageTexts)) {
+    console.error("[Process API] No text extracted from document:", job.document_id);
+    return fail(createValidationError(
+      "Could not extract text from PDF. The document appears to be empty or corrupted."
+    ));
+  }
+
+  console.log(`[Process API] OCR'd ${job.ocr_pages.length} pages of document ${job.document_id} with ${provider.name}`);
+  return saveCheckpoint(job, { stage: "chunk" });
+}
+
+/**
+ * Semantic chunking (preserves tables, lists and sections), or row chunks
+ * for spreadsheets. Non-PDF chunks get a citation location.
+ * Checkpoint: staged chunks.
+ */
+async function chunkPages(doc: StoredDocument, job: IngestionJob): Promise<IngestionJob> {
+  const documentId = job.document_id;
+  console.log(`[Process API] Starting semantic chunking for document ${documentId}...`);
+
+  const allChunks = locatedChunks(doc.format ?? "pdf", job.page_texts ?? [], job.page_labels ?? []);
+  const ocrPages = new Set(job.ocr_pages ?? []);
+
+  if (allChunks.length === 0) {
+    console.error("[Process API] No valid chunks generated from document:", documentId);
+    return fail(createValidationError(
+      "Document has insufficient text content to process."
+    ));
+  }
+
+  console.log(`[Process API] Generated ${allChunks.length} semantic chunks for document ${documentId}`);
+  console.log(`[Process API] Chunk type breakdown:`, {
+    text: allChunks.filter(c => c.metadata.chunk_type === 'text').length,
+    table: allChunks.filter(c => c.metadata.chunk_type === 'table').length,
+    list: allChunks.filter(c => c.metadata.chunk_type === 'list').length,
+    heading: allChunks.filter(c => c.metadata.chunk_type === 'heading').length,
+    withCodes: allChunks.filter(c => c.metadata.has_codes).length,
+  });
+
+  await stageChunks(job, allChunks.map((chunk, index) => ({
+    chunk_index: index,
+    content: chunk.content,
+    page_number: chunk.metadata.page_number,
+    char_offset_start: chunk.char_offset_start,
+    char_offset_end: chunk.char_offset_end,
+    section_title: chunk.metadata.section_title ?? null,
+    chunk_type: chunk.metadata.chunk_type,
+    has_codes: chunk.metadata.has_codes,
+    parent_section: chunk.metadata.parent_section ?? null,
+    // OCR text can misread characters (e.g. 0/O, 1/l in tables), so rank it lower
+    confidence: ocrPages.has(chunk.metadata.page_number)
+      ? Math.min(chunk.metadata.confidence, OCR_CHUNK_CONFIDENCE)
+      : chunk.metadata.confidence,
+    location: chunk.location,
+    clause: chunk.metadata.clause ?? null,
+    table_ref: chunk.metadata.table_ref ?? null,
+    footnote_refs: chunk.metadata.footnote_refs ?? null,
+  })));
+
+  const provider = await getEmbeddingProvider();
+  return saveCheckpoint(job, {
+    stage: "embed",
+    chunks_total: allChunks.length,
+    chunks_embedded: 0,
+    embedding_batches_total: Math.ceil(allChunks.length / provider.batchSize),
+    embedding_batches_completed: 0,
+    embedding_model: provider.model,
+  });
+}
+
+function locatedChunks(format: DocumentFormat, pageTexts: string[], labels: (string | null)[]): LocatedChunk[] {
+  if (format === "xlsx") {
+    return chunkSpreadsheet(pageTexts, labels);
+  }
+
+  return semanticChunk(pageTexts, DEFAULT_CHUNK_OPTIONS).map((chunk) => ({
+    ...chunk,
+    // PDFs are cited by page
+    location: format === "pdf" ? null : sectionLocation(labels[chunk.metadata.page_number - 1]),
+  }));
+}
+
+/**
+ * Embed staged chunks one provider batch at a time until none are left or
+ * the time budget runs out.
+ * Checkpoint: each completed batch.
+ */
+async function embedChunks(job: IngestionJob, deadline: number): Promise<IngestionJob> {
+  const provider = await getEmbeddingProvider();
+
+  // EMBEDDING_PROVIDER changed since the job started: vectors can't be mixed
+  if (job.embedding_model !== provider.model) {
+    console.log(
+      `[Process API] Embedding model changed (${job.embedding_model} → ${provider.model}), re-embedding job ${job.id}`
+    );
+    await clearStagedEmbeddings(job);
+    job = await saveCheckpoint(job, {
+      chunks_embedded: 0,
+      embedding_batches_total: Math.ceil((job.chunks_total ?? 0) / provider.batchSize),
+      embedding_batches_completed: 0,
+      embedding_model: provider.model,
+    });
+  }
+
+  while (Date.now() < deadline) {
+    const batch = await getUnembeddedChunks(job, provider.batchSize);
+    if (batch.length === 0) {
+      return saveCheckpoint(job, { stage: "store" });
+    }
+
+    let embeddings: number[][];
+    try {
+      embeddings = await generateEmbeddings(batch.map(chunk => chunk.content));
+    } catch (embeddingError) {
+      console.error("[Process API] Embedding generation failed:", embeddingError);
+      return fail(createEmbeddingError(embeddingError));
+    }
+
+    // Verify embeddings count matches chunks
+    if (embeddings.length !== batch.length) {
+      console.error(
+        `[Process API] Embedding count mismatch: ${embeddings.length} embeddings for ${batch.length} chunks`
+      );
+      return fail(
+        createValidationError("Failed to generate embeddings for all chunks."),
+        getErrorStatusCode("INTERNAL_ERROR")
+      );
+    }
+
+    await saveEmbeddedChunks(batch.map((chunk, index) => ({
+      ...chunk,
+      embedding: embeddings[index],
+      embedding_model: provider.model,
+    })));
+
+    job = await saveCheckpoint(job, {
+      chunks_embedded: job.chunks_embedded + batch.length,
+      embedding_batches_completed: job.embedding_batches_completed + 1,
+    });
+  }
+
+  return job;
+}
+
+/**
+ * Replace the document's chunks with the staged ones (one transaction).
+ */
+async function storeChunks(job: IngestionJob): Promise<IngestionJob> {
+  try {
+    const stored = await publishStagedChunks(job);
+    console.log(`[Process API] Stored ${stored} chunks for document ${job.document_id}`);
+    return { ...job, stage: "tables", chunks_stored: stored };
+  } catch (storageError) {
+    // Log full error for debugging (server-side only)
+    const errorMessage = storageError instanceof Error ? storageError.message : "Unknown database error";
+    console.error(`[Process API] Chunk storage failed for document ${job.document_id}:`, errorMessage);
+    // Return safe, user-friendly message (never expose DB internals)
+    return fail(
+      createValidationError("Failed to store document chunks. Please try again."),
+      getErrorStatusCode("INTERNAL_ERROR")
+    );
+  }
+}
+
+/**
+ * Store structured tables and mark the document indexed.
+ */
+async function storeTables(job: IngestionJob): Promise<IngestionJob> {
+  const documentId = job.document_id;
+
+  // Best-effort: table chunks are already searchable, the structured copy
+  // is supplemental, so a failure here doesn't fail ingestion
+  let tableCount = 0;
+  try {
+    await deleteSpecTables(documentId);
+
+    const specTables = extractSpecTables(job.page_texts ?? []);
+    await storeSpecTables(documentId, specTables);
+    tableCount = specTables.length;
+    console.log(`[Process API] Stored ${tableCount} structured tables for document ${documentId}`);
+  } catch (tableError) {
+    const errorMessage = tableError instanceof Error ? tableError.message : "Unknown error";
+    console.warn(`[Process API] Structured table extraction failed for document ${documentId}:`, errorMessage);
+  }
+
+  const completed = await saveCheckpoint(job, {
+    stage: "done",
+    status: "completed",
+    tables_stored: tableCount,
+    // Only needed while the job can still resume
+    page_texts: null,
+    locked_until: null,
+    completed_at: new Date().toISOString(),
+  });
+
+  await updateDocumentStatus(documentId, "indexed");
+  await invalidateDocumentCaches();
+
+  console.log(`[Process API] Successfully processed document ${documentId}: ${completed.chunks_stored} chunks`);
+  return completed;
+}
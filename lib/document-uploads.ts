@@ -0,0 +1,473 @@
+/**
+ * Document Uploads
+ *
+ * The server side of a direct-to-storage upload, shared by the single-file
+ * and batch forms of the upload routes:
+ * - createUploadUrl: validate the file's metadata, short-circuit files the
+ *   workspace already has, create the 'uploading' record and a signed URL
+ * - confirmUpload: verify the stored file (exists, format signature, size),
+ *   deduplicate by content hash and mark the document 'pending'
+ *
+ * Batches let the upload widget onboard dozens of specs in a handful of
+ * requests, within the per-client RATE_LIMITS on these routes
+ * (lib/rate-limit.ts). Every function works on the current workspace.
+ */
+
+import { supabase, supabaseAdmin } from "./supabase";
+import { MAX_PDF_SIZE } from "./validation";
+import {
+  handleApiError,
+  createValidationError,
+  getErrorStatusCode,
+  type SafeErrorResponse,
+} from "./errors";
+import { currentWorkspaceId } from "./workspace";
+import { releaseQuota, takeQuota } from "./usage";
+import { findDuplicateDocument, type DuplicateDocument } from "./document-library";
+import { sha256Hex, SHA256_HEX_PATTERN } from "./utils/hash";
+import {
+  DOCUMENT_FORMATS,
+  SIGNATURE_BYTES,
+  SUPPORTED_FORMATS_LABEL,
+  detectDocumentFormat,
+  hasFormatSignature,
+  type DocumentFormat,
+} from "./document-formats";
+
+// ============================================
+// Types
+// ============================================
+
+/** Signing URLs is cheap, so a batch can cover a whole onboarding drop */
+export const MAX_UPLOAD_URL_BATCH = 50;
+
+/** Confirming downloads and hashes each file, so batches stay small */
+export const MAX_CONFIRM_BATCH = 10;
+
+export interface UploadUrlRequest {
+  filename: string;
+  fileSize: number;
+  contentType: string;
+  /** SHA-256 hex digest of the file, computed by the client (verified at confirmation) */
+  contentHash?: string;
+}
+
+/** The workspace already has this file: no upload needed */
+export interface DuplicateUpload {
+  success: true;
+  duplicate: true;
+  documentId: number;
+  filename: string;
+  status: string;
+}
+
+export type UploadUrlResult =
+  | DuplicateUpload
+  | {
+      success: true;
+      documentId: number;
+      uploadUrl: string;
+      path: string;
+      token: string;
+    };
+
+export interface UploadConfirmRequest {
+  documentId: number;  // Supabase BIGSERIAL returns number
+  path: string;
+}
+
+export type UploadConfirmResult =
+  | DuplicateUpload
+  | {
+      success: true;
+      documentId: number;
+      path: string;
+      url: string;
+    };
+
+/** One failed file of a batch (the rest of the batch still goes ahead) */
+export type BatchItemError = SafeErrorResponse & { success: false; status: number };
+
+/**
+ * An upload step was rejected. Carries the safe response and HTTP status
+ * for the client.
+ */
+export class UploadError extends Error {
+  constructor(
+    public readonly response: SafeErrorResponse,
+    public readonly status: number = getErrorStatusCode(response.code)
+  ) {
+    super(response.error);
+    this.name = "UploadError";
+  }
+}
+
+function reject(message: string, status?: number): never {
+  throw new UploadError(createValidationError(message), status);
+}
+
+/**
+ * Delete a rejected upload's stored file (if any) and its record, and give
+ * back the document quota its upload URL took. Supabase reports failures in
+ * `error` rather than throwing; they are logged, since the caller is already
+ * answering the request.
+ */
+async function discardUpload(documentId: number, path: string | null, reason: string): Promise<void> {
+  if (path) {
+    const { error: removeError } = await supabaseAdmin.storage.from("documents").remove([path]);
+    if (removeError) {
+      console.error(`[Document Uploads] Failed to remove ${reason} file ${path}:`, removeError);
+    }
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from("documents")
+    .delete()
+    .eq("id", documentId)
+    .eq("workspace_id", currentWorkspaceId());
+  if (deleteError) {
+    console.error(`[Document Uploads] Failed to delete ${reason} record ${documentId}:`, deleteError);
+  }
+
+  await releaseQuota("document");
+}
+
+function sizeError(fileSize: number): string {
+  const sizeMB = (fileSize / (1024 * 1024)).toFixed(1);
+  const maxMB = (MAX_PDF_SIZE / (1024 * 1024)).toFixed(0);
+  return `File too large (${sizeMB}MB). Maximum allowed size is ${maxMB}MB.`;
+}
+
+// ============================================
+// Upload URL
+// ============================================
+
+/**
+ * Create the document record and a signed upload URL for one file, or return
+ * the existing document if the workspace already has the same file.
+ * Counts against the workspace's document quota (duplicates don't, and the
+ * unit is given back if confirmUpload discards the upload).
+ *
+ * @throws UploadError if the metadata is invalid or the quota is exhausted
+ */
+export async function createUploadUrl(file: UploadUrlRequest): Promise<UploadUrlResult> {
+  const { filename, fileSize, contentType, contentHash } = file ?? {};
+
+  // ========================================
+  // Step 1: Validate Metadata
+  // ========================================
+  if (!filename || typeof filename !== "string") {
+    reject("Missing or invalid filename.");
+  }
+
+  if (!fileSize || typeof fileSize !== "number" || fileSize <= 0) {
+    reject("Missing or invalid file size.");
+  }
+
+  const format = detectDocumentFormat(filename, typeof contentType === "string" ? contentType : "");
+  if (!format) {
+    reject(`Unsupported file type. Allowed formats: ${SUPPORTED_FORMATS_LABEL}.`);
+  }
+
+  // ========================================
+  // Step 2: Validate File Size
+  // ========================================
+  if (fileSize > MAX_PDF_SIZE) {
+    reject(sizeError(fileSize));
+  }
+
+  // ========================================
+  // Step 2.5: Short-circuit Duplicate Uploads
+  // ========================================
+  // The client-reported hash only skips work; the confirm step re-hashes the
+  // stored file, so a wrong hash can't attach an upload to another document
+  if (contentHash !== undefined) {
+    if (typeof contentHash !== "string" || !SHA256_HEX_PATTERN.test(contentHash)) {
+      reject("contentHash must be a lowercase hex SHA-256 digest.");
+    }
+
+    const existing = await findDuplicateDocument(contentHash);
+    if (existing) {
+      console.log(`[Upload URL API] Duplicate of document ${existing.id} (${existing.filename}), skipping upload`);
+      return {
+        success: true,
+        duplicate: true,
+        documentId: existing.id,
+        filename: existing.filename,
+        status: existing.status,
+      };
+    }
+  }
+
+  // Counts against the workspace's document quota
+  const quotaError = await takeQuota("document");
+  if (quotaError) {
+    throw new UploadError(quotaError);
+  }
+
+  // ========================================
+  // Step 3: Generate Safe Filename
+  // ========================================
+  // Use timestamp + sanitized filename to prevent collisions and path traversal
+  const timestamp = Date.now();
+  // Sanitize filename: keep only alphanumeric, dots, and hyphens
+  const sanitizedName = filename.replace(/[^a-zA-Z0-9.-]/g, "_");
+  // Random suffix: files in one batch can share a timestamp and a name
+  const storagePath = `${timestamp}-${crypto.randomUUID().slice(0, 8)}-${sanitizedName}`;
+
+  // ========================================
+  // Step 4: Create Database Record
+  // ========================================
+  // Create record with 'uploading' status BEFORE generating signed URL
+  // This ensures we have an audit trail even if upload fails
+  const { data: docData, error: docError } = await supabase
+    .from("documents")
+    .insert({
+      filename: filename, // Store original filename for display
+      storage_path: storagePath,
+      file_size: fileSize,
+      format,
+      status: "uploading", // Will be updated to "pending" after upload confirmation
+      workspace_id: currentWorkspaceId(),
+    })
+    .select("id")
+    .single();
+
+  if (docError) {
+    console.error("[Upload URL API] Database insert error:", docError);
+    await releaseQuota("document");
+    const { response, status } = handleApiError(docError, "Upload URL Generation - Database");
+    throw new UploadError(response, status);
+  }
+
+  // ========================================
+  // Step 5: Generate Signed Upload URL
+  // ========================================
+  // Supabase signed upload URL allows client to upload directly
+  const { data: signedUrlData, error: signedUrlError } = await supabase.storage
+    .from("documents")
+    .createSignedUploadUrl(storagePath);
+
+  if (signedUrlError) {
+    console.error("[Upload URL API] Signed URL generation error:", signedUrlError);
+
+    // Clean up the database record since we couldn't generate URL
+    await discardUpload(docData.id, null, "unsigned");
+
+    const { response, status } = handleApiError(signedUrlError, "Upload URL Generation - Signed URL");
+    throw new UploadError(response, status);
+  }
+
+  return {
+    success: true,
+    documentId: docData.id,
+    uploadUrl: signedUrlData.signedUrl,
+    path: storagePath,
+    token: signedUrlData.token,
+  };
+}
+
+// ============================================
+// Confirmation
+// ============================================
+
+/**
+ * Confirm that a file was uploaded to its signed URL: validate it and mark
+ * the document 'pending' — or, if the workspace already has the same bytes,
+ * discard the upload and return the existing document.
+ *
+ * @throws UploadError if the record or file is missing or invalid
+ */
+export async function confirmUpload(upload: UploadConfirmRequest): Promise<UploadConfirmResult> {
+  const { documentId, path } = upload ?? {};
+
+  if (!documentId || typeof documentId !== "number") {
+    reject("Missing or invalid documentId.");
+  }
+
+  if (!path || typeof path !== "string") {
+    reject("Missing or invalid path.");
+  }
+
+  // ========================================
+  // Step 1: Verify Database Record Exists
+  // ========================================
+  const { data: docData, error: docError } = await supabase
+    .from("documents")
+    .select("id, status, filename, storage_path, format")
+    .eq("id", documentId)
+    .eq("workspace_id", currentWorkspaceId())
+    .single();
+
+  if (docError || !docData) {
+    console.error("[Upload Confirm API] Document not found:", docError);
+    reject("Document record not found.", 404);
+  }
+
+  // The path must be the one issued for this document (not another workspace's file)
+  if (docData.storage_path !== path) {
+    reject("Path does not match the document record.");
+  }
+
+  // Verify document is in 'uploading' status
+  if (docData.status !== "uploading") {
+    reject(`Document status is '${docData.status}', expected 'uploading'.`);
+  }
+
+  // ========================================
+  // Step 2: Verify File Exists in Storage
+  // ========================================
+  const { data: fileList, error: listError } = await supabase.storage
+    .from("documents")
+    .list("", {
+      search: path,
+    });
+
+  if (listError || !fileList || fileList.length === 0) {
+    console.error("[Upload Confirm API] File not found in storage:", listError);
+
+    // Clean up orphaned database record
+    await discardUpload(documentId, null, "orphaned");
+
+    reject("File not found in storage. Upload may have failed.", 404);
+  }
+
+  // Get actual file size from storage
+  const actualFileSize = fileList[0].metadata?.size || 0;
+
+  // ========================================
+  // Step 3: Download File for Format Validation
+  // ========================================
+  // This is a security check - verify the file is actually what its record says
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("documents")
+    .download(path);
+
+  if (downloadError || !fileData) {
+    console.error("[Upload Confirm API] Failed to download file for validation:", downloadError);
+    reject("Failed to validate uploaded file.");
+  }
+
+  // Read the leading bytes to check the format's signature (e.g. %PDF-)
+  const format: DocumentFormat = docData.format ?? "pdf";
+  const buffer = await fileData.slice(0, SIGNATURE_BYTES).arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  if (!hasFormatSignature(format, bytes)) {
+    console.error(`[Upload Confirm API] Invalid ${format} signature`);
+
+    // Clean up invalid file
+    await discardUpload(documentId, path, "invalid");
+
+    const { label } = DOCUMENT_FORMATS[format];
+    reject(`Invalid ${label} file. The uploaded file does not appear to be a valid ${label} document.`);
+  }
+
+  // ========================================
+  // Step 4: Validate File Size
+  // ========================================
+  if (actualFileSize > MAX_PDF_SIZE) {
+    // Clean up file that exceeds size limit
+    await discardUpload(documentId, path, "oversized");
+
+    reject(sizeError(actualFileSize));
+  }
+
+  // ========================================
+  // Step 4.5: Content-Hash Deduplication
+  // ========================================
+  // Identical bytes = identical chunks; keep duplicates out of the index
+  const contentHash = await sha256Hex(await fileData.arrayBuffer());
+  const existing = await findDuplicateDocument(contentHash, documentId);
+
+  if (existing) {
+    return discardDuplicate(documentId, path, existing);
+  }
+
+  // ========================================
+  // Step 5: Get Public URL
+  // ========================================
+  const { data: urlData } = supabase.storage
+    .from("documents")
+    .getPublicUrl(path);
+
+  // ========================================
+  // Step 6: Update Database Status
+  // ========================================
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({
+      status: "pending", // Will be updated to "indexed" after processing
+      file_size: actualFileSize, // Use actual size from storage
+      content_hash: contentHash,
+    })
+    .eq("id", documentId);
+
+  // 23505: the same bytes were confirmed concurrently and took the workspace's
+  // content hash first (documents_workspace_content_hash_key)
+  if (updateError?.code === "23505") {
+    const winner = await findDuplicateDocument(contentHash, documentId);
+    if (winner) return discardDuplicate(documentId, path, winner);
+  }
+
+  if (updateError) {
+    console.error("[Upload Confirm API] Failed to update document status:", updateError);
+    const { response, status } = handleApiError(updateError, "Upload Confirmation - Database Update");
+    throw new UploadError(response, status);
+  }
+
+  return {
+    success: true,
+    documentId: documentId,
+    path: path,
+    url: urlData.publicUrl,
+  };
+}
+
+/**
+ * Discard an upload of bytes the workspace already has and point the client
+ * at the existing document. The upload's document quota is given back.
+ */
+async function discardDuplicate(documentId: number, path: string, existing: DuplicateDocument): Promise<DuplicateUpload> {
+  console.log(`[Upload Confirm API] Document ${documentId} duplicates document ${existing.id} (${existing.filename}), discarding upload`);
+  await discardUpload(documentId, path, "duplicate");
+
+  return {
+    success: true,
+    duplicate: true,
+    documentId: existing.id,
+    filename: existing.filename,
+    status: existing.status,
+  };
+}
+
+// ============================================
+// Batches
+// ============================================
+
+/**
+ * Run an upload step for each item of a batch, one at a time. A failed item
+ * gets its error in place of a result; the others go ahead.
+ *
+ * @param context - Label for logging unexpected errors
+ */
+export async function runBatch<T, R>(
+  items: T[],
+  step: (item: T) => Promise<R>,
+  context: string
+): Promise<Array<R | BatchItemError>> {
+  const results: Array<R | BatchItemError> = [];
+
+  for (const item of items) {
+    try {
+      results.push(await step(item));
+    } catch (error) {
+      const { response, status } = error instanceof UploadError
+        ? { response: error.response, status: error.status }
+        : handleApiError(error, context);
+      results.push({ success: false, ...response, status });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { diffEditions, formatEditionDiffMarkdown } from './edition-diff';
+import { extractSpecTables, loadSpecTables } from './spec-tables';
+import type { SpecEdition } from './spec-editions';
+
+const { chunksByDocument } = vi.hoisted(() => ({
+  chunksByDocument: new Map<number, Array<{ content: string; page_number: number; section_title: string | null; parent_section: string | null }>>(),
+}));
+
+vi.mock('./workspace', () => ({
+  currentWorkspaceId: () => 'workspace-1',
+}));
+
+// Text chunks for loadClauses: from('chunks').select().eq('document_id', id)...order()
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: () => {
+      let documentId = 0;
+      const query = {
+        select: () => query,
+        eq: (column: string, value: number) => {
+          if (column === 'document_id') documentId = value;
+          return query;
+        },
+        neq: () => query,
+        order: async () => ({ data: chunksByDocument.get(documentId) ?? [], error: null }),
+      };
+      return query;
+    },
+  },
+}));
+
+vi.mock('./spec-tables', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./spec-tables')>()),
+  loadSpecTables: vi.fn(),
+}));
+
+const A789_13: SpecEdition = { documentId: 1, filename: 'ASTM A789 2013.pdf', designation: 'A789', edition: 2013, supersedes: null, supersededBy: 2 };
+const A789_14: SpecEdition = { documentId: 2, filename: 'ASTM A789 2014.pdf', designation: 'A789', edition: 2014, supersedes: 1, supersededBy: null };
+
+function mockEdition(documentId: number, tablePages: string[], clauses: string) {
+  chunksByDocument.set(documentId, [{ content: clauses, page_number: 2, section_title: null, parent_section: null }]);
+  return extractSpecTables(tablePages).map((table) => ({ ...table, id: documentId, document_id: documentId }));
+}
+
+describe('Edition Diff', () => {
+  beforeEach(() => {
+    chunksByDocument.clear();
+    vi.mocked(loadSpecTables).mockReset();
+  });
+
+  it('should report changed limits and added grades in renumbered tables', async () => {
+    const older = mockEdition(1, [`TABLE 3 Tensile Requirements
+Grade | Yield Strength, min, ksi | Tensile Strength, min, ksi
+S32205 | 65 | 95
+S31803 | 65 | 90`], '');
+    const newer = mockEdition(2, [`TABLE 4 Tensile Requirements
+Grade | Yield Strength, min, ksi | Tensile Strength, min, ksi
+S32205 | 70 | 95
+S31803 | 65 | 90
+S32750 | 80 | 116`], '');
+    vi.mocked(loadSpecTables).mockImplementation(async ([id]) => (id === 1 ? older : newer) as never);
+
+    const report = await diffEditions(A789_13, A789_14);
+
+    expect(report.older.edition).toBe('A789-13');
+    expect(report.newer.edition).toBe('A789-14');
+    expect(report.summary).toEqual({ limit_changed: 1, grade_added: 1 });
+    expect(report.changes).toContainEqual({
+      kind: 'limit_changed',
+      location: 'TABLE 4 Tensile Requirements › S32205 › Yield Strength, min, ksi',
+      older: { page: 1, text: '65' },
+      newer: { page: 1, text: '70' },
+    });
+    expect(report.changes).toContainEqual(expect.objectContaining({ kind: 'grade_added', location: 'TABLE 4 Tensile Requirements › S32750' }));
+  });
+
+  it('should match clauses by number, ignore extraction noise and report new limits', async () => {
+    vi.mocked(loadSpecTables).mockResolvedValue([]);
+    mockEdition(1, [], `6. Heat Treatment
+6.1 The pipe shall be furnished in the solution-annealed con-
+dition.
+6.2 Quench in water from 1870 °F minimum.
+8.1 Flattening tests shall be made on one length per lot.`);
+    mockEdition(2, [], `6. Heat Treatment
+6.1 The pipe shall be furnished in the solution-annealed condition.
+6.2 Quench in water from 1900 °F minimum.
+9.1 Hydrostatic tests shall be made on each length.`);
+
+    const report = await diffEditions(A789_13, A789_14);
+
+    expect(report.changes).toEqual([
+      {
+        kind: 'clause_removed',
+        location: 'Clause 8.1 (6. Heat Treatment)',
+        older: { page: 2, text: 'Flattening tests shall be made on one length per lot.' },
+        newer: null,
+      },
+      {
+        kind: 'limit_changed',
+        location: 'Clause 6.2 (6. Heat Treatment)',
+        older: { page: 2, text: 'Quench in water from 1870 °F minimum.' },
+        newer: { page: 2, text: 'Quench in water from 1900 °F minimum.' },
+      },
+      {
+        kind: 'clause_added',
+        location: 'Clause 9.1 (6. Heat Treatment)',
+        older: null,
+        newer: { page: 2, text: 'Hydrostatic tests shall be made on each length.' },
+      },
+    ]);
+  });
+
+  it('should format the report as Markdown grouped by kind', async () => {
+    vi.mocked(loadSpecTables).mockResolvedValue([]);
+    mockEdition(1, [], '6.2 Quench in water from 1870 °F minimum.');
+    mockEdition(2, [], '6.2 Quench in water from 1900 °F minimum.');
+
+    const markdown = formatEditionDiffMarkdown(await diffEditions(A789_13, A789_14));
+
+    expect(markdown).toContain('# A789-13 → A789-14');
+    expect(markdown).toContain('## Changed limits (1)');
+    expect(markdown).toContain('  - A789-13 (p. 2): Quench in water from 1870 °F minimum.');
+  });
+
+  it('should say so when nothing changed', async () => {
+    vi.mocked(loadSpecTables).mockResolvedValue([]);
+    mockEdition(1, [], '6.1 The pipe shall be solution annealed.');
+    mockEdition(2, [], '6.1 The pipe shall be solution annealed.');
+
+    const report = await diffEditions(A789_13, A789_14);
+
+    expect(report.changes).toEqual([]);
+    expect(formatEditionDiffMarkdown(report)).toContain('No requirement changes detected.');
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * Edition Diff
+ *
+ * Reports which requirements changed between two editions of the same spec
+ * (e.g. A789-13 → A789-14): changed numeric limits, added or removed grades,
+ * and reworded, added or removed clauses — each cited to its page in both
+ * editions.
+ *
+ * Alignment:
+ * - Tables by title without the table number ("Tensile Requirements"), since
+ *   tables are often renumbered; rows by grade / first cell; columns by header
+ *   (or position when every header was reworded).
+ * - Clauses by number within numbered text ("6.1", "8.2.3"), falling back to
+ *   the most similar clause when clauses were renumbered. Section context
+ *   comes from the chunks' section_title / parent_section metadata.
+ *
+ * PDF extraction is noisy, so text is compared after normalising whitespace,
+ * dashes and hyphenation; clauses that only differ in extraction noise are
+ * not reported.
+ */
+
+import { supabase } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import { loadSpecTables, type SpecTable, type SpecTableCell } from "./spec-tables";
+import { formatEdition, type SpecEdition } from "./spec-editions";
+
+// ============================================
+// Types
+// ============================================
+
+export type EditionChangeKind =
+  | "limit_changed"
+  | "grade_added"
+  | "grade_removed"
+  | "row_added"
+  | "row_removed"
+  | "table_added"
+  | "table_removed"
+  | "clause_reworded"
+  | "clause_added"
+  | "clause_removed";
+
+export interface EditionExcerpt {
+  page: number;
+  /** Value or clause text; null when the item is absent from this edition */
+  text: string | null;
+}
+
+export interface EditionChange {
+  kind: EditionChangeKind;
+  /** "Table 3 Tensile Requirements › S32205 › Yield Strength, min, ksi" or "Clause 6.1 (Heat Treatment)" */
+  location: string;
+  /** null when there is nothing to cite in that edition */
+  older: EditionExcerpt | null;
+  newer: EditionExcerpt | null;
+}
+
+export interface EditionDiffReport {
+  designation: string;
+  older: { documentId: number; filename: string; edition: string };
+  newer: { documentId: number; filename: string; edition: string };
+  summary: Partial<Record<EditionChangeKind, number>>;
+  changes: EditionChange[];
+}
+
+interface Clause {
+  number: string;
+  text: string;
+  page: number;
+  section: string | null;
+}
+
+interface AlignedTable {
+  key: string;
+  title: string;
+  page: number;
+  columns: SpecTableCell[];
+  rows: SpecTableCell[][];
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/** Minimum word overlap for a same-numbered clause to count as the same clause */
+const SAME_CLAUSE_SIMILARITY = 0.3;
+
+/** Minimum word overlap when matching renumbered clauses */
+const RENUMBERED_CLAUSE_SIMILARITY = 0.6;
+
+/** Clause excerpt length in the report */
+const MAX_EXCERPT_LENGTH = 600;
+
+/** "6.1 The pipe shall be..." — sub-clauses only; "6. Heat Treatment" is a section heading */
+const CLAUSE_START = /^(\d{1,2}(?:\.\d{1,2}){1,3})\s+(\S.*)$/;
+
+const SECTION_HEADING = /^\d{1,2}\.?\s+[A-Z][A-Za-z ,/&-]{2,60}$/;
+
+/** UNS numbers and common grade names used as row keys or column headers */
+const GRADE_LIKE = /^(?:[SNCGHJKWRT]\d{5}|F\d{2,3}|TP\s?\d{3}[A-Z]*|\d{3,4}[A-Z]{0,2})$/;
+
+// ============================================
+// Normalisation
+// ============================================
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/-\s*\n\s*/g, "")
+    .replace(/[−–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function normalizeHeader(text: string): string {
+  return normalizeText(text).replace(/[^a-z0-9%]+/g, " ").trim();
+}
+
+function words(text: string): Set<string> {
+  return new Set(normalizeText(text).split(/[^a-z0-9.%]+/).filter(word => word.length > 2));
+}
+
+function similarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function numbersIn(text: string): string {
+  return (normalizeText(text).match(/\d+(?:\.\d+)?/g) ?? []).join(" ");
+}
+
+function excerpt(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_EXCERPT_LENGTH ? `${clean.slice(0, MAX_EXCERPT_LENGTH)}…` : clean;
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Group a document's tables by title (minus table number); parts of a table
+ * split across paragraphs are merged.
+ */
+function alignTables(tables: SpecTable[]): Map<string, AlignedTable> {
+  const aligned = new Map<string, AlignedTable>();
+
+  for (const table of tables) {
+    const title = table.table_title.replace(/\s*\(\d+\)$/, "");
+    const numbered = title.match(/^TABLE\s+(X?\d+(?:\.\d+)?)\b\s*(.*)$/i);
+    const key = numbered
+      ? normalizeHeader(numbered[2]) || `table ${numbered[1].toLowerCase()}`
+      : normalizeHeader(title);
+
+    const existing = aligned.get(key);
+    if (existing) {
+      existing.rows.push(...table.rows);
+    } else {
+      aligned.set(key, { key, title, page: table.page_number, columns: table.columns, rows: [...table.rows] });
+    }
+  }
+
+  return aligned;
+}
+
+/**
+ * Numbered clauses from a document's text chunks. Chunks overlap, so a clause
+ * can appear twice (once truncated) — the longest copy is kept.
+ */
+async function loadClauses(documentId: number): Promise<Clause[]> {
+  const { data, error } = await supabase
+    .from("chunks")
+    .select("content, page_number, section_title, parent_section, chunk_type")
+    .eq("document_id", documentId)
+    .eq("workspace_id", currentWorkspaceId())
+    .neq("chunk_type", "table")
+    .order("page_number", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching chunks for edition diff:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+
+  const clauses = new Map<string, Clause>();
+
+  for (const chunk of data ?? []) {
+    let section: string | null = chunk.parent_section ?? chunk.section_title ?? null;
+    let current: Clause | null = null;
+
+    const flush = () => {
+      if (!current) return;
+      const existing = clauses.get(current.number);
+      if (!existing || current.text.length > existing.text.length) {
+        clauses.set(current.number, current);
+      }
+      current = null;
+    };
+
+    for (const rawLine of (chunk.content as string).split("\n")) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const start = line.match(CLAUSE_START);
+      if (start) {
+        flush();
+        current = { number: start[1], text: start[2], page: chunk.page_number, section };
+      } else if (SECTION_HEADING.test(line)) {
+        flush();
+        section = line;
+      } else if (current) {
+        // Keep the line break so normalizeText can rejoin hyphenated words
+        current.text += `\n${line}`;
+      }
+    }
+    flush();
+  }
+
+  return [...clauses.values()];
+}
+
+// ============================================
+// Table Diff
+// ============================================
+
+function rowKey(row: SpecTableCell[]): string {
+  const grade = row.find(cell => GRADE_LIKE.test(cell.value.toUpperCase().replace(/\s+/g, "")));
+  return (grade ?? row[0]).value.toUpperCase().replace(/\s+/g, "");
+}
+
+/** Rows keyed by grade / first cell; repeated keys (product forms) get an index */
+function keyRows(table: AlignedTable): Map<string, SpecTableCell[]> {
+  const rows = new Map<string, SpecTableCell[]>();
+  for (const row of table.rows) {
+    if (row.length !== table.columns.length) continue;
+    const base = rowKey(row);
+    let key = base;
+    for (let n = 2; rows.has(key); n++) key = `${base}#${n}`;
+    rows.set(key, row);
+  }
+  return rows;
+}
+
+/** Older column index → newer column index */
+function alignColumns(older: SpecTableCell[], newer: SpecTableCell[]): Map<number, number> {
+  const mapping = new Map<number, number>();
+  older.forEach((column, index) => {
+    const match = newer.findIndex(other => normalizeHeader(other.value) === normalizeHeader(column.value));
+    if (match >= 0) mapping.set(index, match);
+  });
+
+  // Every header reworded but same shape: align by position
+  if (mapping.size === 0 && older.length === newer.length) {
+    older.forEach((_, index) => mapping.set(index, index));
+  }
+  return mapping;
+}
+
+function diffTable(older: AlignedTable, newer: AlignedTable): EditionChange[] {
+  const changes: EditionChange[] = [];
+  const columnMap = alignColumns(older.columns, newer.columns);
+
+  // Grades as columns (chemical tables)
+  const olderHeaders = new Set(older.columns.map(c => normalizeHeader(c.value)));
+  const newerHeaders = new Set(newer.columns.map(c => normalizeHeader(c.value)));
+  for (const column of newer.columns) {
+    if (GRADE_LIKE.test(column.value.toUpperCase()) && !olderHeaders.has(normalizeHeader(column.value))) {
+      changes.push({
+        kind: "grade_added",
+        location: `${newer.title} › ${column.value}`,
+        older: { page: older.page, text: null },
+        newer: { page: newer.page, text: column.value },
+      });
+    }
+  }
+  for (const column of older.columns) {
+    if (GRADE_LIKE.test(column.value.toUpperCase()) && !newerHeaders.has(normalizeHeader(column.value))) {
+      changes.push({
+        kind: "grade_removed",
+        location: `${newer.title} › ${column.value}`,
+        older: { page: older.page, text: column.value },
+        newer: { page: newer.page, text: null },
+      });
+    }
+  }
+
+  // Grades / properties as rows
+  const olderRows = keyRows(older);
+  const newerRows = keyRows(newer);
+
+  for (const [key, row] of newerRows) {
+    if (olderRows.has(key)) continue;
+    const isGrade = GRADE_LIKE.test(key.replace(/#\d+$/, ""));
+    changes.push({
+      kind: isGrade ? "grade_added" : "row_added",
+      location: `${newer.title} › ${row[0].value}`,
+      older: { page: older.page, text: null },
+      newer: { page: newer.page, text: row.map(cell => cell.value).join(" | ") },
+    });
+  }
+
+  for (const [key, row] of olderRows) {
+    const newerRow = newerRows.get(key);
+    if (!newerRow) {
+      const isGrade = GRADE_LIKE.test(key.replace(/#\d+$/, ""));
+      changes.push({
+        kind: isGrade ? "grade_removed" : "row_removed",
+        location: `${newer.title} › ${row[0].value}`,
+        older: { page: older.page, text: row.map(cell => cell.value).join(" | ") },
+        newer: { page: newer.page, text: null },
+      });
+      continue;
+    }
+
+    for (const [olderIndex, newerIndex] of columnMap) {
+      const before = row[olderIndex].value;
+      const after = newerRow[newerIndex].value;
+      if (normalizeText(before) === normalizeText(after)) continue;
+      if (!/\d/.test(before) && !/\d/.test(after)) continue;
+
+      changes.push({
+        kind: "limit_changed",
+        location: `${newer.title} › ${newerRow[0].value} › ${newer.columns[newerIndex].value}`,
+        older: { page: older.page, text: before },
+        newer: { page: newer.page, text: after },
+      });
+    }
+  }
+
+  return changes;
+}
+
+// ============================================
+// Clause Diff
+// ============================================
+
+function clauseLocation(clause: Clause): string {
+  return clause.section ? `Clause ${clause.number} (${clause.section})` : `Clause ${clause.number}`;
+}
+
+function diffClauses(older: Clause[], newer: Clause[]): EditionChange[] {
+  const changes: EditionChange[] = [];
+  const matches: Array<[Clause, Clause]> = [];
+  const unmatchedNewer = new Set(newer);
+  const unmatchedOlder: Clause[] = [];
+
+  // Same number, still about the same thing
+  for (const clause of older) {
+    const sameNumber = newer.find(other => other.number === clause.number);
+    if (sameNumber && unmatchedNewer.has(sameNumber) && similarity(clause.text, sameNumber.text) >= SAME_CLAUSE_SIMILARITY) {
+      matches.push([clause, sameNumber]);
+      unmatchedNewer.delete(sameNumber);
+    } else {
+      unmatchedOlder.push(clause);
+    }
+  }
+
+  // Renumbered clauses: best text match among what's left
+  for (const clause of unmatchedOlder) {
+    let best: Clause | null = null;
+    let bestScore = RENUMBERED_CLAUSE_SIMILARITY;
+    for (const candidate of unmatchedNewer) {
+      const score = similarity(clause.text, candidate.text);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      matches.push([clause, best]);
+      unmatchedNewer.delete(best);
+    } else {
+      changes.push({
+        kind: "clause_removed",
+        location: clauseLocation(clause),
+        older: { page: clause.page, text: excerpt(clause.text) },
+        newer: null,
+      });
+    }
+  }
+
+  for (const [before, after] of matches) {
+    if (normalizeText(before.text) === normalizeText(after.text)) continue;
+    changes.push({
+      kind: numbersIn(before.text) !== numbersIn(after.text) ? "limit_changed" : "clause_reworded",
+      location: clauseLocation(after),
+      older: { page: before.page, text: excerpt(before.text) },
+      newer: { page: after.page, text: excerpt(after.text) },
+    });
+  }
+
+  for (const clause of unmatchedNewer) {
+    changes.push({
+      kind: "clause_added",
+      location: clauseLocation(clause),
+      older: null,
+      newer: { page: clause.page, text: excerpt(clause.text) },
+    });
+  }
+
+  return changes;
+}
+
+// ============================================
+// Main Entry Point
+// ============================================
+
+/**
+ * Diff two editions of the same spec.
+ *
+ * @param older - Older edition (from the document mapper)
+ * @param newer - Newer edition
+ */
+export async function diffEditions(older: SpecEdition, newer: SpecEdition): Promise<EditionDiffReport> {
+  const [olderTables, newerTables, olderClauses, newerClauses] = await Promise.all([
+    loadSpecTables([older.documentId]).then(alignTables),
+    loadSpecTables([newer.documentId]).then(alignTables),
+    loadClauses(older.documentId),
+    loadClauses(newer.documentId),
+  ]);
+
+  const changes: EditionChange[] = [];
+
+  for (const [key, table] of newerTables) {
+    const previous = olderTables.get(key);
+    if (previous) {
+      changes.push(...diffTable(previous, table));
+    } else {
+      changes.push({ kind: "table_added", location: table.title, older: null, newer: { page: table.page, text: table.title } });
+    }
+  }
+  for (const [key, table] of olderTables) {
+    if (!newerTables.has(key)) {
+      changes.push({ kind: "table_removed", location: table.title, older: { page: table.page, text: table.title }, newer: null });
+    }
+  }
+
+  changes.push(...diffClauses(olderClauses, newerClauses));
+
+  const summary: EditionDiffReport["summary"] = {};
+  for (const change of changes) {
+    summary[change.kind] = (summary[change.kind] ?? 0) + 1;
+  }
+
+  console.log(
+    `[Edition Diff] ${formatEdition(older)} → ${formatEdition(newer)}: ${changes.length} changes ` +
+    `(${olderTables.size}/${newerTables.size} tables, ${olderClauses.length}/${newerClauses.length} clauses)`
+  );
+
+  return {
+    designation: newer.designation,
+    older: { documentId: older.documentId, filename: older.filename, edition: formatEdition(older) },
+    newer: { documentId: newer.documentId, filename: newer.filename, edition: formatEdition(newer) },
+    summary,
+    changes,
+  };
+}
+
+// ============================================
+// Export
+// ============================================
+
+const KIND_HEADINGS: Record<EditionChangeKind, string> = {
+  limit_changed: "Changed limits",
+  grade_added: "Grades added",
+  grade_removed: "Grades removed",
+  row_added: "Table rows added",
+  row_removed: "Table rows removed",
+  table_added: "Tables added",
+  table_removed: "Tables removed",
+  clause_reworded: "Reworded clauses",
+  clause_added: "Clauses added",
+  clause_removed: "Clauses removed",
+};
+
+function cite(label: string, side: EditionExcerpt | null): string {
+  if (!side) return `${label}: —`;
+  return side.text === null ? `${label} (p. ${side.page}): not present` : `${label} (p. ${side.page}): ${side.text}`;
+}
+
+/**
+ * Format a diff report as Markdown for the compliance team.
+ */
+export function formatEditionDiffMarkdown(report: EditionDiffReport): string {
+  const lines = [
+    `# ${report.older.edition} → ${report.newer.edition}`,
+    "",
+    `- Older: ${report.older.filename}`,
+    `- Newer: ${report.newer.filename}`,
+    "",
+  ];
+
+  if (report.changes.length === 0) {
+    lines.push("No requirement changes detected.");
+    return lines.join("\n") + "\n";
+  }
+
+  for (const kind of Object.keys(KIND_HEADINGS) as EditionChangeKind[]) {
+    const changes = report.changes.filter(change => change.kind === kind);
+    if (changes.length === 0) continue;
+
+    lines.push(`## ${KIND_HEADINGS[kind]} (${changes.length})`, "");
+    for (const change of changes) {
+      lines.push(`- **${change.location}**`);
+      lines.push(`  - ${cite(report.older.edition, change.older)}`);
+      lines.push(`  - ${cite(report.newer.edition, change.newer)}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
@@ -1,20 +1,25 @@
 /**
- * Embedding Generation with Voyage AI
- * ====================================
+ * Embedding Generation
+ * ====================
  *
- * Uses Voyage AI for embeddings - 200M tokens FREE/month with 1000+ RPM
- * (vs Google's restrictive 100 RPM limit)
+ * Embeddings come from a pluggable EmbeddingProvider, chosen with
+ * EMBEDDING_PROVIDER:
+ * - "voyage" (default): Voyage AI voyage-3-lite, 1024 dimensions.
+ *   200M tokens FREE/month with 1000+ RPM (vs Google's 100 RPM limit)
+ * - "local": sentence-transformer run on CPU via transformers.js/ONNX
+ *   (lib/local-embeddings.ts) — no outside API, for air-gapped sites and CI
  *
- * Voyage AI Benefits:
- * - 200M tokens FREE per month
- * - 1000+ requests per minute (vs Google's 100)
- * - High quality embeddings (voyage-3-lite)
- * - 1024 dimensions (efficient storage)
+ * chunks.embedding is vector(1024). Providers with fewer dimensions are
+ * zero-padded to 1024, which leaves cosine similarity unchanged, so one
+ * column and HNSW index serve every provider. Vectors from different models
+ * are NOT comparable: each chunk records its embedding_model, and switching
+ * providers means re-embedding (scripts/reembed-chunks.ts).
  */
 
 import { VoyageAIClient } from "voyageai";
 import { sleep } from "@/lib/utils/sleep";
 import { isRateLimitError } from "@/lib/utils/error-detection";
+import { estimateTokens, recordModelUsage } from "@/lib/usage";
 
 // Lazy-initialized Voyage AI client
 // IMPORTANT: Must use lazy init to ensure env var is read at request time, not module load time
@@ -52,93 +57,56 @@ const EMBEDDING_MODEL = "voyage-3-lite";
 const MAX_RETRIES = 3;
 const BASE_RETRY_DELAY = 1000;
 
-/**
- * Generate embedding for a single text
- *
- * @param text - The text to embed
- * @returns Vector embedding (array of 1024 numbers)
- */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const client = getVoyageClient();
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const result = await client.embed({
-        input: [text],
-        model: EMBEDDING_MODEL,
-      });
-
-      return result.data?.[0]?.embedding || [];
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      if (isRateLimitError(error) && attempt < MAX_RETRIES - 1) {
-        const delay = BASE_RETRY_DELAY * Math.pow(2, attempt);
-        console.warn(
-          `[Embeddings] Rate limited, waiting ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`
-        );
-        await sleep(delay);
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  throw lastError || new Error("Failed to generate embedding after retries");
+/** Dimension of the chunks.embedding column */
+export const STORED_EMBEDDING_DIMENSIONS = 1024;
+
+// ============================================
+// Provider Interface
+// ============================================
+
+export type EmbeddingProviderName = "voyage" | "local";
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  /** Model identifier recorded on each chunk (chunks.embedding_model) */
+  model: string;
+  /** Native vector dimension, before padding to STORED_EMBEDDING_DIMENSIONS */
+  dimensions: number;
+  /** Texts per embed() call */
+  batchSize: number;
+  /** Embed a batch of texts (native dimension) */
+  embed(texts: string[]): Promise<number[][]>;
 }
 
 /**
- * Generate embeddings for multiple texts (batch)
- *
- * Voyage AI supports batching up to 128 texts at once,
- * making document processing MUCH faster than single requests.
- *
- * @param texts - Array of texts to embed
- * @returns Array of vector embeddings
+ * Voyage AI provider. Retries rate-limited requests with exponential backoff.
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const client = getVoyageClient();
-  const BATCH_SIZE = 64; // Voyage supports up to 128, we use 64 for safety
-  const embeddings: number[][] = [];
-  const total = texts.length;
-
-  console.log(`[Embeddings] Starting batch embedding of ${total} chunks...`);
-
-  // Process in batches
-  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-    const batch = texts.slice(i, i + BATCH_SIZE);
+const voyageProvider: EmbeddingProvider = {
+  name: "voyage",
+  model: EMBEDDING_MODEL,
+  dimensions: 1024,
+  batchSize: 64, // Voyage supports up to 128, we use 64 for safety
+  async embed(texts: string[]): Promise<number[][]> {
+    const client = getVoyageClient();
     let lastError: Error | null = null;
-    let success = false;
 
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
         const result = await client.embed({
-          input: batch,
+          input: texts,
           model: EMBEDDING_MODEL,
         });
 
-        const batchEmbeddings = (result.data?.map((d) => d.embedding) || []).filter(
+        return (result.data?.map((d) => d.embedding) || []).filter(
           (e): e is number[] => Array.isArray(e)
         );
-        embeddings.push(...batchEmbeddings);
-        success = true;
-
-        // Progress logging
-        const progress = Math.min(i + BATCH_SIZE, total);
-        console.log(
-          `[Embeddings] Progress: ${progress}/${total} chunks (${Math.round((progress / total) * 100)}%)`
-        );
-
-        break;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
         if (isRateLimitError(error) && attempt < MAX_RETRIES - 1) {
           const delay = BASE_RETRY_DELAY * Math.pow(2, attempt);
           console.warn(
-            `[Embeddings] Rate limited at batch ${Math.floor(i / BATCH_SIZE) + 1}, waiting ${delay}ms`
+            `[Embeddings] Rate limited, waiting ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`
           );
           await sleep(delay);
           continue;
@@ -148,12 +116,97 @@ export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
       }
     }
 
-    if (!success) {
-      throw lastError || new Error(`Failed to embed batch at index ${i}`);
-    }
+    throw lastError || new Error("Failed to generate embedding after retries");
+  },
+};
 
-    // Small delay between batches (Voyage is fast, but be respectful)
-    if (i + BATCH_SIZE < texts.length) {
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider (EMBEDDING_PROVIDER, default "voyage").
+ * Lazy so the env var is read at request time and the local model is only
+ * loaded when selected.
+ */
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider> {
+  if (activeProvider) return activeProvider;
+
+  const name = (process.env.EMBEDDING_PROVIDER || "voyage").toLowerCase();
+  if (name === "voyage") {
+    activeProvider = voyageProvider;
+  } else if (name === "local") {
+    const { createLocalEmbeddingProvider } = await import("./local-embeddings");
+    activeProvider = createLocalEmbeddingProvider();
+  } else {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Use "voyage" or "local".`);
+  }
+
+  console.log(`[Embeddings] Using ${activeProvider.name} provider (${activeProvider.model}, ${activeProvider.dimensions} dims)`);
+  return activeProvider;
+}
+
+/**
+ * Zero-pad a vector to the stored column dimension.
+ * Padding doesn't change cosine similarity between padded vectors.
+ */
+export function toStoredEmbedding(embedding: number[]): number[] {
+  if (embedding.length > STORED_EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Embedding has ${embedding.length} dimensions; chunks.embedding holds at most ${STORED_EMBEDDING_DIMENSIONS}.`
+    );
+  }
+  if (embedding.length === STORED_EMBEDDING_DIMENSIONS) return embedding;
+  return [...embedding, ...new Array(STORED_EMBEDDING_DIMENSIONS - embedding.length).fill(0)];
+}
+
+// ============================================
+// Embedding Generation
+// ============================================
+
+/**
+ * Generate embedding for a single text
+ *
+ * @param text - The text to embed
+ * @returns Vector embedding, padded to 1024 numbers
+ */
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const provider = await getEmbeddingProvider();
+  const [embedding] = await provider.embed([text]);
+  recordModelUsage(`${provider.name}/${provider.model}`, estimateTokens(text));
+  return embedding ? toStoredEmbedding(embedding) : [];
+}
+
+/**
+ * Generate embeddings for multiple texts (batch)
+ *
+ * Texts are sent in provider-sized batches (Voyage: 64 per request),
+ * making document processing MUCH faster than single requests.
+ *
+ * @param texts - Array of texts to embed
+ * @returns Array of vector embeddings, padded to 1024 numbers
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const provider = await getEmbeddingProvider();
+  const BATCH_SIZE = provider.batchSize;
+  const embeddings: number[][] = [];
+  const total = texts.length;
+
+  console.log(`[Embeddings] Starting batch embedding of ${total} chunks...`);
+
+  // Process in batches
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = texts.slice(i, i + BATCH_SIZE);
+    const batchEmbeddings = await provider.embed(batch);
+    recordModelUsage(`${provider.name}/${provider.model}`, estimateTokens(batch.join("")));
+    embeddings.push(...batchEmbeddings.map(toStoredEmbedding));
+
+    // Progress logging
+    const progress = Math.min(i + BATCH_SIZE, total);
+    console.log(
+      `[Embeddings] Progress: ${progress}/${total} chunks (${Math.round((progress / total) * 100)}%)`
+    );
+
+    // Small delay between API batches (Voyage is fast, but be respectful)
+    if (provider.name === "voyage" && i + BATCH_SIZE < texts.length) {
       await sleep(100);
     }
   }
@@ -39,6 +39,9 @@ export const ERROR_CODES = {
   /** Too many requests (rate limited) */
   RATE_LIMITED: 'RATE_LIMITED',
 
+  /** Workspace has used its quota for the current billing period */
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+
   /** Something went wrong on our end */
   INTERNAL_ERROR: 'INTERNAL_ERROR',
 
@@ -65,6 +68,7 @@ const SAFE_ERROR_MESSAGES: Record<ErrorCode, string> = {
   UNAUTHORIZED: 'Authentication is required to access this resource.',
   FORBIDDEN: 'You do not have permission to access this resource.',
   RATE_LIMITED: 'Too many requests. Please wait a moment and try again.',
+  QUOTA_EXCEEDED: 'Your workspace has reached its usage limit for this billing period.',
   INTERNAL_ERROR: 'An unexpected error occurred. Please try again later.',
   SERVICE_UNAVAILABLE: 'Service is temporarily unavailable. Please try again later.',
   TIMEOUT: 'The request took too long. Please try again.',
@@ -79,6 +83,7 @@ const ERROR_STATUS_CODES: Record<ErrorCode, number> = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
   INTERNAL_ERROR: 500,
   SERVICE_UNAVAILABLE: 503,
   TIMEOUT: 504,
@@ -258,6 +263,26 @@ export function createValidationError(message: string): SafeErrorResponse {
   };
 }
 
+/**
+ * Create a quota exceeded error response
+ *
+ * Names the exhausted quota and when it resets, so callers can tell a
+ * plan limit apart from a transient rate limit.
+ *
+ * @param quota - Human-readable quota name (e.g. "queries")
+ * @param limit - The period limit
+ * @param resetsAt - End of the current billing period (ISO timestamp)
+ * @returns Safe error response
+ */
+export function createQuotaExceededError(quota: string, limit: number, resetsAt: string): SafeErrorResponse {
+  console.warn(`[Quota Exceeded]: ${quota} (limit ${limit}, resets ${resetsAt})`);
+
+  return {
+    error: `Your workspace has used all ${limit} ${quota} for this billing period. The quota resets on ${resetsAt.slice(0, 10)}.`,
+    code: 'QUOTA_EXCEEDED',
+  };
+}
+
 /**
  * Create a specific error response for embedding generation failures
  *
@@ -290,6 +315,14 @@ export function createEmbeddingError(error: unknown): SafeErrorResponse {
       };
     }
 
+    // Local (transformers.js) provider: model missing or failed to load
+    if (msg.includes('local embedding model') || msg.includes('embedding_provider')) {
+      return {
+        error: `Local embedding error: ${error.message}`,
+        code: 'SERVICE_UNAVAILABLE',
+      };
+    }
+
     if (msg.includes('api key') || msg.includes('api_key') || msg.includes('invalid key')) {
       return {
         error: `API key error: ${error.message}`,
@@ -10,8 +10,11 @@
  * - Fusion combines strengths of both approaches
  */
 
-import { supabase } from "./supabase";
+import { supabaseAdmin } from "./supabase";
 import { getCachedQueryEmbedding } from "./embedding-cache";
+import { getEmbeddingProvider } from "./embeddings";
+import { currentWorkspaceId } from "./workspace";
+import { isOcrChunk } from "./ocr";
 import {
   preprocessQuery,
   getSearchWeights,
@@ -41,6 +44,16 @@ export interface HybridSearchResult {
   char_offset_start?: number;
   /** Ending character position within the page for citation highlighting */
   char_offset_end?: number;
+  /** Extraction confidence (0-1); OCR'd chunks score lowest (see lib/ocr.ts) */
+  confidence?: number;
+  /** Where to cite a non-PDF chunk ("Section: ...", "Sheet ..., rows ..."); null for PDFs */
+  location?: string | null;
+  /** Clause the chunk falls under, e.g. "7.2" */
+  clause?: string | null;
+  /** Table chunks: table identifier, e.g. "Table 2" */
+  table_ref?: string | null;
+  /** Table chunks: letters of the table footnotes in the chunk */
+  footnote_refs?: string[];
   /** BM25 (keyword) score (0-1) */
   bm25_score: number;
   /** Vector similarity score (0-1) */
@@ -131,6 +144,43 @@ function applyTableBoost(results: HybridSearchResult[]): HybridSearchResult[] {
   return boosted;
 }
 
+// ============================================================================
+// OCR Penalty
+// ============================================================================
+
+/**
+ * Score multiplier for chunks from OCR'd pages: OCR can misread values, so
+ * a text-layer chunk wins when both match about equally well
+ */
+const OCR_SCORE_FACTOR = 0.9;
+
+/**
+ * Lower the combined score of chunks whose text came from OCR
+ */
+function applyOcrPenalty(results: HybridSearchResult[]): HybridSearchResult[] {
+  let penaltyCount = 0;
+
+  const penalized = results.map(result => {
+    if (isOcrChunk(result)) {
+      penaltyCount++;
+      return {
+        ...result,
+        combined_score: result.combined_score * OCR_SCORE_FACTOR,
+      };
+    }
+    return result;
+  });
+
+  if (penaltyCount === 0) {
+    return results;
+  }
+
+  penalized.sort((a, b) => b.combined_score - a.combined_score);
+  console.log(`[Hybrid Search] Applied x${OCR_SCORE_FACTOR} OCR penalty to ${penaltyCount}/${results.length} chunks`);
+
+  return penalized;
+}
+
 // ============================================================================
 // Main Functions
 // ============================================================================
@@ -185,6 +235,7 @@ export async function hybridSearchChunks(
   // Use the expanded semantic query for better element matching
   const searchQuery = processed.semanticQuery;
   const embedding = await getCachedQueryEmbedding(searchQuery);
+  const { model: embeddingModel } = await getEmbeddingProvider();
 
   // Log document filter if applied
   if (documentIds && documentIds.length > 0) {
@@ -199,9 +250,14 @@ export async function hybridSearchChunks(
   // Step 3: Call hybrid search function in Supabase
   // Use expanded query for BM25 text matching (e.g., "nitrogen N" matches both)
   // Pass document filter if provided (for spec-specific queries like "per A790")
-  const { data, error } = await supabase.rpc("hybrid_search_chunks", {
+  // Results are always restricted to the caller's workspace; the search RPCs take
+  // the workspace as a parameter, so only the service role may call them.
+  // Vector scores only count for chunks embedded by the same model as the query
+  const { data, error } = await supabaseAdmin.rpc("hybrid_search_chunks", {
+    filter_workspace_id: currentWorkspaceId(),
     query_text: searchQuery,
     query_embedding: embedding,
+    filter_embedding_model: embeddingModel,
     match_count: matchCount,
     bm25_weight: weights.bm25Weight,
     vector_weight: weights.vectorWeight,
@@ -216,8 +272,9 @@ export async function hybridSearchChunks(
 
   const results = (data || []) as HybridSearchResult[];
 
-  // Apply table content boost (+0.15) to improve table retrieval accuracy
-  const boostedResults = applyTableBoost(results);
+  // Apply table content boost (+0.15) to improve table retrieval accuracy,
+  // then rank OCR'd chunks below equally relevant text-layer chunks
+  const boostedResults = applyOcrPenalty(applyTableBoost(results));
 
   // Log results summary
   const searchTimeMs = Date.now() - startTime;
@@ -293,7 +350,8 @@ export async function bm25OnlySearch(
   query: string,
   matchCount: number = 10
 ): Promise<Omit<HybridSearchResult, "vector_score" | "combined_score">[]> {
-  const { data, error } = await supabase.rpc("bm25_search_chunks", {
+  const { data, error } = await supabaseAdmin.rpc("bm25_search_chunks", {
+    filter_workspace_id: currentWorkspaceId(),
     query_text: query,
     match_count: matchCount,
   });
@@ -356,9 +414,11 @@ export async function isHybridSearchAvailable(): Promise<boolean> {
     // Try calling with empty embedding - will fail if function doesn't exist
     // We use a minimal call that will execute but return no results
     const embedding = new Array(3072).fill(0);
-    const { error } = await supabase.rpc("hybrid_search_chunks", {
+    const { error } = await supabaseAdmin.rpc("hybrid_search_chunks", {
+      filter_workspace_id: null, // Matches no chunks
       query_text: "test",
       query_embedding: embedding,
+      filter_embedding_model: null,
       match_count: 1,
       bm25_weight: 0.3,
       vector_weight: 0.7,
@@ -0,0 +1,341 @@
+/**
+ * Ingestion Jobs
+ *
+ * Checkpoint storage for resumable document processing. Each run of the
+ * pipeline (lib/document-processing.ts) works on a job that records the next
+ * stage and how far the current one got:
+ *
+ *   extract → ocr → chunk → embed → store → tables → done
+ *
+ * - extract: page texts are saved on the job (pages extracted)
+ * - ocr:     scanned pages are OCR'd a few at a time (pages extracted);
+ *            skipped when every page has a text layer
+ * - chunk:   chunks are staged in ingestion_chunks (chunks created)
+ * - embed:   one staged batch at a time gets its embeddings (batches completed)
+ * - store:   staged chunks replace the document's chunks in one transaction
+ * - tables:  structured tables are parsed from the saved page texts
+ *
+ * A request claims the job with a lease before working on it. If it dies
+ * (serverless timeout), the lease expires and the next request resumes from
+ * the last checkpoint. See supabase/migrations/add-ingestion-jobs.sql.
+ *
+ * Jobs and staged chunks are service-role only, so every query here uses
+ * supabaseAdmin; callers pass documents of the current workspace.
+ */
+
+import { supabaseAdmin } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import type { SafeErrorResponse } from "./errors";
+
+// ============================================
+// Types
+// ============================================
+
+export type IngestionStage = "extract" | "ocr" | "chunk" | "embed" | "store" | "tables" | "done";
+
+export type IngestionJobStatus = "running" | "completed" | "failed";
+
+export interface IngestionJob {
+  id: number;
+  document_id: number;
+  status: IngestionJobStatus;
+  stage: IngestionStage;
+  page_texts: string[] | null;
+  /** Non-PDF documents: heading or sheet name of each section (page) */
+  page_labels: (string | null)[] | null;
+  used_ocr: boolean;
+  /** 1-based pages whose text came from OCR */
+  ocr_pages: number[];
+  /** 1-based pages still waiting for OCR */
+  ocr_pending: number[];
+  /** OCR provider that read the scanned pages (lib/ocr.ts) */
+  ocr_provider: string | null;
+  pages_total: number | null;
+  pages_extracted: number;
+  chunks_total: number | null;
+  chunks_embedded: number;
+  embedding_batches_total: number | null;
+  embedding_batches_completed: number;
+  embedding_model: string | null;
+  chunks_stored: number | null;
+  tables_stored: number | null;
+  attempts: number;
+  error: SafeErrorResponse | null;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/** Checkpoint fields a pipeline stage may update */
+export type JobCheckpoint = Partial<Omit<IngestionJob, "id" | "document_id" | "created_at" | "updated_at">>;
+
+/** A job as reported by GET /api/documents/:id/progress */
+export type IngestionProgress = Omit<IngestionJob, "id" | "page_texts" | "page_labels" | "locked_until"> & {
+  job_id: number;
+  /** Overall completion, 0-100 */
+  percent: number;
+};
+
+/** A chunk waiting for its embedding */
+export interface StagedChunk {
+  job_id: number;
+  chunk_index: number;
+  content: string;
+  page_number: number | null;
+  char_offset_start: number | null;
+  char_offset_end: number | null;
+  section_title: string | null;
+  chunk_type: string;
+  has_codes: boolean;
+  parent_section: string | null;
+  /** Extraction confidence (0-1), lower for chunks from OCR'd pages */
+  confidence: number | null;
+  /** Citation location for non-PDF documents, e.g. Sheet "Chemistry", rows 2-14 */
+  location: string | null;
+  /** Clause the chunk falls under, e.g. "7.2" */
+  clause: string | null;
+  /** Table chunks: table identifier and footnote letters, e.g. "Table 2", ["A", "C"] */
+  table_ref: string | null;
+  footnote_refs: string[] | null;
+  embedding?: number[] | null;
+  embedding_model?: string | null;
+}
+
+// Everything except the page texts (and their labels), which can run to megabytes
+const PROGRESS_COLUMNS =
+  "id, document_id, status, stage, used_ocr, ocr_pages, ocr_pending, ocr_provider, pages_total, " +
+  "pages_extracted, chunks_total, chunks_embedded, embedding_batches_total, embedding_batches_completed, " +
+  "embedding_model, chunks_stored, tables_stored, attempts, error, locked_until, created_at, updated_at, completed_at";
+
+// Everything except the embedding
+const STAGED_CHUNK_COLUMNS =
+  "job_id, chunk_index, content, page_number, char_offset_start, char_offset_end, section_title, " +
+  "chunk_type, has_codes, parent_section, confidence, location, clause, table_ref, footnote_refs";
+
+// Inserting a few hundred staged chunks per request keeps payloads small
+const STAGE_INSERT_BATCH_SIZE = 200;
+
+function databaseError(context: string, error: { message: string; code: string }): Error {
+  console.error(`Error ${context}:`, error);
+  return new Error(`Database error: ${error.message} (code: ${error.code})`);
+}
+
+// ============================================
+// Jobs
+// ============================================
+
+/**
+ * The document's most recent job (without page texts), or null if it has
+ * never been processed through a job or isn't in the current workspace.
+ */
+export async function getLatestJob(documentId: number): Promise<IngestionJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .select(`${PROGRESS_COLUMNS}, documents!inner(workspace_id)`)
+    .eq("document_id", documentId)
+    .eq("documents.workspace_id", currentWorkspaceId())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw databaseError("loading ingestion job", error);
+  if (!data) return null;
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { documents, ...job } = data as unknown as IngestionJob & { documents: unknown };
+  return job;
+}
+
+/**
+ * The document's unfinished (running or failed) job, or a new one.
+ *
+ * @param restart - Discard an unfinished job and its staged chunks, starting over
+ */
+export async function openJob(documentId: number, restart = false): Promise<IngestionJob> {
+  const workspaceId = currentWorkspaceId();
+
+  if (restart) {
+    const { error } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .delete()
+      .eq("document_id", documentId)
+      .eq("workspace_id", workspaceId)
+      .neq("status", "completed");
+    if (error) throw databaseError("discarding ingestion job", error);
+  } else {
+    const { data, error } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .select(PROGRESS_COLUMNS)
+      .eq("document_id", documentId)
+      .eq("workspace_id", workspaceId)
+      .neq("status", "completed")
+      .maybeSingle();
+    if (error) throw databaseError("loading ingestion job", error);
+    if (data) return data as unknown as IngestionJob;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .insert({ document_id: documentId, workspace_id: workspaceId })
+    .select(PROGRESS_COLUMNS)
+    .single();
+
+  // 23505: a concurrent request opened one first (one unfinished job per document)
+  if (error?.code === "23505") return openJob(documentId);
+  if (error) throw databaseError("creating ingestion job", error);
+  return data as unknown as IngestionJob;
+}
+
+/**
+ * Take the job for this request: marks it running, counts the attempt and
+ * loads the page texts.
+ *
+ * @param leaseMs - How long other requests keep off the job
+ * @returns The job, or null if another request holds an unexpired lease
+ */
+export async function claimJob(job: IngestionJob, leaseMs: number): Promise<IngestionJob | null> {
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .update({
+      status: "running",
+      error: null,
+      attempts: job.attempts + 1,
+      locked_until: new Date(now.getTime() + leaseMs).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .neq("status", "completed")
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select(`${PROGRESS_COLUMNS}, page_texts, page_labels`)
+    .maybeSingle();
+
+  if (error) throw databaseError("claiming ingestion job", error);
+  return data as unknown as IngestionJob | null;
+}
+
+/**
+ * Save a checkpoint.
+ *
+ * @returns The job with the changes applied
+ */
+export async function saveCheckpoint(job: IngestionJob, changes: JobCheckpoint): Promise<IngestionJob> {
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .update({ ...changes, updated_at: updatedAt })
+    .eq("id", job.id);
+
+  if (error) throw databaseError("saving ingestion checkpoint", error);
+  return { ...job, ...changes, updated_at: updatedAt };
+}
+
+/**
+ * Give up the lease so the next request can resume straight away.
+ */
+export async function releaseJob(job: IngestionJob): Promise<IngestionJob> {
+  return saveCheckpoint(job, { locked_until: null });
+}
+
+/**
+ * Overall completion: extraction 10% (by page when OCR is needed), chunking
+ * 5%, embedding 75% (by batch), publishing chunks 5%, tables 5%.
+ */
+function jobPercent(job: IngestionJob): number {
+  switch (job.stage) {
+    case "extract":
+      return 0;
+    case "ocr":
+      return Math.floor((10 * job.pages_extracted) / (job.pages_total || 1));
+    case "chunk":
+      return 10;
+    case "embed": {
+      const total = job.embedding_batches_total || 1;
+      return 15 + Math.floor((75 * job.embedding_batches_completed) / total);
+    }
+    case "store":
+      return 90;
+    case "tables":
+      return 95;
+    case "done":
+      return 100;
+  }
+}
+
+export function toProgress(job: IngestionJob): IngestionProgress {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id, page_texts, page_labels, locked_until, ...rest } = job;
+  return { job_id: id, ...rest, percent: jobPercent(job) };
+}
+
+// ============================================
+// Staged Chunks
+// ============================================
+
+/**
+ * Replace the job's staged chunks (re-running the chunk stage is safe).
+ */
+export async function stageChunks(job: IngestionJob, chunks: Omit<StagedChunk, "job_id">[]): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin.from("ingestion_chunks").delete().eq("job_id", job.id);
+  if (deleteError) throw databaseError("clearing staged chunks", deleteError);
+
+  for (let i = 0; i < chunks.length; i += STAGE_INSERT_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + STAGE_INSERT_BATCH_SIZE).map((chunk) => ({ ...chunk, job_id: job.id }));
+    const { error } = await supabaseAdmin.from("ingestion_chunks").insert(batch);
+    if (error) throw databaseError("staging chunks", error);
+  }
+}
+
+/**
+ * The next staged chunks without embeddings, in document order.
+ */
+export async function getUnembeddedChunks(job: IngestionJob, limit: number): Promise<StagedChunk[]> {
+  const { data, error } = await supabaseAdmin
+    .from("ingestion_chunks")
+    .select(STAGED_CHUNK_COLUMNS)
+    .eq("job_id", job.id)
+    .is("embedding", null)
+    .order("chunk_index", { ascending: true })
+    .limit(limit);
+
+  if (error) throw databaseError("loading staged chunks", error);
+  return data as unknown as StagedChunk[];
+}
+
+/**
+ * Store a batch of staged chunks with their embeddings.
+ */
+export async function saveEmbeddedChunks(chunks: StagedChunk[]): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("ingestion_chunks")
+    .upsert(chunks, { onConflict: "job_id,chunk_index" });
+
+  if (error) throw databaseError("storing chunk embeddings", error);
+}
+
+/**
+ * Drop the staged embeddings (the embedding model changed mid-job; vectors
+ * from different models can't be mixed).
+ */
+export async function clearStagedEmbeddings(job: IngestionJob): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("ingestion_chunks")
+    .update({ embedding: null, embedding_model: null })
+    .eq("job_id", job.id);
+
+  if (error) throw databaseError("clearing staged embeddings", error);
+}
+
+/**
+ * Replace the document's chunks with the staged ones and advance the job to
+ * the tables stage (one transaction).
+ *
+ * @returns Number of chunks stored
+ */
+export async function publishStagedChunks(job: IngestionJob): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc("publish_ingestion_chunks", { p_job_id: job.id });
+
+  if (error) throw databaseError("publishing staged chunks", error);
+  return data as number;
+}
@@ -0,0 +1,95 @@
+/**
+ * Local Embedding Provider
+ * ========================
+ *
+ * Runs a small sentence-transformer on CPU with transformers.js (ONNX
+ * Runtime), so documents can be indexed and searched without any outside API
+ * — for air-gapped sites and CI. Selected with EMBEDDING_PROVIDER=local.
+ *
+ * Configuration:
+ * - LOCAL_EMBEDDING_MODEL: Hugging Face model id (default Xenova/bge-small-en-v1.5)
+ * - LOCAL_MODEL_DIR: directory with pre-downloaded models; when set, remote
+ *   downloads are disabled (air-gapped installs). Shared with the local
+ *   cross-encoder reranker.
+ *
+ * Output vectors are mean-pooled and L2-normalised; lib/embeddings.ts pads
+ * them to the stored column dimension.
+ */
+
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import type { EmbeddingProvider } from "./embeddings";
+
+const DEFAULT_MODEL = "Xenova/bge-small-en-v1.5";
+
+/** Native dimensions of the supported models */
+const MODEL_DIMENSIONS: Record<string, number> = {
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/all-mpnet-base-v2": 768,
+};
+
+// CPU inference: small batches keep memory flat on large documents
+const LOCAL_BATCH_SIZE = 16;
+
+/**
+ * Create the local provider for LOCAL_EMBEDDING_MODEL.
+ * The model itself is loaded on first use.
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  const model = process.env.LOCAL_EMBEDDING_MODEL || DEFAULT_MODEL;
+  const dimensions = MODEL_DIMENSIONS[model];
+  if (!dimensions) {
+    throw new Error(
+      `Local embedding model "${model}" is not supported. Use one of: ${Object.keys(MODEL_DIMENSIONS).join(", ")}`
+    );
+  }
+
+  let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  return {
+    name: "local",
+    model,
+    dimensions,
+    batchSize: LOCAL_BATCH_SIZE,
+    async embed(texts: string[]): Promise<number[][]> {
+      extractor ??= loadExtractor(model).catch((error) => {
+        extractor = null; // Allow a retry after e.g. a missing model file
+        throw error;
+      });
+
+      const output = await (await extractor)(texts, { pooling: "mean", normalize: true });
+      return output.tolist() as number[][];
+    },
+  };
+}
+
+/**
+ * Import transformers.js with LOCAL_MODEL_DIR applied.
+ * Dynamic so the ONNX runtime is only loaded when a local model is used.
+ */
+export async function loadTransformers() {
+  const transformers = await import("@huggingface/transformers");
+
+  const modelDir = process.env.LOCAL_MODEL_DIR;
+  if (modelDir) {
+    transformers.env.localModelPath = modelDir;
+    transformers.env.allowRemoteModels = false;
+  }
+
+  return transformers;
+}
+
+async function loadExtractor(model: string): Promise<FeatureExtractionPipeline> {
+  const { pipeline } = await loadTransformers();
+
+  console.log(`[Local Embeddings] Loading ${model}...`);
+  try {
+    const extractor = await pipeline("feature-extraction", model, { dtype: "fp32" });
+    console.log(`[Local Embeddings] ${model} ready`);
+    return extractor;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Local embedding model ${model} failed to load: ${message}`);
+  }
+}
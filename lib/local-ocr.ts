@@ -0,0 +1,101 @@
+/**
+ * Local OCR Provider
+ * ==================
+ *
+ * Reads scanned pages with Tesseract (tesseract.js, WebAssembly) on the
+ * server, so documents never leave the network — for export-controlled
+ * specs and air-gapped sites. Pages are rasterised with pdf.js (unpdf) onto
+ * @napi-rs/canvas, then recognised one at a time. Selected per workspace
+ * (workspaces.settings.ocr_provider = "tesseract") or with
+ * OCR_PROVIDER=tesseract.
+ *
+ * Configuration:
+ * - TESSERACT_LANG: language(s) to recognise, e.g. "eng" or "eng+deu"
+ *   (default eng)
+ * - TESSERACT_LANG_DIR: directory with pre-downloaded <lang>.traineddata.gz
+ *   files. Without it, tesseract.js downloads them from the jsDelivr CDN on
+ *   first use — set it for air-gapped installs.
+ */
+
+import { tmpdir } from "node:os";
+import type { Worker } from "tesseract.js";
+import { getDocumentProxy, renderPageAsImage } from "unpdf";
+import { estimateTokens, recordModelUsage } from "./usage";
+import { PAGE_BREAK, type OcrProvider } from "./ocr";
+
+const DEFAULT_LANG = "eng";
+
+// pdf.js renders at 72 DPI at scale 1; Tesseract reads best at 200-300 DPI
+const RENDER_SCALE = 3;
+
+// CPU recognition takes a few seconds a page
+const TESSERACT_PAGES_PER_CALL = 3;
+
+/**
+ * Create the Tesseract provider for TESSERACT_LANG.
+ * The worker (and language data) is loaded on first use.
+ */
+export function createTesseractOcrProvider(): OcrProvider {
+  const lang = process.env.TESSERACT_LANG || DEFAULT_LANG;
+
+  let worker: Promise<Worker> | null = null;
+
+  return {
+    name: "tesseract",
+    model: lang,
+    pagesPerCall: TESSERACT_PAGES_PER_CALL,
+    async extractText(pdfBuffer: ArrayBuffer, pageNumbers?: number[]): Promise<string> {
+      worker ??= loadWorker(lang).catch((error) => {
+        worker = null; // Allow a retry after e.g. missing language data
+        throw error;
+      });
+      const tesseract = await worker;
+
+      // pdf.js takes ownership of the bytes it is given, so pass a copy
+      const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer.slice(0)));
+      try {
+        const pages = pageNumbers ?? Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+        const texts: string[] = [];
+
+        for (const pageNumber of pages) {
+          if (pageNumber < 1 || pageNumber > pdf.numPages) {
+            texts.push("");
+            continue;
+          }
+          const image = await renderPageAsImage(pdf, pageNumber, {
+            canvasImport: () => import("@napi-rs/canvas"),
+            scale: RENDER_SCALE,
+          });
+          const { data } = await tesseract.recognize(Buffer.from(image));
+          texts.push(data.text.trim());
+        }
+
+        const text = texts.join(`\n${PAGE_BREAK}\n`);
+        recordModelUsage(`tesseract/${lang}`, 0, estimateTokens(text));
+        return text;
+      } finally {
+        await pdf.destroy();
+      }
+    },
+  };
+}
+
+async function loadWorker(lang: string): Promise<Worker> {
+  // Dynamic so the WebAssembly core is only loaded when Tesseract is used
+  const { createWorker } = await import("tesseract.js");
+  const langPath = process.env.TESSERACT_LANG_DIR;
+
+  console.log(`[Local OCR] Loading Tesseract (${lang})...`);
+  try {
+    const worker = await createWorker(lang, undefined, {
+      ...(langPath && { langPath }),
+      // Unpacked language data is cached here; the app directory may be read-only
+      cachePath: tmpdir(),
+    });
+    console.log(`[Local OCR] Tesseract (${lang}) ready`);
+    return worker;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Tesseract (${lang}) failed to load: ${message}`);
+  }
+}
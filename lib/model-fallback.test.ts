@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ModelFallbackClient, withoutThinkTags } from './model-fallback';
+
+vi.mock('@/lib/usage', () => ({
+  estimateTokens: (text: string) => Math.ceil(text.length / 4),
+  recordModelUsage: vi.fn(),
+}));
+
+vi.mock('@/lib/langfuse', () => ({
+  getLangfuse: () => null,
+}));
+
+const PROVIDER_KEYS = ['ANTHROPIC_API_KEY', 'GROQ_API_KEY', 'CEREBRAS_API_KEY', 'SAMBANOVA_API_KEY', 'OPENROUTER_API_KEY'];
+
+/** A streaming response whose body arrives in small pieces, splitting lines and events */
+function sseResponse(events: unknown[], pieceLength = 7): Response {
+  const body = events.map((event) => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('');
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < body.length; i += pieceLength) {
+          controller.enqueue(encoder.encode(body.slice(i, i + pieceLength)));
+        }
+        controller.close();
+      },
+    }),
+    { status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+  );
+}
+
+function anthropicDelta(text: string) {
+  return { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } };
+}
+
+function openAIDelta(content: string) {
+  return { choices: [{ index: 0, delta: { content } }] };
+}
+
+const OVERLOADED = { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } };
+
+/** Run a streaming generation, collecting the deltas it forwards */
+async function streamAnswer(client: ModelFallbackClient) {
+  const tokens: string[] = [];
+  const result = await client.generateContentStream('What is the yield strength of S32205?', (delta) => tokens.push(delta));
+  return { ...result, tokens };
+}
+
+describe('Model Fallback', () => {
+  describe('withoutThinkTags', () => {
+    it('should drop think blocks split across deltas', () => {
+      const tokens: string[] = [];
+      const onToken = withoutThinkTags((delta) => tokens.push(delta));
+
+      for (const delta of ['<thi', 'nk>Check Table 3.</th', 'ink>\n\nThe minimum yield', ' is 65 ksi <', 'b>[1]</b>']) {
+        onToken(delta);
+      }
+
+      expect(tokens.join('')).toBe('The minimum yield is 65 ksi <b>[1]</b>');
+    });
+
+    it('should hold back a fragment until it cannot open a tag', () => {
+      const tokens: string[] = [];
+      const onToken = withoutThinkTags((delta) => tokens.push(delta));
+
+      onToken('65 ksi <t');
+      expect(tokens).toEqual(['65 ksi ']);
+
+      onToken('able>');
+      expect(tokens).toEqual(['65 ksi ', '<table>']);
+    });
+  });
+
+  describe('generateContentStream', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      for (const key of PROVIDER_KEYS) vi.stubEnv(key, '');
+      fetchMock.mockReset();
+      vi.stubGlobal('fetch', fetchMock);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should forward Anthropic text deltas and strip think blocks from the result', async () => {
+      vi.stubEnv('ANTHROPIC_API_KEY', 'test');
+      fetchMock.mockResolvedValueOnce(
+        sseResponse([
+          { type: 'message_start', message: { id: 'msg_1' } },
+          anthropicDelta('<think>Table 3</think>'),
+          anthropicDelta('The minimum yield strength is '),
+          { type: 'ping' },
+          anthropicDelta('65 ksi [1].'),
+          { type: 'message_stop' },
+        ])
+      );
+
+      const { text, tokens, modelUsed } = await streamAnswer(new ModelFallbackClient({ logRetries: false }));
+
+      expect(tokens.join('')).toBe('The minimum yield strength is 65 ksi [1].');
+      expect(text).toBe('The minimum yield strength is 65 ksi [1].');
+      expect(modelUsed).toBe('Anthropic/claude-sonnet-4-5-20250929');
+    });
+
+    it('should forward OpenAI-compatible deltas until [DONE]', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'test');
+      fetchMock.mockResolvedValueOnce(sseResponse([openAIDelta('65 ksi'), { choices: [{ delta: {} }] }, openAIDelta(' [1].'), '[DONE]']));
+
+      const { text, tokens } = await streamAnswer(new ModelFallbackClient({ logRetries: false }));
+
+      expect(tokens.join('')).toBe('65 ksi [1].');
+      expect(text).toBe('65 ksi [1].');
+    });
+
+    it('should fall back when a provider reports an error before the first token', async () => {
+      vi.stubEnv('ANTHROPIC_API_KEY', 'test');
+      fetchMock
+        .mockResolvedValueOnce(sseResponse([{ type: 'message_start', message: { id: 'msg_1' } }, OVERLOADED]))
+        .mockResolvedValueOnce(sseResponse([anthropicDelta('65 ksi [1].')]));
+
+      const { text, modelUsed } = await streamAnswer(new ModelFallbackClient({ logRetries: false }));
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(text).toBe('65 ksi [1].');
+      expect(modelUsed).toBe('Anthropic/claude-haiku-4-5-20251001');
+    });
+
+    it('should throw an Anthropic error event after the first token instead of falling back', async () => {
+      vi.stubEnv('ANTHROPIC_API_KEY', 'test');
+      fetchMock.mockResolvedValue(sseResponse([anthropicDelta('The minimum yield'), OVERLOADED]));
+      const tokens: string[] = [];
+
+      await expect(
+        new ModelFallbackClient({ logRetries: false }).generateContentStream('S32205 yield', (delta) => tokens.push(delta))
+      ).rejects.toThrow('overloaded_error: Overloaded');
+      expect(fetchMock).toHaveBeenCalledOnce();
+      expect(tokens).toEqual(['The minimum yield']);
+    });
+
+    it('should throw an OpenAI-compatible error object after the first token', async () => {
+      vi.stubEnv('OPENROUTER_API_KEY', 'test');
+      fetchMock.mockResolvedValue(
+        sseResponse([openAIDelta('65 ksi'), { error: { message: 'Upstream provider returned an error', code: 502 } }])
+      );
+
+      await expect(streamAnswer(new ModelFallbackClient({ logRetries: false }))).rejects.toThrow(
+        'Stream error 502: Upstream provider returned an error'
+      );
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+  });
+});
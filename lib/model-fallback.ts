@@ -18,6 +18,7 @@ import Groq from "groq-sdk";
 import { sleep } from "@/lib/utils/sleep";
 import { isRateLimitError } from "@/lib/utils/error-detection";
 import { getLangfuse } from "@/lib/langfuse";
+import { estimateTokens, recordModelUsage } from "@/lib/usage";
 
 // ============================================
 // Provider Configuration
@@ -145,6 +146,150 @@ async function callOpenAICompatible(
   return data.choices[0]?.message?.content || "";
 }
 
+/**
+ * Callback invoked with each text delta while a provider streams its answer.
+ */
+export type TokenHandler = (delta: string) => void;
+
+/** Length of the longest suffix of text that could still grow into tag */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length).toLowerCase())) return length;
+  }
+  return 0;
+}
+
+/**
+ * Wrap a token handler so <think>...</think> blocks from reasoning models never
+ * reach it, matching the stripping applied to the final text. Tags may be split
+ * across deltas, so a trailing fragment that could open or close a tag is held
+ * back until the next delta decides it. Leading whitespace is dropped, as the
+ * final text is trimmed.
+ */
+export function withoutThinkTags(onToken: TokenHandler): TokenHandler {
+  let pending = "";
+  let thinking = false;
+  let started = false;
+
+  return (delta) => {
+    pending += delta;
+    let visible = "";
+
+    while (pending) {
+      const tag = thinking ? "</think>" : "<think>";
+      const index = pending.toLowerCase().indexOf(tag);
+      if (index !== -1) {
+        if (!thinking) visible += pending.slice(0, index);
+        pending = pending.slice(index + tag.length);
+        thinking = !thinking;
+        continue;
+      }
+      const held = partialTagLength(pending, tag);
+      if (!thinking) visible += pending.slice(0, pending.length - held);
+      pending = pending.slice(pending.length - held);
+      break;
+    }
+
+    if (!started) {
+      visible = visible.trimStart();
+      started = visible.length > 0;
+    }
+    if (visible) onToken(visible);
+  };
+}
+
+/**
+ * Read the `data:` payloads of a server-sent event stream, one at a time.
+ * Used for provider streaming APIs (Anthropic messages, OpenAI-compatible chat).
+ * If onData throws (the provider reported an error mid-stream), the stream is
+ * cancelled and the error rethrown.
+ */
+async function readEventStreamData(
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("Streaming response has no body");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.startsWith("data:")) {
+          onData(line.slice(5).trim());
+        }
+      }
+    }
+
+    if (buffer.startsWith("data:")) {
+      onData(buffer.slice(5).trim());
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+}
+
+async function streamOpenAICompatible(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  onToken: TokenHandler,
+  extraHeaders?: Record<string, string>
+): Promise<string> {
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${apiKey}`,
+      ...extraHeaders,
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature: 0.3,
+      max_tokens: 2048,
+      stream: true,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${response.status}: ${errorText}`);
+  }
+
+  let text = "";
+  await readEventStreamData(response, (data) => {
+    if (!data || data === "[DONE]") return;
+    const parsed = JSON.parse(data) as {
+      choices?: Array<{ delta?: { content?: string } }>;
+      error?: { message?: string; code?: string | number };
+    };
+    // Errors after the 200 (e.g. the upstream model failed) arrive as an event
+    if (parsed.error) {
+      throw new Error(`Stream error${parsed.error.code ? ` ${parsed.error.code}` : ""}: ${parsed.error.message ?? "unknown"}`);
+    }
+    const delta = parsed.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+  });
+  return text;
+}
+
 // ============================================
 // Prompt Truncation
 // ============================================
@@ -230,9 +375,14 @@ export class ModelFallbackClient {
     provider: ProviderConfig,
     model: string,
     prompt: string,
+    onToken?: TokenHandler,
   ): Promise<string> {
     const apiKey = process.env[provider.envKey]!;
 
+    if (onToken) {
+      return this.streamProvider(provider, model, prompt, apiKey, onToken);
+    }
+
     if (provider.name === "Groq" && this.groq) {
       const completion = await this.groq.chat.completions.create({
         model,
@@ -274,11 +424,120 @@ export class ModelFallbackClient {
     }
   }
 
+  /**
+   * Streaming counterpart of tryProvider — forwards each text delta to onToken
+   * and resolves with the full text once the provider finishes.
+   */
+  private async streamProvider(
+    provider: ProviderConfig,
+    model: string,
+    prompt: string,
+    apiKey: string,
+    onToken: TokenHandler,
+  ): Promise<string> {
+    if (provider.name === "Groq" && this.groq) {
+      const stream = await this.groq.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.3,
+        max_tokens: 2048,
+        stream: true,
+      });
+      let text = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+      }
+      return text;
+    } else if (provider.name === "Anthropic") {
+      const response = await fetch(`${provider.baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 2048,
+          temperature: 0.3,
+          stream: true,
+          messages: [{ role: "user", content: prompt }],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      let text = "";
+      await readEventStreamData(response, (data) => {
+        if (!data) return;
+        const event = JSON.parse(data) as {
+          type: string;
+          delta?: { type: string; text?: string };
+          error?: { type: string; message: string };
+        };
+        // e.g. overloaded_error once the stream has started
+        if (event.type === "error") {
+          throw new Error(`${event.error?.type ?? "error"}: ${event.error?.message ?? "unknown"}`);
+        }
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+          text += event.delta.text;
+          onToken(event.delta.text);
+        }
+      });
+      return text;
+    } else {
+      return await streamOpenAICompatible(
+        provider.baseUrl,
+        apiKey,
+        model,
+        [{ role: "user", content: prompt }],
+        onToken,
+        provider.headers
+      );
+    }
+  }
+
   async generateContent(
     prompt: string,
     _preferredModel?: string
+  ): Promise<{ text: string; modelUsed: string }> {
+    return this.generateWithFallback(prompt);
+  }
+
+  /**
+   * Generate a response while streaming text deltas to onToken.
+   *
+   * Falls back across providers like generateContent, but only until the
+   * first token has been emitted — after that a failure is thrown, since
+   * switching providers mid-answer would splice two different responses.
+   */
+  async generateContentStream(
+    prompt: string,
+    onToken: TokenHandler
+  ): Promise<{ text: string; modelUsed: string }> {
+    return this.generateWithFallback(prompt, onToken);
+  }
+
+  private async generateWithFallback(
+    prompt: string,
+    onToken?: TokenHandler
   ): Promise<{ text: string; modelUsed: string }> {
     let lastError: Error | null = null;
+    let tokensEmitted = false;
+    // A fresh filter per attempt, so a provider that failed mid-<think> can't leave it open
+    const streamHandler = (): TokenHandler | undefined =>
+      onToken
+        ? withoutThinkTags((delta) => {
+            tokensEmitted = true;
+            onToken(delta);
+          })
+        : undefined;
     const estimatedTokens = Math.ceil(prompt.length / 4);
     let skippedDueToSize = 0;
 
@@ -301,7 +560,7 @@ export class ModelFallbackClient {
             console.log(`[ModelFallback] Trying ${provider.name}/${model}`);
           }
 
-          const text = await this.tryProvider(provider, model, prompt);
+          const text = await this.tryProvider(provider, model, prompt, streamHandler());
 
           if (this.logRetries && provider !== this.availableProviders[0]) {
             console.log(`[ModelFallback] Success with ${provider.name}/${model}`);
@@ -321,6 +580,7 @@ export class ModelFallbackClient {
             });
           } catch { /* tracing should never block generation */ }
 
+          recordModelUsage(`${provider.name}/${model}`, estimatedTokens, estimateTokens(text));
           return { text: cleanText, modelUsed: `${provider.name}/${model}` };
         } catch (error) {
           lastError = error instanceof Error ? error : new Error(String(error));
@@ -329,6 +589,9 @@ export class ModelFallbackClient {
             console.warn(`[ModelFallback] ${provider.name}/${model} failed: ${lastError.message.slice(0, 100)}`);
           }
 
+          // Partial answer already streamed — a fallback would splice responses
+          if (tokensEmitted) throw lastError;
+
           // If rate limited, use progressive backoff then try next
           if (isRateLimitError(error)) {
             const providerIdx = this.availableProviders.indexOf(provider);
@@ -368,18 +631,20 @@ export class ModelFallbackClient {
               if (this.logRetries) {
                 console.log(`[ModelFallback] Trying ${provider.name}/${model} (truncated)`);
               }
-              const text = await this.tryProvider(provider, model, truncatedPrompt);
+              const text = await this.tryProvider(provider, model, truncatedPrompt, streamHandler());
               const cleanText = text.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
 
               if (this.logRetries) {
                 console.log(`[ModelFallback] Success with ${provider.name}/${model} (truncated)`);
               }
+              recordModelUsage(`${provider.name}/${model}`, estimateTokens(truncatedPrompt), estimateTokens(text));
               return { text: cleanText, modelUsed: `${provider.name}/${model}` };
             } catch (error) {
               lastError = error instanceof Error ? error : new Error(String(error));
               if (this.logRetries) {
                 console.warn(`[ModelFallback] ${provider.name}/${model} (truncated) failed: ${lastError.message.slice(0, 100)}`);
               }
+              if (tokensEmitted) throw lastError;
               if (isRateLimitError(error)) {
                 await sleep(500);
                 continue;
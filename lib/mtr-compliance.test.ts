@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkMtrCompliance, formatComplianceCsv, parseMtrText } from './mtr-compliance';
+import { hybridSearchChunks } from './hybrid-search';
+import { getDocumentById } from './vectorstore';
+import { A790_CHEMISTRY, A790_TENSILE } from '../tests/helpers/spec-fixtures';
+
+vi.mock('./document-mapper', () => ({
+  resolveSpecsToDocuments: vi.fn().mockResolvedValue([1]),
+}));
+
+vi.mock('./hybrid-search', () => ({
+  hybridSearchChunks: vi.fn(),
+}));
+
+vi.mock('./vectorstore', () => ({
+  getDocumentById: vi.fn().mockResolvedValue({ id: 1, filename: 'ASTM A790.pdf' }),
+}));
+
+function mockSpecChunks(...contents: string[]) {
+  vi.mocked(hybridSearchChunks).mockResolvedValue(
+    contents.map((content, index) => ({ id: index + 1, document_id: 1, content, page_number: 3 + index })) as never
+  );
+}
+
+describe('MTR Compliance', () => {
+  beforeEach(() => {
+    vi.mocked(hybridSearchChunks).mockReset();
+  });
+
+  describe('parseMtrText', () => {
+    it('should read the heat number after its label', () => {
+      expect(parseMtrText('Heat No. 7K1234').heatNumber).toBe('7K1234');
+      expect(parseMtrText('Heat Number: 7K1234').heatNumber).toBe('7K1234');
+      expect(parseMtrText('Heat # 7K1234').heatNumber).toBe('7K1234');
+    });
+
+    it('should not read a heat treatment line as the heat number', () => {
+      const text = 'MILL TEST REPORT\nHeat Treatment: Solution annealed 1900F\nHeat No. 7K1234';
+
+      expect(parseMtrText(text).heatNumber).toBe('7K1234');
+    });
+
+    it('should accept an unlabeled heat value only if it has a digit', () => {
+      expect(parseMtrText('Heat: 7K1234').heatNumber).toBe('7K1234');
+      expect(parseMtrText('Heat Normalized\nYield 70 ksi').heatNumber).toBeUndefined();
+    });
+
+    it('should read chemistry from an element header row', () => {
+      const text = 'C Mn Cr Ni Mo N\n7K1234 0.018 1.45 22.4 5.6 3.1 0.17';
+
+      expect(parseMtrText(text).chemistry).toEqual({ C: 0.018, Mn: 1.45, Cr: 22.4, Ni: 5.6, Mo: 3.1, N: 0.17 });
+    });
+
+    it('should read mechanical results with their units', () => {
+      const results = parseMtrText('Yield Strength 62 ksi\nTensile Strength 690 MPa\nElongation 32%');
+
+      expect(results.mechanical).toEqual({
+        yieldStrength: { value: 62, unit: 'ksi' },
+        tensileStrength: { value: 690, unit: 'MPa' },
+        elongation: { value: 32, unit: '%' },
+      });
+    });
+  });
+
+  describe('checkMtrCompliance', () => {
+    it('should fail a yield below the dual-unit minimum of an A790-style table', async () => {
+      mockSpecChunks(A790_CHEMISTRY, A790_TENSILE);
+
+      const report = await checkMtrCompliance(
+        { chemistry: { C: 0.02, Cr: 22.4 }, mechanical: { yieldStrength: { value: 62, unit: 'ksi' } } },
+        'A790',
+        'S32205'
+      );
+
+      const yieldCheck = report!.checks.find((check) => check.parameter === 'yieldStrength');
+      expect(yieldCheck).toMatchObject({
+        limit: { min: 65, unit: 'ksi', text: '65 ksi [450 MPa]' },
+        status: 'fail',
+        source: { document: 'ASTM A790.pdf', page: 4 },
+      });
+      expect(report!.overall).toBe('fail');
+    });
+
+    it('should compare MPa results against ksi limits', async () => {
+      mockSpecChunks(A790_TENSILE);
+
+      const report = await checkMtrCompliance(
+        { chemistry: {}, mechanical: { yieldStrength: { value: 427, unit: 'MPa' }, tensileStrength: { value: 700, unit: 'MPa' } } },
+        'A790',
+        'S32205'
+      );
+
+      const status = Object.fromEntries(report!.checks.map((check) => [check.parameter, check.status]));
+      expect(status.yieldStrength).toBe('fail');
+      expect(status.tensileStrength).toBe('pass');
+    });
+
+    it('should judge chemistry ranges and maximums', async () => {
+      mockSpecChunks(A790_CHEMISTRY);
+
+      const report = await checkMtrCompliance(
+        { chemistry: { C: 0.035, Cr: 22.4 }, mechanical: {} },
+        'A790',
+        'S32205'
+      );
+
+      const status = Object.fromEntries(report!.checks.map((check) => [check.parameter, check.status]));
+      expect(status).toMatchObject({ C: 'fail', Cr: 'pass', Ni: 'not_reported' });
+    });
+
+    it('should report no_limit rather than assume the unit of a bare strength', async () => {
+      mockSpecChunks(`TABLE 3 Tensile Requirements
+UNS Designation | Tensile Strength, min | Yield Strength, min
+S32205 | 95 [655] | 65 [450]`);
+
+      const report = await checkMtrCompliance(
+        { chemistry: {}, mechanical: { yieldStrength: { value: 62, unit: 'ksi' } } },
+        'A790',
+        'S32205'
+      );
+
+      expect(report!.checks).toEqual([
+        expect.objectContaining({ parameter: 'yieldStrength', limit: null, status: 'no_limit' }),
+      ]);
+      expect(report!.overall).toBe('incomplete');
+    });
+  });
+
+  describe('formatComplianceCsv', () => {
+    it('should write one row per check and quote fields with commas', async () => {
+      mockSpecChunks(A790_TENSILE);
+      vi.mocked(getDocumentById).mockResolvedValueOnce({ id: 1, filename: 'ASTM A790, Pipe.pdf' } as never);
+      const report = await checkMtrCompliance(
+        { heatNumber: '7K1234', chemistry: {}, mechanical: { elongation: 30 } },
+        'A790',
+        'S32205'
+      );
+
+      const [header, ...rows] = formatComplianceCsv(report!).trim().split('\n');
+      expect(header).toBe('Spec,Grade,Heat,Category,Parameter,Measured,Unit,Min,Max,Limit (as printed),Status,Source Document,Source Page');
+      expect(rows).toHaveLength(report!.checks.length);
+      expect(rows).toContain('A790,S32205,7K1234,mechanical,Elongation,30,%,25,,25%,pass,"ASTM A790, Pipe.pdf",3');
+    });
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * MTR Compliance Checking
+ *
+ * Checks a Mill Test Report (heat chemistry and mechanical test results)
+ * against a target specification and grade, e.g. A790 S32205, and returns a
+ * per-element / per-property pass/fail table.
+ *
+ * Every limit is read from the indexed specification itself — the spec is
+ * resolved to documents via the document mapper, chemical and tensile chunks
+ * are retrieved with hybrid search, and each chunk is parsed on its own so
+ * each limit keeps the document and page it came from. Nothing is judged
+ * against a limit that wasn't found: those rows are reported as "no_limit".
+ *
+ * Limit conventions follow ASTM tables: a single chemistry value is a
+ * maximum, a range is min–max; yield, tensile and elongation are minimums,
+ * hardness is a maximum.
+ */
+
+import { extractText } from "unpdf";
+import { resolveSpecsToDocuments } from "./document-mapper";
+import { hybridSearchChunks } from "./hybrid-search";
+import { extractStructuredData, type MaterialSpecification } from "./validation";
+import { extractNumericalValues } from "./structured-output";
+import { getDocumentById } from "./vectorstore";
+
+// ============================================
+// Types
+// ============================================
+
+type MechanicalField = keyof MaterialSpecification["mechanicalProperties"];
+
+/** A measured value; bare numbers use the field's default unit */
+export type MeasuredValue = number | { value: number; unit: string };
+
+export interface MtrResults {
+  heatNumber?: string;
+  /** Element symbol → measured wt %, e.g. { C: 0.018, Cr: 22.4 } */
+  chemistry: Record<string, number>;
+  /** Strengths default to MPa, elongation to %, hardness to HBW */
+  mechanical: Partial<Record<MechanicalField, MeasuredValue>>;
+}
+
+export interface SpecLimit {
+  min?: number;
+  max?: number;
+  unit: string;
+  /** Limit as printed in the spec table, e.g. "22.0–23.0" or "65 ksi [450 MPa]" */
+  text: string;
+}
+
+export interface ComplianceCheck {
+  category: "chemistry" | "mechanical";
+  /** Element symbol or mechanical field name */
+  parameter: string;
+  label: string;
+  measured: { value: number; unit: string } | null;
+  limit: SpecLimit | null;
+  /**
+   * pass / fail against the limit; no_limit when the spec value wasn't found
+   * (or can't be compared, e.g. HRC vs HBW); not_reported when the spec
+   * limits an element the MTR doesn't report
+   */
+  status: "pass" | "fail" | "no_limit" | "not_reported";
+  source: { document: string; page: number } | null;
+}
+
+export interface MtrComplianceReport {
+  spec: string;
+  grade: string;
+  heatNumber?: string;
+  /** fail if any check fails; incomplete if any check couldn't be judged */
+  overall: "pass" | "fail" | "incomplete";
+  checks: ComplianceCheck[];
+}
+
+interface SourcedLimit {
+  limit: SpecLimit;
+  source: { document: string; page: number };
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/** 1 ksi = 6.894757 MPa */
+const KSI_TO_MPA = 6.894757;
+
+/** Chunks retrieved per query (chemical, then mechanical) */
+const LIMIT_SEARCH_COUNT = 8;
+
+const MECHANICAL_FIELDS: Array<{
+  field: MechanicalField;
+  label: string;
+  /** Unit of a measured value given as a bare number */
+  defaultUnit: string;
+  /** Unit of a spec limit printed without one; strengths (ksi or MPa) have none */
+  limitUnit: string | null;
+  /** Limit direction for a single printed value */
+  bound: "min" | "max";
+  /** MTR label, used when parsing PDF reports */
+  pattern: RegExp;
+}> = [
+  { field: "yieldStrength", label: "Yield strength", defaultUnit: "MPa", limitUnit: null, bound: "min", pattern: /\b(?:yield|YS|0\.2%\s*proof)\b/i },
+  { field: "tensileStrength", label: "Tensile strength", defaultUnit: "MPa", limitUnit: null, bound: "min", pattern: /\b(?:tensile|UTS|TS)\b/i },
+  { field: "elongation", label: "Elongation", defaultUnit: "%", limitUnit: "%", bound: "min", pattern: /\b(?:elongation|elong\.?|EL)\b/i },
+  { field: "hardness", label: "Hardness", defaultUnit: "HBW", limitUnit: null, bound: "max", pattern: /\b(?:hardness|HRC|HBW?|HV)\b/i },
+];
+
+const ELEMENT_NAMES: Record<string, string> = {
+  C: "Carbon", Mn: "Manganese", P: "Phosphorus", S: "Sulfur", Si: "Silicon",
+  Cr: "Chromium", Ni: "Nickel", Mo: "Molybdenum", N: "Nitrogen", Cu: "Copper",
+  W: "Tungsten", Ti: "Titanium", Cb: "Columbium", Nb: "Niobium", Co: "Cobalt",
+  V: "Vanadium",
+};
+
+// ============================================
+// Units & Limits
+// ============================================
+
+function normalizeUnit(unit: string): string {
+  const upper = unit.toUpperCase();
+  if (upper === "KSI") return "ksi";
+  if (upper === "MPA") return "MPa";
+  if (upper === "HB") return "HBW";
+  return unit === "%" ? "%" : upper;
+}
+
+/** Convert between ksi and MPa; null when the units aren't comparable */
+function convert(value: number, from: string, to: string): number | null {
+  if (from === to) return value;
+  if (from === "ksi" && to === "MPa") return value * KSI_TO_MPA;
+  if (from === "MPa" && to === "ksi") return value / KSI_TO_MPA;
+  return null;
+}
+
+function toMeasured(value: MeasuredValue, defaultUnit: string): { value: number; unit: string } {
+  return typeof value === "number"
+    ? { value, unit: defaultUnit }
+    : { value: value.value, unit: normalizeUnit(value.unit) };
+}
+
+/** "0.030" → max; "22.0–23.0" → range; "0.030 min" → min */
+function parseChemistryLimit(text: string): SpecLimit | null {
+  const numbers = text.match(/\d+(?:\.\d+)?/g)?.map(Number) ?? [];
+  if (numbers.length === 0) return null;
+
+  if (numbers.length >= 2 && /[-–]/.test(text)) {
+    return { min: numbers[0], max: numbers[1], unit: "%", text };
+  }
+  return /\bmin/i.test(text)
+    ? { min: numbers[0], unit: "%", text }
+    : { max: numbers[0], unit: "%", text };
+}
+
+/**
+ * Parse a mechanical limit such as "65 ksi [450 MPa]" or "25%".
+ * The first value with a unit is used; ranges become min–max.
+ *
+ * A value printed without a unit only gets `limitUnit`: a bare strength, or
+ * a dual pair with no units ("65 [450]"), could be ksi or MPa, and a guessed
+ * unit can pass a heat that fails. Those give no limit (reported no_limit).
+ */
+function parseMechanicalLimit(text: string, bound: "min" | "max", limitUnit: string | null): SpecLimit | null {
+  if (/\d\s*\[\s*\d/.test(text)) return null;
+
+  const range = text.match(/(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)\s*(ksi|MPa|HRC|HBW?|HV|%)?/i);
+  if (range) {
+    const unit = range[3] ? normalizeUnit(range[3]) : limitUnit;
+    return unit ? { min: Number(range[1]), max: Number(range[2]), unit, text } : null;
+  }
+
+  const [first] = extractNumericalValues(text);
+  const bare = text.match(/\d+(?:\.\d+)?/);
+  const value = first?.value ?? (bare ? Number(bare[0]) : null);
+  const unit = first ? normalizeUnit(first.unit) : limitUnit;
+  if (value === null || !unit) return null;
+
+  return bound === "min" ? { min: value, unit, text } : { max: value, unit, text };
+}
+
+function judge(measured: { value: number; unit: string }, limit: SpecLimit): ComplianceCheck["status"] {
+  const value = convert(measured.value, measured.unit, limit.unit);
+  if (value === null) return "no_limit";
+  if (limit.min !== undefined && value < limit.min) return "fail";
+  if (limit.max !== undefined && value > limit.max) return "fail";
+  return "pass";
+}
+
+// ============================================
+// Spec Limit Retrieval
+// ============================================
+
+/**
+ * Retrieve the chemical and mechanical limits for a grade from the indexed spec.
+ *
+ * @returns Limits keyed by element symbol / mechanical field, or null if the
+ *   spec has no indexed documents
+ */
+export async function getSpecLimits(
+  spec: string,
+  grade: string
+): Promise<{ chemistry: Map<string, SourcedLimit>; mechanical: Map<MechanicalField, SourcedLimit> } | null> {
+  const specCode = spec.replace(/^ASTM\s*/i, "").toUpperCase();
+  const lookupQuery = `${grade} per ${spec}`;
+
+  const documentIds = await resolveSpecsToDocuments(
+    /^A\d{3,4}/.test(specCode) ? { astm: [specCode] } : {},
+    lookupQuery
+  );
+  if (!documentIds || documentIds.length === 0) return null;
+
+  const chunks = [
+    ...(await hybridSearchChunks(`${grade} chemical composition requirements ${spec}`, LIMIT_SEARCH_COUNT, documentIds)),
+    ...(await hybridSearchChunks(`${grade} tensile yield elongation hardness requirements ${spec}`, LIMIT_SEARCH_COUNT, documentIds)),
+  ];
+
+  const documents = await Promise.all(documentIds.map((id) => getDocumentById(id)));
+  const names = new Map(
+    documents.filter((d): d is NonNullable<typeof d> => d !== null).map((d) => [d.id as number, d.filename as string])
+  );
+
+  const chemistry = new Map<string, SourcedLimit>();
+  const mechanical = new Map<MechanicalField, SourcedLimit>();
+
+  // Highest-ranked chunk wins for each limit; parsing chunks one at a time
+  // keeps the page each value came from
+  for (const chunk of chunks) {
+    const source = { document: names.get(chunk.document_id) ?? "Unknown", page: chunk.page_number };
+    const parsed = await extractStructuredData(lookupQuery, [
+      { content: chunk.content, document_name: source.document, page_number: chunk.page_number },
+    ]);
+    if (!parsed) continue;
+
+    for (const [symbol, text] of Object.entries(parsed.chemicalComposition)) {
+      const limit = parseChemistryLimit(text);
+      if (limit && !chemistry.has(symbol)) chemistry.set(symbol, { limit, source });
+    }
+
+    for (const { field, bound, limitUnit } of MECHANICAL_FIELDS) {
+      const text = parsed.mechanicalProperties[field];
+      const limit = text ? parseMechanicalLimit(text, bound, limitUnit) : null;
+      if (limit && !mechanical.has(field)) mechanical.set(field, { limit, source });
+    }
+  }
+
+  console.log(`[MTR Compliance] ${grade} per ${spec}: ${chemistry.size} chemical and ${mechanical.size} mechanical limits from ${chunks.length} chunks`);
+  return { chemistry, mechanical };
+}
+
+// ============================================
+// MTR Parsing
+// ============================================
+
+/**
+ * Parse heat chemistry and mechanical results out of MTR text.
+ *
+ * Chemistry is read from a header row of element symbols followed by a row
+ * of values; mechanical results from label/value lines ("Yield Strength 74 ksi").
+ * Scanned or unusual layouts should be submitted as JSON instead.
+ */
+export function parseMtrText(text: string): MtrResults {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  const results: MtrResults = { chemistry: {}, mechanical: {} };
+
+  // "Heat No. 7K1234", or "Heat: 7K1234" — a bare label needs a digit in the
+  // value, so "Heat Treatment: ..." isn't read as a heat number
+  const heat = text.match(/\bHeat\s*(?:(?:No\b\.?|Number\b|#)\s*[:.]?\s*([A-Z0-9][A-Z0-9-]{2,})|[:.]?\s*((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{2,}))/i);
+  if (heat) results.heatNumber = heat[1] ?? heat[2];
+
+  // Chemistry: a line of 4+ element symbols, values on one of the next lines
+  for (let i = 0; i < lines.length && Object.keys(results.chemistry).length === 0; i++) {
+    const symbols = lines[i].split(/[\s|,]+/).map((token) => token.replace(/[^A-Za-z]/g, ""));
+    const elementSymbols = symbols.filter((symbol) => symbol in ELEMENT_NAMES);
+    if (elementSymbols.length < 4 || elementSymbols.length < symbols.length * 0.6) continue;
+
+    for (const next of lines.slice(i + 1, i + 4)) {
+      const values = next.match(/(?<![A-Za-z\d])\d*\.\d+|\b\d+\b/g)?.map(Number) ?? [];
+      if (values.length < elementSymbols.length) continue;
+
+      // Values align right — leading cells are usually heat number or product ID
+      const aligned = values.slice(values.length - elementSymbols.length);
+      elementSymbols.forEach((symbol, index) => {
+        results.chemistry[symbol] = aligned[index];
+      });
+      break;
+    }
+  }
+
+  // Mechanical: label and value on the same line
+  for (const { field, defaultUnit, pattern } of MECHANICAL_FIELDS) {
+    const line = lines.find((candidate) => pattern.test(candidate) && /\d/.test(candidate));
+    if (!line) continue;
+
+    const afterLabel = line.slice(line.search(pattern));
+    const [withUnit] = extractNumericalValues(afterLabel);
+    if (withUnit) {
+      results.mechanical[field] = { value: withUnit.value, unit: withUnit.unit };
+      continue;
+    }
+    const bare = afterLabel.match(/\d+(?:\.\d+)?/);
+    if (bare) results.mechanical[field] = { value: Number(bare[0]), unit: defaultUnit };
+  }
+
+  return results;
+}
+
+/**
+ * Extract MTR results from a PDF.
+ */
+export async function parseMtrPdf(buffer: ArrayBuffer): Promise<MtrResults> {
+  const result = await extractText(buffer, { mergePages: true });
+  return parseMtrText(String(result.text || ""));
+}
+
+// ============================================
+// Compliance Check
+// ============================================
+
+/**
+ * Check MTR results against the spec limits for a grade.
+ *
+ * @returns The compliance report, or null if the spec has no indexed documents
+ */
+export async function checkMtrCompliance(
+  results: MtrResults,
+  spec: string,
+  grade: string
+): Promise<MtrComplianceReport | null> {
+  const limits = await getSpecLimits(spec, grade);
+  if (!limits) return null;
+
+  const checks: ComplianceCheck[] = [];
+
+  const symbols = new Set([...Object.keys(results.chemistry), ...limits.chemistry.keys()]);
+  for (const symbol of symbols) {
+    const measuredValue = results.chemistry[symbol];
+    const measured = measuredValue !== undefined ? { value: measuredValue, unit: "%" } : null;
+    const sourced = limits.chemistry.get(symbol) ?? null;
+
+    checks.push({
+      category: "chemistry",
+      parameter: symbol,
+      label: ELEMENT_NAMES[symbol] ?? symbol,
+      measured,
+      limit: sourced?.limit ?? null,
+      status: !measured ? "not_reported" : sourced ? judge(measured, sourced.limit) : "no_limit",
+      source: sourced?.source ?? null,
+    });
+  }
+
+  for (const { field, label, defaultUnit } of MECHANICAL_FIELDS) {
+    const measuredValue = results.mechanical[field];
+    const sourced = limits.mechanical.get(field) ?? null;
+    if (measuredValue === undefined && !sourced) continue;
+
+    const measured = measuredValue !== undefined ? toMeasured(measuredValue, defaultUnit) : null;
+    checks.push({
+      category: "mechanical",
+      parameter: field,
+      label,
+      measured,
+      limit: sourced?.limit ?? null,
+      status: !measured ? "not_reported" : sourced ? judge(measured, sourced.limit) : "no_limit",
+      source: sourced?.source ?? null,
+    });
+  }
+
+  const overall = checks.some((check) => check.status === "fail")
+    ? "fail"
+    : checks.length === 0 || checks.some((check) => check.status !== "pass")
+      ? "incomplete"
+      : "pass";
+
+  return { spec, grade, heatNumber: results.heatNumber, overall, checks };
+}
+
+// ============================================
+// Export
+// ============================================
+
+function csvField(value: string | number | undefined | null): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a compliance report as CSV, one row per check.
+ */
+export function formatComplianceCsv(report: MtrComplianceReport): string {
+  const header = [
+    "Spec", "Grade", "Heat", "Category", "Parameter", "Measured", "Unit",
+    "Min", "Max", "Limit (as printed)", "Status", "Source Document", "Source Page",
+  ];
+
+  const rows = report.checks.map((check) => [
+    report.spec,
+    report.grade,
+    report.heatNumber,
+    check.category,
+    check.label,
+    check.measured?.value,
+    check.measured?.unit ?? check.limit?.unit,
+    check.limit?.min,
+    check.limit?.max,
+    check.limit?.text,
+    check.status,
+    check.source?.document,
+    check.source?.page,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  extractPagesWithOCR,
+  findPagesNeedingOCR,
+  getOcrProvider,
+  ocrRetrievalFactor,
+  PAGE_BREAK,
+  type OcrProvider,
+} from './ocr';
+import { supabaseAdmin } from './supabase';
+
+vi.mock('./supabase', () => ({
+  supabaseAdmin: { rpc: vi.fn() },
+}));
+
+vi.mock('./workspace', () => ({
+  currentWorkspaceId: () => 'workspace-1',
+}));
+
+vi.mock('./local-ocr', () => ({
+  createTesseractOcrProvider: () => ({ name: 'tesseract', model: 'eng', pagesPerCall: 2, extractText: vi.fn() }),
+}));
+
+/** The workspace's settings.ocr_provider, as the RPC returns it */
+function mockWorkspaceSetting(value: string | null) {
+  vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: value, error: null } as never);
+}
+
+const DIGITAL_PAGE = 'The tubing shall be furnished in the solution-annealed condition. '.repeat(5);
+
+function provider(output: string): OcrProvider {
+  return { name: 'tesseract', model: 'eng', pagesPerCall: 5, extractText: vi.fn().mockResolvedValue(output) };
+}
+
+describe('OCR', () => {
+  describe('findPagesNeedingOCR', () => {
+    it('should pick the pages with too little text', () => {
+      const pages = findPagesNeedingOCR([DIGITAL_PAGE, '  \n 3 \n', DIGITAL_PAGE, 'TABLE 2 Chemical Requirements'], 250_000);
+
+      expect(pages).toEqual([2, 4]);
+    });
+
+    it('should not count whitespace toward a page', () => {
+      const spaced = 'A  790 \n'.repeat(20);
+
+      expect(spaced.length).toBeGreaterThan(100);
+      expect(findPagesNeedingOCR([spaced], 250_000)).toEqual([1]);
+    });
+
+    it('should skip tiny files and digital documents', () => {
+      expect(findPagesNeedingOCR(['', ''], 800)).toEqual([]);
+      expect(findPagesNeedingOCR([DIGITAL_PAGE, DIGITAL_PAGE], 250_000)).toEqual([]);
+    });
+  });
+
+  describe('extractPagesWithOCR', () => {
+    it('should map OCR sections back to their page numbers', async () => {
+      const ocr = provider(`Page three text\n${PAGE_BREAK}\n\n${PAGE_BREAK}\nPage seven text`);
+
+      const pages = await extractPagesWithOCR(ocr, new ArrayBuffer(8), [3, 5, 7]);
+
+      expect(ocr.extractText).toHaveBeenCalledWith(expect.any(ArrayBuffer), [3, 5, 7]);
+      expect([...pages]).toEqual([[3, 'Page three text'], [5, ''], [7, 'Page seven text']]);
+    });
+
+    it('should leave pages missing from the output empty', async () => {
+      const pages = await extractPagesWithOCR(provider('Only one page'), new ArrayBuffer(8), [2, 4]);
+
+      expect(pages.get(2)).toBe('Only one page');
+      expect(pages.get(4)).toBe('');
+    });
+  });
+
+  describe('getOcrProvider', () => {
+    beforeEach(() => {
+      vi.mocked(supabaseAdmin.rpc).mockReset();
+      vi.stubEnv('OCR_PROVIDER', '');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should use the workspace setting over OCR_PROVIDER', async () => {
+      mockWorkspaceSetting('tesseract');
+      vi.stubEnv('OCR_PROVIDER', 'gemini');
+
+      const provider = await getOcrProvider();
+
+      expect(provider.name).toBe('tesseract');
+      expect(supabaseAdmin.rpc).toHaveBeenCalledWith('get_workspace_ocr_provider', { p_workspace_id: 'workspace-1' });
+    });
+
+    it('should fall back to OCR_PROVIDER, then gemini', async () => {
+      mockWorkspaceSetting(null);
+      vi.stubEnv('OCR_PROVIDER', 'Tesseract');
+      expect((await getOcrProvider()).name).toBe('tesseract');
+
+      vi.stubEnv('OCR_PROVIDER', '');
+      expect((await getOcrProvider()).name).toBe('gemini');
+    });
+
+    it('should fail rather than use gemini when the setting cannot be read', async () => {
+      vi.mocked(supabaseAdmin.rpc).mockResolvedValue({ data: null, error: { message: 'permission denied', code: '42501' } } as never);
+
+      await expect(getOcrProvider()).rejects.toThrow('permission denied');
+    });
+
+    it('should reject unknown providers', async () => {
+      mockWorkspaceSetting('textract');
+
+      await expect(getOcrProvider()).rejects.toThrow('Unknown OCR provider "textract"');
+    });
+  });
+
+  describe('ocrRetrievalFactor', () => {
+    it('should lower confidence by the share of OCR chunks', () => {
+      expect(ocrRetrievalFactor([])).toBe(1);
+      expect(ocrRetrievalFactor([{ confidence: 0.9 }, { confidence: null }])).toBe(1);
+      expect(ocrRetrievalFactor([{ confidence: 0.6 }, { confidence: 0.9 }])).toBeCloseTo(0.9);
+      expect(ocrRetrievalFactor([{ confidence: 0.6 }, { confidence: 0.5 }])).toBeCloseTo(0.8);
+    });
+  });
+});
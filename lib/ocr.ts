@@ -1,48 +1,116 @@
 /**
- * OCR for Scanned PDFs using Gemini Vision
- * =========================================
+ * OCR for Scanned PDFs
+ * ====================
  *
- * Uses Google's Gemini 1.5 Flash multimodal model to extract text
- * from scanned PDFs by converting pages to images and processing
- * them with vision capabilities.
+ * Text for scanned pages comes from a pluggable OcrProvider:
+ * - "gemini" (default): Google Gemini 1.5 Flash reads the PDF with its
+ *   vision capabilities. The PDF is sent to Google.
+ * - "tesseract": Tesseract run on the server via WebAssembly
+ *   (lib/local-ocr.ts). Pages are rasterised locally and never leave the
+ *   network — for export-controlled documents and air-gapped sites.
  *
- * This allows processing of scanned documents that unpdf cannot handle.
+ * The provider is chosen per workspace (workspaces.settings.ocr_provider,
+ * see supabase/migrations/add-ocr-provider.sql), falling back to
+ * OCR_PROVIDER. Every provider returns one section per page separated by
+ * PAGE_BREAK, so page numbers stay correct whichever one read the pages.
+ *
+ * Mixed documents (digital body text with scanned tables or appendices)
+ * are handled page by page: only pages with too little text from unpdf
+ * are OCR'd, and chunks from those pages get a lower confidence.
  */
 
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { supabaseAdmin } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import { estimateTokens, recordModelUsage } from "./usage";
 
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
 
 // Gemini model with vision capabilities
 const VISION_MODEL = "gemini-1.5-flash";
 
+/** Separates the pages of OCR output */
+export const PAGE_BREAK = "---PAGE BREAK---";
+
 /**
- * Extract text from a PDF using Gemini's vision capabilities
- *
- * This is used as a fallback when unpdf fails to extract text
- * (typically for scanned documents).
- *
- * @param pdfBuffer - The PDF file as ArrayBuffer
- * @returns Extracted text from all pages
+ * A page with fewer non-whitespace characters than this from unpdf is
+ * treated as scanned (a digital page of a spec has well over a thousand)
  */
-export async function extractTextWithOCR(pdfBuffer: ArrayBuffer): Promise<string> {
-  const model = genAI.getGenerativeModel({ model: VISION_MODEL });
+export const MIN_PAGE_TEXT_LENGTH = 100;
+
+/**
+ * Confidence for chunks from OCR'd pages. Text-layer chunks score 0.75-0.98
+ * by chunk type (lib/semantic-chunking.ts), so anything at or below this
+ * came from OCR.
+ */
+export const OCR_CHUNK_CONFIDENCE = 0.6;
 
-  // Convert ArrayBuffer to base64
-  const base64 = Buffer.from(pdfBuffer).toString("base64");
+// ============================================
+// Provider Interface
+// ============================================
 
-  console.log("[OCR] Starting Gemini Vision text extraction...");
+export type OcrProviderName = "gemini" | "tesseract";
 
-  try {
-    const result = await model.generateContent([
-      {
-        inlineData: {
-          mimeType: "application/pdf",
-          data: base64,
-        },
+export interface OcrProvider {
+  name: OcrProviderName;
+  /** Model identifier recorded with usage (Gemini model, Tesseract language) */
+  model: string;
+  /** Pages per extractText() call during processing (keeps calls within the time budget) */
+  pagesPerCall: number;
+  /**
+   * Read pages of a PDF.
+   *
+   * @param pdfBuffer - The PDF file as ArrayBuffer
+   * @param pageNumbers - 1-based pages to read; the whole document when omitted
+   * @returns The pages' text, one section per page in order, separated by
+   *   PAGE_BREAK (an empty section for a page with no text)
+   */
+  extractText(pdfBuffer: ArrayBuffer, pageNumbers?: number[]): Promise<string>;
+}
+
+/**
+ * Send the PDF with an instruction to the vision model and record usage
+ */
+async function runGemini(base64: string, instruction: string): Promise<string> {
+  const model = genAI.getGenerativeModel({ model: VISION_MODEL });
+
+  const result = await model.generateContent([
+    {
+      inlineData: {
+        mimeType: "application/pdf",
+        data: base64,
       },
-      {
-        text: `You are a document OCR system. Extract ALL text from this PDF document.
+    },
+    { text: instruction },
+  ]);
+
+  const response = result.response;
+  const text = response.text();
+
+  recordModelUsage(
+    `gemini/${VISION_MODEL}`,
+    response.usageMetadata?.promptTokenCount ?? 0,
+    response.usageMetadata?.candidatesTokenCount ?? estimateTokens(text)
+  );
+
+  return text;
+}
+
+/**
+ * Gemini Vision provider. Selected pages are marked "---PAGE n---" in the
+ * response so they can be matched back to page numbers even when the model
+ * skips a blank page.
+ */
+const geminiProvider: OcrProvider = {
+  name: "gemini",
+  model: VISION_MODEL,
+  pagesPerCall: 10, // Keeps each response well inside the output limit
+  async extractText(pdfBuffer: ArrayBuffer, pageNumbers?: number[]): Promise<string> {
+    // Convert ArrayBuffer to base64
+    const base64 = Buffer.from(pdfBuffer).toString("base64");
+
+    if (!pageNumbers) {
+      return runGemini(base64, `You are a document OCR system. Extract ALL text from this PDF document.
 
 Instructions:
 - Extract every piece of text visible in the document
@@ -50,42 +118,169 @@ Instructions:
 - Include table data, headers, footers, and any text in images
 - Do not summarize or interpret - just extract the raw text
 - If there are multiple pages, extract text from all of them
-- Separate pages with "---PAGE BREAK---"
+- Separate pages with "${PAGE_BREAK}"
 
-Output only the extracted text, nothing else.`,
-      },
-    ]);
+Output only the extracted text, nothing else.`);
+    }
 
-    const response = result.response;
-    const text = response.text();
+    const text = await runGemini(base64, `You are a document OCR system. Extract ALL text from pages ${pageNumbers.join(", ")} of this PDF document (page 1 is the first page).
 
-    console.log(`[OCR] Successfully extracted ${text.length} characters`);
+Instructions:
+- Extract every piece of text visible on those pages only
+- Preserve the structure and formatting as much as possible
+- Include table data, headers, footers, and any text in images
+- Do not summarize or interpret - just extract the raw text
+- Start each page with a line "---PAGE n---", where n is its page number
+
+Output only the extracted text, nothing else.`);
+
+    // "---PAGE 12---\ntext..." → [before, "12", text, ...]
+    const pages = new Map<number, string>();
+    const parts = text.split(/---PAGE\s+(\d+)---/i);
+    for (let p = 1; p < parts.length; p += 2) {
+      pages.set(parseInt(parts[p], 10), parts[p + 1].trim());
+    }
+    return pageNumbers.map((pageNumber) => pages.get(pageNumber) ?? "").join(`\n${PAGE_BREAK}\n`);
+  },
+};
+
+let tesseractProvider: OcrProvider | null = null;
+
+/**
+ * Get the OCR provider for the current workspace: its settings.ocr_provider,
+ * else OCR_PROVIDER (default "gemini").
+ *
+ * Fails rather than falling back to Gemini when the workspace setting can't
+ * be read — a workspace that chose local OCR must never have its documents
+ * sent out.
+ */
+export async function getOcrProvider(): Promise<OcrProvider> {
+  const { data, error } = await supabaseAdmin.rpc("get_workspace_ocr_provider", {
+    p_workspace_id: currentWorkspaceId(),
+  });
+
+  if (error) {
+    console.error("[OCR] Failed to read workspace OCR provider:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+
+  const name = ((data as string | null) || process.env.OCR_PROVIDER || "gemini").toLowerCase();
+  if (name === "gemini") {
+    return geminiProvider;
+  }
+  if (name === "tesseract") {
+    if (!tesseractProvider) {
+      const { createTesseractOcrProvider } = await import("./local-ocr");
+      tesseractProvider = createTesseractOcrProvider();
+    }
+    return tesseractProvider;
+  }
+  throw new Error(`Unknown OCR provider "${name}". Use "gemini" or "tesseract".`);
+}
+
+// ============================================
+// Text Extraction
+// ============================================
+
+/**
+ * Extract text from a whole PDF
+ *
+ * This is used as a fallback when unpdf fails to extract text
+ * (typically for scanned documents).
+ *
+ * @param provider - The workspace's OCR provider (getOcrProvider)
+ * @param pdfBuffer - The PDF file as ArrayBuffer
+ * @returns Extracted text from all pages, separated by PAGE_BREAK
+ */
+export async function extractTextWithOCR(provider: OcrProvider, pdfBuffer: ArrayBuffer): Promise<string> {
+  console.log(`[OCR] Starting ${provider.name} text extraction...`);
 
+  try {
+    const text = await provider.extractText(pdfBuffer);
+    console.log(`[OCR] Successfully extracted ${text.length} characters`);
     return text;
   } catch (error) {
-    console.error("[OCR] Gemini Vision extraction failed:", error);
+    console.error(`[OCR] ${provider.name} extraction failed:`, error);
     throw error;
   }
 }
 
 /**
- * Check if OCR should be attempted for a document
+ * Extract text from selected pages of a PDF
  *
- * @param originalText - Text from unpdf extraction
- * @param fileSize - Size of the PDF file in bytes
- * @returns true if OCR should be attempted
+ * Used for the scanned pages of an otherwise digital PDF.
+ *
+ * @param provider - The workspace's OCR provider (getOcrProvider)
+ * @param pdfBuffer - The PDF file as ArrayBuffer
+ * @param pageNumbers - 1-based page numbers to extract
+ * @returns Extracted text by page number (empty for pages OCR found nothing on)
  */
-export function shouldAttemptOCR(originalText: string, fileSize: number): boolean {
-  // If unpdf got significant text, no need for OCR
-  if (originalText.trim().length > 100) {
-    return false;
+export async function extractPagesWithOCR(
+  provider: OcrProvider,
+  pdfBuffer: ArrayBuffer,
+  pageNumbers: number[]
+): Promise<Map<number, string>> {
+  console.log(`[OCR] Starting ${provider.name} text extraction for ${pageNumbers.length} pages...`);
+
+  try {
+    const sections = (await provider.extractText(pdfBuffer, pageNumbers)).split(PAGE_BREAK);
+    if (sections.length !== pageNumbers.length) {
+      console.warn(`[OCR] Expected ${pageNumbers.length} pages, got ${sections.length}`);
+    }
+
+    const pages = new Map<number, string>();
+    pageNumbers.forEach((pageNumber, index) => {
+      pages.set(pageNumber, (sections[index] ?? "").trim());
+    });
+
+    console.log(`[OCR] Successfully extracted text for ${pageNumbers.length} pages`);
+    return pages;
+  } catch (error) {
+    console.error(`[OCR] ${provider.name} page extraction failed:`, error);
+    throw error;
   }
+}
 
+/**
+ * Find the pages that should be OCR'd
+ *
+ * @param pageTexts - Text per page from unpdf
+ * @param fileSize - Size of the PDF file in bytes
+ * @returns 1-based numbers of pages with too little text
+ */
+export function findPagesNeedingOCR(pageTexts: string[], fileSize: number): number[] {
   // If file is very small, it might just be an empty/blank PDF
   if (fileSize < 1000) {
-    return false;
+    return [];
   }
 
-  // File has content but unpdf couldn't extract - likely scanned
-  return true;
+  const weakPages: number[] = [];
+  pageTexts.forEach((text, index) => {
+    if ((text || "").replace(/\s/g, "").length < MIN_PAGE_TEXT_LENGTH) {
+      weakPages.push(index + 1);
+    }
+  });
+  return weakPages;
+}
+
+/**
+ * Check whether a chunk's text came from OCR
+ *
+ * @param chunk - A search result (confidence is missing for older searches)
+ */
+export function isOcrChunk(chunk: { confidence?: number | null }): boolean {
+  return chunk.confidence != null && chunk.confidence <= OCR_CHUNK_CONFIDENCE;
+}
+
+// Retrieval confidence lost when every retrieved chunk came from OCR
+const OCR_RETRIEVAL_PENALTY = 0.2;
+
+/**
+ * Retrieval confidence multiplier for the chunks an answer is built from:
+ * 1 when none came from OCR, down to 0.8 when all of them did
+ */
+export function ocrRetrievalFactor(chunks: { confidence?: number | null }[]): number {
+  if (chunks.length === 0) return 1;
+  const ocrShare = chunks.filter(isOcrChunk).length / chunks.length;
+  return 1 - OCR_RETRIEVAL_PENALTY * ocrShare;
 }
@@ -2,25 +2,34 @@
  * RAG Query Response Cache
  *
  * In-memory LRU cache for RAG query results. Caches the full response
- * (text + sources + confidence) so repeated identical queries skip
+ * (text + sources + confidence + structured record + claims + conflicts) so repeated identical queries skip
  * the entire pipeline — ~0ms instead of 30-90s.
  *
  * Design decisions:
  * - In-memory (not Redis) — sufficient for single Vercel instance
  * - Short TTL (5 min) — specs don't change but fresh queries get fresh results
  * - Normalized key — "What is yield?" and "what is yield?" hit same cache entry
+ * - Keyed per workspace — answers are built from the workspace's own documents
  * - Max 200 entries — ~2MB memory at 10KB avg response size
  */
 
+import type { AnswerClaim, Source, SpecConflict } from "./api";
+import type { MaterialSpecification } from "./validation";
+import { currentWorkspaceId } from "./workspace";
+
 interface CachedResponse {
   response: string;
-  sources: unknown[];
+  /** Kept whole: the citation viewer needs storage_path and the char offsets */
+  sources: Source[];
   confidence: {
     overall: number;
     retrieval: number;
     grounding: number;
     coherence: number;
   };
+  structured?: MaterialSpecification;
+  claims: AnswerClaim[];
+  conflicts: SpecConflict[];
   cachedAt: number;
 }
 
@@ -30,10 +39,11 @@ const MAX_CACHE_SIZE = 200;
 
 /**
  * Normalize a query string for cache key lookup.
- * Strips whitespace, lowercases, removes trailing punctuation.
+ * Strips whitespace, lowercases, removes trailing punctuation, and prefixes
+ * the current workspace.
  */
 function normalizeQuery(query: string): string {
-  return query
+  return `${currentWorkspaceId()}:` + query
     .toLowerCase()
     .trim()
     .replace(/\s+/g, " ")
@@ -66,8 +76,11 @@ export function getCachedResponse(query: string): CachedResponse | null {
 export function setCachedResponse(
   query: string,
   response: string,
-  sources: unknown[],
-  confidence: CachedResponse["confidence"]
+  sources: Source[],
+  confidence: CachedResponse["confidence"],
+  structured?: MaterialSpecification | null,
+  claims: AnswerClaim[] = [],
+  conflicts: SpecConflict[] = []
 ): void {
   const key = normalizeQuery(query);
 
@@ -85,12 +98,31 @@ export function setCachedResponse(
     response,
     sources,
     confidence,
+    ...(structured ? { structured } : {}),
+    claims,
+    conflicts,
     cachedAt: Date.now(),
   });
 
   console.log(`[Query Cache] STORED "${query.slice(0, 60)}..." (cache size: ${cache.size})`);
 }
 
+/**
+ * Drop the current workspace's cached responses.
+ * Call this when its documents change — cached answers may cite them.
+ */
+export function invalidateQueryCache(): void {
+  const prefix = `${currentWorkspaceId()}:`;
+  let removed = 0;
+  for (const key of cache.keys()) {
+    if (key.startsWith(prefix)) {
+      cache.delete(key);
+      removed++;
+    }
+  }
+  console.log(`[Query Cache] Invalidated ${removed} entries for workspace ${currentWorkspaceId()}`);
+}
+
 /**
  * Get cache stats for debugging.
  */
@@ -73,6 +73,7 @@ export const RATE_LIMITS: Record<string, RateLimitConfig> = {
   '/api/documents/upload-url': { windowMs: 60 * 1000, maxRequests: 5 }, // 5/min
   '/api/documents/upload': { windowMs: 60 * 1000, maxRequests: 5 },     // 5/min
   '/api/documents/process': { windowMs: 60 * 1000, maxRequests: 10 },   // 10/min
+  '/api/documents/diff': { windowMs: 60 * 1000, maxRequests: 10 },      // 10/min
   '/api/leads': { windowMs: 60 * 1000, maxRequests: 10 },               // 10/min
   'default': { windowMs: 60 * 1000, maxRequests: 60 },                  // 60/min default
 };
@@ -89,7 +90,7 @@ export interface RateLimitResult {
  * Check if a request should be rate limited
  * Uses Upstash Redis if configured, falls back to in-memory
  *
- * @param ip - Client IP address
+ * @param ip - Client IP address (or an API key identifier)
  * @param endpoint - API endpoint path
  * @returns RateLimitResult with success status and headers
  */
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { rerankChunks } from './reranker';
+import { loadTransformers } from './local-embeddings';
+import { getModelFallbackClient } from './model-fallback';
+import type { HybridSearchResult } from './hybrid-search';
+
+vi.mock('./local-embeddings', () => ({
+  loadTransformers: vi.fn(),
+}));
+
+vi.mock('./model-fallback', () => ({
+  getModelFallbackClient: vi.fn(),
+}));
+
+vi.mock('./latency-optimizer', () => ({
+  recordLatency: vi.fn(),
+}));
+
+// Cross-encoder stand-in: the logit is how often the pair's chunk names S32205
+const fromPretrained = vi.fn();
+const crossEncoder = {
+  AutoTokenizer: {
+    from_pretrained: async () => (queries: string[], { text_pair }: { text_pair: string[] }) => ({ queries, text_pair }),
+  },
+  AutoModelForSequenceClassification: {
+    from_pretrained: (...args: unknown[]) => {
+      fromPretrained(...args);
+      return async ({ text_pair }: { text_pair: string[] }) => ({
+        logits: {
+          dims: [text_pair.length, 1],
+          data: Float32Array.from(text_pair, (text) => (text.match(/S32205/g) ?? []).length - 1),
+        },
+      });
+    },
+  },
+};
+
+function chunk(id: number, content: string): HybridSearchResult {
+  return { id, document_id: 1, content, page_number: id };
+}
+
+const CHUNKS = [
+  chunk(1, 'Scope: seamless and welded duplex pipe.'),
+  chunk(2, 'S32205 yield strength is 65 ksi. S32205 tensile strength is 95 ksi.'),
+  chunk(3, 'Hydrostatic test pressure for all grades.'),
+  chunk(4, 'Table 3 lists S32205 among the duplex grades.'),
+];
+
+describe('rerankChunks', () => {
+  beforeEach(() => {
+    vi.stubEnv('RERANKER', 'local');
+    vi.stubEnv('VOYAGE_API_KEY', '');
+    fromPretrained.mockClear();
+    vi.mocked(getModelFallbackClient).mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should fall back to the next tier when the local model fails to load', async () => {
+    vi.mocked(loadTransformers).mockRejectedValueOnce(new Error('model file not found'));
+    const generateContent = vi.fn().mockResolvedValue({
+      text: '{"scores": [{"chunk_id": 3, "score": 9, "reason": "Test pressure"}, {"chunk_id": 1, "score": 5, "reason": "Scope"}]}',
+    });
+    vi.mocked(getModelFallbackClient).mockReturnValue({ generateContent } as never);
+
+    const ranked = await rerankChunks('hydrostatic test', CHUNKS, 2);
+
+    expect(generateContent).toHaveBeenCalledOnce();
+    expect(ranked.map((result) => result.chunk.id)).toEqual([3, 1]);
+  });
+
+  it('should rank by cross-encoder score when RERANKER=local', async () => {
+    vi.mocked(loadTransformers).mockResolvedValue(crossEncoder as never);
+
+    const ranked = await rerankChunks('S32205 yield strength', CHUNKS, 2);
+
+    expect(ranked.map((result) => result.chunk.id)).toEqual([2, 4]);
+    expect(ranked[0].relevance_score).toBeCloseTo(7.31, 2);
+    expect(ranked[0].relevance_reason).toMatch(/^Local cross-encoder score/);
+    expect(getModelFallbackClient).not.toHaveBeenCalled();
+  });
+
+  it('should keep search order for tied scores and load the model once', async () => {
+    vi.mocked(loadTransformers).mockResolvedValue(crossEncoder as never);
+
+    const ranked = await rerankChunks('duplex pipe', CHUNKS, 3);
+
+    expect(ranked.map((result) => result.chunk.id)).toEqual([2, 4, 1]);
+    expect(fromPretrained).not.toHaveBeenCalled();
+  });
+
+  it('should not use the local model unless selected', async () => {
+    vi.stubEnv('RERANKER', '');
+    vi.mocked(getModelFallbackClient).mockReturnValue({ generateContent: vi.fn().mockRejectedValue(new Error('offline')) } as never);
+
+    const ranked = await rerankChunks('S32205 yield strength', CHUNKS, 2);
+
+    expect(ranked.map((result) => result.relevance_reason)).toEqual(['Fallback: re-ranking failed', 'Fallback: re-ranking failed']);
+    expect(ranked.map((result) => result.chunk.id)).toEqual([1, 2]);
+  });
+});
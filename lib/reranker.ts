@@ -1,17 +1,27 @@
 /**
  * Re-Ranking for RAG Retrieval
  *
- * Two-tier reranking strategy:
+ * Three-tier reranking strategy:
  * 1. Primary: Voyage AI rerank-2 API (fast, accurate, ~200ms)
- * 2. Fallback: LLM-based scoring via ModelFallbackClient (5-15s)
+ * 2. Local: cross-encoder on CPU via transformers.js (offline, deterministic)
+ * 3. Fallback: LLM-based scoring via ModelFallbackClient (5-15s)
  *
  * Voyage AI reranker is a dedicated cross-encoder model trained for
  * relevance scoring — much faster and more consistent than prompting
  * a general-purpose LLM to score chunks.
+ *
+ * RERANKER=local puts the local cross-encoder first (ahead of Voyage), so
+ * deployments without Voyage never hit the LLM fallback and regression
+ * tests get the same ranking on every run. LOCAL_RERANKER_MODEL picks the
+ * model (default Xenova/ms-marco-MiniLM-L-6-v2); LOCAL_MODEL_DIR loads it
+ * from disk for air-gapped installs.
  */
 
 import { getModelFallbackClient } from "./model-fallback";
 import { HybridSearchResult } from "./hybrid-search";
+import { recordLatency } from "./latency-optimizer";
+import { loadTransformers } from "./local-embeddings";
+import type { PreTrainedModel, PreTrainedTokenizer, Tensor } from "@huggingface/transformers";
 
 export interface RankedChunk {
   chunk: HybridSearchResult;
@@ -20,8 +30,9 @@ export interface RankedChunk {
 }
 
 /**
- * Re-rank search results using Voyage AI rerank-2 API
- * Falls back to LLM-based scoring if Voyage reranker is unavailable.
+ * Re-rank search results using Voyage AI rerank-2 API, or the local
+ * cross-encoder when RERANKER=local.
+ * Falls back to LLM-based scoring if neither is available.
  *
  * @param query - The user's search query
  * @param chunks - Candidate chunks from hybrid search
@@ -44,7 +55,18 @@ export async function rerankChunks(
     }));
   }
 
-  // Try Voyage AI reranker first (fast, no LLM API cost)
+  // Local cross-encoder when configured (offline, deterministic)
+  if (process.env.RERANKER === "local") {
+    try {
+      const result = await localRerank(query, chunks, topK, subQueries);
+      console.log(`[Re-ranker] Local cross-encoder: ${chunks.length} → top ${topK}`);
+      return result;
+    } catch (error) {
+      console.warn(`[Re-ranker] Local cross-encoder failed, falling back:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Try Voyage AI reranker (fast, no LLM API cost)
   const voyageKey = process.env.VOYAGE_API_KEY;
   if (voyageKey) {
     try {
@@ -123,6 +145,92 @@ async function voyageRerank(
   }));
 }
 
+// ============================================================================
+// Local Cross-Encoder Reranker (Offline)
+// ============================================================================
+
+const DEFAULT_LOCAL_RERANKER_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+// Pairs scored per forward pass — bounds CPU memory for 40-candidate sets
+const LOCAL_RERANK_BATCH_SIZE = 8;
+
+let crossEncoder: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null;
+
+/**
+ * Load the cross-encoder once per process (first call pays the model load).
+ */
+function getCrossEncoder() {
+  const modelId = process.env.LOCAL_RERANKER_MODEL || DEFAULT_LOCAL_RERANKER_MODEL;
+
+  crossEncoder ??= (async () => {
+    const { AutoTokenizer, AutoModelForSequenceClassification } = await loadTransformers();
+    console.log(`[Re-ranker] Loading local cross-encoder ${modelId}...`);
+    const [tokenizer, model] = await Promise.all([
+      AutoTokenizer.from_pretrained(modelId),
+      AutoModelForSequenceClassification.from_pretrained(modelId, { dtype: "fp32" }),
+    ]);
+    return { tokenizer, model };
+  })().catch((error) => {
+    crossEncoder = null; // Allow a retry after e.g. a missing model file
+    throw error;
+  });
+
+  return crossEncoder;
+}
+
+/**
+ * Rerank with a local cross-encoder (ms-marco MiniLM by default).
+ * Scores every (query, chunk) pair on CPU; same input → same ranking.
+ */
+async function localRerank(
+  query: string,
+  chunks: HybridSearchResult[],
+  topK: number,
+  subQueries?: string[]
+): Promise<RankedChunk[]> {
+  const { tokenizer, model } = await getCrossEncoder();
+
+  // Same query and truncation as the Voyage tier
+  const fullQuery = subQueries && subQueries.length > 1
+    ? `${query}\n\nRelated aspects: ${subQueries.join('; ')}`
+    : query;
+  const documents = chunks.map(c => c.content.slice(0, 1000));
+
+  const startTime = Date.now();
+  const scores: number[] = [];
+  for (let i = 0; i < documents.length; i += LOCAL_RERANK_BATCH_SIZE) {
+    const batch = documents.slice(i, i + LOCAL_RERANK_BATCH_SIZE);
+    const inputs = tokenizer(new Array(batch.length).fill(fullQuery), {
+      text_pair: batch,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs) as { logits: Tensor };
+    if (logits.dims[1] !== 1) {
+      throw new Error(`Cross-encoder must output one relevance logit per pair (got ${logits.dims[1]})`);
+    }
+    // Single relevance logit per pair → 0-1 via sigmoid
+    for (const logit of logits.data as Float32Array) {
+      scores.push(1 / (1 + Math.exp(-logit)));
+    }
+  }
+
+  const elapsed = Date.now() - startTime;
+  recordLatency("rerank_local", elapsed);
+  console.log(`[Re-ranker] Local cross-encoder: ${elapsed}ms for ${documents.length} pairs`);
+
+  // Ties keep search order so the ranking is fully deterministic
+  return chunks
+    .map((chunk, index) => ({ chunk, index, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, topK)
+    .map(({ chunk, score }) => ({
+      chunk,
+      relevance_score: Math.round(score * 10 * 100) / 100, // 0-10 scale
+      relevance_reason: `Local cross-encoder score: ${score.toFixed(3)}`,
+    }));
+}
+
 // ============================================================================
 // LLM-Based Reranker (Fallback)
 // ============================================================================
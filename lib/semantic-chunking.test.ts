@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { extractTableRef, semanticChunk, type ChunkOptions } from './semantic-chunking';
+
+const OPTIONS: ChunkOptions = {
+  minChunkSize: 200,
+  maxChunkSize: 2000,
+  targetChunkSize: 1000,
+  overlapSize: 100,
+  preserveTables: true,
+  preserveLists: true,
+};
+
+const FILLER = 'Each length shall be inspected by the manufacturer before shipment to the purchaser. '.repeat(4);
+
+const PAGE_1 = `6. Heat Treatment
+6.1 All pipe shall be furnished in the solution-annealed condition. ${FILLER}
+
+7. Product Analysis
+7.1 An analysis of one length from each lot shall be made by the manufacturer. ${FILLER}
+
+TABLE 1 Chemical Requirements
+| UNS Designation | Carbon | Chromium |
+| --- | --- | --- |
+| S32205 | 0.030A | 22.0–23.0 |
+| S32750 | 0.030 | 24.0–26.0B |
+A Maximum, unless a range is indicated.
+B Range for the superduplex grade only.`;
+
+const PAGE_2 = `The results of the analysis shall be reported to the purchaser on request. ${FILLER}`;
+
+describe('Semantic Chunking', () => {
+  describe('citation metadata', () => {
+    const chunks = semanticChunk([PAGE_1, PAGE_2], OPTIONS);
+
+    it('should record the table number and footnote letters on table chunks', () => {
+      const table = chunks.find((chunk) => chunk.metadata.chunk_type === 'table');
+
+      expect(table!.metadata).toMatchObject({ table_ref: 'Table 1', footnote_refs: ['A', 'B'] });
+    });
+
+    it('should record the clause a chunk falls under', () => {
+      const [text] = chunks.filter((chunk) => chunk.metadata.page_number === 1 && chunk.metadata.chunk_type === 'text');
+      const table = chunks.find((chunk) => chunk.metadata.chunk_type === 'table');
+
+      expect(text.metadata.clause).toBe('6');
+      expect(table!.metadata.clause).toBe('7.1');
+    });
+
+    it('should carry the last clause over a page break', () => {
+      const continued = chunks.find((chunk) => chunk.metadata.page_number === 2);
+
+      expect(continued!.metadata.clause).toBe('7.1');
+    });
+  });
+
+  describe('extractTableRef', () => {
+    it('should normalise table identifiers from titles', () => {
+      expect(extractTableRef('TABLE 3 Tensile Requirements')).toBe('Table 3');
+      expect(extractTableRef('Table x1.2 Supplementary Tests')).toBe('Table X1.2');
+      expect(extractTableRef('Chemical Requirements')).toBeUndefined();
+    });
+  });
+});
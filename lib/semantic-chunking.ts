@@ -3,7 +3,8 @@
  *
  * This module provides intelligent text chunking that:
  * - Preserves semantic boundaries (sections, tables, lists)
- * - Adds metadata (section titles, chunk types, code detection)
+ * - Adds metadata (section titles, clause numbers, table/footnote
+ *   identifiers, chunk types, code detection)
  * - Uses variable chunk sizes based on content type
  * - Keeps tables and lists intact
  */
@@ -26,11 +27,25 @@ export interface EnhancedChunk {
     has_codes: boolean;
     confidence: number;
     parent_section?: string;
+    /** Number of the clause the chunk falls under, e.g. "7.2" or "A1.3" */
+    clause?: string;
+    /** Table chunks: the table's identifier, e.g. "Table 2" */
+    table_ref?: string;
+    /** Table chunks: footnote letters the chunk contains, e.g. ["A", "C"] */
+    footnote_refs?: string[];
   };
   char_offset_start: number;
   char_offset_end: number;
 }
 
+/** A table found during structure parsing (raw text, not yet split into cells) */
+export interface DetectedTable {
+  content: string;
+  pageNumber: number;
+  title?: string;
+  hasFootnotes: boolean;
+}
+
 interface DocumentStructure {
   sections: Section[];
   tables: Table[];
@@ -65,7 +80,7 @@ interface List {
 /**
  * Detect if text contains technical codes (UNS, ASTM, API, NACE, etc.)
  */
-function detectTechnicalCodes(text: string): boolean {
+export function detectTechnicalCodes(text: string): boolean {
   const codePatterns = [
     /\bUNS\s+[A-Z]\d{5}\b/i,           // UNS codes (e.g., UNS S31803)
     /\bASTM\s+[A-Z]\d{2,4}\b/i,        // ASTM standards (e.g., ASTM A790)
@@ -113,6 +128,20 @@ const TABLE_FOOTNOTE_PATTERNS = [
   /\.\.\.\s*(?:indicates|no\s+requirement)/i,  // Ellipsis explanations
 ];
 
+/**
+ * A clause heading or numbered paragraph: "7.2 Heat Analysis—...",
+ * "Section 4: Chemical Composition", "A1.3 Test Method", "S2. Product Analysis".
+ * The first number is 1-99 so values and years don't match.
+ */
+const CLAUSE_LINE = /^(?:Section\s+)?((?:[ASX]\d{1,2}|[1-9]\d?)(?:\.\d{1,3}){0,4})\.?:?\s+[A-Z(]/;
+
+/** A footnote under a table: "A Maximum, unless a range is indicated." / "ᴬ ..." */
+const FOOTNOTE_LINE = /^([A-H]|[ᴬᴮᶜᴰᴱᶠᴳᴴ])\s+[A-Za-z(].{9,}$/;
+
+const SUPERSCRIPT_LETTERS: Record<string, string> = {
+  "ᴬ": "A", "ᴮ": "B", "ᶜ": "C", "ᴰ": "D", "ᴱ": "E", "ᶠ": "F", "ᴳ": "G", "ᴴ": "H",
+};
+
 /**
  * Detect if text contains table footnotes that should be kept with table
  */
@@ -209,6 +238,75 @@ function extractTableTitle(text: string): string | undefined {
   return match ? match[0].trim() : undefined;
 }
 
+/**
+ * Table identifier from a title or caption: "TABLE 2 Tensile Requirements" → "Table 2"
+ */
+export function extractTableRef(text: string): string | undefined {
+  const match = text.match(/\bTABLE\s+(X?\d+(?:\.\d+)?)\b/i);
+  return match ? `Table ${match[1].toUpperCase()}` : undefined;
+}
+
+/**
+ * Letters of the table footnotes in a chunk, in order
+ */
+function extractFootnoteRefs(text: string): string[] {
+  const refs = new Set<string>();
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(FOOTNOTE_LINE);
+    if (match) refs.add(SUPERSCRIPT_LETTERS[match[1]] ?? match[1]);
+  }
+  return [...refs];
+}
+
+/**
+ * Clause headings and numbered paragraphs on a page, with their positions.
+ * Lines inside tables are skipped (row labels can look like clause numbers).
+ */
+function findClauseMarks(pageText: string, pageTables: Table[]): { clause: string; index: number }[] {
+  const tableRanges = pageTables
+    .map(table => {
+      const firstParagraph = table.content.split(/\n\n/)[0];
+      const start = pageText.indexOf(firstParagraph);
+      return { start, end: start + firstParagraph.length };
+    })
+    .filter(range => range.start >= 0);
+
+  const marks: { clause: string; index: number }[] = [];
+  let index = 0;
+  for (const line of pageText.split('\n')) {
+    const inTable = tableRanges.some(range => index >= range.start && index < range.end);
+    const match = inTable ? null : line.trim().match(CLAUSE_LINE);
+    if (match) marks.push({ clause: match[1], index });
+    index += line.length + 1;
+  }
+  return marks;
+}
+
+/**
+ * The clause a chunk falls under: the last clause mark at or before its text
+ * on the page, else the clause carried over from earlier pages
+ *
+ * @param from - Where on the page the chunk can start at the earliest
+ */
+function governingClause(
+  pageText: string,
+  content: string,
+  from: number,
+  marks: { clause: string; index: number }[],
+  carried: string | undefined
+): string | undefined {
+  // Text chunks are cut from the page with tables and lists removed, so match a short prefix
+  const position = pageText.indexOf(content.slice(0, 30), from);
+  if (position < 0) return carried;
+
+  let clause = carried;
+  for (const mark of marks) {
+    if (mark.index > position) break;
+    clause = mark.clause;
+  }
+  return clause;
+}
+
 /**
  * Extract table header rows for prepending to split table chunks.
  * Returns the first few lines before data rows begin (title + column headers).
@@ -361,6 +459,19 @@ function parseDocumentStructure(pageTexts: string[]): DocumentStructure {
   return structure;
 }
 
+/**
+ * Detect tables across all pages, in document order.
+ * Uses the same detection as chunking so structured tables line up with table chunks.
+ */
+export function detectTables(pageTexts: string[]): DetectedTable[] {
+  return parseDocumentStructure(pageTexts).tables.map(({ content, pageNumber, title, hasFootnotes }) => ({
+    content,
+    pageNumber,
+    title,
+    hasFootnotes,
+  }));
+}
+
 /**
  * Chunk text with overlap, respecting boundaries
  */
@@ -402,6 +513,7 @@ function chunkTextWithOverlap(
  * - Preserving tables and lists intact (no mid-table splits)
  * - Detecting section boundaries and titles
  * - Adding metadata (page numbers, chunk types, code detection)
+ * - Recording the governing clause and table/footnote identifiers for citations
  * - Maintaining character offsets for citation highlighting
  *
  * @param pageTexts - Array of text content from each PDF page
@@ -435,6 +547,7 @@ export function semanticChunk(
   const allChunks: EnhancedChunk[] = [];
 
   let currentSection: string | undefined = undefined;
+  let currentClause: string | undefined = undefined;
   let charOffset = 0;
 
   for (let pageIndex = 0; pageIndex < pageTexts.length; pageIndex++) {
@@ -443,6 +556,8 @@ export function semanticChunk(
 
     if (pageText.trim().length < 50) continue;
 
+    const pageChunkStart = allChunks.length;
+
     // Find structures on this page
     const pageTables = structure.tables.filter(t => t.pageNumber === pageNumber);
     const pageLists = structure.lists.filter(l => l.pageNumber === pageNumber);
@@ -458,6 +573,7 @@ export function semanticChunk(
       for (const table of pageTables) {
         // Use table title as section_title if available, otherwise use current section
         const tableSectionTitle = table.title || currentSection;
+        const tableRef = table.title ? extractTableRef(table.title) : undefined;
 
         // Tables get extra budget to stay intact (reduces splits that lose context)
         const tableMaxSize = maxChunkSize + 1000;
@@ -472,6 +588,8 @@ export function semanticChunk(
               has_codes: detectTechnicalCodes(table.content),
               confidence: table.hasFootnotes ? 0.98 : 0.95, // Higher confidence when footnotes preserved
               parent_section: currentSection,
+              table_ref: tableRef,
+              footnote_refs: extractFootnoteRefs(table.content),
             },
             char_offset_start: table.startIndex - charOffset,
             char_offset_end: table.endIndex - charOffset,
@@ -504,6 +622,8 @@ export function semanticChunk(
                 has_codes: detectTechnicalCodes(content),
                 confidence: 0.85,
                 parent_section: currentSection,
+                table_ref: tableRef,
+                footnote_refs: extractFootnoteRefs(content),
               },
               char_offset_start: tableChunks[idx].start,
               char_offset_end: tableChunks[idx].end,
@@ -604,6 +724,19 @@ export function semanticChunk(
       }
     }
 
+    // Clause numbers: by position on the page, carried across page breaks
+    const clauseMarks = findClauseMarks(pageText, pageTables);
+    for (const chunk of allChunks.slice(pageChunkStart)) {
+      // Text chunk offsets count the page without its tables and lists: a lower bound
+      const from = chunk.metadata.chunk_type === 'text' || chunk.metadata.chunk_type === 'heading'
+        ? chunk.char_offset_start - charOffset
+        : 0;
+      chunk.metadata.clause = governingClause(pageText, chunk.content, from, clauseMarks, currentClause);
+    }
+    if (clauseMarks.length > 0) {
+      currentClause = clauseMarks[clauseMarks.length - 1].clause;
+    }
+
     charOffset += pageText.length + 2; // +2 for page breaks
   }
 
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { conflictInstruction, conflictNotes, detectSpecConflicts, type ConflictSource } from './spec-conflicts';
+import { a790TensileTable } from '../tests/helpers/spec-fixtures';
+
+const A790_TENSILE = a790TensileTable('S32205');
+
+const A789: ConflictSource = { ref: '[1]', document: 'ASTM A789 Duplex Tubing 2014.pdf', page: 3, content: A790_TENSILE.replace('65 [450]', '70 [485]') };
+const A790: ConflictSource = { ref: '[2]', document: 'ASTM A790 Duplex Pipe 2014.pdf', page: 4, content: A790_TENSILE };
+
+describe('Spec Conflicts', () => {
+  describe('detectSpecConflicts', () => {
+    it('should report values the documents disagree on, per spec', () => {
+      const conflicts = detectSpecConflicts('S32205 yield strength', [A789, A790]);
+
+      expect(conflicts).toEqual([
+        {
+          grade: 'S32205',
+          property: 'yield strength',
+          values: [
+            { value: '70 ksi [485 MPa]', spec: 'ASTM A789', document: A789.document, page: 3, ref: '[1]' },
+            { value: '65 ksi [450 MPa]', spec: 'ASTM A790', document: A790.document, page: 4, ref: '[2]' },
+          ],
+        },
+      ]);
+    });
+
+    it('should read strengths from single-spaced PDF tables', () => {
+      const pdfText: ConflictSource = {
+        ...A789,
+        content: `TABLE 3 Tensile and Hardness Requirements
+UNS Designation Tensile Strength, min, ksi [MPa] Yield Strength, min, ksi [MPa] Elongation in 2 in., min, %
+S32205 95 [655] 70 [485] 25`,
+      };
+
+      const [conflict] = detectSpecConflicts('UNS S32205 yield', [pdfText, A790]);
+
+      expect(conflict.values.map((value) => value.value)).toEqual(['70 ksi [485 MPa]', '65 ksi [450 MPa]']);
+    });
+
+    it('should treat the same value in other units as agreement', () => {
+      const siOnly: ConflictSource = {
+        ...A789,
+        content: `TABLE 3 Tensile Requirements
+UNS Designation | Tensile Strength, min, MPa | Yield Strength, min, MPa
+S32205 | 655 | 450`,
+      };
+
+      expect(detectSpecConflicts('S32205 yield strength', [siOnly, A790])).toEqual([]);
+    });
+
+    it('should count only the first value of each document', () => {
+      const laterChunk: ConflictSource = { ...A790, ref: '[3]', page: 9, content: A790_TENSILE.replace('65 [450]', '70 [485]') };
+
+      const [conflict] = detectSpecConflicts('S32205 yield strength', [A789, A790, laterChunk]);
+
+      expect(conflict.values.map((value) => value.ref)).toEqual(['[1]', '[2]']);
+    });
+
+    it('should return nothing when the query names no grade', () => {
+      expect(detectSpecConflicts('duplex pipe yield strength', [A789, A790])).toEqual([]);
+    });
+  });
+
+  describe('conflictNotes', () => {
+    const conflicts = detectSpecConflicts('S32205 yield strength', [A789, A790]);
+
+    it('should note a conflict the answer gives only one side of', () => {
+      expect(conflictNotes('The minimum yield strength of S32205 is 65 ksi [2].', conflicts)).toEqual([
+        'S32205 yield strength: 70 ksi [485 MPa] per ASTM A789 [1] vs 65 ksi [450 MPa] per ASTM A790 [2].',
+      ]);
+    });
+
+    it('should stay quiet when the answer gives every value or none', () => {
+      expect(conflictNotes('65 ksi per ASTM A790 [2]; 70 ksi per ASTM A789 [1].', conflicts)).toEqual([]);
+      expect(conflictNotes('S32205 is a duplex grade [1].', conflicts)).toEqual([]);
+      expect(conflictNotes('Elongation is 25% and hardness 290 HBW; 6.5 is not a yield value.', conflicts)).toEqual([]);
+    });
+  });
+
+  describe('conflictInstruction', () => {
+    it('should list each conflict for the prompt', () => {
+      const instruction = conflictInstruction(detectSpecConflicts('S32205 yield strength', [A789, A790]));
+
+      expect(instruction).toContain('- S32205 yield strength: 70 ksi [485 MPa] per ASTM A789 [1] vs 65 ksi [450 MPa] per ASTM A790 [2]');
+      expect(instruction).toContain('give ALL of them');
+    });
+  });
+});
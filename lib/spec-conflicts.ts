@@ -0,0 +1,234 @@
+/**
+ * Cross-Document Conflict Detection
+ *
+ * Indexed specs can disagree on the same grade: S32205 minimum yield is
+ * 70 ksi in A789 (tubing) but 65 ksi in A790 (pipe). Document filtering keeps
+ * a query that names its spec to that spec, but an open query ("S32205 yield
+ * strength") retrieves both, and the model may silently pick one.
+ *
+ * After retrieval, the table values of the queried grade are read from each
+ * document's chunks (the parser behind the structured record, plus the
+ * strength columns of single-spaced PDF tables) and grouped by
+ * (grade, property). Groups whose documents disagree are conflicts: the prompt
+ * tells the model to give every value with its spec, conflictNotes() catches
+ * answers that still leave one out, and the response lists them as
+ * `conflicts`.
+ */
+
+import type { SpecConflict } from "./api";
+import { extractCodesFromFilename } from "./document-mapper";
+import { preprocessQuery } from "./query-preprocessing";
+import { extractQuantities, isEquivalent } from "./units";
+import { parseSpecificationFromText, type MaterialSpecification } from "./validation";
+
+/** Retrieved text, with the ref it's cited as */
+export interface ConflictSource {
+  ref: string;
+  document: string;
+  page: number;
+  content: string;
+}
+
+type ConflictValue = SpecConflict["values"][number];
+
+const MECHANICAL_PROPERTIES: Record<keyof MaterialSpecification["mechanicalProperties"], string> = {
+  tensileStrength: "tensile strength",
+  yieldStrength: "yield strength",
+  elongation: "elongation",
+  hardness: "hardness",
+};
+
+// Strength columns of dual-unit tables, for text the cell parser can't split
+const STRENGTH_HEADERS: [RegExp, string][] = [
+  [/\btensile\b/i, "tensile strength"],
+  [/\byield\b/i, "yield strength"],
+];
+const DUAL_UNIT_HEADER = /\b(ksi|MPa)\s*\[(ksi|MPa)\]/i;
+const DUAL_VALUE = /(\d+(?:\.\d+)?)\s*\[(\d+(?:\.\d+)?)\]/g;
+const TABLE_TITLE = /^TABLE\s+X?\d+/i;
+const DESIGNATION_ROW = /^(?:UNS\s+)?[A-Z]\d{5}\b/;
+
+/**
+ * Find values the retrieved documents disagree on for the queried grade(s).
+ *
+ * Each document's first value for a property counts (as in the structured
+ * record). Values agree when they state the same numbers (a dual-unit value
+ * agrees with either of its units) or the same quantity in other units.
+ *
+ * @param query - The standalone query; its UNS numbers and grade names are the grades checked
+ * @param sources - Retrieved chunks in citation order
+ * @returns Conflicts, or [] when the query names no grade or the documents agree
+ */
+export function detectSpecConflicts(query: string, sources: ConflictSource[]): SpecConflict[] {
+  const { extractedCodes } = preprocessQuery(query);
+  const uns = extractedCodes.uns ?? [];
+  // Several UNS numbers are several grades; a single one may come with its common name
+  const targets = uns.length > 1
+    ? uns.map((code) => ({ uns: code, grade: undefined }))
+    : [{ uns: uns[0], grade: extractedCodes.grade?.[0] }];
+
+  const conflicts: SpecConflict[] = [];
+  for (const target of targets) {
+    const grade = target.uns ?? target.grade;
+    if (!grade) continue;
+
+    // property → document → first value
+    const facts = new Map<string, Map<string, ConflictValue>>();
+    for (const source of sources) {
+      for (const [property, value] of gradeValues(source.content, target.uns, target.grade)) {
+        const byDocument = facts.get(property) ?? new Map<string, ConflictValue>();
+        facts.set(property, byDocument);
+        if (byDocument.has(source.document)) continue;
+        byDocument.set(source.document, {
+          value,
+          spec: specName(source.document),
+          document: source.document,
+          page: source.page,
+          ref: source.ref,
+        });
+      }
+    }
+
+    for (const [property, byDocument] of facts) {
+      const values = [...byDocument.values()];
+      const disagree = values.some((a, index) => values.slice(index + 1).some((b) => !valuesAgree(a.value, b.value)));
+      if (disagree) {
+        conflicts.push({ grade: grade.replace(/^UNS\s+/i, ""), property, values });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Prompt section listing the conflicts (refs as numbered in the context).
+ */
+export function conflictInstruction(conflicts: SpecConflict[]): string {
+  return `The documents in the context disagree on these values:
+${conflicts.map((conflict) => `- ${describeConflict(conflict)}`).join("\n")}
+
+If your answer gives one of these values, give ALL of them, each with its specification and citation (e.g. "65 ksi per ASTM A790 [2]; 70 ksi per ASTM A789 [1]"). Never pick one value or average them: each applies to its own specification.`;
+}
+
+/**
+ * Notes for conflicts the answer states only part of: it gives one document's
+ * value but not another's. Conflicts the answer doesn't touch are left out.
+ *
+ * @param response - The answer, with final citation numbers
+ * @param conflicts - Conflicts with refs as numbered in the answer
+ */
+export function conflictNotes(response: string, conflicts: SpecConflict[]): string[] {
+  return conflicts
+    .filter((conflict) => {
+      const mentioned = conflict.values.map((value) => mentionsValue(response, value.value));
+      return mentioned.some(Boolean) && !mentioned.every(Boolean);
+    })
+    .map((conflict) => `${describeConflict(conflict)}.`);
+}
+
+function describeConflict(conflict: SpecConflict): string {
+  const values = conflict.values.map((value) => `${value.value} per ${value.spec ?? value.document} ${value.ref}`);
+  return `${conflict.grade} ${conflict.property}: ${values.join(" vs ")}`;
+}
+
+/**
+ * A grade's table values in a chunk, by property name: the structured
+ * record's parser, plus dual-unit strengths it can't read.
+ */
+function gradeValues(content: string, uns?: string, grade?: string): [string, string][] {
+  const spec = parseSpecificationFromText(content, uns, grade);
+  const values = spec ? specValues(spec) : [];
+  const identifiers = [uns, grade].filter((id): id is string => !!id).map((id) => id.replace(/^(?:UNS|Grade)\s+/i, ""));
+  for (const [property, value] of dualUnitStrengths(content, identifiers)) {
+    if (!values.some(([name]) => name === property)) values.push([property, value]);
+  }
+  return values;
+}
+
+/**
+ * Tensile and yield strength from a dual-unit table whose cells are only
+ * single-space separated (unpdf text: "S32205 95 [655] 70 [485] 25 290 30").
+ * The grade's row gives "N [M]" pairs in the order the header names the
+ * strength columns; other columns aren't dual-unit and are skipped.
+ */
+function dualUnitStrengths(content: string, identifiers: string[]): [string, string][] {
+  if (identifiers.length === 0) return [];
+  const lines = content.split("\n").map((line) => line.trim());
+  const rowPattern = new RegExp(`^(?:UNS\\s+)?(?:${identifiers.map(escapeRegExp).join("|")})\\b`, "i");
+  const rowIndex = lines.findIndex((line) => rowPattern.test(line));
+  if (rowIndex === -1) return [];
+
+  // Header: from the table title (or chunk start) to the first designation row
+  let headerStart = rowIndex;
+  while (headerStart > 0 && !TABLE_TITLE.test(lines[headerStart])) headerStart--;
+  let headerEnd = headerStart + 1;
+  while (headerEnd < rowIndex && !DESIGNATION_ROW.test(lines[headerEnd])) headerEnd++;
+  const header = lines.slice(headerStart, headerEnd).join(" ");
+
+  const units = header.match(DUAL_UNIT_HEADER);
+  if (!units) return [];
+  const columns = STRENGTH_HEADERS
+    .map(([pattern, name]) => ({ name, at: header.search(pattern) }))
+    .filter((column) => column.at !== -1)
+    .sort((a, b) => a.at - b.at);
+
+  const pairs = [...lines[rowIndex].matchAll(DUAL_VALUE)];
+  if (columns.length === 0 || pairs.length < columns.length) return [];
+  return columns.map((column, index) => [column.name, `${pairs[index][1]} ${units[1]} [${pairs[index][2]} ${units[2]}]`]);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Comparable values of a grade's record, by property name */
+function specValues(spec: MaterialSpecification): [string, string][] {
+  const values: [string, string][] = [];
+  for (const [field, name] of Object.entries(MECHANICAL_PROPERTIES) as [keyof typeof MECHANICAL_PROPERTIES, string][]) {
+    const value = spec.mechanicalProperties[field];
+    if (value) values.push([name, value]);
+  }
+  for (const [symbol, value] of Object.entries(spec.chemicalComposition)) {
+    values.push([`${symbol} (wt %)`, value]);
+  }
+  if (spec.heatTreatment?.temperature) {
+    values.push(["heat treatment temperature", spec.heatTreatment.temperature]);
+  }
+  return values;
+}
+
+/** "ASTM A790" from "ASTM A790 Seamless & Welded Duplex Pipe 2014.pdf" */
+function specName(document: string): string | null {
+  const codes = extractCodesFromFilename(document);
+  if (codes.astm.length > 0) return `ASTM ${codes.astm[0]}`;
+  if (codes.api.length > 0) return `API ${codes.api[0]}`;
+  return null;
+}
+
+function numbersIn(value: string): number[] {
+  return (value.match(/\d+(?:,\d{3})*(?:\.\d+)?/g) ?? []).map((number) => parseFloat(number.replace(/,/g, "")));
+}
+
+function valuesAgree(a: string, b: string): boolean {
+  const numbersA = numbersIn(a);
+  const numbersB = numbersIn(b);
+  if (numbersA.length === 0 || numbersB.length === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  // "65 ksi [450 MPa]" agrees with "65 ksi"; "22.0–23.0" doesn't with "21.0–23.0"
+  const [fewer, more] = numbersA.length <= numbersB.length ? [numbersA, numbersB] : [numbersB, numbersA];
+  if (fewer.every((number) => more.includes(number))) return true;
+
+  // The same value in other units ("65 ksi" and "450 MPa")
+  const quantitiesB = extractQuantities(b);
+  return extractQuantities(a).some((x) => quantitiesB.some((y) => isEquivalent(x, y)));
+}
+
+// The answer states a value if it has the value's first number
+function mentionsValue(response: string, value: string): boolean {
+  const [first] = value.match(/\d+(?:,\d{3})*(?:\.\d+)?/) ?? [];
+  if (!first) return response.toLowerCase().includes(value.trim().toLowerCase());
+  return new RegExp(`(?<![\\d.])${first.replace(/\./g, "\\.")}(?![\\d]|\\.\\d)`).test(response);
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatEdition,
+  linkEditions,
+  normalizeEditionYear,
+  parsePinnedEdition,
+  parseSpecIdentity,
+} from './spec-editions';
+
+describe('Spec Editions', () => {
+  describe('normalizeEditionYear', () => {
+    it('should expand two-digit ASTM years', () => {
+      expect(normalizeEditionYear('14')).toBe(2014);
+      expect(normalizeEditionYear('95')).toBe(1995);
+      expect(normalizeEditionYear('2024')).toBe(2024);
+    });
+  });
+
+  describe('parseSpecIdentity', () => {
+    it('should prefer the designation line of the document', () => {
+      const identity = parseSpecIdentity('A790', 'ASTM-A790-A790M-24.pdf', 'Designation: A790/A790M − 14\nStandard Specification for...');
+
+      expect(identity).toEqual({ designation: 'A790', edition: 2014 });
+    });
+
+    it('should ignore a designation line for another spec', () => {
+      const identity = parseSpecIdentity('A790', 'ASTM-A790-A790M-24.pdf', 'Designation: A789/A789M − 13');
+
+      expect(identity).toEqual({ designation: 'A790', edition: 2024 });
+    });
+
+    it('should fall back to a standalone year in the filename', () => {
+      expect(parseSpecIdentity('A789', 'ASTM A789 Duplex Tubing 2013.pdf')).toEqual({ designation: 'A789', edition: 2013 });
+      expect(parseSpecIdentity('5CT', 'API 5CT Casing.pdf')).toEqual({ designation: '5CT', edition: null });
+    });
+  });
+
+  describe('parsePinnedEdition', () => {
+    it('should split a pinned code into spec and edition', () => {
+      expect(parsePinnedEdition('A790-14')).toEqual({ designation: 'A790', edition: 2014 });
+      expect(parsePinnedEdition('ASTM a790/2014')).toEqual({ designation: 'A790', edition: 2014 });
+    });
+
+    it('should return null when no edition is pinned', () => {
+      expect(parsePinnedEdition('ASTM A790')).toBeNull();
+    });
+  });
+
+  describe('linkEditions', () => {
+    it('should link each edition to the next-older one and the newest', () => {
+      const editions = linkEditions([
+        { documentId: 1, filename: 'A789-2013.pdf', designation: 'A789', edition: 2013 },
+        { documentId: 2, filename: 'A789-2014.pdf', designation: 'A789', edition: 2014 },
+        { documentId: 3, filename: 'A789-2019.pdf', designation: 'A789', edition: 2019 },
+      ]);
+
+      expect(editions.get(1)).toMatchObject({ supersedes: null, supersededBy: 3 });
+      expect(editions.get(2)).toMatchObject({ supersedes: 1, supersededBy: 3 });
+      expect(editions.get(3)).toMatchObject({ supersedes: 2, supersededBy: null });
+    });
+
+    it('should not link copies of one edition, other specs or undated documents', () => {
+      const editions = linkEditions([
+        { documentId: 1, filename: 'A790-14.pdf', designation: 'A790', edition: 2014 },
+        { documentId: 2, filename: 'A790-14 copy.pdf', designation: 'A790', edition: 2014 },
+        { documentId: 3, filename: 'A789-13.pdf', designation: 'A789', edition: 2013 },
+        { documentId: 4, filename: 'A790.pdf', designation: 'A790', edition: null },
+      ]);
+
+      for (const edition of editions.values()) {
+        expect(edition).toMatchObject({ supersedes: null, supersededBy: null });
+      }
+    });
+  });
+
+  describe('formatEdition', () => {
+    it('should label ASTM and API editions', () => {
+      expect(formatEdition({ designation: 'A790', edition: 2014 })).toBe('A790-14');
+      expect(formatEdition({ designation: '5CT', edition: 2018 })).toBe('API 5CT (2018)');
+      expect(formatEdition({ designation: 'A790', edition: null })).toBe('A790');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Specification Editions
+ *
+ * Gives each indexed document a spec identity — designation (A790, 5CT),
+ * edition year, and links to the editions it supersedes / is superseded by —
+ * so "ASTM A789 ... 2013.pdf" and "ASTM A789 ... 2014.pdf" are recognised as
+ * two editions of one spec rather than unrelated documents.
+ *
+ * Edition years come from the ASTM designation line on the first pages
+ * ("Designation: A790/A790M − 14"), falling back to the filename
+ * ("ASTM-A790-A790M-24.pdf", "... Tubing 2013.pdf").
+ *
+ * Pure functions only (no database access), so scripts can share them with
+ * the document mapper.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface SpecIdentity {
+  /** Spec code as used by the document mapper: "A790", "5CT" */
+  designation: string;
+  /** Four-digit edition year, or null if it couldn't be determined */
+  edition: number | null;
+}
+
+export interface SpecEdition extends SpecIdentity {
+  documentId: number;
+  filename: string;
+  /** Older edition of the same spec this document replaces */
+  supersedes: number | null;
+  /** Newest edition of the same spec, if this document isn't it */
+  supersededBy: number | null;
+}
+
+// ============================================
+// Patterns
+// ============================================
+
+/** "Designation: A790/A790M − 14" / "Designation: A789/A789M – 13a" */
+const DESIGNATION_LINE = /\bDesignation:\s*(A\d{3,4})(?:\/A\d{3,4}M)?\s*[−–-]\s*(\d{2}|\d{4})(?!\d)/i;
+
+/** "A790M-24", "A790-14", "A1049_2015" in a filename */
+const CODE_WITH_YEAR = /\b(?:ASTM[\s_-]*)?(A\d{3,4})M?[-_](\d{2}|\d{4})(?!\d)/i;
+
+/** A standalone year, not part of a longer number: "Tubing 2013.pdf" */
+const STANDALONE_YEAR = /(?<![A-Z\d])((?:19|20)\d{2})(?!\d)/i;
+
+/** "A790-14", "ASTM A790/2014" → spec code plus pinned edition */
+const PINNED_CODE = /^(?:ASTM\s*)?(A\d{3,4})[/-](\d{2}|\d{4})$/i;
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Expand a two-digit ASTM year suffix ("14" → 2014, "95" → 1995).
+ */
+export function normalizeEditionYear(year: string): number {
+  const value = parseInt(year, 10);
+  if (year.length === 4) return value;
+  return value < 50 ? 2000 + value : 1900 + value;
+}
+
+/**
+ * Derive a document's spec identity.
+ *
+ * @param designation - Primary spec code already extracted from the filename
+ * @param filename - Original filename
+ * @param content - Text from the first pages, if available
+ */
+export function parseSpecIdentity(designation: string, filename: string, content?: string): SpecIdentity {
+  const fromContent = content?.match(DESIGNATION_LINE);
+  if (fromContent && fromContent[1].toUpperCase() === designation) {
+    return { designation, edition: normalizeEditionYear(fromContent[2]) };
+  }
+
+  const withYear = filename.match(CODE_WITH_YEAR);
+  if (withYear && withYear[1].toUpperCase() === designation) {
+    return { designation, edition: normalizeEditionYear(withYear[2]) };
+  }
+
+  const year = filename.match(STANDALONE_YEAR);
+  return { designation, edition: year ? parseInt(year[1], 10) : null };
+}
+
+/**
+ * Split a query code into spec and pinned edition.
+ *
+ * @example
+ * parsePinnedEdition("A790-14")   // { designation: "A790", edition: 2014 }
+ * parsePinnedEdition("ASTM A790") // null (no edition pinned)
+ */
+export function parsePinnedEdition(code: string): SpecIdentity | null {
+  const match = code.trim().match(PINNED_CODE);
+  if (!match) return null;
+  return { designation: match[1].toUpperCase(), edition: normalizeEditionYear(match[2]) };
+}
+
+// ============================================
+// Edition Linking
+// ============================================
+
+/**
+ * Link editions of the same spec.
+ *
+ * Each document supersedes the next-older edition of its designation and is
+ * superseded by the newest one. Copies of the same edition don't supersede
+ * each other, and documents without an edition year are left unlinked.
+ */
+export function linkEditions(
+  documents: Array<SpecIdentity & { documentId: number; filename: string }>
+): Map<number, SpecEdition> {
+  const editions = new Map<number, SpecEdition>();
+  const byDesignation = new Map<string, SpecEdition[]>();
+
+  for (const doc of documents) {
+    const edition: SpecEdition = { ...doc, supersedes: null, supersededBy: null };
+    editions.set(doc.documentId, edition);
+    if (edition.edition === null) continue;
+
+    const group = byDesignation.get(doc.designation) ?? [];
+    group.push(edition);
+    byDesignation.set(doc.designation, group);
+  }
+
+  for (const group of byDesignation.values()) {
+    group.sort((a, b) => (b.edition ?? 0) - (a.edition ?? 0));
+    const latest = group[0];
+
+    for (const edition of group) {
+      if (edition.edition !== latest.edition) {
+        edition.supersededBy = latest.documentId;
+      }
+      const older = group.find(other => (other.edition ?? 0) < (edition.edition ?? 0));
+      edition.supersedes = older?.documentId ?? null;
+    }
+  }
+
+  return editions;
+}
+
+/**
+ * Human-readable edition label: "A790-14", "API 5CT (2018)", or just the code.
+ */
+export function formatEdition(identity: SpecIdentity): string {
+  const isAstm = /^A\d/.test(identity.designation);
+  const code = isAstm ? identity.designation : `API ${identity.designation}`;
+  if (identity.edition === null) return code;
+  return isAstm
+    ? `${code}-${String(identity.edition).slice(-2)}`
+    : `${code} (${identity.edition})`;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { extractSpecTables, parseSpecTable } from './spec-tables';
+
+function table(content: string, title?: string) {
+  return { content, pageNumber: 3, title, hasFootnotes: false };
+}
+
+describe('Spec Tables', () => {
+  describe('parseSpecTable', () => {
+    it('should split a pipe table into columns and rows', () => {
+      const parsed = parseSpecTable(
+        table(`TABLE 3 Tensile Requirements
+| UNS Designation | Tensile Strength, min, ksi [MPa] | Yield Strength, min, ksi [MPa] |
+|---|---|---|
+| S32205 | 95 [655] | 65 [450] |`),
+        'Untitled table 1'
+      );
+
+      expect(parsed).toMatchObject({
+        page_number: 3,
+        table_title: 'TABLE 3 Tensile Requirements',
+        columns: [
+          { value: 'UNS Designation' },
+          { value: 'Tensile Strength, min, ksi [MPa]' },
+          { value: 'Yield Strength, min, ksi [MPa]' },
+        ],
+        rows: [[{ value: 'S32205' }, { value: '95 [655]' }, { value: '65 [450]' }]],
+      });
+    });
+
+    it('should split whitespace-aligned columns on runs of spaces', () => {
+      const parsed = parseSpecTable(
+        table(`Element      S31803        S32205
+Carbon       0.030         0.030
+Chromium     21.0–23.0     22.0–23.0`),
+        'Untitled table 1'
+      );
+
+      expect(parsed!.columns.map((cell) => cell.value)).toEqual(['Element', 'S31803', 'S32205']);
+      expect(parsed!.rows.map((row) => row.map((cell) => cell.value))).toEqual([
+        ['Carbon', '0.030', '0.030'],
+        ['Chromium', '21.0–23.0', '22.0–23.0'],
+      ]);
+    });
+
+    it('should move footnote letters off values and headers', () => {
+      const parsed = parseSpecTable(
+        table(`Grade | Yield StrengthB, min | Carbon
+S32205 | 65 | 0.030A
+TP316L | 30ᶜ | 0.035`),
+        'Untitled table 1'
+      );
+
+      expect(parsed!.columns[1]).toEqual({ value: 'Yield Strength, min', footnote_refs: ['B'] });
+      expect(parsed!.rows[0][2]).toEqual({ value: '0.030', footnote_refs: ['A'] });
+      expect(parsed!.rows[1][0]).toEqual({ value: 'TP316L', footnote_refs: [] });
+      expect(parsed!.rows[1][1]).toEqual({ value: '30', footnote_refs: ['C'] });
+    });
+
+    it('should collect letter footnotes and notes', () => {
+      const parsed = parseSpecTable(
+        table(`Element | S32205
+Carbon | 0.030A
+A Maximum, unless a range is indicated.
+Note 1: Values apply to all wall thicknesses.`),
+        'Untitled table 1'
+      );
+
+      expect(parsed!.rows).toHaveLength(1);
+      expect(parsed!.footnotes).toEqual([
+        { ref: 'A', text: 'Maximum, unless a range is indicated.' },
+        { ref: 'Note 1', text: 'Values apply to all wall thicknesses.' },
+      ]);
+    });
+
+    it('should name columns the header does not cover', () => {
+      const parsed = parseSpecTable(table('S32205 | 65 | 95\nS32750 | 80 | 116'), 'Untitled table 1');
+
+      expect(parsed!.columns.map((cell) => cell.value)).toEqual(['Column 1', 'Column 2', 'Column 3']);
+      expect(parsed!.table_title).toBe('Untitled table 1');
+    });
+
+    it('should return null for prose without a tabular shape', () => {
+      const parsed = parseSpecTable(
+        table('Chromium and molybdenum improve pitting resistance.\nThe steel shall be solution annealed.'),
+        'Untitled table 1'
+      );
+
+      expect(parsed).toBeNull();
+    });
+  });
+
+  describe('extractSpecTables', () => {
+    it('should number tables that repeat a title on the same page', () => {
+      const part = `TABLE 1 Chemical Requirements
+Element | S32205 | S32750
+Carbon | 0.030 | 0.030
+Chromium | 22.0–23.0 | 24.0–26.0`;
+
+      const tables = extractSpecTables([`${part}\n\n${part}`]);
+
+      expect(tables.map((parsed) => parsed.table_title)).toEqual([
+        'TABLE 1 Chemical Requirements',
+        'TABLE 1 Chemical Requirements (2)',
+      ]);
+      expect(tables.every((parsed) => parsed.page_number === 1)).toBe(true);
+    });
+  });
+});
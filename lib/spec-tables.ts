@@ -0,0 +1,346 @@
+/**
+ * Structured Specification Tables
+ *
+ * Parses tables detected during semantic chunking into columns, rows and
+ * footnote references, and persists them to `spec_tables` keyed by document,
+ * page and table title (e.g. "Table 2 Tensile Requirements").
+ *
+ * Table chunks stay in the vector store for retrieval; this is the structured
+ * copy used as a source of truth for lookups and numeric grounding.
+ *
+ * PDF-extracted tables are whitespace-aligned, so cells are split on pipes,
+ * tabs, or runs of 2+ spaces. Footnote references are capital letters glued
+ * to a value or word ("0.030A", "Yield StrengthB, min") or superscript letters.
+ */
+
+import { supabase, supabaseAdmin } from "./supabase";
+import { currentWorkspaceId } from "./workspace";
+import { detectTables, type DetectedTable } from "./semantic-chunking";
+
+// ============================================
+// Types
+// ============================================
+
+export interface SpecTableCell {
+  value: string;
+  /** Footnote letters attached to the cell, e.g. ["A"] for "0.030A" */
+  footnote_refs: string[];
+}
+
+export interface SpecTableFootnote {
+  /** "A", "B", ... or "Note 1" */
+  ref: string;
+  text: string;
+}
+
+export interface SpecTable {
+  page_number: number;
+  table_title: string;
+  /** Header cells */
+  columns: SpecTableCell[];
+  /** Data rows, one array of cells per row */
+  rows: SpecTableCell[][];
+  footnotes: SpecTableFootnote[];
+  /** Original extracted text */
+  raw_content: string;
+}
+
+// ============================================
+// Patterns
+// ============================================
+
+const SUPERSCRIPT_REFS: Record<string, string> = {
+  "ᴬ": "A", "ᴮ": "B", "ᶜ": "C", "ᴰ": "D", "ᴱ": "E", "ᶠ": "F", "ᴳ": "G", "ᴴ": "H",
+};
+
+const TABLE_TITLE_LINE = /^TABLE\s+X?\d+(?:\.\d+)?\b/i;
+
+const SEPARATOR_LINE = /^[\s|:+-]+$/;
+
+/** "A Maximum, unless a range is indicated." / "ᴬ ..." */
+const LETTER_FOOTNOTE_LINE = /^([A-H]|[ᴬᴮᶜᴰᴱᶠᴳᴴ])\s+([A-Za-z(].{9,})$/;
+
+/** "Note 1: ..." / "NOTE—..." */
+const NOTE_LINE = /^Note\s*(\d*)\s*[:.—-]?\s+(.+)$/i;
+
+/**
+ * Footnote letters glued to a word, %, or bracket: "Yield StrengthA, min", "%B".
+ * Integers are excluded so grade suffixes like "316L" and "304H" survive.
+ */
+const WORD_REFS = /([a-z%)\]])([A-H])(?=[,;\s]|$)/g;
+
+/** Footnote letters after a decimal value: "0.030A" */
+const DECIMAL_REFS = /(\d\.\d+)([A-H]{1,2})$/;
+
+/** Rows that start with a UNS number, grade, spec code or number are data */
+const DATA_ROW_START = /^(?:[SNCGHJKWRT]\d{5}|F\d{2,3}|TP\s?\d{3}|[A-Z]\d{3,4}\b|\d+(?:\.\d+)?)/;
+
+const NUMERIC_CELL = /^[<>≤≥]?\s*\d+(?:\.\d+)?(?:\s*[-–]\s*\d+(?:\.\d+)?)?\s*%?$/;
+
+// ============================================
+// Parsing
+// ============================================
+
+function splitCells(line: string): string[] {
+  if (line.includes("|")) {
+    const cells = line.split("|").map(c => c.trim());
+    // Drop empty edges from "| a | b |"
+    if (cells[0] === "") cells.shift();
+    if (cells[cells.length - 1] === "") cells.pop();
+    return cells;
+  }
+  if (line.includes("\t")) {
+    return line.split("\t").map(c => c.trim()).filter(Boolean);
+  }
+  return line.trim().split(/\s{2,}/).filter(Boolean);
+}
+
+function parseCell(raw: string): SpecTableCell {
+  const footnote_refs: string[] = [];
+  let value = raw.replace(/[ᴬᴮᶜᴰᴱᶠᴳᴴ]/g, (sup) => {
+    footnote_refs.push(SUPERSCRIPT_REFS[sup]);
+    return "";
+  }).trim();
+
+  value = value
+    .replace(WORD_REFS, (_, preceding: string, ref: string) => {
+      footnote_refs.push(ref);
+      return preceding;
+    })
+    .replace(DECIMAL_REFS, (_, decimal: string, refs: string) => {
+      footnote_refs.push(...refs.split(""));
+      return decimal;
+    });
+
+  return { value: value.trim(), footnote_refs };
+}
+
+function isDataRow(cells: string[]): boolean {
+  if (cells.length === 0) return false;
+  if (DATA_ROW_START.test(cells[0])) return true;
+  // Row label followed by numbers, e.g. "Carbon  0.030  0.030"
+  return cells.slice(1).some(cell => NUMERIC_CELL.test(parseCell(cell).value));
+}
+
+/**
+ * Parse one detected table into columns, rows and footnotes.
+ * Returns null for paragraphs that were flagged as tables but don't have a
+ * tabular shape (e.g. prose that mentions "Chromium").
+ */
+export function parseSpecTable(table: DetectedTable, fallbackTitle: string): SpecTable | null {
+  const headerLines: string[][] = [];
+  const rows: SpecTableCell[][] = [];
+  const footnotes: SpecTableFootnote[] = [];
+  let title = table.title;
+
+  for (const rawLine of table.content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || SEPARATOR_LINE.test(line)) continue;
+
+    if (TABLE_TITLE_LINE.test(line)) {
+      title ??= line;
+      continue;
+    }
+
+    const letterNote = line.match(LETTER_FOOTNOTE_LINE);
+    if (letterNote && rows.length > 0) {
+      footnotes.push({ ref: SUPERSCRIPT_REFS[letterNote[1]] ?? letterNote[1], text: letterNote[2].trim() });
+      continue;
+    }
+    const note = line.match(NOTE_LINE);
+    if (note) {
+      footnotes.push({ ref: note[1] ? `Note ${note[1]}` : "Note", text: note[2].trim() });
+      continue;
+    }
+
+    const cells = splitCells(line);
+    if (rows.length === 0 && !isDataRow(cells)) {
+      headerLines.push(cells);
+    } else {
+      rows.push(cells.map(parseCell));
+    }
+  }
+
+  // Need real columns: most rows must split into 2+ cells
+  const multiCellRows = rows.filter(r => r.length >= 2).length;
+  if (rows.length === 0 || multiCellRows < Math.max(1, rows.length * 0.5)) {
+    return null;
+  }
+
+  // Widest header line is the column header; multi-line headers are common in PDFs
+  const headerCells = headerLines.reduce<string[]>(
+    (widest, cells) => (cells.length > widest.length ? cells : widest),
+    []
+  );
+  const columnCount = Math.max(headerCells.length, ...rows.map(r => r.length));
+  const columns = Array.from({ length: columnCount }, (_, i) =>
+    headerCells[i] ? parseCell(headerCells[i]) : { value: `Column ${i + 1}`, footnote_refs: [] }
+  );
+
+  return {
+    page_number: table.pageNumber,
+    table_title: (title ?? fallbackTitle).replace(/\s+/g, " ").trim(),
+    columns,
+    rows,
+    footnotes,
+    raw_content: table.content,
+  };
+}
+
+/**
+ * Detect and parse all tables in a document.
+ * Titles are made unique per page so (document, page, title) is a stable key.
+ */
+export function extractSpecTables(pageTexts: string[]): SpecTable[] {
+  const tables: SpecTable[] = [];
+  const untitledPerPage = new Map<number, number>();
+
+  for (const detected of detectTables(pageTexts)) {
+    const untitledIndex = (untitledPerPage.get(detected.pageNumber) ?? 0) + 1;
+    const parsed = parseSpecTable(detected, `Untitled table ${untitledIndex}`);
+    if (!parsed) continue;
+    if (parsed.table_title.startsWith("Untitled table")) {
+      untitledPerPage.set(detected.pageNumber, untitledIndex);
+    }
+
+    // A table split across paragraphs repeats its title — keep each part
+    const sameKey = tables.filter(
+      t => t.page_number === parsed.page_number && t.table_title.replace(/ \(\d+\)$/, "") === parsed.table_title
+    ).length;
+    if (sameKey > 0) {
+      parsed.table_title = `${parsed.table_title} (${sameKey + 1})`;
+    }
+
+    tables.push(parsed);
+  }
+
+  return tables;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * spec_tables is service-role only and has no workspace column, so writes
+ * check that the document is in the current workspace first.
+ */
+async function assertWorkspaceDocument(documentId: number): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("documents")
+    .select("id")
+    .eq("id", documentId)
+    .eq("workspace_id", currentWorkspaceId())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error checking spec table document:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+  if (!data) {
+    throw new Error(`Document ${documentId} not found in the current workspace`);
+  }
+}
+
+/**
+ * Upsert a document's parsed tables. Re-processing a document replaces
+ * tables with the same (page, title) key.
+ */
+export async function storeSpecTables(documentId: number, tables: SpecTable[]): Promise<void> {
+  if (tables.length === 0) return;
+  await assertWorkspaceDocument(documentId);
+
+  const { error } = await supabaseAdmin
+    .from("spec_tables")
+    .upsert(
+      tables.map(table => ({ document_id: documentId, ...table })),
+      { onConflict: "document_id,page_number,table_title" }
+    );
+
+  if (error) {
+    console.error("Error storing spec tables:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+}
+
+/**
+ * Delete a document's tables before re-processing stores new ones.
+ */
+export async function deleteSpecTables(documentId: number): Promise<void> {
+  await assertWorkspaceDocument(documentId);
+
+  const { error } = await supabaseAdmin.from("spec_tables").delete().eq("document_id", documentId);
+
+  if (error) {
+    console.error("Error deleting spec tables:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+}
+
+/** A stored table with the document it came from */
+export interface StoredSpecTable extends SpecTable {
+  document_id: number;
+}
+
+/**
+ * Load structured tables for the given documents, in page order.
+ * Documents outside the current workspace are ignored.
+ */
+export async function getSpecTables(documentIds: number[]): Promise<StoredSpecTable[]> {
+  if (documentIds.length === 0) return [];
+
+  // spec_tables has no workspace column; scope through the parent document
+  // (empty inner embed: filters rows without returning document columns)
+  const { data, error } = await supabaseAdmin
+    .from("spec_tables")
+    .select("document_id, page_number, table_title, columns, rows, footnotes, raw_content, documents!inner()")
+    .in("document_id", documentIds)
+    .eq("documents.workspace_id", currentWorkspaceId())
+    .order("page_number", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching spec tables:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+
+  return (data ?? []) as StoredSpecTable[];
+}
+
+/** A stored table, with chunk offsets when it was parsed from a table chunk */
+export interface LoadedSpecTable extends StoredSpecTable {
+  char_offset_start?: number;
+  char_offset_end?: number;
+}
+
+/**
+ * Structured tables for the documents, falling back to parsing table chunks
+ * for documents ingested before spec_tables existed.
+ */
+export async function loadSpecTables(documentIds: number[]): Promise<LoadedSpecTable[]> {
+  try {
+    const stored = await getSpecTables(documentIds);
+    if (stored.length > 0) return stored;
+  } catch {
+    // spec_tables not migrated yet — fall back to table chunks
+  }
+
+  const { data, error } = await supabase
+    .from("chunks")
+    .select("document_id, content, page_number, section_title, char_offset_start, char_offset_end")
+    .in("document_id", documentIds)
+    .eq("workspace_id", currentWorkspaceId())
+    .eq("chunk_type", "table")
+    .order("page_number", { ascending: true });
+
+  if (error || !data) return [];
+
+  return data.flatMap((chunk) => {
+    const table = parseSpecTable(
+      { content: chunk.content, pageNumber: chunk.page_number, title: chunk.section_title ?? undefined, hasFootnotes: false },
+      `Table on page ${chunk.page_number}`
+    );
+    return table
+      ? [{ document_id: chunk.document_id, ...table, char_offset_start: chunk.char_offset_start, char_offset_end: chunk.char_offset_end }]
+      : [];
+  });
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { tryStructuredLookup } from './structured-lookup';
+import { extractSpecTables, loadSpecTables } from './spec-tables';
+import { resolveSpecsToDocuments } from './document-mapper';
+import { A790_TENSILE } from '../tests/helpers/spec-fixtures';
+
+vi.mock('./document-mapper', () => ({
+  resolveSpecsToDocuments: vi.fn(),
+}));
+
+vi.mock('./spec-tables', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./spec-tables')>()),
+  loadSpecTables: vi.fn(),
+}));
+
+const A790_CHEMISTRY = `TABLE 1 Chemical Requirements
+Element | S32205 | S32750
+Carbon | 0.030A | 0.030
+Chromium | 22.0–23.0 | 24.0–26.0
+A Maximum, unless a range is indicated.`;
+
+/** Serve the given page texts as the spec's parsed tables */
+function mockTables(...pages: string[]) {
+  const tables = extractSpecTables(pages).map((table) => ({ ...table, id: 1, document_id: 7 }));
+  vi.mocked(loadSpecTables).mockResolvedValue(tables as never);
+}
+
+describe('Structured Lookup', () => {
+  beforeEach(() => {
+    vi.mocked(resolveSpecsToDocuments).mockResolvedValue([7]);
+    vi.mocked(loadSpecTables).mockReset();
+  });
+
+  describe('query parsing', () => {
+    it('should fall through for comparisons and multi-property questions', async () => {
+      mockTables(A790_TENSILE);
+
+      expect(await tryStructuredLookup('Compare yield of S32205 and S32750 per A790')).toBeNull();
+      expect(await tryStructuredLookup('Yield and tensile strength of S32205 per A790')).toBeNull();
+      expect(await tryStructuredLookup('What is the yield strength of S32205?')).toBeNull();
+    });
+  });
+
+  describe('grade rows', () => {
+    it('should attach both header units to a dual-unit value', async () => {
+      mockTables(A790_TENSILE);
+
+      const answer = await tryStructuredLookup('What is the minimum yield strength of S32205 per A790?');
+
+      expect(answer).toMatchObject({ document_id: 7, page_number: 1, table_title: 'TABLE 3 Tensile and Hardness Requirements' });
+      expect(answer!.response).toContain('the minimum yield strength of S32205 is **65 ksi** (450 MPa)');
+      expect(answer!.content_preview).toContain('S32205 | 95 [655] | 65 [450]');
+    });
+
+    it('should convert a dual-unit value to the preferred unit system', async () => {
+      mockTables(A790_TENSILE);
+
+      const answer = await tryStructuredLookup('What is the yield strength of S32750 per A790?', undefined, 'si');
+
+      expect(answer!.response).toContain('is **550 MPa**');
+    });
+
+    it('should fall through when the header does not say which number is which', async () => {
+      mockTables(`TABLE 3 Tensile Requirements
+UNS Designation | Tensile Strength, min | Yield Strength, min
+S32205 | 95 [655] | 65 [450]`);
+
+      expect(await tryStructuredLookup('What is the yield strength of S32205 per A790?')).toBeNull();
+    });
+
+    it('should add single units from the header', async () => {
+      mockTables(A790_TENSILE);
+
+      const elongation = await tryStructuredLookup('What is the elongation of S32205 per A790?');
+      const hardness = await tryStructuredLookup('What is the hardness of S32750 per A790?');
+
+      expect(elongation!.response).toContain('is **25%**');
+      expect(hardness!.response).toContain('the maximum hardness of S32750 is **310 HBW**');
+    });
+  });
+
+  describe('grade columns', () => {
+    it('should read an element row under the grade column, with its footnote', async () => {
+      mockTables(A790_CHEMISTRY);
+
+      const answer = await tryStructuredLookup('What is the carbon content of S32205 per A790?');
+
+      expect(answer!.response).toContain('the carbon content of S32205 is **0.030%**');
+      expect(answer!.response).toContain('Note A: Maximum, unless a range is indicated.');
+    });
+  });
+
+  describe('ambiguity', () => {
+    it('should fall through when tables disagree', async () => {
+      mockTables(A790_TENSILE, A790_TENSILE.replace('65 [450]', '70 [485]'));
+
+      expect(await tryStructuredLookup('What is the yield strength of S32205 per A790?')).toBeNull();
+    });
+
+    it('should fall through when no table has the grade', async () => {
+      mockTables(A790_TENSILE);
+
+      expect(await tryStructuredLookup('What is the yield strength of S31803 per A790?')).toBeNull();
+    });
+  });
+});
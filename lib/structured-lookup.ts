@@ -0,0 +1,326 @@
+/**
+ * Structured Lookup Fast Path
+ *
+ * Answers "property of grade per spec" questions ("minimum yield of S32205
+ * per A790") straight from parsed specification tables, skipping the LLM and
+ * regeneration loop.
+ *
+ * Runs only when the query names exactly one grade (UNS or common name), one
+ * spec, and one recognised property. The spec is resolved to documents via
+ * the document mapper, the value is read from the matching row/column of a
+ * structured table (spec_tables, or table chunks parsed on the fly for
+ * documents ingested before spec_tables existed), and a templated answer is
+ * returned with exact page and table provenance.
+ *
+ * Returns null whenever the answer isn't unambiguous — no table, no matching
+ * row, misaligned columns, or tables that disagree — so the caller falls
+ * through to the normal pipeline.
+ */
+
+import { preprocessQuery } from "./query-preprocessing";
+import { resolveSpecsToDocuments } from "./document-mapper";
+import { loadSpecTables, type SpecTable, type SpecTableCell } from "./spec-tables";
+import { isDualCell, normalizeUnit, presentQuantity, splitDualCell, type UnitSystem } from "./units";
+
+// ============================================
+// Types
+// ============================================
+
+export interface StructuredLookupAnswer {
+  /** Templated answer citing [1] */
+  response: string;
+  document_id: number;
+  page_number: number;
+  table_title: string;
+  /** Citation preview: table title and the matched row */
+  content_preview: string;
+  /** Offsets of the table chunk, when the value came from a chunk */
+  char_offset_start?: number;
+  char_offset_end?: number;
+}
+
+interface PropertyDefinition {
+  /** Wording used in the answer */
+  name: string;
+  /** Does the query ask for this property? */
+  query: RegExp;
+  /** Does a column header (or row label) hold this property? */
+  header: (text: string) => boolean;
+  /** Unit when the header doesn't state one (chemical tables are weight %) */
+  defaultUnit?: string;
+}
+
+interface CandidateTable {
+  document_id: number;
+  table: SpecTable;
+  char_offset_start?: number;
+  char_offset_end?: number;
+}
+
+interface TableHit {
+  candidate: CandidateTable;
+  /** Matched values with their units, e.g. ["65 ksi", "450 MPa"] */
+  values: string[];
+  qualifier: "minimum" | "maximum" | null;
+  row: SpecTableCell[];
+  footnoteRefs: string[];
+}
+
+// ============================================
+// Property Definitions
+// ============================================
+
+const ELEMENTS: Array<[name: string, symbol: string]> = [
+  ["carbon", "C"], ["manganese", "Mn"], ["phosphorus", "P"], ["sulfur", "S"],
+  ["silicon", "Si"], ["chromium", "Cr"], ["nickel", "Ni"], ["molybdenum", "Mo"],
+  ["nitrogen", "N"], ["copper", "Cu"], ["tungsten", "W"],
+];
+
+const PROPERTIES: PropertyDefinition[] = [
+  {
+    name: "yield strength",
+    query: /\byield\b/i,
+    header: (text) => /\byield\b/i.test(text),
+  },
+  {
+    name: "tensile strength",
+    query: /\btensile\s+strength\b|\bUTS\b/i,
+    header: (text) => /\btensile\b/i.test(text),
+  },
+  {
+    name: "elongation",
+    query: /\belongation\b/i,
+    header: (text) => /\belongation\b/i.test(text),
+  },
+  {
+    name: "hardness",
+    query: /\bhardness\b/i,
+    header: (text) => /\bhardness\b|\bHRC\b|\bHBW?\b|\bHV\b/i.test(text),
+  },
+  ...ELEMENTS.map(([name, symbol]): PropertyDefinition => ({
+    name: `${name} content`,
+    query: new RegExp(`\\b${name}\\b`, "i"),
+    // Symbols must match exactly so "C" doesn't match "Cr"
+    header: (text) => new RegExp(`^${name}\\b`, "i").test(text.trim()) || text.trim() === symbol,
+    defaultUnit: "%",
+  })),
+];
+
+const UNIT_PATTERNS: Array<[RegExp, string]> = [
+  [/\bksi\b/i, "ksi"],
+  [/\bMPa\b/i, "MPa"],
+  [/\bHRC\b/i, "HRC"],
+  [/\bHBW?\b/i, "HBW"],
+  [/\bHV\b/i, "HV"],
+  [/%/, "%"],
+];
+
+// ============================================
+// Query Parsing
+// ============================================
+
+/**
+ * Extract (grade, spec, property) if the query is a single-value lookup.
+ */
+function parseLookupQuery(query: string) {
+  const { extractedCodes } = preprocessQuery(query);
+
+  const grades = [...(extractedCodes.uns ?? []), ...(extractedCodes.grade ?? [])];
+  const specs = [
+    ...(extractedCodes.astm ?? []).map(code => `ASTM ${code.replace(/^ASTM\s*/, "")}`),
+    ...(extractedCodes.api ?? []).map(code => `API ${code}`),
+  ];
+  const properties = PROPERTIES.filter(p => p.query.test(query));
+
+  // Comparisons and multi-property questions need the full pipeline.
+  // A UNS number plus its common name ("S32205 (2205)") is still one grade.
+  const unsCount = extractedCodes.uns?.length ?? 0;
+  const isSingleGrade = unsCount === 1 || (unsCount === 0 && grades.length === 1);
+  if (!isSingleGrade || specs.length !== 1 || properties.length !== 1) {
+    return null;
+  }
+
+  return { codes: extractedCodes, grades, spec: specs[0], property: properties[0] };
+}
+
+// ============================================
+// Table Matching
+// ============================================
+
+function cellMatchesGrade(cell: string, grades: string[]): boolean {
+  const normalized = cell.toUpperCase().replace(/\s+/g, "");
+  return grades.some(grade => new RegExp(`\\b${grade}\\b`).test(normalized));
+}
+
+function unitOf(header: string): string | null {
+  for (const [pattern, unit] of UNIT_PATTERNS) {
+    if (pattern.test(header)) return unit;
+  }
+  return null;
+}
+
+function qualifierOf(text: string): TableHit["qualifier"] {
+  if (/\bmin(?:imum)?\b/i.test(text)) return "minimum";
+  if (/\bmax(?:imum)?\b/i.test(text)) return "maximum";
+  return null;
+}
+
+/**
+ * Format a cell with the unit from its header. A dual-unit cell ("65 [450]"
+ * under "ksi [MPa]") gives both values in the header's order; one whose
+ * header doesn't name both units gives none, since either number could be
+ * the ksi one.
+ */
+function formatValues(cell: SpecTableCell, header: string, defaultUnit?: string): string[] {
+  if (!/\d/.test(cell.value)) return [];
+  if (isDualCell(cell.value)) return splitDualCell(cell.value, header) ?? [];
+
+  const unit = unitOf(header) ?? defaultUnit;
+  if (!unit || cell.value.includes(unit)) return [cell.value];
+  return [unit === "%" ? `${cell.value}%` : `${cell.value} ${unit}`];
+}
+
+/**
+ * Format the matched values for the answer.
+ *
+ * Without a unit preference the first value leads and the rest follow in
+ * parentheses, as printed. With one, convertible values (ksi/MPa, °F/°C)
+ * are shown in the preferred system.
+ */
+function presentValues(values: string[], units?: UnitSystem): string {
+  const [primary, ...alternates] = values;
+  const asPrinted = `**${primary}**${alternates.length > 0 ? ` (${alternates.join(", ")})` : ""}`;
+  if (!units) return asPrinted;
+
+  const quantities = values.map(value => value.match(/^(\d+(?:\.\d+)?)\s*(\S+)$/));
+  if (!quantities.every(match => match && normalizeUnit(match[2]))) return asPrinted;
+
+  const presented = presentQuantity(quantities.map(match => ({ value: parseFloat(match![1]), unit: match![2] })), units);
+  return presented ? `**${presented}**` : asPrinted;
+}
+
+/**
+ * Find the property value for a grade in one table.
+ * Handles both layouts: grades as rows (property columns) and grades as
+ * columns (property rows, common in chemical tables).
+ */
+function matchTable(candidate: CandidateTable, grades: string[], property: PropertyDefinition): TableHit | null {
+  const { columns, rows } = candidate.table;
+
+  // Only trust rows whose cells line up with the header
+  const alignedRows = rows.filter(row => row.length === columns.length);
+
+  // Layout 1: grade in a row, property in a column
+  const propertyColumns = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => property.header(column.value));
+
+  if (propertyColumns.length > 0) {
+    for (const row of alignedRows) {
+      if (!row.some(cell => cellMatchesGrade(cell.value, grades))) continue;
+
+      const values = propertyColumns.flatMap(({ column, index }) => formatValues(row[index], column.value, property.defaultUnit));
+      if (values.length === 0) continue;
+
+      return {
+        candidate,
+        values,
+        qualifier: qualifierOf(propertyColumns.map(({ column }) => column.value).join(" ")),
+        row,
+        footnoteRefs: propertyColumns.flatMap(({ column, index }) => [...column.footnote_refs, ...row[index].footnote_refs]),
+      };
+    }
+  }
+
+  // Layout 2: property in a row label, grade in a column
+  const gradeColumn = columns.findIndex(column => cellMatchesGrade(column.value, grades));
+  if (gradeColumn > 0) {
+    for (const row of alignedRows) {
+      if (!property.header(row[0].value)) continue;
+
+      const values = formatValues(row[gradeColumn], row[0].value, property.defaultUnit);
+      if (values.length === 0) continue;
+
+      return {
+        candidate,
+        values,
+        qualifier: qualifierOf(row[0].value),
+        row,
+        footnoteRefs: [...row[0].footnote_refs, ...row[gradeColumn].footnote_refs, ...columns[gradeColumn].footnote_refs],
+      };
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Main Entry Point
+// ============================================
+
+/**
+ * Try to answer a "property of grade per spec" query from structured tables.
+ *
+ * @param query - The user's (standalone) query
+ * @param documentId - Restrict to an uploaded document instead of resolving the spec
+ * @param units - Unit system to report the value in (as printed if omitted)
+ * @returns A cited answer, or null to fall through to the RAG pipeline
+ */
+export async function tryStructuredLookup(
+  query: string,
+  documentId?: number,
+  units?: UnitSystem
+): Promise<StructuredLookupAnswer | null> {
+  const lookup = parseLookupQuery(query);
+  if (!lookup) return null;
+
+  const documentIds = documentId ? [documentId] : await resolveSpecsToDocuments(lookup.codes, query);
+  if (!documentIds || documentIds.length === 0) return null;
+
+  const candidates: CandidateTable[] = (await loadSpecTables(documentIds)).map(
+    ({ document_id, char_offset_start, char_offset_end, ...table }) => ({ document_id, table, char_offset_start, char_offset_end })
+  );
+  const hits = candidates
+    .map(candidate => matchTable(candidate, lookup.grades, lookup.property))
+    .filter((hit): hit is TableHit => hit !== null);
+
+  if (hits.length === 0) {
+    console.log(`[Structured Lookup] No table value for ${lookup.property.name} of ${lookup.grades[0]} in ${lookup.spec}`);
+    return null;
+  }
+
+  // Tables that disagree (e.g. product forms with different minimums) need the LLM
+  const distinctValues = new Set(hits.map(hit => hit.values.join(" / ")));
+  if (distinctValues.size > 1) {
+    console.log(`[Structured Lookup] Ambiguous: ${[...distinctValues].join(" vs ")} — falling through`);
+    return null;
+  }
+
+  const hit = hits[0];
+  const { table } = hit.candidate;
+  const grade = lookup.grades[0];
+  const qualifier = hit.qualifier ? `${hit.qualifier} ` : "";
+
+  const lines = [
+    `Per ${lookup.spec} [1], the ${qualifier}${lookup.property.name} of ${grade} is ${presentValues(hit.values, units)}.`,
+    "",
+    `Source: ${table.table_title}, page ${table.page_number}.`,
+  ];
+
+  const refs = [...new Set(hit.footnoteRefs)];
+  for (const footnote of table.footnotes.filter(f => refs.includes(f.ref))) {
+    lines.push(`Note ${footnote.ref}: ${footnote.text}`);
+  }
+
+  console.log(`[Structured Lookup] ${lookup.property.name} of ${grade} per ${lookup.spec} = ${hit.values.join(" / ")} (${table.table_title}, p.${table.page_number})`);
+
+  return {
+    response: lines.join("\n"),
+    document_id: hit.candidate.document_id,
+    page_number: table.page_number,
+    table_title: table.table_title,
+    content_preview: `${table.table_title}: ${hit.row.map(cell => cell.value).join(" | ")}`,
+    char_offset_start: hit.candidate.char_offset_start,
+    char_offset_end: hit.candidate.char_offset_end,
+  };
+}
@@ -23,6 +23,36 @@ export const supabase = {
   get rpc() { return getSupabase().rpc.bind(getSupabase()); },
 };
 
+let supabaseAdminInstance: SupabaseClient | null = null;
+
+/**
+ * Service-role client, for the RPCs that are not granted to anon (search,
+ * quotas, usage logging). It bypasses RLS, so callers pass the workspace from
+ * lib/workspace.ts themselves. Server-only: the key has no NEXT_PUBLIC_
+ * prefix and never reaches the browser.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!supabaseAdminInstance) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Missing Supabase service role environment variables');
+    }
+
+    supabaseAdminInstance = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return supabaseAdminInstance;
+}
+
+export const supabaseAdmin = {
+  get storage() { return getSupabaseAdmin().storage; },
+  get from() { return getSupabaseAdmin().from.bind(getSupabaseAdmin()); },
+  get rpc() { return getSupabaseAdmin().rpc.bind(getSupabaseAdmin()); },
+};
+
 export interface Lead {
   id?: string;
   first_name: string;
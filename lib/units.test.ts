@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertUnit,
+  extractQuantities,
+  isDualCell,
+  isEquivalent,
+  normalizeUnit,
+  presentQuantity,
+  splitDualCell,
+} from './units';
+
+describe('Units', () => {
+  describe('normalizeUnit', () => {
+    it('should map written units to canonical form', () => {
+      expect(normalizeUnit('KSI')).toBe('ksi');
+      expect(normalizeUnit('º F')).toBe('°F');
+      expect(normalizeUnit('inches')).toBe('in.');
+      expect(normalizeUnit('ft-lbf')).toBe('ft·lbf');
+      expect(normalizeUnit('HRC')).toBeNull();
+    });
+  });
+
+  describe('convertUnit', () => {
+    it('should convert within a dimension', () => {
+      expect(convertUnit(65, 'ksi', 'MPa')).toBeCloseTo(448.16, 1);
+      expect(convertUnit(1900, '°F', '°C')).toBeCloseTo(1037.78, 1);
+      expect(convertUnit(0.5, 'in', 'mm')).toBeCloseTo(12.7, 5);
+    });
+
+    it('should return null across dimensions or for unknown units', () => {
+      expect(convertUnit(65, 'ksi', 'mm')).toBeNull();
+      expect(convertUnit(25, 'HRC', 'HBW')).toBeNull();
+    });
+  });
+
+  describe('isEquivalent', () => {
+    it('should accept the rounding specs apply to SI values', () => {
+      expect(isEquivalent({ value: 65, unit: 'ksi' }, { value: 450, unit: 'MPa' })).toBe(true);
+      expect(isEquivalent({ value: 1900, unit: '°F' }, { value: 1040, unit: '°C' })).toBe(true);
+    });
+
+    it('should reject different limits', () => {
+      expect(isEquivalent({ value: 65, unit: 'ksi' }, { value: 485, unit: 'MPa' })).toBe(false);
+      expect(isEquivalent({ value: 65, unit: 'ksi' }, { value: 65, unit: 'mm' })).toBe(false);
+    });
+  });
+
+  describe('extractQuantities', () => {
+    it('should read bare table pairs using the dual header', () => {
+      const quantities = extractQuantities('Grade | Yield Strength, min, ksi [MPa]\nS32205 | 65 [450]');
+
+      expect(quantities.map(({ value, unit }) => ({ value, unit }))).toEqual([
+        { value: 65, unit: 'ksi' },
+        { value: 450, unit: 'MPa' },
+      ]);
+    });
+
+    it('should leave bare pairs alone when headers disagree', () => {
+      const quantities = extractQuantities('Strength, ksi [MPa] | Temperature, °F [°C]\n65 [450] | 1900 [1040]');
+
+      expect(quantities).toEqual([]);
+    });
+  });
+
+  describe('splitDualCell', () => {
+    it('should label each side with the header units', () => {
+      expect(isDualCell(' 65 [450] ')).toBe(true);
+      expect(splitDualCell('65 [450]', 'Yield Strength, min, ksi [MPa]')).toEqual(['65 ksi', '450 MPa']);
+      expect(splitDualCell('1,900 [1,040]', 'Temperature, °F [°C]')).toEqual(['1900 °F', '1040 °C']);
+    });
+
+    it('should return null when the header does not name both units', () => {
+      expect(splitDualCell('65 [450]', 'Yield Strength, min, ksi')).toBeNull();
+      expect(splitDualCell('65 [450]', 'Yield Strength, ksi [mm]')).toBeNull();
+      expect(splitDualCell('65', 'Yield Strength, min, ksi [MPa]')).toBeNull();
+    });
+  });
+
+  describe('presentQuantity', () => {
+    it('should prefer printed values and mark conversions', () => {
+      const printed = [{ value: 65, unit: 'ksi' }, { value: 450, unit: 'MPa' }];
+
+      expect(presentQuantity(printed, 'both')).toBe('65 ksi [450 MPa]');
+      expect(presentQuantity(printed, 'si')).toBe('450 MPa');
+      expect(presentQuantity([{ value: 65, unit: 'ksi' }], 'si')).toBe('≈448 MPa');
+      expect(presentQuantity([{ value: 1040, unit: '°C' }], 'both')).toBe('1040 °C [≈1900 °F]');
+    });
+
+    it('should return null without a convertible unit', () => {
+      expect(presentQuantity([{ value: 25, unit: 'HRC' }], 'si')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Units & Dual-Unit Notation
+ *
+ * ASTM specs come in combined inch-pound/SI editions (A790/A790M) that print
+ * every limit twice: "65 ksi [450 MPa]", "1900 °F [1040 °C]", "0.500 in.
+ * [12.7 mm]". Tables put the units in the header ("Yield Strength, min,
+ * ksi [MPa]") and the values as "65 [450]".
+ *
+ * This module converts between the two systems, reads both notations out of
+ * spec text, and formats values for a user's unit preference. SI values in
+ * specs are rounded (65 ksi = 448.2 MPa is printed as 450 MPa), so
+ * equivalence is checked with a rounding tolerance, not exact equality.
+ */
+
+import { extractNumericalValues } from "./structured-output";
+
+// ============================================
+// Types
+// ============================================
+
+/** Per-request preference for how values are reported */
+export type UnitSystem = "imperial" | "si" | "both";
+
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ["imperial", "si", "both"];
+
+type Dimension = "stress" | "temperature" | "length" | "energy";
+
+export interface Quantity {
+  value: number;
+  /** Canonical unit: "ksi", "MPa", "°F", "in.", ... */
+  unit: string;
+  /** Text the value was read from */
+  original: string;
+}
+
+interface UnitDefinition {
+  dimension: Dimension;
+  system: Exclude<UnitSystem, "both">;
+  /** Convert to the dimension's SI base unit (MPa, °C, mm, J) */
+  toBase: (value: number) => number;
+  fromBase: (value: number) => number;
+  /** Unit in the other system used for dual notation */
+  counterpart: string;
+}
+
+// ============================================
+// Unit Table
+// ============================================
+
+const UNITS: Record<string, UnitDefinition> = {
+  "ksi": { dimension: "stress", system: "imperial", toBase: v => v * 6.894757, fromBase: v => v / 6.894757, counterpart: "MPa" },
+  "psi": { dimension: "stress", system: "imperial", toBase: v => v * 0.006894757, fromBase: v => v / 0.006894757, counterpart: "MPa" },
+  "MPa": { dimension: "stress", system: "si", toBase: v => v, fromBase: v => v, counterpart: "ksi" },
+  "°F": { dimension: "temperature", system: "imperial", toBase: v => (v - 32) * 5 / 9, fromBase: v => v * 9 / 5 + 32, counterpart: "°C" },
+  "°C": { dimension: "temperature", system: "si", toBase: v => v, fromBase: v => v, counterpart: "°F" },
+  "in.": { dimension: "length", system: "imperial", toBase: v => v * 25.4, fromBase: v => v / 25.4, counterpart: "mm" },
+  "mm": { dimension: "length", system: "si", toBase: v => v, fromBase: v => v, counterpart: "in." },
+  "ft·lbf": { dimension: "energy", system: "imperial", toBase: v => v * 1.355818, fromBase: v => v / 1.355818, counterpart: "J" },
+  "J": { dimension: "energy", system: "si", toBase: v => v, fromBase: v => v, counterpart: "ft·lbf" },
+};
+
+/** Relative tolerance for rounded conversions (ASTM rounds SI stresses to 5 MPa) */
+const CONVERSION_TOLERANCE = 0.02;
+
+/** Absolute tolerance for temperatures near zero, in degrees */
+const TEMPERATURE_TOLERANCE = 3;
+
+const UNIT_PATTERN = String.raw`ksi|MPa|psi|°\s?[FC]|in\.?|mm|ft[·-]?lbf?|J`;
+
+/** Header unit pair in dual notation: "ksi [MPa]", "°F [°C]", "in. [mm]" */
+const DUAL_HEADER = new RegExp(String.raw`(${UNIT_PATTERN})\s*\[\s*(${UNIT_PATTERN})\s*\]`, "gi");
+
+/** A table cell that is exactly a bare dual pair: "65 [450]" */
+const DUAL_CELL = /^(\d+(?:,\d{3})*(?:\.\d+)?)\s*\[\s*(\d+(?:,\d{3})*(?:\.\d+)?)\s*\]$/;
+
+/** Bare dual value pair in a table row: "65 [450]" */
+const DUAL_VALUES = /(\d+(?:,\d{3})*(?:\.\d+)?)\s*\[\s*(\d+(?:,\d{3})*(?:\.\d+)?)\s*\](?!\s*(?:ksi|MPa|psi|°|in\b|mm|J\b|ft))/g;
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * Map a unit as written ("KSI", "ºF", "in", "ft-lbf") to its canonical form.
+ * Returns null for units this module doesn't convert (HRC, %, ...).
+ */
+export function normalizeUnit(raw: string): string | null {
+  const unit = raw.trim().replace(/º/g, "°").replace(/\s+/g, "");
+  const lower = unit.toLowerCase();
+
+  if (lower === "ksi") return "ksi";
+  if (lower === "psi") return "psi";
+  if (lower === "mpa") return "MPa";
+  if (lower === "°f") return "°F";
+  if (lower === "°c") return "°C";
+  if (lower === "in" || lower === "in." || lower === "inch" || lower === "inches" || unit === '"') return "in.";
+  if (lower === "mm") return "mm";
+  if (/^ft[·-]?lbf?$/.test(lower)) return "ft·lbf";
+  if (unit === "J") return "J";
+  return null;
+}
+
+/**
+ * Convert a value between units of the same dimension.
+ * Returns null if either unit is unknown or the dimensions differ.
+ */
+export function convertUnit(value: number, from: string, to: string): number | null {
+  const source = UNITS[normalizeUnit(from) ?? ""];
+  const target = UNITS[normalizeUnit(to) ?? ""];
+  if (!source || !target || source.dimension !== target.dimension) return null;
+  return target.fromBase(source.toBase(value));
+}
+
+/**
+ * True if two quantities are the same value, allowing for the rounding
+ * specs apply to converted values.
+ */
+export function isEquivalent(a: { value: number; unit: string }, b: { value: number; unit: string }): boolean {
+  const converted = convertUnit(b.value, b.unit, a.unit);
+  if (converted === null) return false;
+
+  const difference = Math.abs(a.value - converted);
+  const isTemperature = UNITS[normalizeUnit(a.unit)!].dimension === "temperature";
+  return (
+    difference <= CONVERSION_TOLERANCE * Math.max(Math.abs(a.value), Math.abs(converted)) ||
+    (isTemperature && difference <= TEMPERATURE_TOLERANCE)
+  );
+}
+
+/** Round a converted value to three significant figures (448.2 → 448, 1037.8 → 1040) */
+function roundConverted(value: number): number {
+  return Number(value.toPrecision(3));
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Read convertible quantities out of spec text, including dual notation.
+ *
+ * Explicit units ("65 ksi [450 MPa]") come from extractNumericalValues; bare
+ * table pairs ("65 [450]") take their units from a dual header in the same
+ * text ("ksi [MPa]"), as long as every header in the text agrees.
+ */
+export function extractQuantities(text: string): Quantity[] {
+  const quantities: Quantity[] = [];
+
+  for (const number of extractNumericalValues(text)) {
+    const unit = normalizeUnit(number.unit);
+    if (unit) quantities.push({ value: number.value, unit, original: number.original });
+  }
+
+  const headers = [...text.matchAll(DUAL_HEADER)]
+    .map(([, primary, secondary]) => [normalizeUnit(primary), normalizeUnit(secondary)] as const)
+    .filter(([primary, secondary]) => primary && secondary && UNITS[primary].dimension === UNITS[secondary].dimension);
+  const distinctHeaders = new Set(headers.map(pair => pair.join("|")));
+
+  if (headers.length > 0 && distinctHeaders.size === 1) {
+    const [primary, secondary] = headers[0] as [string, string];
+    for (const match of text.matchAll(DUAL_VALUES)) {
+      quantities.push(
+        { value: parseFloat(match[1].replace(/,/g, "")), unit: primary, original: match[0] },
+        { value: parseFloat(match[2].replace(/,/g, "")), unit: secondary, original: match[0] }
+      );
+    }
+  }
+
+  return quantities;
+}
+
+/**
+ * True if a table cell is a bare dual pair ("65 [450]"), whose units only
+ * its column header can tell.
+ */
+export function isDualCell(cell: string): boolean {
+  return DUAL_CELL.test(cell.trim());
+}
+
+/**
+ * Split a bare dual pair using its column header's unit order.
+ *
+ * @returns Both sides with their units, or null if the cell isn't a pair or
+ *   the header doesn't name both units (which number is which is unknown)
+ *
+ * @example
+ * splitDualCell("65 [450]", "Yield Strength, min, ksi [MPa]") // ["65 ksi", "450 MPa"]
+ * splitDualCell("65 [450]", "Yield Strength, min, ksi")       // null
+ */
+export function splitDualCell(cell: string, header: string): [string, string] | null {
+  const pair = cell.trim().match(DUAL_CELL);
+  const units = header.match(new RegExp(DUAL_HEADER.source, "i"));
+  if (!pair || !units) return null;
+
+  const [primary, secondary] = [normalizeUnit(units[1]), normalizeUnit(units[2])];
+  if (!primary || !secondary || UNITS[primary].dimension !== UNITS[secondary].dimension) return null;
+  return [formatQuantity(parseFloat(pair[1].replace(/,/g, "")), primary), formatQuantity(parseFloat(pair[2].replace(/,/g, "")), secondary)];
+}
+
+// ============================================
+// Presentation
+// ============================================
+
+function formatQuantity(value: number, unit: string): string {
+  return `${value} ${unit}`;
+}
+
+/**
+ * Format one value for a unit preference.
+ *
+ * `quantities` are the printed forms of the same value (e.g. 65 ksi and
+ * 450 MPa from a dual-unit table). A missing side is converted and marked
+ * with "≈" so it's never mistaken for a value printed in the spec.
+ *
+ * @example
+ * presentQuantity([{ value: 65, unit: "ksi" }, { value: 450, unit: "MPa" }], "both") // "65 ksi [450 MPa]"
+ * presentQuantity([{ value: 65, unit: "ksi" }], "si")                               // "≈448 MPa"
+ */
+export function presentQuantity(
+  quantities: Array<{ value: number; unit: string }>,
+  system: UnitSystem
+): string | null {
+  const known = quantities
+    .map(q => ({ value: q.value, unit: normalizeUnit(q.unit) }))
+    .filter((q): q is { value: number; unit: string } => q.unit !== null);
+  if (known.length === 0) return null;
+
+  const inSystem = (target: Exclude<UnitSystem, "both">): string => {
+    const printed = known.find(q => UNITS[q.unit].system === target);
+    if (printed) return formatQuantity(printed.value, printed.unit);
+
+    const source = known[0];
+    const unit = UNITS[source.unit].counterpart;
+    return `≈${formatQuantity(roundConverted(convertUnit(source.value, source.unit, unit)!), unit)}`;
+  };
+
+  if (system === "imperial") return inSystem("imperial");
+  if (system === "si") return inSystem("si");
+
+  // Both: lead with whichever system the spec printed first
+  const lead = UNITS[known[0].unit].system;
+  const other = lead === "imperial" ? "si" : "imperial";
+  return `${inSystem(lead)} [${inSystem(other)}]`;
+}
+
+/**
+ * Prompt instruction for a unit preference.
+ */
+export function unitPreferenceInstruction(system: UnitSystem): string {
+  switch (system) {
+    case "imperial":
+      return `Report values in inch-pound units (ksi, °F, in., ft·lbf). If the context only gives an SI value, convert it and mark the converted value with "≈".`;
+    case "si":
+      return `Report values in SI units (MPa, °C, mm, J). If the context only gives an inch-pound value, convert it and mark the converted value with "≈".`;
+    case "both":
+      return `Report values in both unit systems as printed in the spec, e.g. "65 ksi [450 MPa]". If the context only gives one, add the converted value in brackets marked with "≈".`;
+  }
+}
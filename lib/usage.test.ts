@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextResponse } from 'next/server';
+import { beginUsage, recordModelUsage, UsageMeter, withUsage } from './usage';
+import { supabaseAdmin } from './supabase';
+import { runInWorkspace, type WorkspaceContext } from './workspace';
+import { QUOTA_ALLOWED, QUOTA_EXHAUSTED, rpcCalls, usageRpc } from '../tests/helpers/usage-rpc';
+
+vi.mock('./supabase', () => ({
+  supabaseAdmin: { rpc: vi.fn() },
+  getSupabase: vi.fn(),
+}));
+
+const SESSION: WorkspaceContext = { workspaceId: 'workspace-1', userId: 'user-1', authMethod: 'session' };
+const API_KEY: WorkspaceContext = { ...SESSION, authMethod: 'api_key' };
+
+const rpc = vi.mocked(supabaseAdmin.rpc);
+
+/** Start metering a chat query in the given workspace */
+function beginQuery(workspace: WorkspaceContext = SESSION) {
+  return runInWorkspace(workspace, () => beginUsage('/api/chat', 'query', 'query'));
+}
+
+describe('Usage', () => {
+  beforeEach(() => {
+    rpc.mockReset().mockImplementation(usageRpc({ query: QUOTA_ALLOWED, api_call: QUOTA_ALLOWED }) as never);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('beginUsage', () => {
+    it('should take a unit of the call\'s quota', async () => {
+      const meter = await beginQuery();
+
+      expect(meter).toBeInstanceOf(UsageMeter);
+      expect(rpcCalls(rpc, 'consume_quota')).toEqual([{ p_workspace_id: 'workspace-1', p_quota_type: 'query' }]);
+    });
+
+    it('should also take an api_call unit for API key callers', async () => {
+      await beginQuery(API_KEY);
+
+      expect(rpcCalls(rpc, 'consume_quota').map((params) => params.p_quota_type)).toEqual(['query', 'api_call']);
+    });
+
+    it('should return a 429 QUOTA_EXCEEDED response when the quota is used up', async () => {
+      rpc.mockImplementation(usageRpc({ query: QUOTA_EXHAUSTED }) as never);
+
+      const response = await beginQuery();
+
+      expect(response).toBeInstanceOf(NextResponse);
+      expect((response as NextResponse).status).toBe(429);
+      expect(await (response as NextResponse).json()).toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    });
+
+    it('should give back units already taken when a later quota is exceeded', async () => {
+      rpc.mockImplementation(usageRpc({ query: QUOTA_ALLOWED, api_call: QUOTA_EXHAUSTED }) as never);
+
+      const response = await beginQuery(API_KEY);
+
+      expect((response as NextResponse).status).toBe(429);
+      expect(rpcCalls(rpc, 'release_quota')).toEqual([{ p_workspace_id: 'workspace-1', p_quota_type: 'query' }]);
+    });
+
+    it('should meter workspaces without quotas', async () => {
+      rpc.mockImplementation(usageRpc({}) as never);
+
+      expect(await beginQuery()).toBeInstanceOf(UsageMeter);
+    });
+  });
+
+  describe('UsageMeter', () => {
+    it('should give back the units it took, once', async () => {
+      const meter = (await beginQuery(API_KEY)) as UsageMeter;
+
+      await runInWorkspace(API_KEY, async () => {
+        await meter.release();
+        await meter.release();
+      });
+
+      expect(rpcCalls(rpc, 'release_quota').map((params) => params.p_quota_type)).toEqual(['query', 'api_call']);
+    });
+
+    it('should release nothing for an unmetered workspace', async () => {
+      rpc.mockImplementation(usageRpc({}) as never);
+      const meter = (await beginQuery()) as UsageMeter;
+
+      await runInWorkspace(SESSION, () => meter.release());
+
+      expect(rpcCalls(rpc, 'release_quota')).toEqual([]);
+    });
+
+    it('should record the tokens and cost of model calls made while it runs, once', async () => {
+      const meter = (await beginQuery()) as UsageMeter;
+
+      await runInWorkspace(SESSION, () =>
+        meter.run(async () => {
+          recordModelUsage('Anthropic/claude-sonnet-4-5-20250929', 1_000, 200);
+          recordModelUsage('Anthropic/claude-sonnet-4-5-20250929', 500, 100);
+          await meter.finish({ stream: true });
+          await meter.finish({ stream: true });
+        })
+      );
+
+      expect(rpcCalls(rpc, 'record_usage')).toEqual([
+        expect.objectContaining({
+          p_workspace_id: 'workspace-1',
+          p_user_id: 'user-1',
+          p_endpoint: '/api/chat',
+          p_method: 'query',
+          p_tokens_used: 1_800,
+          p_cost_usd: 0.009,
+          p_metadata: {
+            stream: true,
+            auth_method: 'session',
+            models: {
+              'Anthropic/claude-sonnet-4-5-20250929': {
+                calls: 2,
+                input_tokens: 1_500,
+                output_tokens: 300,
+                cost_usd: expect.closeTo(0.009),
+              },
+            },
+          },
+        }),
+      ]);
+    });
+
+    it('should log instead of throwing when usage can\'t be recorded', async () => {
+      const metering = usageRpc({});
+      rpc.mockImplementation(((name: string, params?: { p_quota_type?: string }) =>
+        name === 'record_usage' ? Promise.reject(new Error('connection refused')) : metering(name, params)) as never);
+      const meter = (await beginQuery()) as UsageMeter;
+
+      await expect(runInWorkspace(SESSION, () => meter.finish())).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('withUsage', () => {
+    it('should give back the quota when the handler fails', async () => {
+      await expect(
+        runInWorkspace(SESSION, () =>
+          withUsage('/api/compliance/mtr', 'query', 'query', async () => {
+            throw new Error('extraction failed');
+          })
+        )
+      ).rejects.toThrow('extraction failed');
+
+      expect(rpcCalls(rpc, 'release_quota')).toEqual([{ p_workspace_id: 'workspace-1', p_quota_type: 'query' }]);
+      expect(rpcCalls(rpc, 'record_usage')[0]).toMatchObject({ p_metadata: { status: 500 } });
+    });
+
+    it('should not run the handler when the quota is used up', async () => {
+      rpc.mockImplementation(usageRpc({ query: QUOTA_EXHAUSTED }) as never);
+      const handler = vi.fn();
+
+      const response = await runInWorkspace(SESSION, () => withUsage('/api/compliance/mtr', 'query', 'query', handler));
+
+      expect(response.status).toBe(429);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Usage Metering & Quotas
+ *
+ * Every metered API call (chat, compare, upload, process) is recorded in
+ * `usage_logs` with the tokens it used per model and an estimated cost, and
+ * checked against the workspace's `usage_quotas` for the billing period.
+ *
+ * Flow:
+ *   const meter = await beginUsage("/api/chat", "query", "query");
+ *   if (meter instanceof NextResponse) return meter;   // QUOTA_EXCEEDED
+ *   return meter.run(async () => { ...; await meter.finish(); });
+ *   // on failure: await meter.release() gives the quota units back
+ *
+ * The meter travels with the request (AsyncLocalStorage, like the workspace
+ * scope), so ModelFallbackClient and the embedding provider record tokens
+ * with recordModelUsage() without every pipeline stage passing it along.
+ *
+ * Quotas are consumed up front by the `consume_quota` RPC (atomic, and rolls
+ * the period over when it has ended). Workspaces without a `usage_quotas` row
+ * are unmetered. API-key callers also consume the `api_call` quota. Units are
+ * given back (`release_quota`) when the call fails or a later quota rejects
+ * it. The RPCs take the workspace as a parameter, so they are service-role
+ * only and called with supabaseAdmin.
+ * See supabase/migrations/add-usage-metering.sql.
+ *
+ * Token counts are estimates (~4 characters per token, as ModelFallbackClient
+ * uses for prompt sizing) and costs use list prices, so reports are for
+ * tracking spend — not invoicing.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "./supabase";
+import { createQuotaExceededError, getErrorStatusCode, type SafeErrorResponse } from "./errors";
+import { currentWorkspace } from "./workspace";
+
+// ============================================
+// Types
+// ============================================
+
+/** Quota a call counts against (usage_quotas columns) */
+export type QuotaKind = "query" | "document" | "api_call";
+
+/** usage_logs.method */
+export type UsageMethod = "query" | "document_upload";
+
+export interface UsageTotals {
+  calls: number;
+  tokens: number;
+  cost_usd: number;
+}
+
+/** GET /api/usage response */
+export interface UsageSummary {
+  plan: string | null;
+  period: { start: string; end: string | null };
+  /** null for unmetered workspaces */
+  quotas: Record<"queries" | "documents" | "api_calls", { used: number; limit: number }> | null;
+  totals: UsageTotals;
+  by_provider: Array<{
+    provider: string;
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+    models: Array<{ model: string } & ModelUsage>;
+  }>;
+  by_endpoint: Array<{ endpoint: string } & UsageTotals>;
+}
+
+export interface ModelUsage {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+/**
+ * List prices in USD per million tokens (input, output), keyed by model ID.
+ * Models not listed (local transformers.js models, free tiers) cost nothing.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "claude-sonnet-4-5-20250929": { input: 3, output: 15 },
+  "claude-haiku-4-5-20251001": { input: 1, output: 5 },
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+  "llama-3.3-70b": { input: 0.85, output: 1.2 },
+  "llama-3.1-8b": { input: 0.1, output: 0.1 },
+  "Meta-Llama-3.3-70B-Instruct": { input: 0.6, output: 1.2 },
+  "meta-llama/llama-3.3-70b-instruct": { input: 0.13, output: 0.4 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "voyage-3-lite": { input: 0.02, output: 0 },
+};
+
+const QUOTA_NAMES: Record<QuotaKind, string> = {
+  query: "queries",
+  document: "document uploads",
+  api_call: "API calls",
+};
+
+/**
+ * Rough token count for text (~4 characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated cost of a call.
+ *
+ * @param model - "Provider/model" as reported by ModelFallbackClient, or a bare model ID
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[model] ?? MODEL_PRICING[model.slice(model.indexOf("/") + 1)];
+  if (!pricing) return 0;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/** Costs are stored and reported to 4 decimal places (usage_logs.cost_usd) */
+function roundCost(cost: number): number {
+  return Number(cost.toFixed(4));
+}
+
+// ============================================
+// Request Meter
+// ============================================
+
+const meterStorage = new AsyncLocalStorage<UsageMeter>();
+
+/**
+ * Token and cost accounting for one API call.
+ */
+export class UsageMeter {
+  private readonly models = new Map<string, ModelUsage>();
+  private finished = false;
+
+  /**
+   * @param quotas - Quota units taken for this call, given back by release()
+   */
+  constructor(
+    private readonly endpoint: string,
+    private readonly method: UsageMethod,
+    private quotas: QuotaKind[] = []
+  ) {}
+
+  /** Run fn with this meter as the request's meter */
+  run<T>(fn: () => T): T {
+    return meterStorage.run(this, fn);
+  }
+
+  record(model: string, inputTokens: number, outputTokens: number): void {
+    const usage = this.models.get(model) ?? { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+    usage.calls++;
+    usage.input_tokens += inputTokens;
+    usage.output_tokens += outputTokens;
+    usage.cost_usd += estimateCost(model, inputTokens, outputTokens);
+    this.models.set(model, usage);
+  }
+
+  /**
+   * Write the usage_logs row. Call once the work is done (for streamed
+   * responses, when the stream completes). Later calls are no-ops; failures
+   * are logged, not thrown — the caller already has their answer.
+   */
+  async finish(metadata: Record<string, unknown> = {}): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const { workspaceId, userId, authMethod } = currentWorkspace();
+    const models = Object.fromEntries(this.models);
+    const usages = [...this.models.values()];
+    const tokens = usages.reduce((sum, usage) => sum + usage.input_tokens + usage.output_tokens, 0);
+    const cost = usages.reduce((sum, usage) => sum + usage.cost_usd, 0);
+
+    try {
+      const { error } = await supabaseAdmin.rpc("record_usage", {
+        p_workspace_id: workspaceId,
+        p_user_id: userId,
+        p_endpoint: this.endpoint,
+        p_method: this.method,
+        p_tokens_used: tokens,
+        p_cost_usd: Number(cost.toFixed(4)),
+        p_metadata: { ...metadata, auth_method: authMethod, models },
+      });
+
+      if (error) {
+        console.error("[Usage] Failed to record usage:", error);
+      }
+    } catch (error) {
+      console.error("[Usage] Failed to record usage:", error);
+    }
+  }
+
+  /**
+   * Give back the quota units taken for this call — when it failed and the
+   * caller got no answer. Later calls are no-ops; failures are logged.
+   */
+  async release(): Promise<void> {
+    const quotas = this.quotas;
+    this.quotas = [];
+    for (const quota of quotas) {
+      await releaseQuota(quota);
+    }
+  }
+}
+
+/**
+ * Record a model call against the current request's meter.
+ * No-op outside a metered request (scripts, health checks).
+ */
+export function recordModelUsage(model: string, inputTokens: number, outputTokens: number = 0): void {
+  meterStorage.getStore()?.record(model, inputTokens, outputTokens);
+}
+
+// ============================================
+// Quotas
+// ============================================
+
+interface QuotaCheck {
+  /** A unit was taken (and must be released if the call fails) */
+  taken: boolean;
+  /** The exhausted quota's limit and reset time, if the call isn't allowed */
+  exceeded: { limit: number; resetsAt: string } | null;
+}
+
+/**
+ * Consume one unit of a workspace quota.
+ * Fails open if the quota can't be checked.
+ */
+async function consumeQuota(workspaceId: string, quota: QuotaKind): Promise<QuotaCheck> {
+  const { data, error } = await supabaseAdmin
+    .rpc("consume_quota", { p_workspace_id: workspaceId, p_quota_type: quota })
+    .maybeSingle<{ allowed: boolean; quota_limit: number; period_end: string }>();
+
+  if (error) {
+    console.error(`[Usage] Quota check failed for ${quota}, allowing:`, error);
+    return { taken: false, exceeded: null };
+  }
+
+  // No usage_quotas row: unmetered workspace
+  if (!data) return { taken: false, exceeded: null };
+  if (data.allowed) return { taken: true, exceeded: null };
+  return { taken: false, exceeded: { limit: data.quota_limit, resetsAt: data.period_end } };
+}
+
+/**
+ * Give back one unit of a quota in the current workspace (see takeQuota).
+ * Failures are logged, not thrown: the caller is already handling an error.
+ */
+export async function releaseQuota(quota: QuotaKind): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("release_quota", {
+    p_workspace_id: currentWorkspace().workspaceId,
+    p_quota_type: quota,
+  });
+
+  if (error) {
+    console.error(`[Usage] Failed to release ${quota} quota:`, error);
+  }
+}
+
+/**
+ * Take one unit of a quota in the current workspace — for calls that count
+ * several units (one per file of a batch upload) on top of beginUsage().
+ * Give it back with releaseQuota() if the work it was taken for fails.
+ *
+ * @returns null if allowed, or the QUOTA_EXCEEDED error
+ */
+export async function takeQuota(quota: QuotaKind): Promise<SafeErrorResponse | null> {
+  const { exceeded } = await consumeQuota(currentWorkspace().workspaceId, quota);
+  return exceeded ? createQuotaExceededError(QUOTA_NAMES[quota], exceeded.limit, exceeded.resetsAt) : null;
+}
+
+/**
+ * Start metering an API call in the current workspace.
+ *
+ * @param endpoint - Route path recorded in usage_logs
+ * @param method - usage_logs.method
+ * @param quota - Quota the call counts against, or null to only record usage
+ * @returns The meter, or a QUOTA_EXCEEDED response to return as-is
+ */
+export async function beginUsage(
+  endpoint: string,
+  method: UsageMethod,
+  quota: QuotaKind | null
+): Promise<UsageMeter | NextResponse> {
+  const { workspaceId, authMethod } = currentWorkspace();
+
+  const quotas: QuotaKind[] = [];
+  if (quota) quotas.push(quota);
+  if (authMethod === "api_key") quotas.push("api_call");
+
+  const taken: QuotaKind[] = [];
+  for (const kind of quotas) {
+    const check = await consumeQuota(workspaceId, kind);
+    if (check.exceeded) {
+      // The call won't run: give back the units already taken for it
+      for (const takenKind of taken) await releaseQuota(takenKind);
+      const error = createQuotaExceededError(QUOTA_NAMES[kind], check.exceeded.limit, check.exceeded.resetsAt);
+      return NextResponse.json(error, { status: getErrorStatusCode("QUOTA_EXCEEDED") });
+    }
+    if (check.taken) taken.push(kind);
+  }
+
+  return new UsageMeter(endpoint, method, taken);
+}
+
+/**
+ * Meter a route handler that finishes its work before returning.
+ * Quota units are given back if it throws or responds with a server error.
+ */
+export async function withUsage(
+  endpoint: string,
+  method: UsageMethod,
+  quota: QuotaKind | null,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const meter = await beginUsage(endpoint, method, quota);
+  if (meter instanceof NextResponse) return meter;
+
+  return meter.run(async () => {
+    try {
+      const response = await handler();
+      if (response.status >= 500) await meter.release();
+      await meter.finish({ status: response.status });
+      return response;
+    } catch (error) {
+      await meter.release();
+      await meter.finish({ status: 500 });
+      throw error;
+    }
+  });
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+interface UsageSummaryRow {
+  quota: {
+    plan: string;
+    queries_limit: number;
+    queries_used: number;
+    documents_limit: number;
+    documents_used: number;
+    api_calls_limit: number;
+    api_calls_used: number;
+    period_start: string;
+    period_end: string;
+  } | null;
+  period_start: string;
+  by_endpoint: Array<{ endpoint: string } & UsageTotals>;
+  by_model: Array<{ model: string } & ModelUsage>;
+}
+
+/**
+ * Quotas and usage for the workspace's current billing period.
+ * Models are grouped by provider ("Claude/claude-sonnet-4-5-..." → "Claude").
+ */
+export async function getUsageSummary(workspaceId: string): Promise<UsageSummary> {
+  const { data, error } = await supabaseAdmin.rpc("get_usage_summary", { p_workspace_id: workspaceId });
+
+  if (error) {
+    console.error("Error loading usage summary:", error);
+    throw new Error(`Database error: ${error.message} (code: ${error.code})`);
+  }
+
+  const summary = data as UsageSummaryRow;
+  const { quota } = summary;
+
+  const providers = new Map<string, UsageSummary["by_provider"][number]>();
+  for (const { model, ...usage } of summary.by_model) {
+    const slash = model.indexOf("/");
+    const name = slash === -1 ? model : model.slice(0, slash);
+    const provider = providers.get(name) ?? {
+      provider: name,
+      calls: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 0,
+      models: [],
+    };
+    provider.calls += usage.calls;
+    provider.input_tokens += usage.input_tokens;
+    provider.output_tokens += usage.output_tokens;
+    provider.cost_usd += usage.cost_usd;
+    provider.models.push({ model: slash === -1 ? model : model.slice(slash + 1), ...usage });
+    providers.set(name, provider);
+  }
+
+  return {
+    plan: quota?.plan ?? null,
+    period: { start: summary.period_start, end: quota?.period_end ?? null },
+    quotas: quota
+      ? {
+          queries: { used: quota.queries_used, limit: quota.queries_limit },
+          documents: { used: quota.documents_used, limit: quota.documents_limit },
+          api_calls: { used: quota.api_calls_used, limit: quota.api_calls_limit },
+        }
+      : null,
+    totals: summary.by_endpoint.reduce(
+      (totals, endpoint) => ({
+        calls: totals.calls + endpoint.calls,
+        tokens: totals.tokens + endpoint.tokens,
+        cost_usd: roundCost(totals.cost_usd + endpoint.cost_usd),
+      }),
+      { calls: 0, tokens: 0, cost_usd: 0 }
+    ),
+    by_provider: [...providers.values()].map((provider) => ({
+      ...provider,
+      cost_usd: roundCost(provider.cost_usd),
+      models: provider.models.map((model) => ({ ...model, cost_usd: roundCost(model.cost_usd) })),
+    })),
+    by_endpoint: summary.by_endpoint,
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { sha256Hex, SHA256_HEX_PATTERN } from './hash';
+
+const ABC_DIGEST = 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+describe('sha256Hex', () => {
+  it('should return the lowercase hex digest of a string', async () => {
+    expect(await sha256Hex('abc')).toBe(ABC_DIGEST);
+    expect(await sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('should hash bytes the same as their UTF-8 text', async () => {
+    const bytes = new TextEncoder().encode('abc');
+
+    expect(await sha256Hex(bytes)).toBe(ABC_DIGEST);
+    expect(await sha256Hex(bytes.buffer)).toBe(ABC_DIGEST);
+  });
+
+  it('should match SHA256_HEX_PATTERN', async () => {
+    expect(SHA256_HEX_PATTERN.test(await sha256Hex('ASTM A790'))).toBe(true);
+    expect(SHA256_HEX_PATTERN.test(ABC_DIGEST.toUpperCase())).toBe(false);
+    expect(SHA256_HEX_PATTERN.test(ABC_DIGEST.slice(1))).toBe(false);
+  });
+});
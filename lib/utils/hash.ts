@@ -0,0 +1,18 @@
+/**
+ * Shared SHA-256 hashing via Web Crypto.
+ * Works in Node, the edge runtime (middleware) and the browser.
+ */
+
+/** Lowercase hex SHA-256 digest: 64 characters */
+export const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * SHA-256 hex digest of a string (UTF-8) or binary data.
+ * @param data - Text or bytes to hash
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(data: string | ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { extractStructuredData, parseSpecificationFromText } from './validation';
+import { A790_CHEMISTRY, A790_HEAT_TREATMENT, a790TensileTable } from '../tests/helpers/spec-fixtures';
+
+const A790_TENSILE = a790TensileTable('S32205');
+
+describe('Specification Parsing', () => {
+  describe('parseSpecificationFromText', () => {
+    it('should read the grade row of a chemical table', () => {
+      const spec = parseSpecificationFromText(A790_CHEMISTRY, 'S32205');
+
+      expect(spec!.chemicalComposition).toEqual({
+        C: '0.030', Mn: '2.00', Cr: '22.0–23.0', Ni: '4.5–6.5', Mo: '3.0–3.5', N: '0.14–0.20',
+      });
+      expect(spec!.unsNumber).toBe('S32205');
+    });
+
+    it('should give dual-unit mechanical values both header units', () => {
+      const spec = parseSpecificationFromText(A790_TENSILE, 'UNS S32205');
+
+      expect(spec!.mechanicalProperties).toEqual({
+        tensileStrength: '95 ksi [655 MPa]',
+        yieldStrength: '65 ksi [450 MPa]',
+        elongation: '25%',
+        hardness: '290 HBW',
+      });
+    });
+
+    it('should skip a dual-unit value whose header gives no units', () => {
+      const spec = parseSpecificationFromText(
+        'UNS Designation | Yield Strength, min | Hardness, max, HBW\nS32205 | 65 [450] | 290',
+        'S32205'
+      );
+
+      expect(spec!.mechanicalProperties).toEqual({ hardness: '290 HBW' });
+    });
+
+    it('should join separate ksi and MPa columns', () => {
+      const spec = parseSpecificationFromText(
+        'Grade | Yield Strength, min, ksi | Yield Strength, min, MPa\nS32205 | 65 | 450',
+        'S32205'
+      );
+
+      expect(spec!.mechanicalProperties.yieldStrength).toBe('65 ksi [450 MPa]');
+    });
+
+    it('should read heat treatment temperature and quench', () => {
+      const spec = parseSpecificationFromText(A790_HEAT_TREATMENT, 'S32205');
+
+      expect(spec!.heatTreatment).toEqual({
+        temperature: '1870–2010 °F [1020–1100 °C]',
+        quenchMethod: 'Rapid cooling in water',
+      });
+    });
+
+    it('should read every table in a multi-table chunk', () => {
+      const spec = parseSpecificationFromText(`${A790_CHEMISTRY}\n\n${A790_TENSILE}`, 'S32205');
+
+      expect(spec!.chemicalComposition.Cr).toBe('22.0–23.0');
+      expect(spec!.mechanicalProperties.yieldStrength).toBe('65 ksi [450 MPa]');
+    });
+
+    it('should return null when no row names the grade', () => {
+      expect(parseSpecificationFromText(A790_TENSILE, 'S32750')).toBeNull();
+      expect(parseSpecificationFromText('Duplex grades are solution annealed.', 'S32205')).toBeNull();
+    });
+  });
+
+  describe('extractStructuredData', () => {
+    it('should merge tables from one document and ignore other documents', async () => {
+      const spec = await extractStructuredData('What are the properties of S32205 per A790?', [
+        { content: A790_CHEMISTRY, document_name: 'ASTM A790.pdf', page_number: 2 },
+        { content: A790_TENSILE.replace('65 [450]', '70 [485]'), document_name: 'ASTM A789.pdf', page_number: 3 },
+        { content: A790_TENSILE, document_name: 'ASTM A790.pdf', page_number: 4 },
+      ]);
+
+      expect(spec).toMatchObject({
+        sourceDocument: 'ASTM A790.pdf',
+        pageNumbers: [2, 4],
+        chemicalComposition: { C: '0.030' },
+        mechanicalProperties: { yieldStrength: '65 ksi [450 MPa]' },
+      });
+    });
+
+    it('should return null when the query names no grade', async () => {
+      const spec = await extractStructuredData('What does A790 cover?', [
+        { content: A790_TENSILE, document_name: 'ASTM A790.pdf', page_number: 4 },
+      ]);
+
+      expect(spec).toBeNull();
+    });
+  });
+});
@@ -3,6 +3,10 @@
  * Ensures zero hallucinations by validating all claims against source documents
  */
 
+import { preprocessQuery } from "./query-preprocessing";
+import { parseSpecTable } from "./spec-tables";
+import { isDualCell, splitDualCell } from "./units";
+
 // ============================================
 // PDF File Validation
 // ============================================
@@ -320,6 +324,7 @@ function extractMatchingText(claim: string, sourceText: string): string {
 export interface MaterialSpecification {
   grade: string;
   unsNumber: string;
+  /** Element symbol → value as printed, e.g. { C: "0.030", Cr: "22.0–23.0" } (wt %) */
   chemicalComposition: Record<string, string>;
   mechanicalProperties: {
     tensileStrength?: string;
@@ -335,37 +340,154 @@ export interface MaterialSpecification {
   pageNumbers: number[];
 }
 
+/**
+ * Build a MaterialSpecification for the grade in the query from retrieved chunks.
+ *
+ * Chemical, tensile and heat-treatment tables are usually separate chunks
+ * (often on different pages), so fields are merged across sources from the
+ * same document. Sources from other documents are ignored once one document
+ * has matched, so A789 values never mix with A790 values.
+ */
 export async function extractStructuredData(
   query: string,
   sources: Array<{ content: string; document_name: string; page_number: number }>
 ): Promise<MaterialSpecification | null> {
   // Extract UNS number or grade from query
-  const unsMatch = query.match(/UNS [A-Z]\d{5}/i);
-  const gradeMatch = query.match(/(?:Grade |F)(\d{2,3}[A-Z]?)/i);
+  const { extractedCodes } = preprocessQuery(query);
+  const unsNumber = extractedCodes.uns?.[0];
+  const grade = extractedCodes.grade?.[0] ?? query.match(/(?:Grade |F)(\d{2,3}[A-Z]?)/i)?.[0];
 
-  if (!unsMatch && !gradeMatch) {
+  if (!unsNumber && !grade) {
     return null;
   }
 
   // Search for specification in sources
+  let merged: MaterialSpecification | null = null;
   for (const source of sources) {
-    const spec = parseSpecificationFromText(source.content, unsMatch?.[0], gradeMatch?.[0]);
-    if (spec) {
-      spec.sourceDocument = source.document_name;
-      spec.pageNumbers = [source.page_number];
-      return spec;
+    if (merged && source.document_name !== merged.sourceDocument) continue;
+
+    const spec = parseSpecificationFromText(source.content, unsNumber, grade);
+    if (!spec) continue;
+
+    if (!merged) {
+      merged = { ...spec, sourceDocument: source.document_name, pageNumbers: [source.page_number] };
+      continue;
+    }
+
+    merged.chemicalComposition = { ...spec.chemicalComposition, ...merged.chemicalComposition };
+    merged.mechanicalProperties = { ...spec.mechanicalProperties, ...merged.mechanicalProperties };
+    merged.heatTreatment ??= spec.heatTreatment;
+    if (!merged.pageNumbers.includes(source.page_number)) {
+      merged.pageNumbers.push(source.page_number);
     }
   }
 
-  return null;
+  return merged;
+}
+
+const SPEC_ELEMENTS: Array<[name: string, symbol: string]> = [
+  ["carbon", "C"], ["manganese", "Mn"], ["phosphorus", "P"], ["sulfur", "S"],
+  ["silicon", "Si"], ["chromium", "Cr"], ["nickel", "Ni"], ["molybdenum", "Mo"],
+  ["nitrogen", "N"], ["copper", "Cu"], ["tungsten", "W"], ["titanium", "Ti"],
+  ["columbium", "Cb"], ["niobium", "Nb"], ["cobalt", "Co"], ["vanadium", "V"],
+];
+
+const MECHANICAL_COLUMNS: Array<[RegExp, keyof MaterialSpecification["mechanicalProperties"]]> = [
+  [/\byield\b/i, "yieldStrength"],
+  [/\btensile\b/i, "tensileStrength"],
+  [/\belongation\b/i, "elongation"],
+  [/\bhardness\b|\bHRC\b|\bHBW?\b|\bHV\b/i, "hardness"],
+];
+
+/** Unit stated in a column header, appended to the value */
+function headerUnit(header: string): string {
+  const unit = header.match(/\b(ksi|MPa|HRC|HBW?|HV)\b|%/i);
+  return unit ? ` ${unit[0]}`.replace(" %", "%") : "";
+}
+
+/**
+ * A cell with its header's units: "65 [450]" under "ksi [MPa]" reads
+ * "65 ksi [450 MPa]". Null for a pair whose header doesn't give both units.
+ */
+function withHeaderUnits(value: string, header: string): string | null {
+  if (!isDualCell(value)) return `${value}${headerUnit(header)}`;
+  const sides = splitDualCell(value, header);
+  return sides && `${sides[0]} [${sides[1]}]`;
 }
 
-function parseSpecificationFromText(
+/**
+ * Parse table rows for one grade out of a chunk of spec text.
+ * Returns null if no table row in the text gives a value for the grade.
+ */
+export function parseSpecificationFromText(
   text: string,
   unsNumber?: string,
   grade?: string
 ): MaterialSpecification | null {
-  // This would implement parsing logic based on the document structure
-  // For now, returning null as placeholder
-  return null;
+  const identifiers = [unsNumber, grade]
+    .filter((id): id is string => !!id)
+    .map(id => id.replace(/^(?:UNS|Grade)\s+/i, "").toUpperCase());
+
+  const spec: MaterialSpecification = {
+    grade: grade ?? "",
+    unsNumber: unsNumber ?? "",
+    chemicalComposition: {},
+    mechanicalProperties: {},
+    sourceDocument: "",
+    pageNumbers: [],
+  };
+  // Each paragraph may hold one table (title, header, rows, footnotes)
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const table = parseSpecTable({ content: paragraph, pageNumber: 0, hasFootnotes: false }, "");
+    if (!table) continue;
+
+    const row = table.rows.find(cells =>
+      cells.length === table.columns.length &&
+      cells.some(cell => identifiers.some(id => new RegExp(`\\b${id}\\b`).test(cell.value.toUpperCase())))
+    );
+    if (!row) continue;
+
+    let temperature: string | undefined;
+    let quenchMethod: string | undefined;
+
+    table.columns.forEach((column, index) => {
+      const header = column.value.trim();
+      const value = row[index].value;
+      if (!value || !/\S/.test(value)) return;
+
+      const element = SPEC_ELEMENTS.find(([name, symbol]) =>
+        header === symbol || new RegExp(`^${name}\\b`, "i").test(header)
+      );
+      if (element && /\d/.test(value)) {
+        spec.chemicalComposition[element[1]] ??= value;
+        return;
+      }
+
+      const mechanical = MECHANICAL_COLUMNS.find(([pattern]) => pattern.test(header));
+      if (mechanical && /\d/.test(value)) {
+        const [, field] = mechanical;
+        const formatted = withHeaderUnits(value, header);
+        if (!formatted) return;
+        // Dual-unit tables have separate ksi and MPa columns
+        spec.mechanicalProperties[field] = spec.mechanicalProperties[field]
+          ? `${spec.mechanicalProperties[field]} [${formatted}]`
+          : formatted;
+        return;
+      }
+
+      if (/\btemperature\b/i.test(header)) temperature ??= value;
+      else if (/\bquench|\bcool/i.test(header)) quenchMethod ??= value;
+    });
+
+    if (temperature) {
+      spec.heatTreatment ??= { temperature, quenchMethod: quenchMethod ?? "" };
+    }
+  }
+
+  const hasData =
+    Object.keys(spec.chemicalComposition).length > 0 ||
+    Object.keys(spec.mechanicalProperties).length > 0 ||
+    !!spec.heatTreatment;
+
+  return hasData ? spec : null;
 }
@@ -1,5 +1,7 @@
-import { supabase } from "./supabase";
+import { supabase, supabaseAdmin } from "./supabase";
 import { getCachedQueryEmbedding } from "./embedding-cache";
+import { getEmbeddingProvider } from "./embeddings";
+import { currentWorkspaceId } from "./workspace";
 
 export interface Chunk {
   id?: number;
@@ -11,6 +13,8 @@ export interface Chunk {
   /** Ending character position within the page for citation highlighting */
   char_offset_end?: number;
   embedding?: number[];
+  /** Model that produced the embedding (vectors from different models aren't comparable) */
+  embedding_model?: string;
 }
 
 export interface SearchResult {
@@ -41,8 +45,14 @@ export interface HybridSearchResult extends SearchResult {
 // Re-export hybrid search types for convenience
 export type { HybridSearchResult as HybridResult } from "./hybrid-search";
 
+/**
+ * Insert chunks into the current workspace.
+ */
 export async function storeChunks(chunks: Chunk[]): Promise<void> {
-  const { error } = await supabase.from("chunks").insert(chunks);
+  const workspaceId = currentWorkspaceId();
+  const { error } = await supabase
+    .from("chunks")
+    .insert(chunks.map((chunk) => ({ ...chunk, workspace_id: workspaceId })));
 
   if (error) {
     console.error("Error storing chunks:", error);
@@ -57,9 +67,12 @@ export async function searchSimilarChunks(
 ): Promise<SearchResult[]> {
   // Use cached embedding for repeat queries
   const embedding = await getCachedQueryEmbedding(query);
+  const { model: embeddingModel } = await getEmbeddingProvider();
 
-  const { data, error } = await supabase.rpc("search_chunks", {
+  const { data, error } = await supabaseAdmin.rpc("search_chunks", {
+    filter_workspace_id: currentWorkspaceId(),
     query_embedding: embedding,
+    filter_embedding_model: embeddingModel,
     match_threshold: matchThreshold,
     match_count: matchCount,
   });
@@ -72,11 +85,17 @@ export async function searchSimilarChunks(
   return data || [];
 }
 
+/**
+ * Fetch a document from the current workspace.
+ *
+ * @returns null if the document doesn't exist or belongs to another workspace
+ */
 export async function getDocumentById(id: number) {
   const { data, error } = await supabase
     .from("documents")
     .select("*")
     .eq("id", id)
+    .eq("workspace_id", currentWorkspaceId())
     .single();
 
   if (error) {
@@ -27,6 +27,8 @@ import {
   type VerificationResult,
   type SourceChunk,
 } from "./claim-verification";
+import { groundClaims } from "./answer-grounding";
+import type { AnswerClaim } from "./api";
 import { getDocumentById } from "./vectorstore";
 import { getModelFallbackClient } from "./model-fallback";
 import { withTimeout, TIMEOUTS } from "./timeout";
@@ -54,6 +56,8 @@ export interface VerifiedResponse {
     claims_total: number;
     warnings: string[];
   };
+  /** Per-claim provenance of the answer text */
+  claims: AnswerClaim[];
   /** Knowledge graph insights (if applicable) */
   knowledge_insights?: string[];
   /** Model used for generation */
@@ -231,6 +235,7 @@ export async function generateVerifiedResponse(
           claims_total: verification.stats.total_claims,
           warnings: [...verification.warnings, guardrail.reason],
         },
+        claims: [],
         knowledge_insights: knowledgeInsights,
         model_used: modelUsed,
         was_regenerated: wasRegenerated,
@@ -302,6 +307,10 @@ function buildFinalResponse(
           warnings: verification.warnings,
         }
       : undefined,
+    claims: groundClaims(
+      structured.answer,
+      chunks.map((chunk, index) => ({ ref: `[${index + 1}]`, content: chunk.content }))
+    ),
     knowledge_insights: knowledgeInsights.length > 0 ? knowledgeInsights : undefined,
     model_used: modelUsed,
     was_regenerated: wasRegenerated,
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import {
+  API_KEY_USER_HEADER,
+  API_KEY_WORKSPACE_HEADER,
+  currentWorkspaceId,
+  resolveWorkspace,
+  runInWorkspace,
+  withWorkspace,
+} from './workspace';
+import { getSupabase } from './supabase';
+
+const getUser = vi.fn();
+const profileQuery = { select: vi.fn(), eq: vi.fn(), single: vi.fn() };
+
+vi.mock('./supabase', () => ({
+  getSupabase: vi.fn(() => ({ auth: { getUser } })),
+}));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: () => profileQuery })),
+}));
+
+const API_KEY = 'sk_' + 'ab'.repeat(32);
+const ACCESS_TOKEN = 'eyJhbGciOiJIUzI1NiJ9.session';
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost:3000/api/chat', { method: 'POST', headers });
+}
+
+/** An API key request as middleware forwards it after verifying the key */
+function verifiedKeyRequest(): Request {
+  return request({
+    authorization: `Bearer ${API_KEY}`,
+    [API_KEY_WORKSPACE_HEADER]: 'key-workspace',
+    [API_KEY_USER_HEADER]: 'key-owner',
+  });
+}
+
+function mockSignedInUser(workspaceId: string | null) {
+  getUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+  profileQuery.single.mockResolvedValue({ data: { workspace_id: workspaceId }, error: null });
+}
+
+describe('Workspace', () => {
+  beforeEach(() => {
+    vi.stubEnv('DEFAULT_WORKSPACE_ID', '');
+    getUser.mockReset();
+    vi.mocked(getSupabase).mockClear();
+    vi.mocked(createClient).mockClear();
+    profileQuery.select.mockReset().mockReturnValue(profileQuery);
+    profileQuery.eq.mockReset().mockReturnValue(profileQuery);
+    profileQuery.single.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('resolveWorkspace', () => {
+    it('should use the workspace of an API key verified by middleware', async () => {
+      vi.stubEnv('DEFAULT_WORKSPACE_ID', 'default-workspace');
+
+      expect(await resolveWorkspace(verifiedKeyRequest())).toEqual({
+        workspaceId: 'key-workspace',
+        userId: 'key-owner',
+        authMethod: 'api_key',
+      });
+      expect(getSupabase).not.toHaveBeenCalled();
+    });
+
+    it('should reject an API key that middleware did not verify', async () => {
+      vi.stubEnv('DEFAULT_WORKSPACE_ID', 'default-workspace');
+
+      expect(await resolveWorkspace(request({ authorization: `Bearer ${API_KEY}` }))).toBeNull();
+    });
+
+    it('should use the signed-in user\'s workspace, reading the profile as the user', async () => {
+      vi.stubEnv('DEFAULT_WORKSPACE_ID', 'default-workspace');
+      mockSignedInUser('user-workspace');
+
+      expect(await resolveWorkspace(request({ authorization: `Bearer ${ACCESS_TOKEN}` }))).toEqual({
+        workspaceId: 'user-workspace',
+        userId: 'user-1',
+        authMethod: 'session',
+      });
+      expect(getUser).toHaveBeenCalledWith(ACCESS_TOKEN);
+      expect(vi.mocked(createClient).mock.calls[0][2]).toMatchObject({
+        global: { headers: { Authorization: `Bearer ${ACCESS_TOKEN}` } },
+      });
+      expect(profileQuery.eq).toHaveBeenCalledWith('id', 'user-1');
+    });
+
+    it('should reject an invalid access token or a user without a workspace', async () => {
+      vi.stubEnv('DEFAULT_WORKSPACE_ID', 'default-workspace');
+      getUser.mockResolvedValueOnce({ data: { user: null }, error: { message: 'invalid JWT' } });
+      expect(await resolveWorkspace(request({ authorization: `Bearer ${ACCESS_TOKEN}` }))).toBeNull();
+
+      mockSignedInUser(null);
+      expect(await resolveWorkspace(request({ authorization: `Bearer ${ACCESS_TOKEN}` }))).toBeNull();
+    });
+
+    it('should fall back to DEFAULT_WORKSPACE_ID without credentials', async () => {
+      vi.stubEnv('DEFAULT_WORKSPACE_ID', 'default-workspace');
+
+      expect(await resolveWorkspace(request())).toEqual({
+        workspaceId: 'default-workspace',
+        userId: null,
+        authMethod: 'default',
+      });
+    });
+
+    it('should return null without credentials or a default workspace', async () => {
+      expect(await resolveWorkspace(request())).toBeNull();
+    });
+  });
+
+  describe('withWorkspace', () => {
+    it('should run the handler inside the resolved workspace', async () => {
+      const response = await withWorkspace(verifiedKeyRequest(), async (workspace) =>
+        Response.json({ workspace: workspace.workspaceId, scoped: currentWorkspaceId() })
+      );
+
+      expect(await response.json()).toEqual({ workspace: 'key-workspace', scoped: 'key-workspace' });
+    });
+
+    it('should return 401 without running the handler when no workspace resolves', async () => {
+      const handler = vi.fn();
+
+      const response = await withWorkspace(request(), handler);
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('currentWorkspaceId', () => {
+    it('should throw outside withWorkspace', () => {
+      expect(() => currentWorkspaceId()).toThrow('No workspace in scope');
+    });
+
+    it('should return the workspace inside runInWorkspace', () => {
+      const workspace = { workspaceId: 'workspace-1', userId: null, authMethod: 'default' as const };
+
+      expect(runInWorkspace(workspace, () => currentWorkspaceId())).toBe('workspace-1');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Workspace Scoping (Multi-Tenancy)
+ *
+ * Every request runs in exactly one workspace. Routes resolve the caller's
+ * workspace and run their handler inside it (withWorkspace); the data layer —
+ * search RPCs, getDocumentById, the document mapper, spec tables and the
+ * query cache — reads it with currentWorkspaceId(). Scoping at the data layer
+ * means a retrieval path can't forget the filter: code that reaches the
+ * database outside a workspace throws instead of searching every tenant.
+ *
+ * Resolution:
+ * 1. `Authorization: Bearer sk_...` → the API key's workspace. Middleware
+ *    validates the key (lib/api-keys.ts) and passes the result on in
+ *    request headers, so the key is checked once per request
+ * 2. `Authorization: Bearer <Supabase access token>` → the user's workspace
+ *    (users.workspace_id, created on signup by migration 003)
+ * 3. No credentials → DEFAULT_WORKSPACE_ID, the shared workspace for
+ *    single-tenant and demo deployments (see add-workspace-scoping.sql)
+ * 4. Otherwise the request is rejected with 401
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { getSupabase } from "./supabase";
+import { getErrorStatusCode } from "./errors";
+import { API_KEY_PREFIX } from "./api-keys";
+
+// ============================================
+// Types
+// ============================================
+
+export interface WorkspaceContext {
+  workspaceId: string;
+  /** Authenticated user (or the API key's owner), or null for the default workspace */
+  userId: string | null;
+  /** How the caller was identified */
+  authMethod: "session" | "api_key" | "default";
+}
+
+const workspaceStorage = new AsyncLocalStorage<WorkspaceContext>();
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Set by middleware on a request whose `sk_` key it verified: the key's
+ * workspace and owner. Middleware strips both from every incoming API request
+ * first, so a client can't supply them.
+ */
+export const API_KEY_WORKSPACE_HEADER = "x-api-key-workspace-id";
+export const API_KEY_USER_HEADER = "x-api-key-user-id";
+
+/**
+ * Bearer token from the Authorization header (API key or access token).
+ */
+export function getBearerToken(request: Request): string | null {
+  return request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+}
+
+/**
+ * Workspace of the API key middleware verified, or null if it didn't verify
+ * one (unknown, revoked or expired key, or a route that takes no keys).
+ */
+function verifiedApiKeyWorkspace(request: Request): WorkspaceContext | null {
+  const workspaceId = request.headers.get(API_KEY_WORKSPACE_HEADER);
+  const userId = request.headers.get(API_KEY_USER_HEADER);
+  return workspaceId && userId ? { workspaceId, userId, authMethod: "api_key" } : null;
+}
+
+/**
+ * Supabase client acting as the signed-in user, so RLS policies apply.
+ */
+export function createUserClient(accessToken: string) {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false },
+  });
+}
+
+/**
+ * Workspace of a Supabase-authenticated user, or null if the token is
+ * invalid or the user has no workspace.
+ */
+async function resolveUserWorkspace(accessToken: string): Promise<WorkspaceContext | null> {
+  const { data: { user }, error } = await getSupabase().auth.getUser(accessToken);
+  if (error || !user) {
+    console.warn("[Workspace] Invalid access token:", error?.message ?? "no user");
+    return null;
+  }
+
+  // Read the profile as the user so the users-table RLS policy applies
+  const { data: profile, error: profileError } = await createUserClient(accessToken)
+    .from("users")
+    .select("workspace_id")
+    .eq("id", user.id)
+    .single();
+
+  if (profileError || !profile?.workspace_id) {
+    console.warn(`[Workspace] User ${user.id} has no workspace`);
+    return null;
+  }
+
+  return { workspaceId: profile.workspace_id, userId: user.id, authMethod: "session" };
+}
+
+/**
+ * Resolve the caller's workspace from the request.
+ *
+ * @returns The workspace, or null if the caller can't be placed in one
+ */
+export async function resolveWorkspace(request: Request): Promise<WorkspaceContext | null> {
+  const bearer = getBearerToken(request);
+
+  if (bearer?.startsWith(API_KEY_PREFIX)) {
+    return verifiedApiKeyWorkspace(request);
+  }
+
+  if (bearer) {
+    return resolveUserWorkspace(bearer);
+  }
+
+  const defaultWorkspaceId = process.env.DEFAULT_WORKSPACE_ID;
+  return defaultWorkspaceId ? { workspaceId: defaultWorkspaceId, userId: null, authMethod: "default" } : null;
+}
+
+// ============================================
+// Request Scope
+// ============================================
+
+/**
+ * Resolve the caller's workspace and run a route handler inside it.
+ * Responds 401 if no workspace can be resolved.
+ *
+ * @example
+ * export async function POST(request: NextRequest) {
+ *   return withWorkspace(request, () => handlePost(request));
+ * }
+ */
+export async function withWorkspace<T extends Response>(
+  request: Request,
+  handler: (workspace: WorkspaceContext) => Promise<T>
+): Promise<T | NextResponse> {
+  const workspace = await resolveWorkspace(request);
+  if (!workspace) {
+    return NextResponse.json(
+      { error: "Authentication required. Sign in or configure a default workspace.", code: "UNAUTHORIZED" },
+      { status: getErrorStatusCode("UNAUTHORIZED") }
+    );
+  }
+  return workspaceStorage.run(workspace, () => handler(workspace));
+}
+
+/**
+ * Run a function inside a workspace (scripts, background work, tests).
+ */
+export function runInWorkspace<T>(workspace: WorkspaceContext, fn: () => T): T {
+  return workspaceStorage.run(workspace, fn);
+}
+
+/**
+ * The current request's workspace.
+ *
+ * @throws if called outside withWorkspace/runInWorkspace — data access must
+ *   never run unscoped
+ */
+export function currentWorkspace(): WorkspaceContext {
+  const workspace = workspaceStorage.getStore();
+  if (!workspace) {
+    throw new Error("No workspace in scope: data access must run inside withWorkspace()");
+  }
+  return workspace;
+}
+
+/**
+ * The current request's workspace ID (see currentWorkspace).
+ */
+export function currentWorkspaceId(): string {
+  return currentWorkspace().workspaceId;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { middleware } from './middleware';
+import { authenticateApiKey } from './lib/api-keys';
+
+vi.mock('./lib/api-keys', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./lib/api-keys')>()),
+  authenticateApiKey: vi.fn(),
+}));
+
+const KEY = 'sk_' + 'ab'.repeat(32);
+
+/** A request header as middleware forwards it to the route */
+function forwardedHeader(response: Response, name: string): string | null {
+  return response.headers.get(`x-middleware-request-${name}`);
+}
+
+function apiRequest(path: string, headers: Record<string, string>, method = 'POST'): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, { method, headers });
+}
+
+describe('middleware', () => {
+  beforeEach(() => {
+    vi.mocked(authenticateApiKey).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should pass a verified key\'s workspace on to the route and skip the CSRF check', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue({ workspaceId: 'workspace-1', userId: 'user-1' });
+
+    const response = await middleware(
+      apiRequest('/api/chat', { authorization: `Bearer ${KEY}`, origin: 'https://erp.example.com' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(authenticateApiKey).toHaveBeenCalledOnce();
+    expect(authenticateApiKey).toHaveBeenCalledWith(KEY);
+    expect(forwardedHeader(response, 'x-api-key-workspace-id')).toBe('workspace-1');
+    expect(forwardedHeader(response, 'x-api-key-user-id')).toBe('user-1');
+  });
+
+  it('should strip workspace headers sent by the client', async () => {
+    const response = await middleware(
+      apiRequest('/api/usage', { 'x-api-key-workspace-id': 'workspace-2', 'x-api-key-user-id': 'user-2' }, 'GET')
+    );
+
+    expect(response.status).toBe(200);
+    expect(forwardedHeader(response, 'x-api-key-workspace-id')).toBeNull();
+    expect(forwardedHeader(response, 'x-api-key-user-id')).toBeNull();
+  });
+
+  it('should treat a revoked key like no key', async () => {
+    vi.mocked(authenticateApiKey).mockResolvedValue(null);
+
+    const response = await middleware(
+      apiRequest('/api/chat', {
+        authorization: `Bearer ${KEY}`,
+        origin: 'https://evil.example.com',
+        'x-api-key-workspace-id': 'workspace-1',
+      })
+    );
+
+    expect(response.status).toBe(403);
+    expect(forwardedHeader(response, 'x-api-key-workspace-id')).toBeNull();
+  });
+
+  it('should not check keys on routes that take none', async () => {
+    const response = await middleware(apiRequest('/api/leads', { authorization: `Bearer ${KEY}` }));
+
+    expect(authenticateApiKey).not.toHaveBeenCalled();
+    expect(forwardedHeader(response, 'x-api-key-workspace-id')).toBeNull();
+  });
+});
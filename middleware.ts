@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { checkRateLimit, getRateLimitHeaders, getClientIp } from './lib/rate-limit';
+import { API_KEY_PREFIX, authenticateApiKey, hashApiKey, type AuthenticatedApiKey } from './lib/api-keys';
+import { API_KEY_USER_HEADER, API_KEY_WORKSPACE_HEADER, getBearerToken } from './lib/workspace';
 
 // Allowed origins for CSRF protection
 const ALLOWED_ORIGINS = [
@@ -18,6 +20,9 @@ const RATE_LIMITED_ROUTES = [
   '/api/documents/upload-url',
   '/api/documents/process',
   '/api/leads',
+  '/api/compliance/mtr',
+  '/api/documents/diff',
+  '/api/keys',
 ];
 
 // API routes that require CSRF protection (POST/PUT/DELETE)
@@ -27,8 +32,36 @@ const CSRF_PROTECTED_ROUTES = [
   '/api/documents/upload-url',
   '/api/documents/process',
   '/api/leads',
+  '/api/compliance/mtr',
 ];
 
+// API routes that authenticate `Bearer sk_...` keys (through withWorkspace).
+// A key is no credential anywhere else, so it earns no CSRF exemption there.
+const API_KEY_ROUTES = [
+  '/api/chat',
+  '/api/documents',
+  '/api/compliance/mtr',
+  '/api/feedback',
+  '/api/usage',
+];
+
+/**
+ * The request's API key with its workspace and owner, if the route accepts
+ * keys and the key is valid (known, active, not expired). Random `sk_` values
+ * count as no key.
+ */
+async function verifyApiKey(
+  request: NextRequest,
+  pathname: string
+): Promise<(AuthenticatedApiKey & { key: string }) | null> {
+  const bearer = getBearerToken(request);
+  if (!bearer?.startsWith(API_KEY_PREFIX) || !API_KEY_ROUTES.some(route => pathname.startsWith(route))) {
+    return null;
+  }
+  const authenticated = await authenticateApiKey(bearer);
+  return authenticated && { ...authenticated, key: bearer };
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   const method = request.method;
@@ -38,16 +71,33 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Only this middleware may tell routes which key it verified
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(API_KEY_WORKSPACE_HEADER);
+  requestHeaders.delete(API_KEY_USER_HEADER);
+  const next = () => NextResponse.next({ request: { headers: requestHeaders } });
+
   // Skip health check
   if (pathname === '/api/health') {
-    return NextResponse.next();
+    return next();
   }
 
   const startTime = Date.now();
   const clientIp = getClientIp(request);
 
+  // Server-to-server callers authenticate with `Authorization: Bearer sk_...`.
+  // Browsers never attach that header to a cross-site request, so requests
+  // with a valid key can't be forged and skip CSRF checks. The key is checked
+  // here, before it earns that exemption or its own rate-limit bucket, and
+  // routes take its workspace from the headers instead of checking it again.
+  const apiKey = await verifyApiKey(request, pathname);
+  if (apiKey) {
+    requestHeaders.set(API_KEY_WORKSPACE_HEADER, apiKey.workspaceId);
+    requestHeaders.set(API_KEY_USER_HEADER, apiKey.userId);
+  }
+
   // CSRF Protection for state-changing methods
-  if (['POST', 'PUT', 'DELETE', 'PATCH'].includes(method)) {
+  if (!apiKey && ['POST', 'PUT', 'DELETE', 'PATCH'].includes(method)) {
     const origin = request.headers.get('origin');
     const referer = request.headers.get('referer');
 
@@ -100,10 +150,12 @@ export async function middleware(request: NextRequest) {
   const shouldRateLimit = RATE_LIMITED_ROUTES.some(route => pathname.startsWith(route));
 
   if (shouldRateLimit) {
-    const rateLimitResult = await checkRateLimit(clientIp, pathname);
+    // Valid key callers are limited per key, not per (often shared) egress IP
+    const clientId = apiKey ? `key:${(await hashApiKey(apiKey.key)).slice(0, 16)}` : clientIp;
+    const rateLimitResult = await checkRateLimit(clientId, pathname);
 
     if (!rateLimitResult.success) {
-      console.warn(`[Middleware] Rate limited - IP: ${clientIp}, Path: ${pathname}`);
+      console.warn(`[Middleware] Rate limited - Client: ${clientId}, Path: ${pathname}`);
       return new NextResponse(
         JSON.stringify({
           error: 'Too many requests. Please try again later.',
@@ -120,7 +172,7 @@ export async function middleware(request: NextRequest) {
     }
 
     // Add rate limit headers to successful requests
-    const response = NextResponse.next();
+    const response = next();
     const headers = getRateLimitHeaders(rateLimitResult);
     for (const [key, value] of Object.entries(headers)) {
       response.headers.set(key, value);
@@ -128,12 +180,12 @@ export async function middleware(request: NextRequest) {
 
     // Log request for monitoring
     const duration = Date.now() - startTime;
-    console.log(`[Middleware] ${method} ${pathname} - IP: ${clientIp}, Duration: ${duration}ms, Remaining: ${rateLimitResult.remaining}`);
+    console.log(`[Middleware] ${method} ${pathname} - Client: ${clientId}, Duration: ${duration}ms, Remaining: ${rateLimitResult.remaining}`);
 
     return response;
   }
 
-  return NextResponse.next();
+  return next();
 }
 
 export const config = {
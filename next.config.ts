@@ -4,6 +4,15 @@ const nextConfig: NextConfig = {
   images: {
     unoptimized: true,
   },
+  // Native ONNX runtime for local embeddings and the Tesseract WebAssembly
+  // worker / native canvas for local OCR must not be bundled
+  serverExternalPackages: [
+    "@huggingface/transformers",
+    "onnxruntime-node",
+    "sharp",
+    "tesseract.js",
+    "@napi-rs/canvas",
+  ],
   // Security headers
   async headers() {
     return [
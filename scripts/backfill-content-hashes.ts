@@ -0,0 +1,124 @@
+/**
+ * Content Hash Backfill Script
+ *
+ * Computes the SHA-256 content_hash (supabase/migrations/add-content-hash.sql)
+ * for documents uploaded before uploads were hashed, so re-uploading an
+ * existing PDF is caught as a duplicate. Reports documents that already
+ * duplicate each other within a workspace — remove those with
+ * DELETE /api/documents/<id> or scripts/dedup-documents.ts.
+ *
+ * Safe to rerun: only documents without a hash are downloaded.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-content-hashes.ts          # Dry run (hash and report, no writes)
+ *   npx tsx scripts/backfill-content-hashes.ts --apply  # Store the hashes
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { sha256Hex } from "../lib/utils/hash";
+
+dotenv.config({ path: path.join(process.cwd(), ".env.local") });
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error("Missing Supabase env vars");
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+async function main() {
+  const dryRun = !process.argv.includes("--apply");
+
+  console.log("=".repeat(70));
+  console.log("  CONTENT HASH BACKFILL");
+  console.log(`  Mode: ${dryRun ? "DRY RUN (use --apply to store hashes)" : "APPLY (will store hashes)"}`);
+  console.log("=".repeat(70));
+  console.log();
+
+  const { data: docs, error: docErr } = await supabase
+    .from("documents")
+    .select("id, filename, storage_path, workspace_id, content_hash")
+    .neq("status", "uploading")
+    .order("id");
+
+  if (docErr || !docs) {
+    console.error("Error:", docErr);
+    return;
+  }
+
+  const missing = docs.filter((doc) => !doc.content_hash);
+  console.log(`  Documents: ${docs.length} (${missing.length} without a hash)`);
+  console.log();
+
+  let stored = 0;
+  let failed = 0;
+
+  for (const doc of missing) {
+    const { data: file, error: downloadErr } = await supabase.storage
+      .from("documents")
+      .download(doc.storage_path);
+
+    if (downloadErr || !file) {
+      console.error(`  Error downloading doc ${doc.id} (${doc.storage_path}):`, downloadErr?.message);
+      failed++;
+      continue;
+    }
+
+    doc.content_hash = await sha256Hex(await file.arrayBuffer());
+
+    if (!dryRun) {
+      const { error: updateErr } = await supabase
+        .from("documents")
+        .update({ content_hash: doc.content_hash })
+        .eq("id", doc.id);
+
+      // 23505: another live document in the workspace already has this hash
+      // (documents_workspace_content_hash_key); it is listed with it below
+      if (updateErr?.code === "23505") {
+        console.log(`  Doc ${doc.id} duplicates a hashed document, hash not stored`);
+        continue;
+      }
+      if (updateErr) {
+        console.error(`  Error updating doc ${doc.id}:`, updateErr);
+        failed++;
+        continue;
+      }
+    }
+    stored++;
+  }
+
+  // Existing duplicates: same workspace, same bytes
+  const groups = new Map<string, typeof docs>();
+  for (const doc of docs) {
+    if (!doc.content_hash) continue;
+    const key = `${doc.workspace_id}:${doc.content_hash}`;
+    groups.set(key, [...(groups.get(key) ?? []), doc]);
+  }
+
+  const duplicateGroups = [...groups.values()].filter((group) => group.length > 1);
+  for (const group of duplicateGroups) {
+    console.log(`  Identical content (${group[0].content_hash!.slice(0, 12)}...):`);
+    for (const doc of group) {
+      console.log(`    ID=${doc.id} ${doc.filename}`);
+    }
+    console.log();
+  }
+
+  console.log("-".repeat(70));
+  console.log(`  ${dryRun ? "Hashed" : "Stored"}:  ${stored}`);
+  console.log(`  Failed:  ${failed}`);
+  console.log(`  Duplicate groups: ${duplicateGroups.length}`);
+
+  if (dryRun && stored > 0) {
+    console.log();
+    console.log("  This was a DRY RUN. To apply, run:");
+    console.log("    npx tsx scripts/backfill-content-hashes.ts --apply");
+  }
+}
+
+main().catch(console.error);
@@ -6,6 +6,14 @@
  *
  * This fixes search noise caused by the same spec being uploaded 4-8 times.
  *
+ * Documents are grouped by spec identity (designation + edition year), so
+ * "ASTM-A790-A790M-24.pdf" and "897102004-ASTM-A790-A790M-24.pdf" are copies,
+ * while A789 2013 and A789 2014 are different editions and both kept — the
+ * document mapper prefers the latest edition at query time.
+ *
+ * Runs with the service role key (SUPABASE_SERVICE_ROLE_KEY): anon can't
+ * delete documents or chunks.
+ *
  * Usage:
  *   npx tsx scripts/dedup-documents.ts          # Dry run (show what would be deleted)
  *   npx tsx scripts/dedup-documents.ts --apply  # Actually delete duplicates
@@ -14,14 +22,15 @@
 import { createClient } from "@supabase/supabase-js";
 import * as dotenv from "dotenv";
 import * as path from "path";
+import { formatEdition, linkEditions, parseSpecIdentity, type SpecIdentity } from "../lib/spec-editions";
 
 dotenv.config({ path: path.join(process.cwd(), ".env.local") });
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
 if (!supabaseUrl || !supabaseKey) {
-  console.error("Missing Supabase env vars");
+  console.error("Missing Supabase env vars (NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)");
   process.exit(1);
 }
 
@@ -35,6 +44,7 @@ interface DocRecord {
   status: string;
   created_at: string;
   chunk_count?: number;
+  identity?: SpecIdentity;
 }
 
 /**
@@ -47,6 +57,14 @@ function normalizeFilename(filename: string): string {
   return filename.trim().toLowerCase();
 }
 
+/**
+ * Duplicate key: spec identity when the edition is known, else the filename.
+ */
+function duplicateKey(doc: DocRecord): string {
+  if (doc.identity?.edition) return formatEdition(doc.identity);
+  return normalizeFilename(doc.filename);
+}
+
 async function main() {
   const dryRun = !process.argv.includes("--apply");
 
@@ -74,12 +92,25 @@ async function main() {
       .select("id", { count: "exact", head: true })
       .eq("document_id", doc.id);
     (doc as DocRecord).chunk_count = count || 0;
+
+    // Spec identity from the filename code and the designation line on the first pages
+    const designation = doc.filename.toUpperCase().match(/A\d{3,4}(?![M\d])/)?.[0];
+    if (designation) {
+      const { data: firstChunks } = await supabase
+        .from("chunks")
+        .select("content")
+        .eq("document_id", doc.id)
+        .order("page_number", { ascending: true })
+        .limit(5);
+      const content = (firstChunks || []).map((c) => c.content).join(" ");
+      (doc as DocRecord).identity = parseSpecIdentity(designation, doc.filename, content);
+    }
   }
 
-  // 3. Group by normalized filename
+  // 3. Group by spec edition (or normalized filename)
   const groups = new Map<string, DocRecord[]>();
   for (const doc of docs as DocRecord[]) {
-    const key = normalizeFilename(doc.filename);
+    const key = duplicateKey(doc);
     if (!groups.has(key)) groups.set(key, []);
     groups.get(key)!.push(doc);
   }
@@ -121,6 +152,21 @@ async function main() {
     console.log();
   }
 
+  // Editions of the same spec are not duplicates — report supersession only
+  const editions = linkEditions(
+    toKeep
+      .filter((doc) => doc.identity?.edition)
+      .map((doc) => ({ documentId: doc.id, filename: doc.filename, ...doc.identity! }))
+  );
+  for (const edition of editions.values()) {
+    if (edition.supersededBy === null) continue;
+    const latest = editions.get(edition.supersededBy)!;
+    console.log(`  ${formatEdition(edition)} (ID=${edition.documentId}) superseded by ${formatEdition(latest)} (ID=${latest.documentId}) — kept`);
+  }
+  if ([...editions.values()].some((edition) => edition.supersededBy !== null)) {
+    console.log();
+  }
+
   console.log("-".repeat(70));
   console.log(`  Unique specs:     ${groups.size}`);
   console.log(`  Documents to keep: ${toKeep.length}`);
@@ -0,0 +1,132 @@
+/**
+ * Chunk Re-embedding Script
+ *
+ * Re-embeds stored chunks with the configured EMBEDDING_PROVIDER — the
+ * migration path when switching between Voyage AI and the local
+ * transformers.js model. Vectors from different models aren't comparable,
+ * so every chunk whose embedding_model differs from the provider's model is
+ * re-embedded and updated in place.
+ *
+ * Runs with the service role key (SUPABASE_SERVICE_ROLE_KEY): anon can't
+ * update chunks.
+ *
+ * Safe to interrupt: progress is recorded per chunk (embedding_model), so a
+ * rerun picks up where it stopped. Search quality is degraded while the
+ * index is mixed — run it before serving queries with the new provider.
+ *
+ * Usage:
+ *   EMBEDDING_PROVIDER=local npx tsx scripts/reembed-chunks.ts          # Dry run (count chunks to re-embed)
+ *   EMBEDDING_PROVIDER=local npx tsx scripts/reembed-chunks.ts --apply  # Re-embed
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import * as dotenv from "dotenv";
+import * as path from "path";
+
+dotenv.config({ path: path.join(process.cwd(), ".env.local") });
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error("Missing Supabase env vars (NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)");
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Chunks fetched and re-embedded per round
+const PAGE_SIZE = 64;
+
+async function main() {
+  const dryRun = !process.argv.includes("--apply");
+
+  // Imported after dotenv so the provider sees .env.local
+  const { generateEmbeddings, getEmbeddingProvider } = await import("../lib/embeddings");
+  const provider = await getEmbeddingProvider();
+
+  console.log("=".repeat(70));
+  console.log("  CHUNK RE-EMBEDDING");
+  console.log(`  Provider: ${provider.name} (${provider.model}, ${provider.dimensions} dims)`);
+  console.log(`  Mode: ${dryRun ? "DRY RUN (use --apply to re-embed)" : "APPLY (will overwrite embeddings)"}`);
+  console.log("=".repeat(70));
+  console.log();
+
+  // Chunks embedded with another model (or never embedded)
+  const staleFilter = `embedding_model.is.null,embedding_model.neq."${provider.model}"`;
+
+  const { count, error: countErr } = await supabase
+    .from("chunks")
+    .select("id", { count: "exact", head: true })
+    .or(staleFilter);
+
+  if (countErr) {
+    console.error("Error:", countErr);
+    return;
+  }
+
+  const total = count || 0;
+  console.log(`  Chunks to re-embed: ${total}`);
+  console.log();
+
+  if (total === 0) {
+    console.log("  All chunks already use this model!");
+    return;
+  }
+
+  if (dryRun) {
+    console.log("  This was a DRY RUN. To apply, run:");
+    console.log("    npx tsx scripts/reembed-chunks.ts --apply");
+    return;
+  }
+
+  let done = 0;
+  let failed = 0;
+  let lastId = 0;
+
+  while (true) {
+    // Keyset pagination: updated chunks drop out of the filter, failed ones are skipped
+    const { data: chunks, error: fetchErr } = await supabase
+      .from("chunks")
+      .select("id, content")
+      .or(staleFilter)
+      .gt("id", lastId)
+      .order("id")
+      .limit(PAGE_SIZE);
+
+    if (fetchErr) {
+      console.error("  Error fetching chunks:", fetchErr);
+      break;
+    }
+    if (!chunks || chunks.length === 0) break;
+    lastId = chunks[chunks.length - 1].id;
+
+    const embeddings = await generateEmbeddings(chunks.map((chunk) => chunk.content));
+
+    for (const [index, chunk] of chunks.entries()) {
+      const { error: updateErr } = await supabase
+        .from("chunks")
+        .update({ embedding: embeddings[index], embedding_model: provider.model })
+        .eq("id", chunk.id);
+
+      if (updateErr) {
+        console.error(`  Error updating chunk ${chunk.id}:`, updateErr);
+        failed++;
+      } else {
+        done++;
+      }
+    }
+
+    console.log(`  Progress: ${done}/${total} chunks (${Math.round((done / total) * 100)}%)`);
+  }
+
+  console.log();
+  console.log("-".repeat(70));
+  console.log(`  Re-embedded: ${done}`);
+  console.log(`  Failed:      ${failed}`);
+  if (failed > 0) {
+    console.log("  Rerun to retry failed chunks.");
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,57 @@
+-- ============================================
+-- CONVERSATIONS — Multi-Turn Chat Sessions
+-- ============================================
+-- Run this in Supabase SQL Editor to add the conversation tables.
+-- Each /api/chat call in a conversation appends a turn, so follow-up
+-- questions like "What about for 2507?" can be rewritten with the spec,
+-- grade and property from earlier turns before retrieval runs.
+--
+-- The API reads and writes these tables with the service role, filtering on
+-- the workspace it resolved for the request. Signed-in users may read their
+-- own workspace's conversations; anon gets no access.
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS conversation_turns (
+  id BIGSERIAL PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  -- What the user typed
+  query TEXT NOT NULL,
+  -- Standalone query actually sent to retrieval (NULL if not rewritten)
+  rewritten_query TEXT,
+  -- Answer context
+  response TEXT NOT NULL,
+  sources JSONB DEFAULT '[]'::jsonb,
+  confidence JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_turns ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON conversations FROM anon;
+REVOKE ALL ON conversation_turns FROM anon;
+
+CREATE POLICY "Workspace members can view conversations" ON conversations
+  FOR SELECT TO authenticated USING (
+    workspace_id IN (SELECT workspace_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Workspace members can view conversation turns" ON conversation_turns
+  FOR SELECT TO authenticated USING (
+    conversation_id IN (
+      SELECT id FROM conversations
+      WHERE workspace_id IN (SELECT workspace_id FROM users WHERE id = auth.uid())
+    )
+  );
+
+-- Index for loading the most recent turns of a conversation
+CREATE INDEX IF NOT EXISTS conversation_turns_conversation_idx
+  ON conversation_turns (conversation_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_workspace_id ON conversations(workspace_id);
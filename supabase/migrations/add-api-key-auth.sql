@@ -0,0 +1,57 @@
+-- Migration: API Key Authentication
+-- Purpose: Let scripts and ERP systems call the API with `Authorization: Bearer sk_...`
+--
+-- Keys are stored in user_api_keys (migration 003) as a SHA-256 hash plus an
+-- 8-character display prefix. The table is only readable by the key's owner,
+-- so the API validates keys through authenticate_api_key(), which returns the
+-- key's workspace without exposing any other rows.
+
+-- ============================================================================
+-- Step 1: Key validation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION authenticate_api_key(p_key_hash text)
+RETURNS TABLE (
+  workspace_id uuid,
+  user_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE user_api_keys k
+  SET last_used_at = NOW()
+  WHERE k.key_hash = p_key_hash
+    AND k.is_active
+    AND (k.expires_at IS NULL OR k.expires_at > NOW())
+  RETURNING k.workspace_id, k.user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION authenticate_api_key(text) TO anon, authenticated;
+
+COMMENT ON FUNCTION authenticate_api_key IS 'Validates an API key hash (active, not expired), records last_used_at and returns the key''s workspace and owner. Returns no row for unknown, revoked or expired keys.';
+
+-- ============================================================================
+-- Step 2: Revocation
+-- ============================================================================
+-- Revoking sets is_active = false (audited by audit_api_key_revoke_trigger).
+-- Owners may only update their own keys, and can't move them to another workspace.
+
+DROP POLICY IF EXISTS "Users can revoke their own API keys" ON user_api_keys;
+CREATE POLICY "Users can revoke their own API keys" ON user_api_keys
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND workspace_id IN (SELECT workspace_id FROM users WHERE id = auth.uid())
+  );
+
+-- Keys now grant workspace access: a user may only create keys for their own workspace
+DROP POLICY IF EXISTS "Users can create their own API keys" ON user_api_keys;
+CREATE POLICY "Users can create their own API keys" ON user_api_keys
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND workspace_id IN (SELECT workspace_id FROM users WHERE id = auth.uid())
+  );
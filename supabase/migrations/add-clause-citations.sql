@@ -0,0 +1,265 @@
+-- Migration: Clause-Level Citations
+-- Purpose: Record the clause, table and footnotes each chunk comes from, so
+-- answers can cite "A790 §7.2" or "Table 2, footnote C" rather than a page
+--
+-- Semantic chunking (lib/semantic-chunking.ts) now notes, for every chunk,
+-- the number of the clause it falls under (the last clause heading or
+-- numbered paragraph before it, e.g. "7.2" or "A1.3") and, for table chunks,
+-- the table identifier ("Table 2") and the footnote letters it contains.
+-- Existing chunks get these when their document is reprocessed.
+
+-- ============================================================================
+-- Step 1: Clause, table and footnote columns
+-- ============================================================================
+
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS clause TEXT;
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS table_ref TEXT;
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS footnote_refs TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE ingestion_chunks ADD COLUMN IF NOT EXISTS clause TEXT;
+ALTER TABLE ingestion_chunks ADD COLUMN IF NOT EXISTS table_ref TEXT;
+ALTER TABLE ingestion_chunks ADD COLUMN IF NOT EXISTS footnote_refs TEXT[];
+
+COMMENT ON COLUMN chunks.clause IS 'Number of the clause the chunk falls under, e.g. 7.2 or A1.3';
+COMMENT ON COLUMN chunks.table_ref IS 'Table chunks: the table identifier, e.g. Table 2';
+COMMENT ON COLUMN chunks.footnote_refs IS 'Table chunks: letters of the table footnotes in the chunk, e.g. {A,C}';
+
+-- ============================================================================
+-- Step 2: Publish clause, table and footnotes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION publish_ingestion_chunks(p_job_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job ingestion_jobs%ROWTYPE;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_job FROM ingestion_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ingestion job % not found', p_job_id;
+  END IF;
+
+  -- Already published by an earlier attempt
+  IF v_job.stage <> 'store' THEN
+    RETURN v_job.chunks_stored;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM ingestion_chunks WHERE job_id = p_job_id AND embedding IS NULL) THEN
+    RAISE EXCEPTION 'Ingestion job % has chunks without embeddings', p_job_id;
+  END IF;
+
+  DELETE FROM chunks WHERE document_id = v_job.document_id;
+
+  INSERT INTO chunks (
+    document_id, workspace_id, content, page_number, char_offset_start, char_offset_end,
+    section_title, chunk_type, has_codes, parent_section, confidence, location,
+    clause, table_ref, footnote_refs, embedding, embedding_model
+  )
+  SELECT
+    v_job.document_id, v_job.workspace_id, s.content, s.page_number, s.char_offset_start, s.char_offset_end,
+    s.section_title, s.chunk_type, s.has_codes, s.parent_section, COALESCE(s.confidence, 0.75),
+    s.location, s.clause, s.table_ref, COALESCE(s.footnote_refs, '{}'), s.embedding, s.embedding_model
+  FROM ingestion_chunks s
+  WHERE s.job_id = p_job_id
+  ORDER BY s.chunk_index;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM ingestion_chunks WHERE job_id = p_job_id;
+
+  UPDATE ingestion_jobs
+  SET stage = 'tables', chunks_stored = v_count, updated_at = NOW()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================================
+-- Step 3: Return clause, table and footnotes from hybrid search
+-- ============================================================================
+-- Same search as add-document-formats.sql, with the chunk's clause, table
+-- and footnotes added to the result (the return type changes, so drop first).
+-- The section boost for "section 5.5" queries now also matches clause numbers,
+-- since chunk section titles rarely include the number
+
+DROP FUNCTION IF EXISTS hybrid_search_chunks(uuid, text, vector(1024), text, int, float, float, bigint[], text[]);
+
+CREATE OR REPLACE FUNCTION hybrid_search_chunks(
+  filter_workspace_id uuid,
+  query_text text,
+  query_embedding vector(1024),
+  filter_embedding_model text,
+  match_count int DEFAULT 10,
+  bm25_weight float DEFAULT 0.3,
+  vector_weight float DEFAULT 0.7,
+  filter_document_ids bigint[] DEFAULT NULL,
+  filter_section_refs text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id bigint,
+  document_id bigint,
+  content text,
+  page_number int,
+  char_offset_start int,
+  char_offset_end int,
+  section_title text,
+  chunk_type text,
+  has_codes boolean,
+  confidence float,
+  location text,
+  clause text,
+  table_ref text,
+  footnote_refs text[],
+  bm25_score float,
+  vector_score float,
+  combined_score float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  -- Detect if query contains property keywords that benefit from table data
+  has_property_keyword boolean;
+  -- Build section regex pattern from refs array
+  section_pattern text;
+BEGIN
+  -- Check for chemical/mechanical property keywords in query
+  has_property_keyword := (
+    query_text ~* '\y(yield|tensile|hardness|carbon|chromium|molybdenum|nitrogen|nickel|composition|chemical|mechanical|elongation|charpy|pren|ferrite|heat treatment|annealing|solution)\y'
+  );
+
+  -- Build section regex: "^(5\.5|1\.4)" from array ['5.5', '1.4']
+  -- Escape dots for regex and anchor to start of section_title
+  IF filter_section_refs IS NOT NULL AND array_length(filter_section_refs, 1) > 0 THEN
+    section_pattern := '^(' || array_to_string(
+      ARRAY(SELECT replace(unnest(filter_section_refs), '.', '\.') ), '|'
+    ) || ')';
+  END IF;
+
+  RETURN QUERY
+  WITH
+  -- BM25-style full-text search
+  bm25_results AS (
+    SELECT
+      c.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.char_offset_start,
+      c.char_offset_end,
+      c.section_title,
+      c.chunk_type,
+      c.has_codes,
+      ts_rank_cd(c.search_vector, plainto_tsquery('english', query_text), 32) AS score
+    FROM chunks c
+    WHERE c.workspace_id = filter_workspace_id
+      AND c.search_vector @@ plainto_tsquery('english', query_text)
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  ),
+  -- Vector similarity search
+  vector_results AS (
+    SELECT
+      c.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.char_offset_start,
+      c.char_offset_end,
+      c.section_title,
+      c.chunk_type,
+      c.has_codes,
+      (1 - (c.embedding <=> query_embedding)) AS score
+    FROM chunks c
+    WHERE c.workspace_id = filter_workspace_id
+      AND c.embedding IS NOT NULL
+      AND c.embedding_model = filter_embedding_model
+      AND (1 - (c.embedding <=> query_embedding)) > 0.3
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  ),
+  -- Combine unique chunk IDs
+  all_chunk_ids AS (
+    SELECT b.id FROM bm25_results b
+    UNION
+    SELECT v.id FROM vector_results v
+  ),
+  -- Score with metadata boosting, property-aware table boost, and section boost
+  scored_results AS (
+    SELECT
+      a.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.char_offset_start,
+      c.char_offset_end,
+      c.section_title,
+      c.chunk_type,
+      c.has_codes,
+      c.confidence::float AS confidence,
+      c.location,
+      c.clause,
+      c.table_ref,
+      c.footnote_refs,
+      COALESCE(b.score, 0)::float AS bm25_score,
+      COALESCE(v.score, 0)::float AS vector_score,
+      (
+        -- Base hybrid score
+        ((bm25_weight * COALESCE(b.score, 0)) + (vector_weight * COALESCE(v.score, 0)))
+        *
+        -- Multiplicative boost for tables on property queries
+        (CASE
+          WHEN c.chunk_type = 'table' AND has_property_keyword THEN 1.25
+          ELSE 1.0
+        END)
+        +
+        -- Additional metadata boosts (additive)
+        (CASE WHEN c.has_codes THEN 0.1 ELSE 0 END) +
+        (CASE WHEN c.chunk_type = 'table' AND NOT has_property_keyword THEN 0.05 ELSE 0 END) +
+        -- Section boost: +0.5 when the chunk's section title or clause (or a
+        -- subclause of it: 5.5 matches 5.5.1, not 5.51) is the requested section
+        (CASE
+          WHEN section_pattern IS NOT NULL
+            AND (
+              (c.section_title IS NOT NULL AND c.section_title ~ section_pattern)
+              OR (c.clause IS NOT NULL AND c.clause ~ (section_pattern || '(\.|$)'))
+            )
+          THEN 0.5
+          ELSE 0
+        END)
+      )::float AS combined_score
+    FROM all_chunk_ids a
+    JOIN chunks c ON c.id = a.id
+    LEFT JOIN bm25_results b ON b.id = a.id
+    LEFT JOIN vector_results v ON v.id = a.id
+  )
+  SELECT
+    sr.id,
+    sr.document_id,
+    sr.content,
+    sr.page_number,
+    sr.char_offset_start,
+    sr.char_offset_end,
+    sr.section_title,
+    sr.chunk_type,
+    sr.has_codes,
+    sr.confidence,
+    sr.location,
+    sr.clause,
+    sr.table_ref,
+    sr.footnote_refs,
+    sr.bm25_score,
+    sr.vector_score,
+    sr.combined_score
+  FROM scored_results sr
+  WHERE sr.combined_score > 0
+  ORDER BY sr.combined_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Service role only, as in add-workspace-scoping.sql (the workspace is a parameter)
+REVOKE EXECUTE ON FUNCTION hybrid_search_chunks FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hybrid_search_chunks TO service_role;
+
+COMMENT ON FUNCTION hybrid_search_chunks IS 'Hybrid search over one workspace''s chunks with property-aware table boosting and section-aware boosting. Returns each chunk''s extraction confidence, citation location (non-PDF documents), clause number and table/footnote identifiers; the section boost also matches clause numbers. filter_workspace_id and filter_embedding_model are required.';
@@ -0,0 +1,25 @@
+-- Migration: Content-Hash Deduplication
+-- Purpose: Stop duplicate uploads before they reach the chunks table
+--
+-- The upload confirm step (app/api/documents/upload/route.ts) stores the
+-- SHA-256 of each PDF. An upload whose hash matches a document already in the
+-- workspace is discarded and the existing documentId returned; clients that
+-- send the hash to /api/documents/upload-url skip the upload entirely.
+--
+-- Existing documents have no hash until backfilled:
+--   npx tsx scripts/backfill-content-hashes.ts --apply
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- One live document per workspace and content: two uploads of the same bytes
+-- confirmed at the same moment can both pass the duplicate lookup, so the
+-- index settles the race (the loser gets a unique violation and is discarded
+-- as a duplicate). Failed documents drop out of the index, matching the
+-- lookup, so a failed upload can be retried. Creating it fails if a workspace
+-- already holds duplicates: remove them first (see the backfill report).
+DROP INDEX IF EXISTS documents_workspace_content_hash_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS documents_workspace_content_hash_key
+  ON documents (workspace_id, content_hash)
+  WHERE content_hash IS NOT NULL AND status IN ('pending', 'processing', 'indexed');
+
+COMMENT ON COLUMN documents.content_hash IS 'SHA-256 hex digest of the stored PDF, computed server-side at upload confirmation. Used to reject duplicate uploads within a workspace.';
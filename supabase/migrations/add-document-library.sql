@@ -0,0 +1,35 @@
+-- Migration: Document Library
+-- Purpose: Display names, tags and deletion for the document management API
+--
+-- GET /api/documents lists a workspace's documents; PATCH /api/documents/<id>
+-- sets display_name and tags; DELETE removes the document, its chunks and
+-- structured tables and the stored PDF; POST /api/documents/<id>/reprocess
+-- replaces its chunks and tables. See lib/document-library.ts.
+
+-- ============================================================================
+-- Step 1: Display name and tags
+-- ============================================================================
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS display_name TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Tag filter: GET /api/documents?tag=...
+CREATE INDEX IF NOT EXISTS documents_tags_idx ON documents USING gin (tags);
+
+-- ============================================================================
+-- Step 2: Deletion goes through the service role
+-- ============================================================================
+-- The API deletes with the service role, filtered to the caller's workspace
+-- (lib/document-library.ts), so anon needs no DELETE access. Drop the
+-- USING (true) policies dedup-migration.sql created: with them, anyone holding
+-- the public anon key could delete every workspace's documents.
+
+DROP POLICY IF EXISTS "Allow anonymous document deletes" ON documents;
+DROP POLICY IF EXISTS "Allow anonymous chunk deletes" ON chunks;
+
+-- ============================================================================
+-- Step 3: Comments
+-- ============================================================================
+
+COMMENT ON COLUMN documents.display_name IS 'User-facing name set via PATCH /api/documents/<id>; NULL shows the filename.';
+COMMENT ON COLUMN documents.tags IS 'Free-form labels for organizing the document library.';
@@ -0,0 +1,21 @@
+-- Migration: Record which embedding model produced each chunk vector
+-- Embeddings can come from Voyage AI (voyage-3-lite, 1024 dims) or a local
+-- transformers.js model (e.g. Xenova/bge-small-en-v1.5, 384 dims). Local
+-- vectors are zero-padded to 1024 dims (cosine similarity is unchanged), so
+-- the embedding column and HNSW index stay as they are.
+--
+-- Vectors from different models are not comparable: the search functions only
+-- score chunks whose embedding_model matches the query's model. After
+-- switching EMBEDDING_PROVIDER, re-embed existing chunks (the script uses
+-- SUPABASE_SERVICE_ROLE_KEY; anon can't update chunks):
+--   npx tsx scripts/reembed-chunks.ts --apply
+
+-- Add embedding_model: existing chunks were embedded with Voyage AI
+ALTER TABLE chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT DEFAULT 'voyage-3-lite';
+UPDATE chunks SET embedding_model = 'voyage-3-lite' WHERE embedding_model IS NULL AND embedding IS NOT NULL;
+
+-- Index for finding chunks that still need re-embedding
+CREATE INDEX IF NOT EXISTS idx_chunks_embedding_model
+ON chunks(embedding_model);
+
+COMMENT ON COLUMN chunks.embedding_model IS 'Embedding model that produced chunks.embedding (vectors from different models are not comparable)';
@@ -0,0 +1,150 @@
+-- Migration: Resumable Ingestion Jobs
+-- Purpose: Checkpoint document processing so long PDFs survive serverless timeouts
+--
+-- POST /api/documents/process used to download, extract, chunk, embed and
+-- store a document in one request. A 300-page spec could outlive the function
+-- timeout and leave the document stuck in "processing". Processing now runs as
+-- an ingestion job that saves a checkpoint after each stage (pages extracted,
+-- chunks created, each embedding batch) and works within a time budget; the
+-- next call resumes from the last checkpoint. See lib/ingestion-jobs.ts.
+
+-- ============================================================================
+-- Step 1: Jobs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  document_id BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  -- Next stage to run: extract → chunk → embed → store → tables → done
+  stage TEXT NOT NULL DEFAULT 'extract' CHECK (stage IN ('extract', 'chunk', 'embed', 'store', 'tables', 'done')),
+  -- Checkpoint: extracted text per page (cleared when the job completes)
+  page_texts JSONB,
+  used_ocr BOOLEAN NOT NULL DEFAULT FALSE,
+  pages_total INT,
+  pages_extracted INT NOT NULL DEFAULT 0,
+  chunks_total INT,
+  chunks_embedded INT NOT NULL DEFAULT 0,
+  embedding_batches_total INT,
+  embedding_batches_completed INT NOT NULL DEFAULT 0,
+  embedding_model TEXT,
+  chunks_stored INT,
+  tables_stored INT,
+  -- Number of requests that have worked on the job
+  attempts INT NOT NULL DEFAULT 0,
+  -- Client-safe error of the failed attempt ({ error, code } as returned by the API)
+  error JSONB,
+  -- A request working on the job holds it until then; an expired lease means
+  -- that request died (timeout) and the next one may resume
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_document_id_idx
+  ON ingestion_jobs (document_id, created_at DESC);
+
+-- At most one unfinished job per document
+CREATE UNIQUE INDEX IF NOT EXISTS ingestion_jobs_active_document_idx
+  ON ingestion_jobs (document_id) WHERE status <> 'completed';
+
+-- ============================================================================
+-- Step 2: Staged chunks
+-- ============================================================================
+-- Chunks wait here while their embeddings are generated batch by batch, so
+-- the document's current chunks stay searchable until the whole set is ready.
+
+CREATE TABLE IF NOT EXISTS ingestion_chunks (
+  job_id BIGINT NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+  chunk_index INT NOT NULL,
+  content TEXT NOT NULL,
+  page_number INT,
+  char_offset_start INT,
+  char_offset_end INT,
+  section_title TEXT,
+  chunk_type TEXT DEFAULT 'text' CHECK (chunk_type IN ('text', 'table', 'list', 'heading')),
+  has_codes BOOLEAN DEFAULT FALSE,
+  parent_section TEXT,
+  -- NULL until its embedding batch completes
+  embedding vector(1024),
+  embedding_model TEXT,
+  PRIMARY KEY (job_id, chunk_index)
+);
+
+-- ============================================================================
+-- Step 3: Publishing staged chunks
+-- ============================================================================
+-- Replaces the document's chunks with the job's staged chunks in one
+-- transaction and advances the job to the tables stage, so a retry after a
+-- lost response can't store them twice.
+
+CREATE OR REPLACE FUNCTION publish_ingestion_chunks(p_job_id bigint)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job ingestion_jobs%ROWTYPE;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_job FROM ingestion_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ingestion job % not found', p_job_id;
+  END IF;
+
+  -- Already published by an earlier attempt
+  IF v_job.stage <> 'store' THEN
+    RETURN v_job.chunks_stored;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM ingestion_chunks WHERE job_id = p_job_id AND embedding IS NULL) THEN
+    RAISE EXCEPTION 'Ingestion job % has chunks without embeddings', p_job_id;
+  END IF;
+
+  DELETE FROM chunks WHERE document_id = v_job.document_id;
+
+  INSERT INTO chunks (
+    document_id, workspace_id, content, page_number, char_offset_start, char_offset_end,
+    section_title, chunk_type, has_codes, parent_section, embedding, embedding_model
+  )
+  SELECT
+    v_job.document_id, v_job.workspace_id, s.content, s.page_number, s.char_offset_start, s.char_offset_end,
+    s.section_title, s.chunk_type, s.has_codes, s.parent_section, s.embedding, s.embedding_model
+  FROM ingestion_chunks s
+  WHERE s.job_id = p_job_id
+  ORDER BY s.chunk_index;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM ingestion_chunks WHERE job_id = p_job_id;
+
+  UPDATE ingestion_jobs
+  SET stage = 'tables', chunks_stored = v_count, updated_at = NOW()
+  WHERE id = p_job_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================================
+-- Step 4: Row Level Security (service role only)
+-- ============================================================================
+-- Jobs hold every page of a document's text and the function rewrites its
+-- chunks, so neither is open to anon or signed-in users. The API works on
+-- jobs with the service role, filtered to the caller's workspace
+-- (lib/ingestion-jobs.ts); with RLS on and no policies, other roles see nothing.
+
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_chunks ENABLE ROW LEVEL SECURITY;
+
+REVOKE EXECUTE ON FUNCTION publish_ingestion_chunks(bigint) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_ingestion_chunks(bigint) TO service_role;
+
+-- ============================================================================
+-- Step 5: Comments
+-- ============================================================================
+
+COMMENT ON TABLE ingestion_jobs IS 'Document processing jobs with per-stage checkpoints; GET /api/documents/<id>/progress reports the latest one.';
+COMMENT ON TABLE ingestion_chunks IS 'Chunks of an unfinished ingestion job, embedded batch by batch before being published to chunks.';
+COMMENT ON FUNCTION publish_ingestion_chunks IS 'Atomically replaces a document''s chunks with its ingestion job''s staged chunks and advances the job to the tables stage.';
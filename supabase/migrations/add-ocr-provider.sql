@@ -0,0 +1,57 @@
+-- Migration: Per-Workspace OCR Provider
+-- Purpose: Let a workspace keep its scanned pages inside the network, and make
+-- OCR resumable
+--
+-- OCR used to always send PDFs to Gemini Vision. Documents that may not leave
+-- the network (e.g. export-controlled specs) can now be OCR'd locally with
+-- Tesseract (lib/local-ocr.ts). The provider is chosen per workspace with the
+-- "ocr_provider" key of workspaces.settings; workspaces without it use the
+-- OCR_PROVIDER environment variable (default "gemini"):
+--
+--   UPDATE workspaces
+--   SET settings = settings || '{"ocr_provider": "tesseract"}'::jsonb
+--   WHERE slug = 'acme';
+--
+-- Local OCR takes seconds a page, so scanned pages are now OCR'd in their own
+-- resumable ingestion stage, a few pages per checkpoint.
+
+-- ============================================================================
+-- Step 1: OCR stage
+-- ============================================================================
+
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_stage_check;
+ALTER TABLE ingestion_jobs ADD CONSTRAINT ingestion_jobs_stage_check
+  CHECK (stage IN ('extract', 'ocr', 'chunk', 'embed', 'store', 'tables', 'done'));
+
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS ocr_pending INT[] NOT NULL DEFAULT '{}';
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS ocr_provider TEXT;
+
+COMMENT ON COLUMN ingestion_jobs.ocr_pending IS 'Page numbers (1-based) still waiting for OCR';
+COMMENT ON COLUMN ingestion_jobs.ocr_provider IS 'OCR provider that read the scanned pages (gemini or tesseract)';
+
+-- ============================================================================
+-- Step 2: Settings lookup
+-- ============================================================================
+-- workspaces is only readable by its signed-in members, so the processing
+-- pipeline reads the setting through this function (works for API-key
+-- callers and the default workspace too). Returns NULL when unset. It takes
+-- any workspace ID, so only the service role may call it.
+
+CREATE OR REPLACE FUNCTION get_workspace_ocr_provider(p_workspace_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT settings->>'ocr_provider' FROM workspaces WHERE id = p_workspace_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_workspace_ocr_provider(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_workspace_ocr_provider(uuid) TO service_role;
+
+-- ============================================================================
+-- Step 3: Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION get_workspace_ocr_provider IS 'The workspace''s OCR provider (settings.ocr_provider: "gemini" or "tesseract"), or NULL to use the deployment default.';
@@ -0,0 +1,51 @@
+-- Migration: Structured Specification Tables
+-- Purpose: Store tables parsed at ingestion (rows, columns, footnote references)
+--
+-- Table chunks are flat text, so chemical and tensile lookups depend on the LLM
+-- reading whitespace-mangled columns. spec_tables keeps the same tables as
+-- structured JSON, keyed by document, page and table title
+-- (e.g. "Table 2 Tensile Requirements"), as a source of truth for answers and
+-- numeric grounding.
+
+-- ============================================================================
+-- Step 1: Create spec_tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS spec_tables (
+  id BIGSERIAL PRIMARY KEY,
+  document_id BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  page_number INT NOT NULL,
+  table_title TEXT NOT NULL,
+  -- Header cells: [{ "value": "Yield Strength, min, ksi", "footnote_refs": ["B"] }]
+  columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Data rows, one array of cells per row (same cell shape as columns)
+  rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Footnote text by reference: [{ "ref": "A", "text": "Maximum, unless..." }]
+  footnotes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Original extracted text, for debugging parse quality
+  raw_content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT spec_tables_document_page_title_key UNIQUE (document_id, page_number, table_title)
+);
+
+-- ============================================================================
+-- Step 2: Indexes
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS spec_tables_document_id_idx
+  ON spec_tables (document_id);
+
+-- Title search ("tensile", "chemical requirements")
+CREATE INDEX IF NOT EXISTS spec_tables_title_idx
+  ON spec_tables USING gin (to_tsvector('english', table_title));
+
+-- ============================================================================
+-- Step 3: Row Level Security (service role only)
+-- ============================================================================
+-- spec_tables has no workspace column, so a row policy can't keep workspaces
+-- apart. The API reads and writes it with the service role, filtered to
+-- documents of the caller's workspace (lib/spec-tables.ts).
+
+ALTER TABLE spec_tables ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON spec_tables FROM anon, authenticated;
@@ -0,0 +1,248 @@
+-- Migration: Usage Metering
+-- Purpose: Record token usage per call in usage_logs and enforce usage_quotas
+--
+-- Migrations 003 and 004 created usage_logs and usage_quotas, but nothing
+-- wrote to them. The API (lib/usage.ts) now consumes a quota unit before each
+-- chat, compare or upload call and logs the tokens and estimated cost of every
+-- metered call. Both tables are reached through the SECURITY DEFINER functions
+-- below, so API-key callers (no Supabase session) can be metered too. The
+-- functions take the workspace as a parameter, so only the service role may
+-- call them: the server resolves the caller's workspace first (lib/usage.ts
+-- uses SUPABASE_SERVICE_ROLE_KEY). Granted to anon, anyone holding the public
+-- key could read or use up another workspace's quota.
+--
+-- Workspaces without a usage_quotas row are unmetered.
+
+-- ============================================================================
+-- Step 1: Billing period rollover
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION roll_over_quota(p_workspace_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE usage_quotas
+  SET
+    queries_used = 0,
+    documents_used = 0,
+    api_calls_used = 0,
+    period_start = NOW(),
+    period_end = NOW() + INTERVAL '1 month'
+  WHERE workspace_id = p_workspace_id
+    AND period_end < NOW();
+END;
+$$;
+
+-- ============================================================================
+-- Step 2: Quota enforcement
+-- ============================================================================
+-- Checks and increments in one UPDATE, so concurrent calls can't both take
+-- the last unit. Returns no row if the workspace has no quota.
+
+CREATE OR REPLACE FUNCTION consume_quota(p_workspace_id uuid, p_quota_type text)
+RETURNS TABLE (
+  allowed boolean,
+  quota_limit integer,
+  quota_used integer,
+  period_end timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_quota_type NOT IN ('query', 'document', 'api_call') THEN
+    RAISE EXCEPTION 'Invalid quota type: %', p_quota_type;
+  END IF;
+
+  PERFORM roll_over_quota(p_workspace_id);
+
+  RETURN QUERY
+  UPDATE usage_quotas q
+  SET
+    queries_used = q.queries_used + (p_quota_type = 'query')::int,
+    documents_used = q.documents_used + (p_quota_type = 'document')::int,
+    api_calls_used = q.api_calls_used + (p_quota_type = 'api_call')::int
+  WHERE q.workspace_id = p_workspace_id
+    AND CASE p_quota_type
+      WHEN 'query' THEN q.queries_used < q.queries_limit
+      WHEN 'document' THEN q.documents_used < q.documents_limit
+      ELSE q.api_calls_used < q.api_calls_limit
+    END
+  RETURNING
+    true,
+    CASE p_quota_type WHEN 'query' THEN q.queries_limit WHEN 'document' THEN q.documents_limit ELSE q.api_calls_limit END,
+    CASE p_quota_type WHEN 'query' THEN q.queries_used WHEN 'document' THEN q.documents_used ELSE q.api_calls_used END,
+    q.period_end;
+
+  IF NOT FOUND THEN
+    -- Limit reached (or no quota row, in which case this returns nothing)
+    RETURN QUERY
+    SELECT
+      false,
+      CASE p_quota_type WHEN 'query' THEN q.queries_limit WHEN 'document' THEN q.documents_limit ELSE q.api_calls_limit END,
+      CASE p_quota_type WHEN 'query' THEN q.queries_used WHEN 'document' THEN q.documents_used ELSE q.api_calls_used END,
+      q.period_end
+    FROM usage_quotas q
+    WHERE q.workspace_id = p_workspace_id;
+  END IF;
+END;
+$$;
+
+-- Gives back a unit taken by consume_quota when the call it was taken for
+-- fails (or a later quota check rejects it). Never goes below zero, so a
+-- release after a period rollover is harmless.
+
+CREATE OR REPLACE FUNCTION release_quota(p_workspace_id uuid, p_quota_type text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_quota_type NOT IN ('query', 'document', 'api_call') THEN
+    RAISE EXCEPTION 'Invalid quota type: %', p_quota_type;
+  END IF;
+
+  UPDATE usage_quotas q
+  SET
+    queries_used = GREATEST(q.queries_used - (p_quota_type = 'query')::int, 0),
+    documents_used = GREATEST(q.documents_used - (p_quota_type = 'document')::int, 0),
+    api_calls_used = GREATEST(q.api_calls_used - (p_quota_type = 'api_call')::int, 0)
+  WHERE q.workspace_id = p_workspace_id;
+END;
+$$;
+
+-- ============================================================================
+-- Step 3: Usage logging
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_usage(
+  p_workspace_id uuid,
+  p_user_id uuid,
+  p_endpoint text,
+  p_method text,
+  p_tokens_used integer,
+  p_cost_usd numeric,
+  p_metadata jsonb
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO usage_logs (workspace_id, user_id, endpoint, method, tokens_used, cost_usd, metadata)
+  VALUES (p_workspace_id, p_user_id, p_endpoint, p_method, p_tokens_used, p_cost_usd, COALESCE(p_metadata, '{}'::jsonb));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_workspace_created_at ON usage_logs(workspace_id, created_at);
+
+-- ============================================================================
+-- Step 4: Usage summary
+-- ============================================================================
+-- Totals for the current billing period (calendar month for unmetered
+-- workspaces), by endpoint and by model. metadata.models is written by
+-- lib/usage.ts: { "<provider>/<model>": { calls, input_tokens, output_tokens, cost_usd } }
+
+CREATE OR REPLACE FUNCTION get_usage_summary(p_workspace_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quota usage_quotas%ROWTYPE;
+  v_has_quota boolean;
+  v_since timestamptz;
+BEGIN
+  PERFORM roll_over_quota(p_workspace_id);
+
+  SELECT * INTO v_quota FROM usage_quotas WHERE workspace_id = p_workspace_id;
+  v_has_quota := FOUND;
+  v_since := CASE WHEN v_has_quota THEN v_quota.period_start ELSE date_trunc('month', NOW()) END;
+
+  RETURN jsonb_build_object(
+    'quota', CASE WHEN v_has_quota THEN to_jsonb(v_quota) - 'id' ELSE NULL END,
+    'period_start', v_since,
+    'by_endpoint', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'endpoint', e.endpoint,
+        'calls', e.calls,
+        'tokens', e.tokens,
+        'cost_usd', e.cost_usd
+      ) ORDER BY e.endpoint)
+      FROM (
+        SELECT l.endpoint, COUNT(*) AS calls, COALESCE(SUM(l.tokens_used), 0) AS tokens, COALESCE(SUM(l.cost_usd), 0) AS cost_usd
+        FROM usage_logs l
+        WHERE l.workspace_id = p_workspace_id AND l.created_at >= v_since
+        GROUP BY l.endpoint
+      ) e
+    ), '[]'::jsonb),
+    'by_model', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'model', m.model,
+        'calls', m.calls,
+        'input_tokens', m.input_tokens,
+        'output_tokens', m.output_tokens,
+        'cost_usd', m.cost_usd
+      ) ORDER BY m.model)
+      FROM (
+        SELECT
+          models.key AS model,
+          SUM((models.value->>'calls')::bigint) AS calls,
+          SUM((models.value->>'input_tokens')::bigint) AS input_tokens,
+          SUM((models.value->>'output_tokens')::bigint) AS output_tokens,
+          SUM((models.value->>'cost_usd')::numeric) AS cost_usd
+        FROM usage_logs l
+        CROSS JOIN LATERAL jsonb_each(COALESCE(l.metadata->'models', '{}'::jsonb)) AS models
+        WHERE l.workspace_id = p_workspace_id AND l.created_at >= v_since
+        GROUP BY models.key
+      ) m
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Step 5: Default workspace
+-- ============================================================================
+-- initialize_free_quota (migration 004) gave the default workspace created by
+-- add-workspace-scoping.sql the free tier (10 queries/month). That workspace
+-- serves single-tenant/demo deployments, so leave it unmetered. Insert a
+-- usage_quotas row for it to enforce limits.
+
+DELETE FROM usage_quotas
+WHERE workspace_id = (SELECT id FROM workspaces WHERE slug = 'default')
+  AND queries_used = 0 AND documents_used = 0 AND api_calls_used = 0;
+
+-- ============================================================================
+-- Step 6: Grant permissions
+-- ============================================================================
+-- Service role only. Functions are executable by PUBLIC by default, and
+-- Supabase also grants new public-schema functions to anon and authenticated,
+-- so revoke from all three.
+
+REVOKE EXECUTE ON FUNCTION roll_over_quota(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_quota(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_quota(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_usage(uuid, uuid, text, text, integer, numeric, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_usage_summary(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION roll_over_quota(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION consume_quota(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION release_quota(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_usage(uuid, uuid, text, text, integer, numeric, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION get_usage_summary(uuid) TO service_role;
+
+-- ============================================================================
+-- Step 7: Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION roll_over_quota IS 'Starts a new billing period for a workspace whose period has ended, resetting its usage counters.';
+COMMENT ON FUNCTION consume_quota IS 'Atomically takes one unit of a workspace quota (query, document or api_call). Returns allowed = false with the limit when it is exhausted, or no row for unmetered workspaces.';
+COMMENT ON FUNCTION release_quota IS 'Gives back one unit of a workspace quota taken by consume_quota, for calls that failed. Never goes below zero.';
+COMMENT ON FUNCTION record_usage IS 'Writes one usage_logs row: tokens and estimated cost of a metered API call, with per-model detail in metadata.models.';
+COMMENT ON FUNCTION get_usage_summary IS 'Quota and current-period usage totals for a workspace, by endpoint and by model.';
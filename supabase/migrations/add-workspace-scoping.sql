@@ -0,0 +1,304 @@
+-- Migration: Workspace Scoping
+-- Purpose: Restrict documents, retrieval and conversations to the caller's workspace
+--
+-- Migration 003 added workspaces and workspace_id columns, but nothing set or
+-- filtered on them: every search ran over every chunk in the database. The API
+-- now resolves a workspace per request (lib/workspace.ts) and the search
+-- functions below require it, so one customer's documents can never surface in
+-- another customer's answers.
+--
+-- Existing rows are moved into a "default" workspace. Point DEFAULT_WORKSPACE_ID
+-- at it to keep single-tenant/demo deployments working without sign-in:
+--   SELECT id FROM workspaces WHERE slug = 'default';
+
+-- ============================================================================
+-- Step 1: Default workspace and backfill
+-- ============================================================================
+
+INSERT INTO workspaces (name, slug, plan)
+VALUES ('Default Workspace', 'default', 'free')
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE documents SET workspace_id = (SELECT id FROM workspaces WHERE slug = 'default')
+WHERE workspace_id IS NULL;
+
+-- Chunks follow their document
+UPDATE chunks c SET workspace_id = d.workspace_id
+FROM documents d
+WHERE c.document_id = d.id AND c.workspace_id IS NULL;
+
+UPDATE feedback SET workspace_id = (SELECT id FROM workspaces WHERE slug = 'default')
+WHERE workspace_id IS NULL;
+
+-- Conversations hold answers built from workspace documents
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+UPDATE conversations SET workspace_id = (SELECT id FROM workspaces WHERE slug = 'default')
+WHERE workspace_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_workspace_id ON conversations(workspace_id);
+
+-- ============================================================================
+-- Step 2: Drop existing functions to change signatures
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS hybrid_search_chunks(text, vector(1024), int, float, float, bigint[], text[]);
+DROP FUNCTION IF EXISTS bm25_search_chunks(text, int, bigint[]);
+DROP FUNCTION IF EXISTS search_chunks(vector(1024), float, int);
+
+-- ============================================================================
+-- Step 3: Recreate with a required workspace filter
+-- ============================================================================
+-- filter_workspace_id has no default: a caller that forgets it gets an error,
+-- and NULL matches no chunks (c.workspace_id = NULL is never true).
+-- filter_embedding_model works the same way for the vector searches: vectors
+-- from different embedding models share chunks.embedding but aren't
+-- comparable, so only chunks embedded by the query's model are scored.
+
+CREATE OR REPLACE FUNCTION hybrid_search_chunks(
+  filter_workspace_id uuid,
+  query_text text,
+  query_embedding vector(1024),
+  filter_embedding_model text,
+  match_count int DEFAULT 10,
+  bm25_weight float DEFAULT 0.3,
+  vector_weight float DEFAULT 0.7,
+  filter_document_ids bigint[] DEFAULT NULL,
+  filter_section_refs text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id bigint,
+  document_id bigint,
+  content text,
+  page_number int,
+  char_offset_start int,
+  char_offset_end int,
+  section_title text,
+  chunk_type text,
+  has_codes boolean,
+  bm25_score float,
+  vector_score float,
+  combined_score float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  -- Detect if query contains property keywords that benefit from table data
+  has_property_keyword boolean;
+  -- Build section regex pattern from refs array
+  section_pattern text;
+BEGIN
+  -- Check for chemical/mechanical property keywords in query
+  has_property_keyword := (
+    query_text ~* '\y(yield|tensile|hardness|carbon|chromium|molybdenum|nitrogen|nickel|composition|chemical|mechanical|elongation|charpy|pren|ferrite|heat treatment|annealing|solution)\y'
+  );
+
+  -- Build section regex: "^(5\.5|1\.4)" from array ['5.5', '1.4']
+  -- Escape dots for regex and anchor to start of section_title
+  IF filter_section_refs IS NOT NULL AND array_length(filter_section_refs, 1) > 0 THEN
+    section_pattern := '^(' || array_to_string(
+      ARRAY(SELECT replace(unnest(filter_section_refs), '.', '\.') ), '|'
+    ) || ')';
+  END IF;
+
+  RETURN QUERY
+  WITH
+  -- BM25-style full-text search
+  bm25_results AS (
+    SELECT
+      c.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.char_offset_start,
+      c.char_offset_end,
+      c.section_title,
+      c.chunk_type,
+      c.has_codes,
+      ts_rank_cd(c.search_vector, plainto_tsquery('english', query_text), 32) AS score
+    FROM chunks c
+    WHERE c.workspace_id = filter_workspace_id
+      AND c.search_vector @@ plainto_tsquery('english', query_text)
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  ),
+  -- Vector similarity search
+  vector_results AS (
+    SELECT
+      c.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.char_offset_start,
+      c.char_offset_end,
+      c.section_title,
+      c.chunk_type,
+      c.has_codes,
+      (1 - (c.embedding <=> query_embedding)) AS score
+    FROM chunks c
+    WHERE c.workspace_id = filter_workspace_id
+      AND c.embedding IS NOT NULL
+      AND c.embedding_model = filter_embedding_model
+      AND (1 - (c.embedding <=> query_embedding)) > 0.3
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  ),
+  -- Combine unique chunk IDs
+  all_chunk_ids AS (
+    SELECT b.id FROM bm25_results b
+    UNION
+    SELECT v.id FROM vector_results v
+  ),
+  -- Score with metadata boosting, property-aware table boost, and section boost
+  scored_results AS (
+    SELECT
+      a.id,
+      c.document_id,
+      c.content,
+      c.page_number,
+      c.char_offset_start,
+      c.char_offset_end,
+      c.section_title,
+      c.chunk_type,
+      c.has_codes,
+      COALESCE(b.score, 0)::float AS bm25_score,
+      COALESCE(v.score, 0)::float AS vector_score,
+      (
+        -- Base hybrid score
+        ((bm25_weight * COALESCE(b.score, 0)) + (vector_weight * COALESCE(v.score, 0)))
+        *
+        -- Multiplicative boost for tables on property queries
+        (CASE
+          WHEN c.chunk_type = 'table' AND has_property_keyword THEN 1.25
+          ELSE 1.0
+        END)
+        +
+        -- Additional metadata boosts (additive)
+        (CASE WHEN c.has_codes THEN 0.1 ELSE 0 END) +
+        (CASE WHEN c.chunk_type = 'table' AND NOT has_property_keyword THEN 0.05 ELSE 0 END) +
+        -- Section title boost: +0.5 when chunk's section matches requested section
+        (CASE
+          WHEN section_pattern IS NOT NULL
+            AND c.section_title IS NOT NULL
+            AND c.section_title ~ section_pattern
+          THEN 0.5
+          ELSE 0
+        END)
+      )::float AS combined_score
+    FROM all_chunk_ids a
+    JOIN chunks c ON c.id = a.id
+    LEFT JOIN bm25_results b ON b.id = a.id
+    LEFT JOIN vector_results v ON v.id = a.id
+  )
+  SELECT
+    sr.id,
+    sr.document_id,
+    sr.content,
+    sr.page_number,
+    sr.char_offset_start,
+    sr.char_offset_end,
+    sr.section_title,
+    sr.chunk_type,
+    sr.has_codes,
+    sr.bm25_score,
+    sr.vector_score,
+    sr.combined_score
+  FROM scored_results sr
+  WHERE sr.combined_score > 0
+  ORDER BY sr.combined_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION bm25_search_chunks(
+  filter_workspace_id uuid,
+  query_text text,
+  match_count int DEFAULT 10,
+  filter_document_ids bigint[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id bigint,
+  document_id bigint,
+  content text,
+  page_number int,
+  score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    ts_rank_cd(c.search_vector, plainto_tsquery('english', query_text), 32)::float AS score
+  FROM chunks c
+  WHERE c.workspace_id = filter_workspace_id
+    AND c.search_vector @@ plainto_tsquery('english', query_text)
+    AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+  ORDER BY score DESC
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_chunks(
+  filter_workspace_id uuid,
+  query_embedding vector(1024),
+  filter_embedding_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 5
+)
+RETURNS TABLE (
+  id bigint,
+  document_id bigint,
+  content text,
+  page_number int,
+  char_offset_start int,
+  char_offset_end int,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    chunks.id,
+    chunks.document_id,
+    chunks.content,
+    chunks.page_number,
+    chunks.char_offset_start,
+    chunks.char_offset_end,
+    1 - (chunks.embedding <=> query_embedding) AS similarity
+  FROM chunks
+  WHERE chunks.workspace_id = filter_workspace_id
+    AND chunks.embedding IS NOT NULL
+    AND chunks.embedding_model = filter_embedding_model
+    AND 1 - (chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- ============================================================================
+-- Step 4: Grant permissions
+-- ============================================================================
+-- The workspace is a parameter, so a caller holding the anon key could pass any
+-- workspace's id. Only the service role (the API, after resolving the workspace
+-- in lib/workspace.ts) may run the searches. Functions are executable by PUBLIC
+-- by default, hence the explicit REVOKE.
+
+REVOKE EXECUTE ON FUNCTION hybrid_search_chunks FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bm25_search_chunks FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search_chunks FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION hybrid_search_chunks TO service_role;
+GRANT EXECUTE ON FUNCTION bm25_search_chunks TO service_role;
+GRANT EXECUTE ON FUNCTION search_chunks TO service_role;
+
+-- ============================================================================
+-- Step 5: Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION hybrid_search_chunks IS 'Hybrid search over one workspace''s chunks with property-aware table boosting and section-aware boosting. filter_workspace_id and filter_embedding_model are required.';
+COMMENT ON FUNCTION bm25_search_chunks IS 'BM25-only search over one workspace''s chunks. filter_workspace_id is required.';
+COMMENT ON FUNCTION search_chunks IS 'Vector search over one workspace''s chunks embedded by filter_embedding_model. filter_workspace_id and filter_embedding_model are required.';
@@ -74,7 +74,8 @@ CREATE TABLE IF NOT EXISTS chunks (
   document_id BIGINT REFERENCES documents(id) ON DELETE CASCADE,
   content TEXT NOT NULL,
   page_number INT,
-  embedding vector(1024), -- Voyage AI voyage-3-lite dimension
+  embedding vector(1024), -- Voyage AI voyage-3-lite dimension (local models are zero-padded)
+  embedding_model TEXT DEFAULT 'voyage-3-lite',
   -- Semantic chunking metadata
   char_offset_start INT,
   char_offset_end INT,
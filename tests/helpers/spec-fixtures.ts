@@ -0,0 +1,29 @@
+/**
+ * ASTM A790 table fixtures shared by the spec parsing, lookup, conflict and
+ * grounding tests, written the way the table detector stores them.
+ */
+
+const A790_TENSILE_ROWS = {
+  S32205: 'S32205 | 95 [655] | 65 [450] | 25 | 290',
+  S32750: 'S32750 | 116 [800] | 80 [550] | 15 | 310',
+};
+
+/** A790 Table 3 with a row for each given grade */
+export function a790TensileTable(...grades: (keyof typeof A790_TENSILE_ROWS)[]): string {
+  return [
+    'TABLE 3 Tensile and Hardness Requirements',
+    'UNS Designation | Tensile Strength, min, ksi [MPa] | Yield Strength, min, ksi [MPa] | Elongation in 2 in. or 50 mm, min, % | Hardness, max, HBW',
+    ...grades.map((grade) => A790_TENSILE_ROWS[grade]),
+  ].join('\n');
+}
+
+export const A790_TENSILE = a790TensileTable('S32205', 'S32750');
+
+export const A790_CHEMISTRY = `TABLE 1 Chemical Requirements
+UNS Designation | Carbon | Manganese | Chromium | Nickel | Molybdenum | Nitrogen
+S31803 | 0.030 | 2.00 | 21.0–23.0 | 4.5–6.5 | 2.5–3.5 | 0.08–0.20
+S32205 | 0.030 | 2.00 | 22.0–23.0 | 4.5–6.5 | 3.0–3.5 | 0.14–0.20`;
+
+export const A790_HEAT_TREATMENT = `TABLE 4 Heat Treatment
+UNS Designation | Temperature | Quenching
+S32205 | 1870–2010 °F [1020–1100 °C] | Rapid cooling in water`;
@@ -0,0 +1,31 @@
+/**
+ * Stand-in for the usage metering RPCs (supabase/migrations/add-usage-metering.sql)
+ * behind a mocked `supabaseAdmin.rpc`, for the usage and chat route tests.
+ */
+
+/** consume_quota row per quota type; quotas not listed are unmetered (no row) */
+export type QuotaRows = Partial<Record<string, { allowed: boolean; quota_limit: number; period_end: string }>>;
+
+/** A quota with room left */
+export const QUOTA_ALLOWED = { allowed: true, quota_limit: 100, period_end: '2026-11-01T00:00:00Z' };
+
+/** A used-up quota */
+export const QUOTA_EXHAUSTED = { allowed: false, quota_limit: 100, period_end: '2026-11-01T00:00:00Z' };
+
+/**
+ * rpc implementation answering consume_quota from `quotas` and every other
+ * RPC (release_quota, record_usage) with success.
+ */
+export function usageRpc(quotas: QuotaRows) {
+  return (name: string, params?: { p_quota_type?: string }) => {
+    if (name === 'consume_quota') {
+      return { maybeSingle: async () => ({ data: quotas[params!.p_quota_type!] ?? null, error: null }) };
+    }
+    return Promise.resolve({ data: null, error: null });
+  };
+}
+
+/** Names and parameters of the RPCs a mocked rpc was called with */
+export function rpcCalls(rpc: { mock: { calls: unknown[][] } }, name: string): Record<string, unknown>[] {
+  return rpc.mock.calls.filter(([called]) => called === name).map(([, params]) => params as Record<string, unknown>);
+}